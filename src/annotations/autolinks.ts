@@ -1,5 +1,6 @@
 'use strict';
 import { ConfigurationChangeEvent, Disposable } from 'vscode';
+import { getMarkdownActionCommand } from '../commands/common';
 import { AutolinkReference, configuration } from '../configuration';
 import { Container } from '../container';
 import { Dates, debug, Iterables, Promises, Strings } from '../system';
@@ -116,7 +117,7 @@ export class Autolinks implements Disposable {
 		footnotes?: Map<number, string>,
 	) {
 		for (const ref of this._references) {
-			if (this.ensureAutolinkCached(ref, issuesOrPullRequests)) {
+			if (this.ensureAutolinkCached(ref, issuesOrPullRequests, remotes?.[0]?.repoPath)) {
 				if (ref.linkify != null) {
 					text = ref.linkify(text, markdown, footnotes);
 				}
@@ -128,7 +129,7 @@ export class Autolinks implements Disposable {
 				if (r.provider === undefined) continue;
 
 				for (const ref of r.provider.autolinks) {
-					if (this.ensureAutolinkCached(ref, issuesOrPullRequests)) {
+					if (this.ensureAutolinkCached(ref, issuesOrPullRequests, r.repoPath)) {
 						if (ref.linkify != null) {
 							text = ref.linkify(text, markdown, footnotes);
 						}
@@ -143,6 +144,7 @@ export class Autolinks implements Disposable {
 	private ensureAutolinkCached(
 		ref: CacheableAutolinkReference | DynamicAutolinkReference,
 		issuesOrPullRequests?: Map<string, IssueOrPullRequest | Promises.CancellationError | undefined>,
+		repoPath?: string,
 	): ref is CacheableAutolinkReference | DynamicAutolinkReference {
 		if (isDynamic(ref)) return true;
 
@@ -190,7 +192,32 @@ export class Autolinks implements Disposable {
 							title += '"';
 						}
 
-						return `[${linkText}](${ref.url.replace(numRegex, num)}${title})`;
+						const url = ref.url.replace(numRegex, num);
+						if (repoPath == null || issue == null || issue instanceof Promises.CancellationError) {
+							return `[${linkText}](${url}${title})`;
+						}
+
+						if (issue.type === 'PullRequest') {
+							return `[${linkText}](${getMarkdownActionCommand('openPullRequest', {
+								pullRequest: { id: num, provider: issue.provider, repoPath: repoPath, url: url },
+							})}${title})`;
+						}
+
+						let link = `[${linkText}](${getMarkdownActionCommand('openIssue', {
+							issue: { id: num, provider: issue.provider, repoPath: repoPath, url: url },
+						})}${title})`;
+						if (Container.actionRunners.has('createBranchFromIssue')) {
+							link += ` [$(git-branch)](${getMarkdownActionCommand('createBranchFromIssue', {
+								issue: {
+									id: num,
+									provider: issue.provider,
+									repoPath: repoPath,
+									title: issue.title,
+									url: url,
+								},
+							})} "Create Branch from Issue ${linkText}")`;
+						}
+						return link;
 					});
 				}
 
@@ -6,19 +6,30 @@ import { Container } from '../container';
 import { GitBlame, GitBlameCommit, GitCommit } from '../git/git';
 import { GitUri } from '../git/gitUri';
 import { Hovers } from '../hovers/hovers';
-import { log } from '../system';
+import { Functions, log } from '../system';
 import { GitDocumentState, TrackedDocument } from '../trackers/gitDocumentTracker';
 
 export abstract class BlameAnnotationProviderBase extends AnnotationProviderBase {
 	protected blame: Promise<GitBlame | undefined>;
 	protected hoverProviderDisposable: Disposable | undefined;
 
-	constructor(editor: TextEditor, trackedDocument: TrackedDocument<GitDocumentState>) {
+	private progressivePaint: Functions.Deferrable<() => void> | undefined;
+	private progressivePaintGeneration = 0;
+
+	constructor(
+		editor: TextEditor,
+		trackedDocument: TrackedDocument<GitDocumentState>,
+		public readonly detectMoves: boolean = false,
+	) {
 		super(editor, trackedDocument);
 
-		this.blame = editor.document.isDirty
-			? Container.git.getBlameForFileContents(this.trackedDocument.uri, editor.document.getText())
-			: Container.git.getBlameForFile(this.trackedDocument.uri);
+		if (editor.document.isDirty) {
+			this.blame = Container.git.getBlameForFileContents(this.trackedDocument.uri, editor.document.getText());
+		} else if (Container.config.advanced.blame.streaming && this.provideProgressiveAnnotation != null) {
+			this.blame = this.getBlameProgressively();
+		} else {
+			this.blame = Container.git.getBlameForFile(this.trackedDocument.uri, { detectMoves: detectMoves });
+		}
 
 		if (editor.document.isDirty) {
 			trackedDocument.setForceDirtyStateChangeOnNextDocumentChange();
@@ -26,6 +37,10 @@ export abstract class BlameAnnotationProviderBase extends AnnotationProviderBase
 	}
 
 	clear() {
+		// Drop any pending or in-flight progressive paint, so it can't put back the decorations being cleared
+		this.progressivePaint?.cancel();
+		this.progressivePaintGeneration++;
+
 		if (this.hoverProviderDisposable != null) {
 			this.hoverProviderDisposable.dispose();
 			this.hoverProviderDisposable = undefined;
@@ -33,9 +48,20 @@ export abstract class BlameAnnotationProviderBase extends AnnotationProviderBase
 		super.clear();
 	}
 
+	dispose() {
+		this.progressivePaint?.cancel();
+		this.progressivePaint = undefined;
+
+		super.dispose();
+	}
+
 	async validate(): Promise<boolean> {
 		const blame = await this.blame;
-		return blame != null && blame.lines.length !== 0;
+		if (blame != null && blame.lines.length !== 0) return true;
+
+		// Remove anything that was painted while the blame was still streaming
+		this.clear();
+		return false;
 	}
 
 	protected async getBlame(): Promise<GitBlame | undefined> {
@@ -45,6 +71,76 @@ export abstract class BlameAnnotationProviderBase extends AnnotationProviderBase
 		return blame;
 	}
 
+	/**
+	 * Paints the annotations for a partial blame, while the blame of the whole file is still streaming
+	 * @param isCurrent Returns `false` once the paint is stale and must not apply its decorations
+	 */
+	protected provideProgressiveAnnotation?(blame: GitBlame, isCurrent: () => boolean): Promise<void>;
+
+	private getBlameProgressively(): Promise<GitBlame | undefined> {
+		let getPartialBlame: (() => GitBlame | undefined) | undefined;
+		let visibleBlame: GitBlame | undefined;
+
+		const paint = Functions.debounce(
+			() => {
+				if (this.progressivePaint !== paint) return;
+
+				const blame = mergePartialBlames(getPartialBlame?.(), visibleBlame);
+				if (blame == null) return;
+
+				const generation = this.progressivePaintGeneration;
+				void this.provideProgressiveAnnotation!(
+					blame,
+					() => this.progressivePaint === paint && this.progressivePaintGeneration === generation,
+				);
+			},
+			250,
+			{ maxWait: 1000 },
+		);
+		this.progressivePaint = paint;
+
+		const promise = Container.git.getBlameForFile(this.trackedDocument.uri, {
+			detectMoves: this.detectMoves,
+			onProgress: snapshot => {
+				if (this.progressivePaint !== paint) return;
+
+				if (getPartialBlame == null) {
+					// Since the whole file is being blamed, blame just the visible lines too, as that is much faster
+					void this.getVisibleBlame().then(blame => {
+						if (blame == null || this.progressivePaint !== paint) return;
+
+						visibleBlame = blame;
+						paint();
+						paint.flush();
+					});
+				}
+
+				getPartialBlame = snapshot;
+				paint();
+			},
+		});
+
+		return promise.finally(() => {
+			if (this.progressivePaint !== paint) return;
+
+			// Stop any partial paint, so it can't overwrite the paint of the completed blame
+			paint.cancel();
+			this.progressivePaint = undefined;
+			this.progressivePaintGeneration++;
+		});
+	}
+
+	private getVisibleBlame() {
+		const ranges = this.editor.visibleRanges;
+		if (ranges.length === 0) return Promise.resolve(undefined);
+
+		return Container.git.getBlameForRange(
+			this.trackedDocument.uri,
+			new Range(ranges[0].start, ranges[ranges.length - 1].end),
+			{ skipCache: true },
+		);
+	}
+
 	@log({ args: false })
 	protected async getComputedHeatmap(blame: GitBlame): Promise<ComputedHeatmap> {
 		const dates: Date[] = [];
@@ -214,3 +310,16 @@ function getRelativeAgeLookupTable(dates: Date[]) {
 
 	return lookup;
 }
+
+function mergePartialBlames(partial: GitBlame | undefined, visible: GitBlame | undefined): GitBlame | undefined {
+	if (partial == null || visible == null) return partial ?? visible;
+
+	const blamed = new Set(partial.lines.map(l => l.line));
+	const lines = [...partial.lines, ...visible.lines.filter(l => !blamed.has(l.line))].sort((a, b) => a.line - b.line);
+
+	return {
+		...partial,
+		commits: new Map([...visible.commits, ...partial.commits]),
+		lines: lines,
+	};
+}
@@ -0,0 +1,74 @@
+'use strict';
+import { GitUri } from '../git/gitUri';
+
+export interface BlameBreadcrumb {
+	readonly uri: GitUri;
+	// editor lines are 0-based
+	readonly line: number;
+	/** Specifies whether the blame should follow lines which were moved or copied */
+	readonly detectMoves?: boolean;
+}
+
+const maxEntries = 50;
+
+interface BlameBreadcrumbTrail {
+	entries: BlameBreadcrumb[];
+}
+
+export class BlameBreadcrumbs {
+	private readonly _trails = new Map<string, BlameBreadcrumbTrail>();
+
+	back(uri: GitUri): BlameBreadcrumb | undefined {
+		const [trail, index] = this.find(uri);
+		if (trail == null || index <= 0) return undefined;
+
+		return trail.entries[index - 1];
+	}
+
+	forward(uri: GitUri): BlameBreadcrumb | undefined {
+		const [trail, index] = this.find(uri);
+		if (trail == null || index === -1) return undefined;
+
+		return trail.entries[index + 1];
+	}
+
+	push(from: BlameBreadcrumb, to: BlameBreadcrumb) {
+		const [current, index] = this.find(from.uri);
+
+		let trail = current;
+		if (trail == null || index === -1) {
+			trail = { entries: [] };
+		} else {
+			// Going somewhere new drops everything we could have gone forward to
+			for (const entry of trail.entries.splice(index)) {
+				this._trails.delete(getKey(entry.uri));
+			}
+		}
+
+		// Replace the current entry, so that going back returns to the line we were on
+		trail.entries.push(from, to);
+
+		// Only keep the most recent entries, so the trails can't grow without limit
+		if (trail.entries.length > maxEntries) {
+			for (const entry of trail.entries.splice(0, trail.entries.length - maxEntries)) {
+				this._trails.delete(getKey(entry.uri));
+			}
+		}
+
+		this._trails.set(getKey(from.uri), trail);
+		this._trails.set(getKey(to.uri), trail);
+	}
+
+	private find(uri: GitUri): [BlameBreadcrumbTrail | undefined, number] {
+		const key = getKey(uri);
+
+		const trail = this._trails.get(key);
+		if (trail == null) return [undefined, -1];
+
+		return [trail, trail.entries.findIndex(e => getKey(e.uri) === key)];
+	}
+}
+
+function getKey(uri: GitUri) {
+	return `${uri.sha ?? ''}:${uri.fsPath}`;
+}
@@ -19,6 +19,8 @@ import {
 	workspace,
 } from 'vscode';
 import { AnnotationProviderBase, AnnotationStatus, TextEditorCorrelationKey } from './annotationProvider';
+import { BlameAnnotationProviderBase } from './blameAnnotationProvider';
+import { BlameBreadcrumbs } from './blameBreadcrumbs';
 import {
 	AnnotationsToggleMode,
 	BlameHighlightLocations,
@@ -31,6 +33,7 @@ import { Container } from '../container';
 import { GutterBlameAnnotationProvider } from './gutterBlameAnnotationProvider';
 import { GutterChangesAnnotationProvider } from './gutterChangesAnnotationProvider';
 import { GutterHeatmapBlameAnnotationProvider } from './gutterHeatmapBlameAnnotationProvider';
+import { GutterOwnershipBlameAnnotationProvider } from './gutterOwnershipBlameAnnotationProvider';
 import { KeyboardScope } from '../keyboard';
 import { Logger } from '../logger';
 import { Functions, Iterables } from '../system';
@@ -66,6 +69,8 @@ export class FileAnnotationController implements Disposable {
 		return this._onDidToggleAnnotations.event;
 	}
 
+	readonly blameBreadcrumbs = new BlameBreadcrumbs();
+
 	private _annotationsDisposable: Disposable | undefined;
 	private _annotationProviders = new Map<TextEditorCorrelationKey, AnnotationProviderBase>();
 	private _disposable: Disposable;
@@ -207,6 +212,13 @@ export class FileAnnotationController implements Disposable {
 			}
 		}
 
+		if (configuration.changed(e, 'ownership', 'toggleMode')) {
+			this._toggleModes.set(FileAnnotationType.Ownership, cfg.ownership.toggleMode);
+			if (!initializing && cfg.ownership.toggleMode === AnnotationsToggleMode.File) {
+				void this.clearAll();
+			}
+		}
+
 		if (initializing) return;
 
 		if (
@@ -214,6 +226,7 @@ export class FileAnnotationController implements Disposable {
 			configuration.changed(e, 'changes') ||
 			configuration.changed(e, 'heatmap') ||
 			configuration.changed(e, 'hovers') ||
+			configuration.changed(e, 'ownership') ||
 			configuration.changed(e, 'defaultDateFormat') ||
 			configuration.changed(e, 'defaultDateSource') ||
 			configuration.changed(e, 'defaultDateStyle') ||
@@ -351,6 +364,7 @@ export class FileAnnotationController implements Disposable {
 		editor: TextEditor | undefined,
 		type: FileAnnotationType,
 		shaOrLine?: string | number,
+		options?: { detectMoves?: boolean },
 	): Promise<boolean> {
 		if (this.getToggleMode(type) === AnnotationsToggleMode.Window) {
 			let first = this._annotationType == null;
@@ -381,7 +395,12 @@ export class FileAnnotationController implements Disposable {
 		if (!trackedDocument.isBlameable) return false;
 
 		const currentProvider = this.getProvider(editor);
-		if (currentProvider?.annotationType === type) {
+		if (
+			currentProvider?.annotationType === type &&
+			(options?.detectMoves == null ||
+				!(currentProvider instanceof BlameAnnotationProviderBase) ||
+				currentProvider.detectMoves === options.detectMoves)
+		) {
 			await currentProvider.provideAnnotation(shaOrLine);
 			await currentProvider.selection(shaOrLine);
 			return true;
@@ -398,6 +417,7 @@ export class FileAnnotationController implements Disposable {
 					type,
 					shaOrLine,
 					progress,
+					options,
 				);
 				const provider = await computingAnnotations;
 
@@ -497,6 +517,7 @@ export class FileAnnotationController implements Disposable {
 		type: FileAnnotationType,
 		shaOrLine?: string | number,
 		progress?: Progress<{ message: string }>,
+		options?: { detectMoves?: boolean },
 	): Promise<AnnotationProviderBase | undefined> {
 		if (progress != null) {
 			let annotationsLabel = 'annotations';
@@ -512,6 +533,10 @@ export class FileAnnotationController implements Disposable {
 				case FileAnnotationType.Heatmap:
 					annotationsLabel = 'heatmap annotations';
 					break;
+
+				case FileAnnotationType.Ownership:
+					annotationsLabel = 'ownership annotations';
+					break;
 			}
 
 			progress.report({
@@ -527,7 +552,7 @@ export class FileAnnotationController implements Disposable {
 		let provider: AnnotationProviderBase | undefined = undefined;
 		switch (type) {
 			case FileAnnotationType.Blame:
-				provider = new GutterBlameAnnotationProvider(editor, trackedDocument);
+				provider = new GutterBlameAnnotationProvider(editor, trackedDocument, options?.detectMoves);
 				break;
 
 			case FileAnnotationType.Changes:
@@ -537,6 +562,10 @@ export class FileAnnotationController implements Disposable {
 			case FileAnnotationType.Heatmap:
 				provider = new GutterHeatmapBlameAnnotationProvider(editor, trackedDocument);
 				break;
+
+			case FileAnnotationType.Ownership:
+				provider = new GutterOwnershipBlameAnnotationProvider(editor, trackedDocument);
+				break;
 		}
 		if (provider == null || !(await provider.validate())) return undefined;
 
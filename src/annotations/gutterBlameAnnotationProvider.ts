@@ -7,7 +7,7 @@ import { GlyphChars } from '../constants';
 import { Container } from '../container';
 import { Decorations } from './fileAnnotationController';
 import { CommitFormatOptions, CommitFormatter, GitBlame, GitBlameCommit } from '../git/git';
-import { Logger } from '../logger';
+import { LogCorrelationContext, Logger } from '../logger';
 import { Arrays, Iterables, log, Strings } from '../system';
 
 export class GutterBlameAnnotationProvider extends BlameAnnotationProviderBase {
@@ -30,6 +30,24 @@ export class GutterBlameAnnotationProvider extends BlameAnnotationProviderBase {
 		const blame = await this.getBlame();
 		if (blame == null) return false;
 
+		await this.provideAnnotationCore(blame, cc);
+
+		this.registerHoverProviders(Container.config.hovers.annotations);
+		return true;
+	}
+
+	@log({ args: false })
+	protected async provideProgressiveAnnotation(blame: GitBlame, isCurrent: () => boolean): Promise<void> {
+		const cc = Logger.getCorrelationContext();
+
+		await this.provideAnnotationCore(blame, cc, isCurrent);
+	}
+
+	private async provideAnnotationCore(
+		blame: GitBlame,
+		cc: LogCorrelationContext | undefined,
+		isCurrent?: () => boolean,
+	) {
 		let start = process.hrtime();
 
 		const cfg = Container.config.blame;
@@ -78,6 +96,8 @@ export class GutterBlameAnnotationProvider extends BlameAnnotationProviderBase {
 			computedHeatmap = await this.getComputedHeatmap(blame);
 		}
 
+		const ignoreRevs = await Container.git.getBlameIgnoreRevs(blame.repoPath);
+
 		for (const l of blame.lines) {
 			// editor lines are 0-based
 			const editorLine = l.line - 1;
@@ -139,6 +159,12 @@ export class GutterBlameAnnotationProvider extends BlameAnnotationProviderBase {
 				Annotations.applyHeatmap(gutter, commit.date, computedHeatmap);
 			}
 
+			// Mark the lines which blame couldn't pass through an ignored revision (like `git blame` does with a `*`)
+			if (ignoreRevs?.shas.has(commit.sha)) {
+				const before = gutter.renderOptions!.before!;
+				before.contentText = `${GlyphChars.Asterisk}${before.contentText!}`;
+			}
+
 			gutter.range = new Range(editorLine, 0, editorLine, 0);
 
 			decorationOptions.push(gutter);
@@ -152,6 +178,12 @@ export class GutterBlameAnnotationProvider extends BlameAnnotationProviderBase {
 
 		Logger.log(cc, `${Strings.getDurationMilliseconds(start)} ms to compute gutter blame annotations`);
 
+		if (isCurrent?.() === false) {
+			Logger.log(cc, 'Skipped applying stale gutter blame annotations');
+
+			return;
+		}
+
 		if (decorationOptions.length) {
 			start = process.hrtime();
 
@@ -161,9 +193,6 @@ export class GutterBlameAnnotationProvider extends BlameAnnotationProviderBase {
 
 			Logger.log(cc, `${Strings.getDurationMilliseconds(start)} ms to apply all gutter blame annotations`);
 		}
-
-		this.registerHoverProviders(Container.config.hovers.annotations);
-		return true;
 	}
 
 	@log({ args: false })
@@ -0,0 +1,240 @@
+'use strict';
+import * as paths from 'path';
+import {
+	CancellationToken,
+	Hover,
+	languages,
+	MarkdownString,
+	OverviewRulerLane,
+	Position,
+	Range,
+	TextDocument,
+	TextEditorDecorationType,
+	Uri,
+	window,
+} from 'vscode';
+import { BlameAnnotationProviderBase } from './blameAnnotationProvider';
+import { FileAnnotationType, HeatmapLocations } from '../configuration';
+import { GlyphChars } from '../constants';
+import { Container } from '../container';
+import { GitBlame, GitBlameCommit } from '../git/git';
+import { Logger } from '../logger';
+import { log, Strings } from '../system';
+
+// Distinct enough colors which are readable on both light and dark themes
+const ownershipColors = [
+	'#e6194b',
+	'#3cb44b',
+	'#4363d8',
+	'#f58231',
+	'#911eb4',
+	'#42d4f4',
+	'#f032e6',
+	'#bfef45',
+	'#469990',
+	'#9a6324',
+	'#800000',
+	'#808000',
+];
+
+interface OwnershipEntry {
+	author: string;
+	email: string | undefined;
+	color: string;
+	lines: number;
+}
+
+export class GutterOwnershipBlameAnnotationProvider extends BlameAnnotationProviderBase {
+	private ownership: { entries: OwnershipEntry[]; lines: number } | undefined;
+
+	@log()
+	async onProvideAnnotation(_shaOrLine?: string | number, _type?: FileAnnotationType): Promise<boolean> {
+		const cc = Logger.getCorrelationContext();
+
+		this.annotationType = FileAnnotationType.Ownership;
+
+		const blame = await this.getBlame();
+		if (blame == null) return false;
+
+		let start = process.hrtime();
+
+		const ownership = this.getOwnership(blame);
+		this.ownership = ownership;
+
+		const { locations } = Container.config.ownership;
+		const gutter = locations.includes(HeatmapLocations.Gutter);
+		const overview = locations.includes(HeatmapLocations.Overview);
+
+		const decorationsMap = new Map<
+			string,
+			{ decorationType: TextEditorDecorationType; rangesOrOptions: Range[] }
+		>();
+
+		let commit: GitBlameCommit | undefined;
+		let entry: OwnershipEntry | undefined;
+		for (const l of blame.lines) {
+			// editor lines are 0-based
+			const editorLine = l.line - 1;
+
+			commit = blame.commits.get(l.sha);
+			if (commit == null) continue;
+
+			entry = ownership.map.get(getOwnerKey(commit));
+			if (entry == null) continue;
+
+			const range = new Range(editorLine, 0, editorLine, 0);
+
+			let decoration = decorationsMap.get(entry.color);
+			if (decoration == null) {
+				decoration = {
+					decorationType: window.createTextEditorDecorationType({
+						gutterIconPath: gutter
+							? Uri.parse(
+									`data:image/svg+xml,${encodeURIComponent(
+										`<svg xmlns='http://www.w3.org/2000/svg' width='18' height='18' viewBox='0 0 18 18'><rect fill='${entry.color}' x='6' y='0' width='3' height='18'/></svg>`,
+									)}`,
+							  )
+							: undefined,
+						gutterIconSize: gutter ? 'contain' : undefined,
+						overviewRulerLane: overview ? OverviewRulerLane.Center : undefined,
+						overviewRulerColor: overview ? entry.color : undefined,
+					}),
+					rangesOrOptions: [range],
+				};
+				decorationsMap.set(entry.color, decoration);
+			} else {
+				decoration.rangesOrOptions.push(range);
+			}
+		}
+
+		Logger.log(cc, `${Strings.getDurationMilliseconds(start)} ms to compute ownership annotations`);
+
+		if (decorationsMap.size) {
+			start = process.hrtime();
+
+			this.setDecorations([...decorationsMap.values()]);
+
+			Logger.log(cc, `${Strings.getDurationMilliseconds(start)} ms to apply ownership annotations`);
+		}
+
+		this.registerOwnershipHoverProvider();
+		return true;
+	}
+
+	selection(_shaOrLine?: string | number): Promise<void> {
+		return Promise.resolve();
+	}
+
+	private getOwnership(blame: GitBlame) {
+		const map = new Map<string, OwnershipEntry>();
+
+		let commit: GitBlameCommit | undefined;
+		let entry: OwnershipEntry | undefined;
+		for (const l of blame.lines) {
+			commit = blame.commits.get(l.sha);
+			if (commit == null) continue;
+
+			const key = getOwnerKey(commit);
+			entry = map.get(key);
+			if (entry == null) {
+				entry = { author: commit.author, email: commit.email, color: '', lines: 0 };
+				map.set(key, entry);
+			}
+			entry.lines++;
+		}
+
+		const entries = [...map.values()].sort((a, b) => b.lines - a.lines);
+
+		// Each author gets a stable color (based on their identity), unless it is already taken by another author in this file
+		const used = new Set<string>();
+		for (const e of entries) {
+			let index = Strings.sha1(getOwnerKey(e)).charCodeAt(0) % ownershipColors.length;
+			if (used.size < ownershipColors.length) {
+				while (used.has(ownershipColors[index])) {
+					index = (index + 1) % ownershipColors.length;
+				}
+			}
+
+			e.color = ownershipColors[index];
+			used.add(e.color);
+		}
+
+		return { entries: entries, lines: blame.lines.length, map: map };
+	}
+
+	private registerOwnershipHoverProvider() {
+		if (!Container.config.hovers.enabled || !Container.config.hovers.annotations.enabled) return;
+
+		this.hoverProviderDisposable?.dispose();
+		this.hoverProviderDisposable = languages.registerHoverProvider(
+			{ pattern: this.document.uri.fsPath },
+			{
+				provideHover: (document: TextDocument, position: Position, token: CancellationToken) =>
+					this.provideOwnershipHover(document, position, token),
+			},
+		);
+	}
+
+	private async provideOwnershipHover(
+		document: TextDocument,
+		position: Position,
+		_token: CancellationToken,
+	): Promise<Hover | undefined> {
+		if (Container.config.hovers.annotations.over !== 'line' && position.character !== 0) return undefined;
+		if (this.ownership == null) return undefined;
+
+		const blame = await this.getBlame();
+		if (blame == null) return undefined;
+
+		const commit = blame.commits.get(blame.lines[position.line]?.sha);
+		const owner = commit != null ? getOwnerKey(commit) : undefined;
+
+		const legend = this.ownership.entries
+			.map(
+				e =>
+					`![](${getSwatchDataUri(e.color)})${GlyphChars.Space}${
+						getOwnerKey(e) === owner ? `**${e.author}**` : e.author
+					}${e.email ? ` \\<${e.email}\\>` : ''} &mdash; ${formatPercentage(
+						e.lines,
+						this.ownership!.lines,
+					)} (${Strings.pluralize('line', e.lines)})`,
+			)
+			.join('  \n');
+
+		const markdown = new MarkdownString(
+			`Ownership of __${paths.basename(document.fileName)}__ by surviving lines (${Strings.pluralize(
+				'line',
+				this.ownership.lines,
+			)})\n\n---\n\n${legend}`,
+			true,
+		);
+		return new Hover(
+			markdown,
+			document.validateRange(new Range(position.line, 0, position.line, Number.MAX_SAFE_INTEGER)),
+		);
+	}
+}
+
+const swatchDataUriCache = new Map<string, string>();
+function getSwatchDataUri(color: string) {
+	let dataUri = swatchDataUriCache.get(color);
+	if (dataUri == null) {
+		dataUri = encodeURI(
+			`data:image/svg+xml;base64,${Buffer.from(
+				`<svg xmlns='http://www.w3.org/2000/svg' width='18' height='18' viewBox='0 0 18 18'><rect fill='${color}' x='3' y='3' width='12' height='12' rx='2'/></svg>`,
+			).toString('base64')}`,
+		);
+		swatchDataUriCache.set(color, dataUri);
+	}
+
+	return dataUri;
+}
+
+function getOwnerKey(owner: { author: string; email: string | undefined }) {
+	return owner.email ? owner.email.toLowerCase() : owner.author;
+}
+
+function formatPercentage(lines: number, total: number) {
+	const percentage = total === 0 ? 0 : (lines / total) * 100;
+	return `${percentage < 1 && percentage > 0 ? '\\<1' : Math.round(percentage)}%`;
+}
@@ -6,7 +6,16 @@ import { getQuickPickIgnoreFocusOut } from '../quickpicks';
 import { Action, ActionContext, ActionRunner } from './gitlens';
 
 type Actions = ActionContext['type'];
-const actions: Actions[] = ['createPullRequest', 'openPullRequest'];
+const actions: Actions[] = [
+	'createBranchFromIssue',
+	'createPullRequest',
+	'hover.commandsLine',
+	'openBranch',
+	'openCommit',
+	'openComparison',
+	'openIssue',
+	'openPullRequest',
+];
 
 export const defaultActionRunnerName = 'Built In';
 
@@ -139,10 +148,34 @@ export class ActionRunners implements Disposable {
 					let title;
 					let placeholder;
 					switch (context.type) {
+						case 'createBranchFromIssue':
+							title = 'Create Branch from Issue';
+							placeholder = 'Choose how to create a branch for the issue';
+							break;
 						case 'createPullRequest':
 							title = 'Create Pull Request';
 							placeholder = 'Choose how to create a pull request';
 							break;
+						case 'hover.commandsLine':
+							title = 'Commit Actions';
+							placeholder = 'Choose which action to run on the commit';
+							break;
+						case 'openBranch':
+							title = 'Open Branch';
+							placeholder = 'Choose how to open the branch';
+							break;
+						case 'openCommit':
+							title = 'Open Commit';
+							placeholder = 'Choose how to open the commit';
+							break;
+						case 'openComparison':
+							title = 'Open Comparison';
+							placeholder = 'Choose how to open the comparison';
+							break;
+						case 'openIssue':
+							title = 'Open Issue';
+							placeholder = 'Choose how to open the issue';
+							break;
 						case 'openPullRequest':
 							title = 'Open Pull Request';
 							placeholder = 'Choose how to open the pull request';
@@ -1,9 +1,24 @@
 'use strict';
-import { Disposable } from 'vscode';
+import { Disposable, Event, EventEmitter, Uri } from 'vscode';
 import { Container } from '../container';
+import { GitBranch, GitCommit, Repository, RepositoryChange, RepositoryChangeEvent } from '../git/git';
+import { GitUri } from '../git/gitUri';
 import { Logger } from '../logger';
+import { Arrays, Iterables } from '../system';
 import { defaultActionRunnerName } from './actionRunners';
-import { Action, ActionContext, ActionRunner, GitLensApi } from './gitlens';
+import {
+	Action,
+	ActionContext,
+	ActionRunner,
+	ActiveLinesInfo,
+	BlameLineInfo,
+	BranchInfo,
+	CommitInfo,
+	GitApi,
+	GitLensApi,
+	RepositoryChangeInfo,
+	RepositoryChangeKind,
+} from './gitlens';
 
 const emptyDisposable = Object.freeze({
 	dispose: () => {
@@ -19,11 +34,175 @@ export class Api implements GitLensApi {
 		return Container.actionRunners.register(action, runner);
 	}
 
+	private _gitApi: GitApiV1 | undefined;
+	getGitApi(version: 1): GitApi {
+		if (version !== 1) throw new Error(`Unsupported GitLens Git API version: ${String(version)}`);
+
+		if (this._gitApi == null) {
+			this._gitApi = new GitApiV1();
+			Container.context.subscriptions.push(this._gitApi);
+		}
+		return this._gitApi;
+	}
+
 	// registerAutolinkProvider(provider: RemoteProvider): Disposable;
 	// registerPullRequestProvider(provider: RemoteProvider): Disposable;
 	// registerRemoteProvider(matcher: string | RegExp, provider: RemoteProvider | RichRemoteProvider): Disposable;
 }
 
+class GitApiV1 implements GitApi, Disposable {
+	readonly version = 1;
+
+	private _onDidChangeRepository = new EventEmitter<RepositoryChangeInfo>();
+	get onDidChangeRepository(): Event<RepositoryChangeInfo> {
+		return this._onDidChangeRepository.event;
+	}
+
+	private readonly _disposable: Disposable;
+	private readonly _repositorySubscriptions = new Map<string, Disposable>();
+
+	constructor() {
+		this._disposable = Container.git.onDidChangeRepositories(this.onRepositoriesChanged, this);
+		void this.onRepositoriesChanged();
+	}
+
+	dispose() {
+		this._repositorySubscriptions.forEach(d => d.dispose());
+		this._repositorySubscriptions.clear();
+		this._disposable.dispose();
+		this._onDidChangeRepository.dispose();
+	}
+
+	get onDidChangeActiveLines(): Event<ActiveLinesInfo> {
+		return (listener: (e: ActiveLinesInfo) => any, thisArgs?: any, disposables?: Disposable[]) => {
+			// Each listener is its own subscriber, so the line tracker only runs while someone is listening
+			const subscriber = {};
+			const disposable = Container.lineTracker.start(
+				subscriber,
+				Container.lineTracker.onDidChangeActiveLines(e => {
+					if (e.pending) return;
+
+					listener.call(thisArgs, {
+						uri: e.editor?.document.uri,
+						lines:
+							e.selections?.map(s => {
+								const commit = Container.lineTracker.getState(s.active)?.commit;
+								return { line: s.active, commit: commit != null ? toCommitInfo(commit) : undefined };
+							}) ?? [],
+					});
+				}),
+			);
+
+			disposables?.push(disposable);
+			return disposable;
+		};
+	}
+
+	async getBlameForLine(uri: Uri, line: number): Promise<BlameLineInfo | undefined> {
+		const gitUri = await GitUri.fromUri(uri);
+
+		const blameLine = await Container.git.getBlameForLine(gitUri, line);
+		if (blameLine == null) return undefined;
+
+		return {
+			line: blameLine.line.line - 1,
+			originalLine: blameLine.line.originalLine - 1,
+			commit: toCommitInfo(blameLine.commit),
+		};
+	}
+
+	async getCurrentBranch(repoPath: string): Promise<BranchInfo | undefined> {
+		const branch = await Container.git.getBranch(repoPath);
+		return branch != null ? toBranchInfo(branch) : undefined;
+	}
+
+	async getLogForFile(uri: Uri, options: { limit?: number; ref?: string } = {}): Promise<CommitInfo[] | undefined> {
+		const gitUri = await GitUri.fromUri(uri);
+		if (gitUri.repoPath == null) return undefined;
+
+		const log = await Container.git.getLogForFile(gitUri.repoPath, gitUri.fsPath, {
+			limit: options.limit,
+			ref: options.ref ?? gitUri.sha,
+		});
+		if (log == null) return undefined;
+
+		return [...Iterables.map(log.commits.values(), c => toCommitInfo(c))];
+	}
+
+	getRepositoryPath(uri: Uri): Promise<string | undefined> {
+		return Container.git.getRepoPath(uri);
+	}
+
+	private async onRepositoriesChanged() {
+		const paths = new Set<string>();
+
+		for (const repo of await Container.git.getRepositories()) {
+			paths.add(repo.path);
+			if (this._repositorySubscriptions.has(repo.path)) continue;
+
+			this._repositorySubscriptions.set(
+				repo.path,
+				repo.onDidChange(e => this.onRepositoryChanged(repo, e)),
+			);
+		}
+
+		for (const [path, disposable] of this._repositorySubscriptions) {
+			if (paths.has(path)) continue;
+
+			disposable.dispose();
+			this._repositorySubscriptions.delete(path);
+		}
+	}
+
+	private onRepositoryChanged(repo: Repository, e: RepositoryChangeEvent) {
+		const changes = Arrays.filterMap(e.changes, c => repositoryChangeKindMap.get(c));
+		if (changes.length === 0) return;
+
+		this._onDidChangeRepository.fire({ repoPath: repo.path, changes: changes });
+	}
+}
+
+// Only expose the changes which are part of the public API -- any internal changes are dropped
+const repositoryChangeKindMap = new Map<RepositoryChange, RepositoryChangeKind>([
+	[RepositoryChange.BlameIgnoreRevs, 'blame-ignore-revs'],
+	[RepositoryChange.Closed, 'closed'],
+	[RepositoryChange.Config, 'config'],
+	[RepositoryChange.Heads, 'heads'],
+	[RepositoryChange.Ignores, 'ignores'],
+	[RepositoryChange.Index, 'index'],
+	[RepositoryChange.Remotes, 'remotes'],
+	[RepositoryChange.Stash, 'stash'],
+	[RepositoryChange.Submodules, 'submodules'],
+	[RepositoryChange.Tags, 'tags'],
+	[RepositoryChange.Worktrees, 'worktrees'],
+	[RepositoryChange.Unknown, 'unknown'],
+]);
+
+function toBranchInfo(branch: GitBranch): BranchInfo {
+	return {
+		repoPath: branch.repoPath,
+		name: branch.name,
+		sha: branch.sha,
+		detached: branch.detached,
+		upstream:
+			branch.tracking != null
+				? { name: branch.tracking, ahead: branch.state.ahead, behind: branch.state.behind }
+				: undefined,
+	};
+}
+
+function toCommitInfo(commit: GitCommit): CommitInfo {
+	return {
+		repoPath: commit.repoPath,
+		sha: commit.sha,
+		author: { name: commit.author, email: commit.email, date: commit.authorDate },
+		committerDate: commit.committerDate,
+		message: commit.message,
+		fileName: commit.fileName.length !== 0 ? commit.fileName : undefined,
+		uncommitted: commit.isUncommitted,
+	};
+}
+
 export function preview() {
 	return (target: any, key: string, descriptor: PropertyDescriptor) => {
 		let fn: Function | undefined;
@@ -1,5 +1,5 @@
 'use strict';
-import { Disposable } from 'vscode';
+import { Disposable, Event, Uri } from 'vscode';
 
 export { Disposable } from 'vscode';
 
@@ -26,7 +26,90 @@ export interface OpenPullRequestActionContext {
 	};
 }
 
-export type ActionContext = CreatePullRequestActionContext | OpenPullRequestActionContext;
+export interface CreateBranchFromIssueActionContext {
+	readonly type: 'createBranchFromIssue';
+	readonly issue: {
+		readonly id: string;
+		readonly provider: string;
+		readonly repoPath: string;
+		readonly title: string;
+		readonly url: string;
+	};
+}
+
+export interface HoverCommandsLineActionContext {
+	readonly type: 'hover.commandsLine';
+	readonly commit: {
+		readonly sha: string;
+		readonly author: {
+			readonly name: string;
+			readonly email: string | undefined;
+		};
+		readonly repoPath: string;
+	};
+	readonly file:
+		| {
+				readonly uri: string;
+				readonly line: number | undefined;
+		  }
+		| undefined;
+}
+
+export interface OpenBranchActionContext {
+	readonly type: 'openBranch';
+	readonly branch: {
+		readonly name: string;
+		readonly remote?: {
+			readonly name: string;
+			readonly provider?: string;
+			readonly url?: string;
+		};
+		readonly repoPath: string;
+	};
+}
+
+export interface OpenCommitActionContext {
+	readonly type: 'openCommit';
+	readonly commit: {
+		readonly sha: string;
+		readonly remote?: {
+			readonly name: string;
+			readonly provider?: string;
+			readonly url?: string;
+		};
+		readonly repoPath: string;
+	};
+}
+
+export interface OpenComparisonActionContext {
+	readonly type: 'openComparison';
+	readonly comparison: {
+		readonly ref1: string;
+		readonly ref2: string;
+		readonly notation: '..' | '...' | undefined;
+		readonly repoPath: string;
+	};
+}
+
+export interface OpenIssueActionContext {
+	readonly type: 'openIssue';
+	readonly issue: {
+		readonly id: string;
+		readonly provider: string;
+		readonly repoPath: string;
+		readonly url: string;
+	};
+}
+
+export type ActionContext =
+	| CreateBranchFromIssueActionContext
+	| CreatePullRequestActionContext
+	| HoverCommandsLineActionContext
+	| OpenBranchActionContext
+	| OpenCommitActionContext
+	| OpenComparisonActionContext
+	| OpenIssueActionContext
+	| OpenPullRequestActionContext;
 export type Action<T extends ActionContext> = T['type'];
 
 export interface ActionRunner {
@@ -36,6 +119,89 @@ export interface ActionRunner {
 	run(context: ActionContext): void | Promise<void>;
 }
 
+export interface CommitInfo {
+	readonly repoPath: string;
+	readonly sha: string;
+	readonly author: {
+		readonly name: string;
+		readonly email: string | undefined;
+		readonly date: Date;
+	};
+	readonly committerDate: Date;
+	readonly message: string;
+	/** The path of the file, relative to the repository, when the commit was retrieved for a file */
+	readonly fileName: string | undefined;
+	/** Indicates whether the commit represents uncommitted (working tree or staged) changes */
+	readonly uncommitted: boolean;
+}
+
+export interface BlameLineInfo {
+	/** The 0-based line in the document */
+	readonly line: number;
+	/** The 0-based line in the commit which last changed it */
+	readonly originalLine: number;
+	readonly commit: CommitInfo;
+}
+
+export interface BranchInfo {
+	readonly repoPath: string;
+	readonly name: string;
+	readonly sha: string | undefined;
+	readonly detached: boolean;
+	readonly upstream:
+		| {
+				readonly name: string;
+				readonly ahead: number;
+				readonly behind: number;
+		  }
+		| undefined;
+}
+
+export type RepositoryChangeKind =
+	| 'blame-ignore-revs'
+	| 'closed'
+	| 'config'
+	| 'heads'
+	| 'ignores'
+	| 'index'
+	| 'remotes'
+	| 'stash'
+	| 'submodules'
+	| 'tags'
+	| 'worktrees'
+	| 'unknown';
+
+export interface RepositoryChangeInfo {
+	readonly repoPath: string;
+	readonly changes: RepositoryChangeKind[];
+}
+
+export interface ActiveLineInfo {
+	/** The 0-based line in the document */
+	readonly line: number;
+	/** The commit which last changed the line, if it could be determined */
+	readonly commit: CommitInfo | undefined;
+}
+
+export interface ActiveLinesInfo {
+	readonly uri: Uri | undefined;
+	readonly lines: ActiveLineInfo[];
+}
+
+export interface GitApi {
+	readonly version: 1;
+
+	readonly onDidChangeActiveLines: Event<ActiveLinesInfo>;
+	readonly onDidChangeRepository: Event<RepositoryChangeInfo>;
+
+	getBlameForLine(uri: Uri, line: number): Promise<BlameLineInfo | undefined>;
+	getCurrentBranch(repoPath: string): Promise<BranchInfo | undefined>;
+	getLogForFile(uri: Uri, options?: { limit?: number; ref?: string }): Promise<CommitInfo[] | undefined>;
+	getRepositoryPath(uri: Uri): Promise<string | undefined>;
+}
+
 export interface GitLensApi {
 	registerActionRunner<T extends ActionContext>(action: Action<T>, runner: ActionRunner): Disposable;
+
+	getGitApi(version: 1): GitApi;
 }
@@ -0,0 +1,221 @@
+'use strict';
+import { Logger } from '../logger';
+import { debug, Http } from '../system';
+import { AuthenticationError, ClientError, IssueOrPullRequest, PullRequest, PullRequestState } from '../git/git';
+
+const apiVersion = 'api-version=6.0';
+
+export class AzureDevOpsApi {
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getWorkItem(
+		provider: string,
+		token: string,
+		id: number,
+		options: {
+			baseUrl: string;
+		},
+	): Promise<IssueOrPullRequest | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			const workItem = await request<AzureDevOpsWorkItem>(
+				token,
+				`${options.baseUrl}/_apis/wit/workitems/${id}?${apiVersion}`,
+			);
+			if (workItem == null) return undefined;
+
+			const closedDate = workItem.fields['Microsoft.VSTS.Common.ClosedDate'];
+			return {
+				provider: provider,
+				type: 'Issue',
+				id: id,
+				date: new Date(workItem.fields['System.CreatedDate']),
+				title: workItem.fields['System.Title'],
+				closed: closedDate != null,
+				closedDate: closedDate == null ? undefined : new Date(closedDate),
+			};
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getPullRequestForBranch(
+		provider: string,
+		token: string,
+		repo: string,
+		branch: string,
+		options: {
+			baseUrl: string;
+			include?: AzureDevOpsPullRequestState[];
+		},
+	): Promise<PullRequest | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			// Azure DevOps only supports filtering by a single status, so filter any others ourselves
+			const status = options.include?.length === 1 ? options.include[0] : 'all';
+
+			let prs = (
+				await request<AzureDevOpsListResponse<AzureDevOpsPullRequest>>(
+					token,
+					`${options.baseUrl}/_apis/git/repositories/${encodeURIComponent(
+						repo,
+					)}/pullrequests?searchCriteria.sourceRefName=${encodeURIComponent(
+						`refs/heads/${branch}`,
+					)}&searchCriteria.status=${status}&$top=10&${apiVersion}`,
+				)
+			)?.value;
+			if (options.include != null && options.include.length > 1) {
+				prs = prs?.filter(pr => options.include!.includes(pr.status));
+			}
+			if (prs == null || prs.length === 0) return undefined;
+
+			return AzureDevOpsPullRequest.from(sortPullRequests(prs)[0], provider);
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getPullRequestForCommit(
+		provider: string,
+		token: string,
+		repo: string,
+		ref: string,
+		options: {
+			baseUrl: string;
+		},
+	): Promise<PullRequest | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			const rsp = await request<{ results: Record<string, AzureDevOpsPullRequest[]>[] }>(
+				token,
+				`${options.baseUrl}/_apis/git/repositories/${encodeURIComponent(repo)}/pullrequestquery?${apiVersion}`,
+				{ queries: [{ type: 'commit', items: [ref] }] },
+			);
+
+			const prs = rsp?.results[0]?.[ref];
+			if (prs == null || prs.length === 0) return undefined;
+
+			return AzureDevOpsPullRequest.from(sortPullRequests(prs)[0], provider);
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+}
+
+function request<T>(token: string, url: string, body?: unknown): Promise<T | undefined> {
+	return Http.requestJson<T>(url, {
+		body: body,
+		// Personal access tokens are sent as the password of basic auth, with an empty user name
+		headers: { Authorization: `Basic ${Buffer.from(`:${token}`).toString('base64')}` },
+		method: body != null ? 'POST' : 'GET',
+	});
+}
+
+function sortPullRequests(prs: AzureDevOpsPullRequest[]): AzureDevOpsPullRequest[] {
+	if (prs.length > 1) {
+		prs.sort(
+			(a, b) =>
+				(a.status === 'active' ? -1 : 1) - (b.status === 'active' ? -1 : 1) ||
+				new Date(b.closedDate ?? b.creationDate).getTime() - new Date(a.closedDate ?? a.creationDate).getTime(),
+		);
+	}
+	return prs;
+}
+
+function toError(ex: Error) {
+	if (ex instanceof Http.HttpError && ex.code >= 400 && ex.code <= 500) {
+		if (ex.code === 401) return new AuthenticationError(ex);
+		return new ClientError(ex);
+	}
+	return ex;
+}
+
+interface AzureDevOpsListResponse<T> {
+	value: T[];
+	count: number;
+}
+
+interface AzureDevOpsWorkItem {
+	id: number;
+	fields: {
+		'System.Title': string;
+		'System.CreatedDate': string;
+		'Microsoft.VSTS.Common.ClosedDate'?: string;
+	};
+}
+
+type AzureDevOpsPullRequestState = 'active' | 'abandoned' | 'completed';
+
+interface AzureDevOpsPullRequest {
+	pullRequestId: number;
+	title: string;
+	status: AzureDevOpsPullRequestState;
+	creationDate: string;
+	closedDate?: string;
+	createdBy: {
+		displayName: string;
+		imageUrl: string;
+		uniqueName: string;
+	};
+	repository: {
+		webUrl: string;
+	};
+}
+
+export namespace AzureDevOpsPullRequest {
+	export function from(pr: AzureDevOpsPullRequest, provider: string): PullRequest {
+		const state = fromState(pr.status);
+		const closedDate = pr.closedDate == null ? undefined : new Date(pr.closedDate);
+
+		return new PullRequest(
+			provider,
+			{
+				name: pr.createdBy.displayName,
+				avatarUrl: pr.createdBy.imageUrl,
+				url: `mailto:${pr.createdBy.uniqueName}`,
+			},
+			String(pr.pullRequestId),
+			pr.title,
+			`${pr.repository.webUrl}/pullrequest/${pr.pullRequestId}`,
+			state,
+			closedDate ?? new Date(pr.creationDate),
+			state === PullRequestState.Closed ? closedDate : undefined,
+			state === PullRequestState.Merged ? closedDate : undefined,
+		);
+	}
+
+	export function fromState(state: AzureDevOpsPullRequestState): PullRequestState {
+		return state === 'completed'
+			? PullRequestState.Merged
+			: state === 'abandoned'
+			? PullRequestState.Closed
+			: PullRequestState.Open;
+	}
+
+	export function toState(state: PullRequestState): AzureDevOpsPullRequestState {
+		return state === PullRequestState.Merged
+			? 'completed'
+			: state === PullRequestState.Closed
+			? 'abandoned'
+			: 'active';
+	}
+}
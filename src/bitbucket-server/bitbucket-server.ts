@@ -0,0 +1,176 @@
+'use strict';
+import { Logger } from '../logger';
+import { debug, Http } from '../system';
+import { AuthenticationError, ClientError, PullRequest, PullRequestState } from '../git/git';
+
+export class BitbucketServerApi {
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getPullRequestForBranch(
+		provider: string,
+		token: string,
+		project: string,
+		repo: string,
+		branch: string,
+		options: {
+			baseUrl: string;
+			avatarSize?: number;
+			include?: BitbucketServerPullRequestState[];
+		},
+	): Promise<PullRequest | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			// Bitbucket Server only supports filtering by a single state, so filter any others ourselves
+			const state = options.include?.length === 1 ? options.include[0] : 'ALL';
+
+			let prs = (
+				await request<BitbucketServerPagedResponse<BitbucketServerPullRequest>>(
+					options.baseUrl,
+					token,
+					`/rest/api/1.0/projects/${project}/repos/${repo}/pull-requests?direction=OUTGOING&at=${encodeURIComponent(
+						`refs/heads/${branch}`,
+					)}&state=${state}&order=NEWEST&limit=10`,
+				)
+			)?.values;
+			if (options.include != null && options.include.length > 1) {
+				prs = prs?.filter(pr => options.include!.includes(pr.state));
+			}
+			if (prs == null || prs.length === 0) return undefined;
+
+			return BitbucketServerPullRequest.from(sortPullRequests(prs)[0], provider, options);
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getPullRequestForCommit(
+		provider: string,
+		token: string,
+		project: string,
+		repo: string,
+		ref: string,
+		options: {
+			baseUrl: string;
+			avatarSize?: number;
+		},
+	): Promise<PullRequest | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			const prs = (
+				await request<BitbucketServerPagedResponse<BitbucketServerPullRequest>>(
+					options.baseUrl,
+					token,
+					`/rest/api/1.0/projects/${project}/repos/${repo}/commits/${encodeURIComponent(
+						ref,
+					)}/pull-requests?limit=10`,
+				)
+			)?.values;
+			if (prs == null || prs.length === 0) return undefined;
+
+			return BitbucketServerPullRequest.from(sortPullRequests(prs)[0], provider, options);
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+}
+
+function request<T>(baseUrl: string, token: string, route: string): Promise<T | undefined> {
+	return Http.requestJson<T>(`${baseUrl}${route}`, { headers: { Authorization: `Bearer ${token}` } });
+}
+
+function sortPullRequests(prs: BitbucketServerPullRequest[]): BitbucketServerPullRequest[] {
+	if (prs.length > 1) {
+		prs.sort(
+			(a, b) => (a.state === 'OPEN' ? -1 : 1) - (b.state === 'OPEN' ? -1 : 1) || b.updatedDate - a.updatedDate,
+		);
+	}
+	return prs;
+}
+
+function toError(ex: Error) {
+	if (ex instanceof Http.HttpError && ex.code >= 400 && ex.code <= 500) {
+		if (ex.code === 401) return new AuthenticationError(ex);
+		return new ClientError(ex);
+	}
+	return ex;
+}
+
+interface BitbucketServerPagedResponse<T> {
+	values: T[];
+	size: number;
+	isLastPage: boolean;
+}
+
+type BitbucketServerPullRequestState = 'OPEN' | 'DECLINED' | 'MERGED';
+
+interface BitbucketServerPullRequest {
+	id: number;
+	title: string;
+	state: BitbucketServerPullRequestState;
+	createdDate: number;
+	updatedDate: number;
+	closedDate?: number;
+	author: {
+		user: {
+			name: string;
+			displayName: string;
+			slug: string;
+		};
+	};
+	links: {
+		self: { href: string }[];
+	};
+}
+
+export namespace BitbucketServerPullRequest {
+	export function from(
+		pr: BitbucketServerPullRequest,
+		provider: string,
+		options: { baseUrl: string; avatarSize?: number },
+	): PullRequest {
+		const state = fromState(pr.state);
+		const closedDate = pr.closedDate == null ? undefined : new Date(pr.closedDate);
+
+		return new PullRequest(
+			provider,
+			{
+				name: pr.author.user.displayName,
+				avatarUrl: `${options.baseUrl}/users/${pr.author.user.slug}/avatar.png${
+					options.avatarSize != null ? `?s=${options.avatarSize}` : ''
+				}`,
+				url: `${options.baseUrl}/users/${pr.author.user.slug}`,
+			},
+			String(pr.id),
+			pr.title,
+			pr.links.self[0]?.href ?? '',
+			state,
+			new Date(pr.updatedDate),
+			state === PullRequestState.Closed ? closedDate : undefined,
+			state === PullRequestState.Merged ? closedDate : undefined,
+		);
+	}
+
+	export function fromState(state: BitbucketServerPullRequestState): PullRequestState {
+		return state === 'MERGED'
+			? PullRequestState.Merged
+			: state === 'DECLINED'
+			? PullRequestState.Closed
+			: PullRequestState.Open;
+	}
+
+	export function toState(state: PullRequestState): BitbucketServerPullRequestState {
+		return state === PullRequestState.Merged ? 'MERGED' : state === PullRequestState.Closed ? 'DECLINED' : 'OPEN';
+	}
+}
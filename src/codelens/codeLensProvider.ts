@@ -24,6 +24,7 @@ import {
 	ShowQuickCommitCommandArgs,
 	ShowQuickCommitFileCommandArgs,
 	ShowQuickFileHistoryCommandArgs,
+	ShowSymbolHistoryCommandArgs,
 } from '../commands';
 import {
 	CodeLensCommand,
@@ -535,6 +536,8 @@ export class GitCodeLensProvider implements CodeLensProvider {
 				return this.applyShowQuickCurrentBranchHistoryCommand<GitRecentChangeCodeLens>(title, lens);
 			case CodeLensCommand.ShowQuickFileHistory:
 				return this.applyShowQuickFileHistoryCommand<GitRecentChangeCodeLens>(title, lens);
+			case CodeLensCommand.ShowSymbolHistory:
+				return this.applyShowSymbolHistoryCommand<GitRecentChangeCodeLens>(title, lens);
 			case CodeLensCommand.ToggleFileBlame:
 				return this.applyToggleFileBlameCommand<GitRecentChangeCodeLens>(title, lens);
 			default:
@@ -586,6 +589,8 @@ export class GitCodeLensProvider implements CodeLensProvider {
 				return this.applyShowQuickCurrentBranchHistoryCommand<GitAuthorsCodeLens>(title, lens);
 			case CodeLensCommand.ShowQuickFileHistory:
 				return this.applyShowQuickFileHistoryCommand<GitAuthorsCodeLens>(title, lens);
+			case CodeLensCommand.ShowSymbolHistory:
+				return this.applyShowSymbolHistoryCommand<GitAuthorsCodeLens>(title, lens);
 			case CodeLensCommand.ToggleFileBlame:
 				return this.applyToggleFileBlameCommand<GitAuthorsCodeLens>(title, lens);
 			default:
@@ -713,6 +718,32 @@ export class GitCodeLensProvider implements CodeLensProvider {
 		return lens;
 	}
 
+	private applyShowSymbolHistoryCommand<T extends GitRecentChangeCodeLens | GitAuthorsCodeLens>(
+		title: string,
+		lens: T,
+	): T {
+		// A file-level lens has no symbol, so show the history of the whole file instead
+		if (lens.isFullRange) {
+			lens.command = {
+				title: title,
+				command: Commands.ShowFileHistoryInView,
+				arguments: [lens.uri!.toFileUri()],
+			};
+			return lens;
+		}
+
+		const commandArgs: ShowSymbolHistoryCommandArgs = {
+			symbol: { name: lens.symbol.name, kind: lens.symbol.kind, range: lens.blameRange },
+			line: lens.blameRange.start.line,
+		};
+		lens.command = {
+			title: title,
+			command: CodeLensCommand.ShowSymbolHistory,
+			arguments: [lens.uri!.toFileUri(), commandArgs],
+		};
+		return lens;
+	}
+
 	private applyToggleFileBlameCommand<T extends GitRecentChangeCodeLens | GitAuthorsCodeLens>(
 		title: string,
 		lens: T,
@@ -1,6 +1,7 @@
 'use strict';
 
 export * from './commands/addAuthors';
+export * from './commands/blamePriorToChange';
 export * from './commands/browseRepoAtRevision';
 export * from './commands/closeUnchangedFiles';
 export * from './commands/closeView';
@@ -52,6 +53,7 @@ export * from './commands/showQuickCommitFile';
 export * from './commands/showQuickFileHistory';
 export * from './commands/showQuickRepoStatus';
 export * from './commands/showQuickStashList';
+export * from './commands/showSymbolHistory';
 export * from './commands/showView';
 export * from './commands/stashApply';
 export * from './commands/stashSave';
@@ -0,0 +1,138 @@
+'use strict';
+import { Range, TextEditor, Uri } from 'vscode';
+import { ActiveEditorCommand, command, Commands, findOrOpenEditor, getCommandUri } from './common';
+import { BlameBreadcrumb } from '../annotations/blameBreadcrumbs';
+import { FileAnnotationType } from '../configuration';
+import { Container } from '../container';
+import { GitUri } from '../git/gitUri';
+import { Logger } from '../logger';
+import { Messages } from '../messages';
+
+export interface BlamePriorToChangeCommandArgs {
+	line?: number;
+}
+
+@command()
+export class BlamePriorToChangeCommand extends ActiveEditorCommand {
+	static getMarkdownCommandArgs(args: BlamePriorToChangeCommandArgs): string {
+		return super.getMarkdownCommandArgsCore<BlamePriorToChangeCommandArgs>(Commands.BlamePriorToChange, args);
+	}
+
+	constructor() {
+		super(Commands.BlamePriorToChange);
+	}
+
+	async execute(editor?: TextEditor, uri?: Uri, args?: BlamePriorToChangeCommandArgs) {
+		uri = getCommandUri(uri, editor);
+		if (uri == null) return;
+
+		args = { ...args };
+		if (args.line == null) {
+			args.line = editor?.selection.active.line ?? 0;
+		}
+
+		const gitUri = await GitUri.fromUri(uri);
+
+		try {
+			const blameLine =
+				editor?.document.isDirty && editor.document.uri.toString() === uri.toString()
+					? await Container.git.getBlameForLineContents(gitUri, args.line, editor.document.getText())
+					: await Container.git.getBlameForLine(gitUri, args.line);
+			if (blameLine == null) {
+				void Messages.showFileNotUnderSourceControlWarningMessage('Unable to blame prior to this change');
+
+				return;
+			}
+
+			const { commit, line } = blameLine;
+			if (commit.isUncommitted) {
+				void Messages.showLineUncommittedWarningMessage('Unable to blame prior to this change');
+
+				return;
+			}
+
+			if (commit.previousSha == null) {
+				void Messages.showCommitHasNoPreviousCommitWarningMessage(commit);
+
+				return;
+			}
+
+			// Find where the line was before the change, following the file if it was renamed by the commit
+			const previousLine = await Container.git.getLineForPreviousRevision(
+				GitUri.fromFile(commit.fileName, commit.repoPath, commit.sha),
+				line.originalLine - 1,
+				commit.previousSha,
+				commit.sha,
+				commit.previousFileName,
+			);
+
+			const previousUri = GitUri.fromFile(
+				commit.previousFileName ?? commit.fileName,
+				commit.repoPath,
+				commit.previousSha,
+			);
+
+			// Re-blame the line as of the previous revision, following it if it was moved or copied from elsewhere
+			const previousBlameLine = await Container.git.getBlameForLine(previousUri, previousLine, {
+				detectMoves: true,
+			});
+
+			const to: BlameBreadcrumb = { uri: previousUri, line: previousLine, detectMoves: true };
+			Container.fileAnnotations.blameBreadcrumbs.push({ uri: gitUri, line: args.line }, to);
+
+			void (await openBreadcrumb(to, previousBlameLine?.commit.sha));
+		} catch (ex) {
+			Logger.error(ex, 'BlamePriorToChangeCommand');
+			void Messages.showGenericErrorMessage('Unable to blame prior to this change');
+		}
+	}
+}
+
+@command()
+export class BlameHistoryBackCommand extends ActiveEditorCommand {
+	constructor() {
+		super(Commands.BlameHistoryBack);
+	}
+
+	async execute(editor?: TextEditor, uri?: Uri) {
+		uri = getCommandUri(uri, editor);
+		if (uri == null) return;
+
+		const breadcrumb = Container.fileAnnotations.blameBreadcrumbs.back(await GitUri.fromUri(uri));
+		if (breadcrumb == null) return;
+
+		void (await openBreadcrumb(breadcrumb));
+	}
+}
+
+@command()
+export class BlameHistoryForwardCommand extends ActiveEditorCommand {
+	constructor() {
+		super(Commands.BlameHistoryForward);
+	}
+
+	async execute(editor?: TextEditor, uri?: Uri) {
+		uri = getCommandUri(uri, editor);
+		if (uri == null) return;
+
+		const breadcrumb = Container.fileAnnotations.blameBreadcrumbs.forward(await GitUri.fromUri(uri));
+		if (breadcrumb == null) return;
+
+		void (await openBreadcrumb(breadcrumb));
+	}
+}
+
+async function openBreadcrumb(breadcrumb: BlameBreadcrumb, sha?: string) {
+	const uri = breadcrumb.uri.sha ? GitUri.toRevisionUri(breadcrumb.uri) : breadcrumb.uri.documentUri();
+
+	const editor = await findOrOpenEditor(uri, {
+		preview: false,
+		selection: new Range(breadcrumb.line, 0, breadcrumb.line, 0),
+	});
+	if (editor == null) return;
+
+	// Highlight the lines of the commit the line is blamed on, otherwise just the line's own commit
+	void (await Container.fileAnnotations.show(editor, FileAnnotationType.Blame, sha ?? breadcrumb.line, {
+		detectMoves: breadcrumb.detectMoves ?? false,
+	}));
+}
@@ -28,6 +28,9 @@ import { ViewNode, ViewRefNode } from '../views/nodes';
 export enum Commands {
 	ActionPrefix = 'gitlens.action.',
 	AddAuthors = 'gitlens.addAuthors',
+	BlameHistoryBack = 'gitlens.blameHistoryBack',
+	BlameHistoryForward = 'gitlens.blameHistoryForward',
+	BlamePriorToChange = 'gitlens.blamePriorToChange',
 	BrowseRepoAtRevision = 'gitlens.browseRepoAtRevision',
 	BrowseRepoAtRevisionInNewWindow = 'gitlens.browseRepoAtRevisionInNewWindow',
 	BrowseRepoBeforeRevision = 'gitlens.browseRepoBeforeRevision',
@@ -109,6 +112,7 @@ export enum Commands {
 	SearchCommitsInView = 'gitlens.views.searchAndCompare.searchCommits',
 	SetViewsLayout = 'gitlens.setViewsLayout',
 	ShowBranchesView = 'gitlens.showBranchesView',
+	ShowCommitGraph = 'gitlens.showCommitGraph',
 	ShowCommitInView = 'gitlens.showCommitInView',
 	ShowCommitsInView = 'gitlens.showCommitsInView',
 	ShowCommitsView = 'gitlens.showCommitsView',
@@ -127,6 +131,7 @@ export enum Commands {
 	ShowQuickCommitRevisionInDiffLeft = 'gitlens.showQuickRevisionDetailsInDiffLeft',
 	ShowQuickCommitRevisionInDiffRight = 'gitlens.showQuickRevisionDetailsInDiffRight',
 	ShowQuickStashList = 'gitlens.showQuickStashList',
+	ShowReflogView = 'gitlens.showReflogView',
 	ShowRemotesView = 'gitlens.showRemotesView',
 	ShowRepositoriesView = 'gitlens.showRepositoriesView',
 	ShowSearchAndCompareView = 'gitlens.showSearchAndCompareView',
@@ -143,12 +148,16 @@ export enum Commands {
 	ShowSettingsPageAndJumpToTagsView = 'gitlens.showSettingsPage#tags-view',
 	ShowSettingsPageAndJumpToViews = 'gitlens.showSettingsPage#views',
 	ShowStashesView = 'gitlens.showStashesView',
+	ShowSymbolHistory = 'gitlens.showSymbolHistory',
 	ShowTagsView = 'gitlens.showTagsView',
 	ShowWelcomePage = 'gitlens.showWelcomePage',
 	ShowWelcomeView = 'gitlens.showWelcomeView',
+	ShowWorktreesView = 'gitlens.showWorktreesView',
 	StashApply = 'gitlens.stashApply',
 	StashSave = 'gitlens.stashSave',
 	StashSaveFiles = 'gitlens.stashSaveFiles',
+	StashSaveHunks = 'gitlens.stashSaveHunks',
+	StashSaveStaged = 'gitlens.stashSaveStaged',
 	SupportGitLens = 'gitlens.supportGitLens',
 	SwitchMode = 'gitlens.switchMode',
 	ToggleCodeLens = 'gitlens.toggleCodeLens',
@@ -159,6 +168,7 @@ export enum Commands {
 	ToggleFileHeatmap = 'gitlens.toggleFileHeatmap',
 	ToggleFileHeatmapInDiffLeft = 'gitlens.toggleFileHeatmapInDiffLeft',
 	ToggleFileHeatmapInDiffRight = 'gitlens.toggleFileHeatmapInDiffRight',
+	ToggleFileOwnership = 'gitlens.toggleFileOwnership',
 	ToggleLineBlame = 'gitlens.toggleLineBlame',
 	ToggleReviewMode = 'gitlens.toggleReviewMode',
 	ToggleZenMode = 'gitlens.toggleZenMode',
@@ -162,7 +162,7 @@ export class DiffWithCommand extends Command {
 				args.showOptions.viewColumn = ViewColumn.Active;
 			}
 
-			if (args.line != null && args.line !== 0) {
+			if (args.line != null && args.line !== 0 && args.showOptions.selection == null) {
 				args.showOptions.selection = new Range(args.line, 0, args.line, 0);
 			}
 
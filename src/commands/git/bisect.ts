@@ -0,0 +1,384 @@
+'use strict';
+import { QuickInputButtons, window } from 'vscode';
+import { Container } from '../../container';
+import { GitBisectStatus, GitReference, GitRevisionReference, Repository } from '../../git/git';
+import { Logger } from '../../logger';
+import { Messages } from '../../messages';
+import {
+	appendReposToTitle,
+	AsyncStepResultGenerator,
+	PartialStepState,
+	pickBranchOrTagStep,
+	pickRepositoryStep,
+	QuickCommand,
+	StepGenerator,
+	StepResult,
+	StepResultGenerator,
+	StepSelection,
+	StepState,
+} from '../quickCommand';
+import { QuickPickItemOfT } from '../../quickpicks';
+
+interface Context {
+	repos: Repository[];
+	showTags: boolean;
+	title: string;
+}
+
+interface StartState {
+	subcommand: 'start';
+	repo: string | Repository;
+	bad: GitReference;
+	good: GitReference;
+}
+
+interface MarkState {
+	subcommand: 'bad' | 'good' | 'skip';
+	repo: string | Repository;
+	reference?: GitRevisionReference;
+}
+
+interface ResetState {
+	subcommand: 'reset';
+	repo: string | Repository;
+}
+
+type State = StartState | MarkState | ResetState;
+type BisectStepState<T extends State> = SomeNonNullable<StepState<T>, 'subcommand'>;
+type StartStepState<T extends StartState = StartState> = BisectStepState<ExcludeSome<T, 'repo', string>>;
+type MarkStepState<T extends MarkState = MarkState> = BisectStepState<ExcludeSome<T, 'repo', string>>;
+type ResetStepState<T extends ResetState = ResetState> = BisectStepState<ExcludeSome<T, 'repo', string>>;
+
+const subcommandToTitleMap = new Map<State['subcommand'], string>([
+	['start', 'Start'],
+	['bad', 'Mark Bad in'],
+	['good', 'Mark Good in'],
+	['skip', 'Skip in'],
+	['reset', 'Reset'],
+]);
+function getTitle(title: string, subcommand: State['subcommand'] | undefined) {
+	return subcommand == null ? title : `${subcommandToTitleMap.get(subcommand)} ${title}`;
+}
+
+const firstBadCommitRegex = /^([0-9a-f]{7,40}) is the first (?:bad|new) commit/m;
+
+export interface BisectGitCommandArgs {
+	readonly command: 'bisect';
+	confirm?: boolean;
+	state?: Partial<State>;
+}
+
+export class BisectGitCommand extends QuickCommand<State> {
+	private subcommand: State['subcommand'] | undefined;
+
+	constructor(args?: BisectGitCommandArgs) {
+		super('bisect', 'bisect', 'Bisect', {
+			description: 'start, mark good, bad, or skipped revisions, or reset a bisect',
+		});
+
+		let counter = 0;
+		if (args?.state?.subcommand != null) {
+			counter++;
+
+			if (args.state.subcommand === 'start') {
+				if (args.state.bad != null) {
+					counter++;
+				}
+
+				if (args.state.good != null) {
+					counter++;
+				}
+			}
+		}
+
+		if (args?.state?.repo != null) {
+			counter++;
+		}
+
+		this.initialState = {
+			counter: counter,
+			confirm: args?.confirm,
+			...args?.state,
+		};
+	}
+
+	get canConfirm(): boolean {
+		return this.subcommand != null;
+	}
+
+	get skipConfirmKey() {
+		return `${this.key}${this.subcommand == null ? '' : `-${this.subcommand}`}:${this.pickedVia}`;
+	}
+
+	protected async *steps(state: PartialStepState<State>): StepGenerator {
+		const context: Context = {
+			repos: [...(await Container.git.getOrderedRepositories())],
+			showTags: false,
+			title: this.title,
+		};
+
+		let skippedStepTwo = false;
+
+		while (this.canStepsContinue(state)) {
+			context.title = this.title;
+
+			if (state.counter < 1 || state.subcommand == null) {
+				this.subcommand = undefined;
+
+				const result = yield* this.pickSubcommandStep(state);
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.subcommand = result;
+			}
+
+			this.subcommand = state.subcommand;
+
+			if (state.counter < 2 || state.repo == null || typeof state.repo === 'string') {
+				skippedStepTwo = false;
+				if (context.repos.length === 1) {
+					skippedStepTwo = true;
+					state.counter++;
+
+					state.repo = context.repos[0];
+				} else {
+					const result = yield* pickRepositoryStep(state, context);
+					if (result === StepResult.Break) continue;
+
+					state.repo = result;
+				}
+			}
+
+			context.title = getTitle(this.title, state.subcommand);
+
+			switch (state.subcommand) {
+				case 'start':
+					yield* this.startCommandSteps(state as StartStepState, context);
+					break;
+				case 'bad':
+				case 'good':
+				case 'skip':
+					yield* this.markCommandSteps(state as MarkStepState, context);
+					break;
+				case 'reset':
+					yield* this.resetCommandSteps(state as ResetStepState, context);
+					break;
+				default:
+					QuickCommand.endSteps(state);
+					break;
+			}
+
+			// If we skipped the previous step, make sure we back up past it
+			if (skippedStepTwo) {
+				state.counter--;
+			}
+		}
+
+		return state.counter < 0 ? StepResult.Break : undefined;
+	}
+
+	private *pickSubcommandStep(state: PartialStepState<State>): StepResultGenerator<State['subcommand']> {
+		const step = QuickCommand.createPickStep<QuickPickItemOfT<State['subcommand']>>({
+			title: this.title,
+			placeholder: `Choose a ${this.label} command`,
+			items: [
+				{
+					label: 'start',
+					description: 'starts a new bisect between a bad and a good revision',
+					picked: state.subcommand === 'start',
+					item: 'start',
+				},
+				{
+					label: 'good',
+					description: 'marks the current revision as good',
+					picked: state.subcommand === 'good',
+					item: 'good',
+				},
+				{
+					label: 'bad',
+					description: 'marks the current revision as bad',
+					picked: state.subcommand === 'bad',
+					item: 'bad',
+				},
+				{
+					label: 'skip',
+					description: 'skips the current revision',
+					picked: state.subcommand === 'skip',
+					item: 'skip',
+				},
+				{
+					label: 'reset',
+					description: 'ends the bisect and returns to where it was started',
+					picked: state.subcommand === 'reset',
+					item: 'reset',
+				},
+			],
+			buttons: [QuickInputButtons.Back],
+		});
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
+	}
+
+	private async *startCommandSteps(state: StartStepState, context: Context): AsyncStepResultGenerator<void> {
+		while (this.canStepsContinue(state)) {
+			if (state.counter < 3 || state.bad == null) {
+				const result = yield* pickBranchOrTagStep(state, context, {
+					placeholder: context =>
+						`Choose a bad branch${context.showTags ? ' or tag' : ''}, one which contains the issue`,
+					picked: state.bad?.ref ?? (await state.repo.getBranch())?.ref,
+					titleContext: ' (bad)',
+					value: GitReference.isRevision(state.bad) ? state.bad.ref : undefined,
+				});
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.bad = result;
+			}
+
+			if (state.counter < 4 || state.good == null) {
+				const result = yield* pickBranchOrTagStep(state, context, {
+					placeholder: context =>
+						`Choose a good branch${context.showTags ? ' or tag' : ''}, one which doesn't contain the issue`,
+					picked: state.good?.ref,
+					titleContext: ' (good)',
+					value: GitReference.isRevision(state.good) ? state.good.ref : undefined,
+				});
+				if (result === StepResult.Break) continue;
+
+				state.good = result;
+			}
+
+			if (this.confirm(state.confirm)) {
+				const result = yield* this.startCommandConfirmStep(state, context);
+				if (result === StepResult.Break) continue;
+			}
+
+			QuickCommand.endSteps(state);
+			await this.execute(state.repo, context, () => state.repo.bisectStart(state.bad.ref, [state.good.ref]));
+		}
+	}
+
+	private *startCommandConfirmStep(state: StartStepState, context: Context): StepResultGenerator<void> {
+		const step = this.createConfirmStep(appendReposToTitle(`Confirm ${context.title}`, state, context), [
+			{
+				label: context.title,
+				detail: `Will start bisecting between ${GitReference.toString(
+					state.bad,
+				)} (bad) and ${GitReference.toString(state.good)} (good)`,
+			},
+		]);
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? undefined : StepResult.Break;
+	}
+
+	private async *markCommandSteps(state: MarkStepState, context: Context): AsyncStepResultGenerator<void> {
+		const status = await Container.git.getBisectStatus(state.repo.path);
+		if (status == null) {
+			QuickCommand.endSteps(state);
+			void window.showWarningMessage(`Unable to ${state.subcommand} the revision. No bisect is in progress`);
+
+			return;
+		}
+
+		while (this.canStepsContinue(state)) {
+			if (this.confirm(state.confirm)) {
+				const result = yield* this.markCommandConfirmStep(state, context, status);
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+			}
+
+			QuickCommand.endSteps(state);
+			await this.execute(state.repo, context, () =>
+				state.repo.bisectMark(state.subcommand, state.reference?.ref),
+			);
+		}
+	}
+
+	private *markCommandConfirmStep(
+		state: MarkStepState,
+		context: Context,
+		status: GitBisectStatus,
+	): StepResultGenerator<void> {
+		const reference = GitReference.toString(state.reference ?? status.HEAD);
+
+		const step = this.createConfirmStep(appendReposToTitle(`Confirm ${context.title}`, state, context), [
+			{
+				label: context.title,
+				detail:
+					state.subcommand === 'skip'
+						? `Will skip ${reference}, since it can't be tested`
+						: `Will mark ${reference} as ${state.subcommand}`,
+			},
+		]);
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? undefined : StepResult.Break;
+	}
+
+	private async *resetCommandSteps(state: ResetStepState, context: Context): AsyncStepResultGenerator<void> {
+		const status = await Container.git.getBisectStatus(state.repo.path);
+		if (status == null) {
+			QuickCommand.endSteps(state);
+			void window.showWarningMessage('Unable to reset the bisect. No bisect is in progress');
+
+			return;
+		}
+
+		while (this.canStepsContinue(state)) {
+			if (this.confirm(state.confirm)) {
+				const result = yield* this.resetCommandConfirmStep(state, context, status);
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+			}
+
+			QuickCommand.endSteps(state);
+			await this.execute(state.repo, context, () => state.repo.bisectReset());
+		}
+	}
+
+	private *resetCommandConfirmStep(
+		state: ResetStepState,
+		context: Context,
+		status: GitBisectStatus,
+	): StepResultGenerator<void> {
+		const step = this.createConfirmStep(appendReposToTitle(`Confirm ${context.title}`, state, context), [
+			{
+				label: context.title,
+				detail: `Will end the bisect and return to ${GitReference.toString(status.current)}`,
+			},
+		]);
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? undefined : StepResult.Break;
+	}
+
+	private async execute(repo: Repository, context: Context, action: () => Promise<string>) {
+		let data;
+		try {
+			data = await action();
+		} catch (ex) {
+			Logger.error(ex, context.title);
+
+			const msg: string = ex?.message ?? ex?.toString() ?? '';
+			if (/overwritten by checkout/i.test(msg)) {
+				void window.showWarningMessage(
+					'Unable to bisect. Please commit or stash your changes before bisecting and try again',
+				);
+
+				return;
+			}
+
+			void Messages.showGenericErrorMessage(`Unable to ${context.title.toLocaleLowerCase()}`);
+
+			return;
+		}
+
+		const match = firstBadCommitRegex.exec(data);
+		if (match == null) return;
+
+		void window.showInformationMessage(
+			`${GitReference.toString(GitReference.create(match[1], repo.path, { refType: 'revision' }), {
+				capitalize: true,
+				icon: false,
+			})} is the first bad commit`,
+		);
+	}
+}
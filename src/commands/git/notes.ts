@@ -0,0 +1,384 @@
+'use strict';
+import { QuickInputButtons } from 'vscode';
+import { Container } from '../../container';
+import { GitLog, GitNote, GitReference, GitRevisionReference, Repository } from '../../git/git';
+import { Logger } from '../../logger';
+import { Messages } from '../../messages';
+import {
+	appendReposToTitle,
+	AsyncStepResultGenerator,
+	PartialStepState,
+	pickCommitStep,
+	pickRepositoryStep,
+	QuickCommand,
+	StepGenerator,
+	StepResult,
+	StepResultGenerator,
+	StepSelection,
+	StepState,
+} from '../quickCommand';
+import { QuickPickItemOfT } from '../../quickpicks';
+
+interface Context {
+	repos: Repository[];
+	cache: Map<string, Promise<GitLog | undefined>>;
+	notesRefs: string[];
+	title: string;
+}
+
+interface AddState {
+	subcommand: 'add';
+	repo: string | Repository;
+	reference: GitRevisionReference;
+	notesRef: string;
+	message: string;
+}
+
+interface RemoveState {
+	subcommand: 'remove';
+	repo: string | Repository;
+	reference: GitRevisionReference;
+	notesRef: string;
+}
+
+type State = AddState | RemoveState;
+type NotesStepState<T extends State> = SomeNonNullable<StepState<T>, 'subcommand'>;
+type AddStepState<T extends AddState = AddState> = NotesStepState<ExcludeSome<T, 'repo', string>>;
+type RemoveStepState<T extends RemoveState = RemoveState> = NotesStepState<ExcludeSome<T, 'repo', string>>;
+
+const subcommandToTitleMap = new Map<State['subcommand'], string>([
+	['add', 'Add or Edit'],
+	['remove', 'Remove'],
+]);
+function getTitle(title: string, subcommand: State['subcommand'] | undefined) {
+	return subcommand == null ? title : `${subcommandToTitleMap.get(subcommand)} ${title}`;
+}
+
+export interface NotesGitCommandArgs {
+	readonly command: 'notes';
+	confirm?: boolean;
+	state?: Partial<State>;
+}
+
+export class NotesGitCommand extends QuickCommand<State> {
+	private subcommand: State['subcommand'] | undefined;
+
+	constructor(args?: NotesGitCommandArgs) {
+		super('notes', 'notes', 'Notes', {
+			description: 'add, edit, or remove commit notes',
+		});
+
+		let counter = 0;
+		if (args?.state?.subcommand != null) {
+			counter++;
+
+			if (args.state.reference != null) {
+				counter++;
+			}
+
+			if (args.state.notesRef != null) {
+				counter++;
+			}
+
+			if (args.state.subcommand === 'add' && args.state.message != null) {
+				counter++;
+			}
+		}
+
+		if (args?.state?.repo != null) {
+			counter++;
+		}
+
+		this.initialState = {
+			counter: counter,
+			confirm: args?.confirm,
+			...args?.state,
+		};
+	}
+
+	get canConfirm(): boolean {
+		return this.subcommand === 'remove';
+	}
+
+	get canSkipConfirm(): boolean {
+		return false;
+	}
+
+	protected async *steps(state: PartialStepState<State>): StepGenerator {
+		let notesRefs = Container.config.notes.refs;
+		if (notesRefs == null || notesRefs.length === 0) {
+			notesRefs = [GitNote.defaultRef];
+		}
+
+		const context: Context = {
+			repos: [...(await Container.git.getOrderedRepositories())],
+			cache: new Map<string, Promise<GitLog | undefined>>(),
+			notesRefs: notesRefs,
+			title: this.title,
+		};
+
+		let skippedStepTwo = false;
+
+		while (this.canStepsContinue(state)) {
+			context.title = this.title;
+
+			if (state.counter < 1 || state.subcommand == null) {
+				this.subcommand = undefined;
+
+				const result = yield* this.pickSubcommandStep(state);
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.subcommand = result;
+			}
+
+			this.subcommand = state.subcommand;
+
+			if (state.counter < 2 || state.repo == null || typeof state.repo === 'string') {
+				skippedStepTwo = false;
+				if (context.repos.length === 1) {
+					skippedStepTwo = true;
+					state.counter++;
+
+					state.repo = context.repos[0];
+				} else {
+					const result = yield* pickRepositoryStep(state, context);
+					if (result === StepResult.Break) continue;
+
+					state.repo = result;
+				}
+			}
+
+			context.title = getTitle(this.title, state.subcommand);
+
+			switch (state.subcommand) {
+				case 'add':
+					yield* this.addCommandSteps(state as AddStepState, context);
+					// Clear any entered message, since we are exiting this subcommand
+					state.message = undefined;
+					break;
+				case 'remove':
+					yield* this.removeCommandSteps(state as RemoveStepState, context);
+					break;
+				default:
+					QuickCommand.endSteps(state);
+					break;
+			}
+
+			// If we skipped the previous step, make sure we back up past it
+			if (skippedStepTwo) {
+				state.counter--;
+			}
+		}
+
+		return state.counter < 0 ? StepResult.Break : undefined;
+	}
+
+	private *pickSubcommandStep(state: PartialStepState<State>): StepResultGenerator<State['subcommand']> {
+		const step = QuickCommand.createPickStep<QuickPickItemOfT<State['subcommand']>>({
+			title: this.title,
+			placeholder: `Choose a ${this.label} command`,
+			items: [
+				{
+					label: 'add',
+					description: 'adds or edits the note of a commit',
+					picked: state.subcommand === 'add',
+					item: 'add',
+				},
+				{
+					label: 'remove',
+					description: 'removes the note of a commit',
+					picked: state.subcommand === 'remove',
+					item: 'remove',
+				},
+			],
+			buttons: [QuickInputButtons.Back],
+		});
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
+	}
+
+	private async *addCommandSteps(state: AddStepState, context: Context): AsyncStepResultGenerator<void> {
+		while (this.canStepsContinue(state)) {
+			if (state.counter < 3 || state.reference == null) {
+				const result = yield* this.pickCommitStep(state, context, 'Choose a commit to add or edit a note on');
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.reference = result;
+			}
+
+			if (state.counter < 4 || state.notesRef == null) {
+				if (context.notesRefs.length === 1) {
+					state.counter++;
+					state.notesRef = context.notesRefs[0];
+				} else {
+					const result = yield* this.pickNotesRefStep(state, context);
+					if (result === StepResult.Break) continue;
+
+					state.notesRef = result;
+				}
+			}
+
+			if (state.counter < 5 || state.message == null) {
+				const result = yield* this.addCommandInputMessageStep(state, context);
+				if (result === StepResult.Break) {
+					// If we auto-picked the notes ref, make sure we back up past it
+					if (context.notesRefs.length === 1) {
+						state.counter--;
+					}
+
+					continue;
+				}
+
+				state.message = result;
+			}
+
+			QuickCommand.endSteps(state);
+			try {
+				void (await Container.git.addNote(state.repo.path, state.reference.ref, state.message, {
+					force: true,
+					notesRef: state.notesRef,
+				}));
+			} catch (ex) {
+				Logger.error(ex, context.title);
+				void Messages.showGenericErrorMessage(
+					`Unable to add note to ${GitReference.toString(state.reference, { icon: false })}`,
+				);
+			}
+		}
+	}
+
+	private async *addCommandInputMessageStep(state: AddStepState, context: Context): AsyncStepResultGenerator<string> {
+		const existing = await Container.git.getNotes(state.repo.path, state.reference.ref, {
+			notesRefs: [state.notesRef],
+		});
+
+		const step = QuickCommand.createInputStep({
+			title: appendReposToTitle(
+				`${context.title} on ${GitReference.toString(state.reference, { capitalize: true, icon: false })}`,
+				state,
+				context,
+			),
+			placeholder: `Please provide a note for ${GitReference.toString(state.reference, { icon: false })}`,
+			value: state.message ?? existing[0]?.message,
+			prompt: `Enter note${GitNote.isDefaultRef(state.notesRef) ? '' : ` (${GitNote.getName(state.notesRef)})`}`,
+			validate: (value: string | undefined): [boolean, string | undefined] => {
+				if (value == null) return [false, undefined];
+
+				value = value.trim();
+				if (value.length === 0) return [false, 'Please enter a valid note'];
+
+				return [true, undefined];
+			},
+		});
+
+		const value: StepSelection<typeof step> = yield step;
+		if (
+			!QuickCommand.canStepContinue(step, state, value) ||
+			!(await QuickCommand.canInputStepContinue(step, state, value))
+		) {
+			return StepResult.Break;
+		}
+
+		return value.trim();
+	}
+
+	private async *removeCommandSteps(state: RemoveStepState, context: Context): AsyncStepResultGenerator<void> {
+		while (this.canStepsContinue(state)) {
+			if (state.counter < 3 || state.reference == null) {
+				const result = yield* this.pickCommitStep(state, context, 'Choose a commit to remove the note from');
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.reference = result;
+			}
+
+			if (state.counter < 4 || state.notesRef == null) {
+				if (context.notesRefs.length === 1) {
+					state.counter++;
+					state.notesRef = context.notesRefs[0];
+				} else {
+					const result = yield* this.pickNotesRefStep(state, context);
+					if (result === StepResult.Break) continue;
+
+					state.notesRef = result;
+				}
+			}
+
+			if (this.confirm(state.confirm)) {
+				const result = yield* this.removeCommandConfirmStep(state, context);
+				if (result === StepResult.Break) {
+					// If we auto-picked the notes ref, make sure we back up past it
+					if (context.notesRefs.length === 1) {
+						state.counter--;
+					}
+
+					continue;
+				}
+			}
+
+			QuickCommand.endSteps(state);
+			try {
+				void (await Container.git.removeNote(state.repo.path, state.reference.ref, {
+					notesRef: state.notesRef,
+				}));
+			} catch (ex) {
+				Logger.error(ex, context.title);
+				void Messages.showGenericErrorMessage(
+					`Unable to remove note from ${GitReference.toString(state.reference, { icon: false })}`,
+				);
+			}
+		}
+	}
+
+	private *removeCommandConfirmStep(state: RemoveStepState, context: Context): StepResultGenerator<void> {
+		const step = this.createConfirmStep(appendReposToTitle(`Confirm ${context.title}`, state, context), [
+			{
+				label: context.title,
+				detail: `Will remove the note${
+					GitNote.isDefaultRef(state.notesRef) ? '' : ` (${GitNote.getName(state.notesRef)})`
+				} from ${GitReference.toString(state.reference)}`,
+			},
+		]);
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? undefined : StepResult.Break;
+	}
+
+	private async *pickCommitStep(
+		state: AddStepState | RemoveStepState,
+		context: Context,
+		placeholder: string,
+	): AsyncStepResultGenerator<GitRevisionReference> {
+		const branch = await state.repo.getBranch();
+		const ref = branch?.ref ?? 'HEAD';
+
+		let log = context.cache.get(ref);
+		if (log == null) {
+			log = Container.git.getLog(state.repo.path, { ref: ref });
+			context.cache.set(ref, log);
+		}
+
+		return yield* pickCommitStep(state, context, {
+			log: await log,
+			onDidLoadMore: log => context.cache.set(ref, Promise.resolve(log)),
+			placeholder: (context, log) => (log == null ? 'No commits found' : placeholder),
+			picked: state.reference?.ref,
+		});
+	}
+
+	private *pickNotesRefStep(state: AddStepState | RemoveStepState, context: Context): StepResultGenerator<string> {
+		const step = QuickCommand.createPickStep<QuickPickItemOfT<string>>({
+			title: appendReposToTitle(context.title, state, context),
+			placeholder: 'Choose a notes ref',
+			items: context.notesRefs.map(r => ({
+				label: GitNote.getName(r),
+				description: r,
+				picked: r === state.notesRef,
+				item: r,
+			})),
+		});
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
+	}
+}
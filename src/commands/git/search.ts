@@ -51,6 +51,13 @@ const searchOperatorToTitleMap = new Map<SearchOperators, string>([
 	['file:', 'Search by File'],
 	['~:', 'Search by Changes'],
 	['change:', 'Search by Changes'],
+	['exact:', 'Search by Exact Changes'],
+	['after:', 'Search After Date'],
+	['before:', 'Search Before Date'],
+	['branch:', 'Search in Branch or Ref'],
+	['ref:', 'Search in Branch or Ref'],
+	['committer:', 'Search by Committer'],
+	['type:', 'Search by Type'],
 ]);
 
 type SearchStepState<T extends State = State> = ExcludeSome<StepState<T>, 'repo', string>;
@@ -281,6 +288,36 @@ export class SearchGitCommand extends QuickCommand<State> {
 				description: 'change: pattern or ~: pattern',
 				item: 'change:',
 			},
+			{
+				label: searchOperatorToTitleMap.get('exact:')!,
+				description: 'exact: string (where the number of occurrences changed)',
+				item: 'exact:',
+			},
+			{
+				label: searchOperatorToTitleMap.get('committer:')!,
+				description: 'committer: pattern',
+				item: 'committer:',
+			},
+			{
+				label: searchOperatorToTitleMap.get('after:')!,
+				description: 'after: date (e.g. 2.weeks, 2021-01-31)',
+				item: 'after:',
+			},
+			{
+				label: searchOperatorToTitleMap.get('before:')!,
+				description: 'before: date (e.g. 1.month, 2021-01-31)',
+				item: 'before:',
+			},
+			{
+				label: searchOperatorToTitleMap.get('ref:')!,
+				description: 'branch: name or ref: ref or range (e.g. main..feature)',
+				item: 'ref:',
+			},
+			{
+				label: searchOperatorToTitleMap.get('type:')!,
+				description: 'type:merge or type:nomerge',
+				item: 'type:',
+			},
 		];
 
 		const matchCaseButton = new QuickCommandButtons.MatchCaseToggle(state.matchCase);
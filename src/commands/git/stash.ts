@@ -2,12 +2,13 @@
 import { QuickInputButtons, QuickPickItem, Uri, window } from 'vscode';
 import { GlyphChars } from '../../constants';
 import { Container } from '../../container';
-import { GitReference, GitStashCommit, GitStashReference, Repository, RunError } from '../../git/git';
+import { GitPatchHunk, GitReference, GitStashCommit, GitStashReference, Repository, RunError } from '../../git/git';
 import { GitUri } from '../../git/gitUri';
 import { GitActions, GitCommandsCommand } from '../gitCommands';
 import {
 	appendReposToTitle,
 	AsyncStepResultGenerator,
+	inputBranchNameStep,
 	PartialStepState,
 	pickRepositoryStep,
 	pickStashStep,
@@ -20,7 +21,7 @@ import {
 	StepSelection,
 	StepState,
 } from '../quickCommand';
-import { FlagsQuickPickItem, QuickPickItemOfT } from '../../quickpicks';
+import { Directive, DirectiveQuickPickItem, FlagsQuickPickItem, QuickPickItemOfT } from '../../quickpicks';
 import { Logger } from '../../logger';
 import { Messages } from '../../messages';
 import { Strings } from '../../system';
@@ -36,6 +37,13 @@ interface ApplyState {
 	reference: GitStashReference;
 }
 
+interface BranchState {
+	subcommand: 'branch';
+	repo: string | Repository;
+	reference: GitStashReference;
+	name: string;
+}
+
 interface DropState {
 	subcommand: 'drop';
 	repo: string | Repository;
@@ -54,19 +62,21 @@ interface PopState {
 	reference: GitStashReference;
 }
 
-type PushFlags = '--include-untracked' | '--keep-index';
+type PushFlags = '--include-untracked' | '--keep-index' | '--patch' | '--staged';
 
 interface PushState {
 	subcommand: 'push';
 	repo: string | Repository;
 	message?: string;
 	uris?: Uri[];
+	hunks?: GitPatchHunk[];
 	flags: PushFlags[];
 }
 
-type State = ApplyState | DropState | ListState | PopState | PushState;
+type State = ApplyState | BranchState | DropState | ListState | PopState | PushState;
 type StashStepState<T extends State> = SomeNonNullable<StepState<T>, 'subcommand'>;
 type ApplyStepState<T extends ApplyState = ApplyState> = StashStepState<ExcludeSome<T, 'repo', string>>;
+type BranchStepState<T extends BranchState = BranchState> = StashStepState<ExcludeSome<T, 'repo', string>>;
 type DropStepState<T extends DropState = DropState> = StashStepState<ExcludeSome<T, 'repo', string>>;
 type ListStepState<T extends ListState = ListState> = StashStepState<ExcludeSome<T, 'repo', string>>;
 type PopStepState<T extends PopState = PopState> = StashStepState<ExcludeSome<T, 'repo', string>>;
@@ -74,6 +84,7 @@ type PushStepState<T extends PushState = PushState> = StashStepState<ExcludeSome
 
 const subcommandToTitleMap = new Map<State['subcommand'], string>([
 	['apply', 'Apply'],
+	['branch', 'Create Branch from'],
 	['drop', 'Drop'],
 	['list', 'List'],
 	['pop', 'Pop'],
@@ -103,6 +114,7 @@ export class StashGitCommand extends QuickCommand<State> {
 
 			switch (args.state.subcommand) {
 				case 'apply':
+				case 'branch':
 				case 'drop':
 				case 'pop':
 					if (args.state.reference != null) {
@@ -187,6 +199,9 @@ export class StashGitCommand extends QuickCommand<State> {
 				case 'pop':
 					yield* this.applyOrPopCommandSteps(state as ApplyStepState | PopStepState, context);
 					break;
+				case 'branch':
+					yield* this.branchCommandSteps(state as BranchStepState, context);
+					break;
 				case 'drop':
 					yield* this.dropCommandSteps(state as DropStepState, context);
 					break;
@@ -221,6 +236,13 @@ export class StashGitCommand extends QuickCommand<State> {
 					picked: state.subcommand === 'apply',
 					item: 'apply',
 				},
+				{
+					label: 'branch',
+					description:
+						'creates and switches to a new branch from the specified stash, then applies and deletes the stash',
+					picked: state.subcommand === 'branch',
+					item: 'branch',
+				},
 				{
 					label: 'drop',
 					description: 'deletes the specified stash',
@@ -319,10 +341,21 @@ export class StashGitCommand extends QuickCommand<State> {
 		}
 	}
 
-	private *applyOrPopCommandConfirmStep(
+	private async *applyOrPopCommandConfirmStep(
 		state: ApplyStepState | PopStepState,
 		context: Context,
-	): StepResultGenerator<'apply' | 'pop'> {
+	): AsyncStepResultGenerator<'apply' | 'pop'> {
+		// Preview which files changed by the stash also have uncommitted changes, since Git may refuse to apply over them
+		const overlapping = await Container.git.getStashOverlappingFiles(state.repo.path, state.reference.ref);
+		const overlappingDetail =
+			overlapping.length === 0
+				? ''
+				: `, but ${
+						overlapping.length === 1
+							? GitUri.getFormattedFilename(overlapping[0])
+							: Strings.pluralize('file', overlapping.length)
+				  } ${overlapping.length === 1 ? 'also has' : 'also have'} uncommitted changes`;
+
 		const step = this.createConfirmStep<QuickPickItem & { item: 'apply' | 'pop' }>(
 			appendReposToTitle(`Confirm ${context.title}`, state, context),
 			[
@@ -332,10 +365,10 @@ export class StashGitCommand extends QuickCommand<State> {
 						state.subcommand === 'pop'
 							? `Will delete ${GitReference.toString(
 									state.reference,
-							  )} and apply the changes to the working tree`
+							  )} and apply the changes to the working tree${overlappingDetail}`
 							: `Will apply the changes from ${GitReference.toString(
 									state.reference,
-							  )} to the working tree`,
+							  )} to the working tree${overlappingDetail}`,
 					item: state.subcommand,
 				},
 				// Alternate confirmation (if pop then apply, and vice versa)
@@ -345,16 +378,19 @@ export class StashGitCommand extends QuickCommand<State> {
 						state.subcommand === 'pop'
 							? `Will apply the changes from ${GitReference.toString(
 									state.reference,
-							  )} to the working tree`
+							  )} to the working tree${overlappingDetail}`
 							: `Will delete ${GitReference.toString(
 									state.reference,
-							  )} and apply the changes to the working tree`,
+							  )} and apply the changes to the working tree${overlappingDetail}`,
 					item: state.subcommand === 'pop' ? 'apply' : 'pop',
 				},
 			],
 			undefined,
 			{
-				placeholder: `Confirm ${context.title}`,
+				placeholder:
+					overlapping.length === 0
+						? `Confirm ${context.title}`
+						: `Overlaps with uncommitted changes to ${Strings.truncate(overlapping.join(', '), 100)}`,
 				additionalButtons: [QuickCommandButtons.RevealInSideBar],
 				onDidClickButton: (quickpick, button) => {
 					if (button === QuickCommandButtons.RevealInSideBar) {
@@ -370,6 +406,88 @@ export class StashGitCommand extends QuickCommand<State> {
 		return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
 	}
 
+	private async *branchCommandSteps(state: BranchStepState, context: Context): StepGenerator {
+		while (this.canStepsContinue(state)) {
+			if (state.counter < 3 || state.reference == null) {
+				const result: StepResult<GitStashReference> = yield* pickStashStep(state, context, {
+					stash: await Container.git.getStash(state.repo.path),
+					placeholder: (context, stash) =>
+						stash == null
+							? `No stashes found in ${state.repo.formattedName}`
+							: 'Choose a stash to create a branch from',
+					picked: state.reference?.ref,
+				});
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.reference = result;
+			}
+
+			if (state.counter < 4 || state.name == null) {
+				const result = yield* inputBranchNameStep(state, context, {
+					placeholder: 'Please provide a name for the new branch',
+					titleContext: ` ${GitReference.toString(state.reference, { icon: false, label: false })}`,
+					value: state.name,
+				});
+				if (result === StepResult.Break) continue;
+
+				state.name = result;
+			}
+
+			if (this.confirm(state.confirm)) {
+				const result = yield* this.branchCommandConfirmStep(state, context);
+				if (result === StepResult.Break) continue;
+			}
+
+			QuickCommand.endSteps(state);
+			try {
+				// branch needs a stash index, e.g. `stash@{1}`, to delete the stash (a sha is only applied)
+				void (await state.repo.stashBranch(
+					state.name,
+					state.reference.number != null ? `stash@{${state.reference.number}}` : state.reference.ref,
+				));
+			} catch (ex) {
+				Logger.error(ex, context.title);
+
+				const msg: string = ex?.message ?? ex?.toString() ?? '';
+				void Messages.showGenericErrorMessage(
+					`Unable to create branch from stash \u2014 ${msg.trim().replace(/\n+?/g, '; ')}`,
+				);
+
+				return;
+			}
+		}
+	}
+
+	private *branchCommandConfirmStep(state: BranchStepState, context: Context): StepResultGenerator<void> {
+		const step = this.createConfirmStep(
+			appendReposToTitle(`Confirm ${context.title}`, state, context),
+			[
+				{
+					label: context.title,
+					detail: `Will create and switch to a new branch named ${state.name} from ${GitReference.toString(
+						state.reference,
+					)}, then apply and delete the stash`,
+				},
+			],
+			undefined,
+			{
+				placeholder: `Confirm ${context.title}`,
+				additionalButtons: [QuickCommandButtons.RevealInSideBar],
+				onDidClickButton: (quickpick, button) => {
+					if (button === QuickCommandButtons.RevealInSideBar) {
+						void GitActions.Stash.reveal(state.reference, {
+							select: true,
+							expand: true,
+						});
+					}
+				},
+			},
+		);
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? undefined : StepResult.Break;
+	}
+
 	private async *dropCommandSteps(state: DropStepState, context: Context): StepGenerator {
 		while (this.canStepsContinue(state)) {
 			if (state.counter < 3 || state.reference == null) {
@@ -488,12 +606,25 @@ export class StashGitCommand extends QuickCommand<State> {
 				state.flags = result;
 			}
 
+			if (state.flags.includes('--patch')) {
+				const result = yield* this.pushCommandPickHunksStep(state, context);
+				if (result === StepResult.Break) continue;
+
+				state.hunks = result;
+			}
+
 			QuickCommand.endSteps(state);
 			try {
-				void (await state.repo.stashSave(state.message, state.uris, {
-					includeUntracked: state.flags.includes('--include-untracked'),
-					keepIndex: state.flags.includes('--keep-index'),
-				}));
+				if (state.flags.includes('--staged')) {
+					void (await state.repo.stashSaveStaged(state.message, state.uris));
+				} else if (state.flags.includes('--patch')) {
+					void (await state.repo.stashSaveHunks(state.hunks!, state.message));
+				} else {
+					void (await state.repo.stashSave(state.message, state.uris, {
+						includeUntracked: state.flags.includes('--include-untracked'),
+						keepIndex: state.flags.includes('--keep-index'),
+					}));
+				}
 			} catch (ex) {
 				Logger.error(ex, context.title);
 
@@ -504,6 +635,12 @@ export class StashGitCommand extends QuickCommand<State> {
 					return;
 				}
 
+				if (msg.includes('no staged changes')) {
+					void window.showInformationMessage('There are no staged changes to stash');
+
+					return;
+				}
+
 				void Messages.showGenericErrorMessage('Unable to stash changes');
 
 				return;
@@ -563,6 +700,16 @@ export class StashGitCommand extends QuickCommand<State> {
 							description: '--keep-index',
 							detail: 'Will stash uncommitted changes, but will keep staged files intact',
 						}),
+						FlagsQuickPickItem.create<PushFlags>(state.flags, ['--staged'], {
+							label: `${context.title} Staged Only`,
+							description: '--staged',
+							detail: 'Will stash only staged changes, leaving unstaged changes intact',
+						}),
+						FlagsQuickPickItem.create<PushFlags>(state.flags, ['--patch'], {
+							label: `${context.title} Selected Hunks${GlyphChars.Ellipsis}`,
+							description: '--patch',
+							detail: 'Will stash only the chosen hunks of unstaged changes',
+						}),
 				  ]
 				: [
 						FlagsQuickPickItem.create<PushFlags>(state.flags, [], {
@@ -581,6 +728,24 @@ export class StashGitCommand extends QuickCommand<State> {
 									: `${state.uris.length} files`
 							}, but will keep staged files intact`,
 						}),
+						FlagsQuickPickItem.create<PushFlags>(state.flags, ['--staged'], {
+							label: `${context.title} Staged Only`,
+							description: '--staged',
+							detail: `Will stash only staged changes from ${
+								state.uris.length === 1
+									? GitUri.getFormattedFilename(state.uris[0])
+									: `${state.uris.length} files`
+							}`,
+						}),
+						FlagsQuickPickItem.create<PushFlags>(state.flags, ['--patch'], {
+							label: `${context.title} Selected Hunks${GlyphChars.Ellipsis}`,
+							description: '--patch',
+							detail: `Will stash only the chosen hunks of unstaged changes from ${
+								state.uris.length === 1
+									? GitUri.getFormattedFilename(state.uris[0])
+									: `${state.uris.length} files`
+							}`,
+						}),
 				  ],
 			undefined,
 			{ placeholder: `Confirm ${context.title}` },
@@ -588,4 +753,46 @@ export class StashGitCommand extends QuickCommand<State> {
 		const selection: StepSelection<typeof step> = yield step;
 		return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
 	}
+
+	private async *pushCommandPickHunksStep(
+		state: PushStepState,
+		context: Context,
+	): AsyncStepResultGenerator<GitPatchHunk[]> {
+		const hunks = await Container.git.getUnstagedHunks(state.repo.path, state.uris);
+
+		const step = QuickCommand.createPickStep<QuickPickItemOfT<GitPatchHunk> | DirectiveQuickPickItem>({
+			title: appendReposToTitle(`${context.title} Selected Hunks`, state, context),
+			multiselect: hunks.length !== 0,
+			placeholder: hunks.length === 0 ? 'No unstaged changes found' : 'Choose hunks to stash',
+			matchOnDescription: true,
+			matchOnDetail: true,
+			items:
+				hunks.length === 0
+					? [
+							DirectiveQuickPickItem.create(Directive.Back, true),
+							DirectiveQuickPickItem.create(Directive.Cancel),
+					  ]
+					: hunks.map(h => {
+							const [range, ...lines] = Strings.lines(h.hunk);
+							const changed = lines.filter(l => l[0] === '+' || l[0] === '-');
+
+							return {
+								label: h.fileName,
+								description: `${range}${Strings.pad(GlyphChars.Dot, 2, 2)}+${h.additions} -${
+									h.deletions
+								}`,
+								detail: changed.slice(0, 3).join(Strings.pad(GlyphChars.Dot, 2, 2)),
+								picked: hunks.length === 1,
+								item: h,
+							};
+					  }),
+			validate: (selection: (QuickPickItemOfT<GitPatchHunk> | DirectiveQuickPickItem)[]) =>
+				selection.length !== 0,
+		});
+		const selection: StepSelection<typeof step> = yield step;
+		if (!QuickCommand.canPickStepContinue(step, state, selection)) return StepResult.Break;
+
+		const picked = selection.filter((i): i is QuickPickItemOfT<GitPatchHunk> => !DirectiveQuickPickItem.is(i));
+		return picked.length === 0 ? StepResult.Break : picked.map(i => i.item);
+	}
 }
@@ -0,0 +1,569 @@
+'use strict';
+import * as paths from 'path';
+import { QuickInputButtons, Uri, window } from 'vscode';
+import { Container } from '../../container';
+import { GitReference, GitWorktree, Repository } from '../../git/git';
+import { Logger } from '../../logger';
+import { Messages } from '../../messages';
+import {
+	appendReposToTitle,
+	AsyncStepResultGenerator,
+	inputBranchNameStep,
+	PartialStepState,
+	pickBranchOrTagStep,
+	pickRepositoryStep,
+	pickWorktreesStep,
+	pickWorktreeStep,
+	QuickCommand,
+	QuickPickStep,
+	StepGenerator,
+	StepResult,
+	StepResultGenerator,
+	StepSelection,
+	StepState,
+} from '../quickCommand';
+import { FlagsQuickPickItem, QuickPickItemOfT } from '../../quickpicks';
+import { Strings } from '../../system';
+import { GitActions } from '../gitCommands.actions';
+
+interface Context {
+	repos: Repository[];
+	showTags: boolean;
+	title: string;
+}
+
+type CreateFlags = '--force' | '-b' | '--detach';
+
+interface CreateState {
+	subcommand: 'create';
+	repo: string | Repository;
+	reference: GitReference;
+	uri: Uri;
+	createBranch: string;
+	flags: CreateFlags[];
+}
+
+type DeleteFlags = '--force';
+
+interface DeleteState {
+	subcommand: 'delete';
+	repo: string | Repository;
+	worktrees: GitWorktree | GitWorktree[];
+	flags: DeleteFlags[];
+}
+
+type OpenFlags = '--new-window';
+
+interface OpenState {
+	subcommand: 'open';
+	repo: string | Repository;
+	worktree: GitWorktree;
+	flags: OpenFlags[];
+}
+
+type State = CreateState | DeleteState | OpenState;
+type WorktreeStepState<T extends State> = SomeNonNullable<StepState<T>, 'subcommand'>;
+type CreateStepState<T extends CreateState = CreateState> = WorktreeStepState<ExcludeSome<T, 'repo', string>>;
+type DeleteStepState<T extends DeleteState = DeleteState> = WorktreeStepState<ExcludeSome<T, 'repo', string>>;
+type OpenStepState<T extends OpenState = OpenState> = WorktreeStepState<ExcludeSome<T, 'repo', string>>;
+
+const subcommandToTitleMap = new Map<State['subcommand'], string>([
+	['create', 'Create'],
+	['delete', 'Delete'],
+	['open', 'Open'],
+]);
+function getTitle(title: string, subcommand: State['subcommand'] | undefined) {
+	return subcommand == null ? title : `${subcommandToTitleMap.get(subcommand)} ${title}`;
+}
+
+export interface WorktreeGitCommandArgs {
+	readonly command: 'worktree';
+	confirm?: boolean;
+	state?: Partial<State>;
+}
+
+export class WorktreeGitCommand extends QuickCommand<State> {
+	private subcommand: State['subcommand'] | undefined;
+
+	constructor(args?: WorktreeGitCommandArgs) {
+		super('worktree', 'worktree', 'Worktree', {
+			description: 'create, open, or delete worktrees',
+		});
+
+		let counter = 0;
+		if (args?.state?.subcommand != null) {
+			counter++;
+
+			switch (args.state.subcommand) {
+				case 'create':
+					if (args.state.reference != null) {
+						counter++;
+					}
+
+					if (args.state.uri != null) {
+						counter++;
+					}
+
+					break;
+				case 'delete':
+					if (
+						args.state.worktrees != null &&
+						(!Array.isArray(args.state.worktrees) || args.state.worktrees.length !== 0)
+					) {
+						counter++;
+					}
+
+					break;
+				case 'open':
+					if (args.state.worktree != null) {
+						counter++;
+					}
+
+					break;
+			}
+		}
+
+		if (args?.state?.repo != null) {
+			counter++;
+		}
+
+		this.initialState = {
+			counter: counter,
+			confirm: args?.confirm,
+			...args?.state,
+		};
+	}
+
+	get canConfirm(): boolean {
+		return this.subcommand != null;
+	}
+
+	get canSkipConfirm(): boolean {
+		return this.subcommand === 'delete' || this.subcommand === 'open' ? false : super.canSkipConfirm;
+	}
+
+	get skipConfirmKey() {
+		return `${this.key}${this.subcommand == null ? '' : `-${this.subcommand}`}:${this.pickedVia}`;
+	}
+
+	protected async *steps(state: PartialStepState<State>): StepGenerator {
+		const context: Context = {
+			repos: [...(await Container.git.getOrderedRepositories())],
+			showTags: false,
+			title: this.title,
+		};
+
+		let skippedStepTwo = false;
+
+		while (this.canStepsContinue(state)) {
+			context.title = this.title;
+
+			if (state.counter < 1 || state.subcommand == null) {
+				this.subcommand = undefined;
+
+				const result = yield* this.pickSubcommandStep(state);
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.subcommand = result;
+			}
+
+			this.subcommand = state.subcommand;
+
+			if (state.counter < 2 || state.repo == null || typeof state.repo === 'string') {
+				skippedStepTwo = false;
+				if (context.repos.length === 1) {
+					skippedStepTwo = true;
+					state.counter++;
+
+					state.repo = context.repos[0];
+				} else {
+					const result = yield* pickRepositoryStep(state, context);
+					if (result === StepResult.Break) continue;
+
+					state.repo = result;
+				}
+			}
+
+			context.title = getTitle(state.subcommand === 'delete' ? 'Worktrees' : this.title, state.subcommand);
+
+			switch (state.subcommand) {
+				case 'create': {
+					yield* this.createCommandSteps(state as CreateStepState, context);
+					// Clear any chosen path and branch name, since we are exiting this subcommand
+					state.uri = undefined;
+					state.createBranch = undefined;
+					break;
+				}
+				case 'delete':
+					yield* this.deleteCommandSteps(state as DeleteStepState, context);
+					break;
+				case 'open':
+					yield* this.openCommandSteps(state as OpenStepState, context);
+					break;
+				default:
+					QuickCommand.endSteps(state);
+					break;
+			}
+
+			// If we skipped the previous step, make sure we back up past it
+			if (skippedStepTwo) {
+				state.counter--;
+			}
+		}
+
+		return state.counter < 0 ? StepResult.Break : undefined;
+	}
+
+	private *pickSubcommandStep(state: PartialStepState<State>): StepResultGenerator<State['subcommand']> {
+		const step = QuickCommand.createPickStep<QuickPickItemOfT<State['subcommand']>>({
+			title: this.title,
+			placeholder: `Choose a ${this.label} command`,
+			items: [
+				{
+					label: 'create',
+					description: 'creates a new worktree',
+					picked: state.subcommand === 'create',
+					item: 'create',
+				},
+				{
+					label: 'open',
+					description: 'opens the specified worktree',
+					picked: state.subcommand === 'open',
+					item: 'open',
+				},
+				{
+					label: 'delete',
+					description: 'deletes the specified worktrees',
+					picked: state.subcommand === 'delete',
+					item: 'delete',
+				},
+			],
+			buttons: [QuickInputButtons.Back],
+		});
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
+	}
+
+	private async *createCommandSteps(state: CreateStepState, context: Context): AsyncStepResultGenerator<void> {
+		if (state.flags == null) {
+			state.flags = [];
+		}
+
+		while (this.canStepsContinue(state)) {
+			if (state.counter < 3 || state.reference == null) {
+				const result = yield* pickBranchOrTagStep(state, context, {
+					placeholder: context =>
+						`Choose a branch${context.showTags ? ' or tag' : ''} to create the new worktree for`,
+					picked: state.reference?.ref ?? (await state.repo.getBranch())?.ref,
+					value: GitReference.isRevision(state.reference) ? state.reference.ref : undefined,
+				});
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.reference = result;
+			}
+
+			if (state.counter < 4 || state.uri == null) {
+				const result = yield* this.createCommandInputPathStep(state, context);
+				if (result === StepResult.Break) continue;
+
+				state.uri = result;
+			}
+
+			if (this.confirm(state.confirm)) {
+				const result = yield* this.createCommandConfirmStep(state, context);
+				if (result === StepResult.Break) continue;
+
+				state.flags = result;
+			}
+
+			if (state.flags.includes('-b') && state.createBranch == null) {
+				const result = yield* inputBranchNameStep(state, context, {
+					placeholder: 'Please provide a name for the new branch',
+					titleContext: ` from ${GitReference.toString(state.reference, { capitalize: true, icon: false })}`,
+					value: GitReference.getNameWithoutRemote(state.reference),
+				});
+				if (result === StepResult.Break) {
+					// Clear the flags, since we can back up into the confirm step
+					state.flags = [];
+					continue;
+				}
+
+				state.createBranch = result;
+			}
+
+			QuickCommand.endSteps(state);
+			try {
+				void (await state.repo.createWorktree(state.uri.fsPath, {
+					commitish: state.reference.ref,
+					createBranch: state.flags.includes('-b') ? state.createBranch : undefined,
+					detach: state.flags.includes('--detach'),
+					force: state.flags.includes('--force'),
+				}));
+			} catch (ex) {
+				Logger.error(ex, context.title);
+
+				const msg: string = ex?.message ?? ex?.toString() ?? '';
+				if (msg.includes('newer version of Git')) {
+					void window.showErrorMessage(`Unable to create worktree. ${msg}`);
+
+					return;
+				}
+
+				if (/already exists/i.test(msg)) {
+					void window.showWarningMessage(
+						`Unable to create worktree. '${state.uri.fsPath}' already exists. Please choose a different location and try again`,
+					);
+
+					return;
+				}
+
+				if (/is already checked out at/i.test(msg)) {
+					void window.showWarningMessage(
+						`Unable to create worktree. ${GitReference.toString(state.reference, {
+							capitalize: true,
+							icon: false,
+						})} is already checked out in another worktree`,
+					);
+
+					return;
+				}
+
+				void Messages.showGenericErrorMessage('Unable to create worktree');
+
+				return;
+			}
+		}
+	}
+
+	private async *createCommandInputPathStep(state: CreateStepState, context: Context): AsyncStepResultGenerator<Uri> {
+		const step = QuickCommand.createInputStep({
+			title: appendReposToTitle(
+				`${context.title} for ${GitReference.toString(state.reference, { capitalize: true, icon: false })}`,
+				state,
+				context,
+			),
+			placeholder: 'Please provide a location for the new worktree',
+			value:
+				state.uri?.fsPath ??
+				paths.join(
+					paths.dirname(state.repo.path),
+					`${paths.basename(state.repo.path)}.worktrees`,
+					GitReference.getNameWithoutRemote(state.reference).replace(/[\\/]/g, '-'),
+				),
+			prompt: 'Enter worktree location',
+			validate: (value: string | undefined): [boolean, string | undefined] => {
+				if (value == null) return [false, undefined];
+
+				value = value.trim();
+				if (value.length === 0) return [false, 'Please enter a valid location'];
+				if (!paths.isAbsolute(value)) return [false, 'Please enter an absolute path'];
+
+				return [true, undefined];
+			},
+		});
+
+		const value: StepSelection<typeof step> = yield step;
+
+		if (
+			!QuickCommand.canStepContinue(step, state, value) ||
+			!(await QuickCommand.canInputStepContinue(step, state, value))
+		) {
+			return StepResult.Break;
+		}
+
+		return Uri.file(value.trim());
+	}
+
+	private *createCommandConfirmStep(state: CreateStepState, context: Context): StepResultGenerator<CreateFlags[]> {
+		const step: QuickPickStep<FlagsQuickPickItem<CreateFlags>> = QuickCommand.createConfirmStep(
+			appendReposToTitle(`Confirm ${context.title}`, state, context),
+			[
+				FlagsQuickPickItem.create<CreateFlags>(state.flags, [], {
+					label: context.title,
+					detail: `Will create a new worktree for ${GitReference.toString(state.reference)} in ${
+						state.uri.fsPath
+					}`,
+				}),
+				FlagsQuickPickItem.create<CreateFlags>(state.flags, ['-b'], {
+					label: `${context.title} for New Branch`,
+					description: '-b',
+					detail: `Will create a new branch from ${GitReference.toString(
+						state.reference,
+					)} and a new worktree for it in ${state.uri.fsPath}`,
+				}),
+				FlagsQuickPickItem.create<CreateFlags>(state.flags, ['--detach'], {
+					label: `${context.title} (Detached)`,
+					description: '--detach',
+					detail: `Will create a new worktree with a detached HEAD at ${GitReference.toString(
+						state.reference,
+					)} in ${state.uri.fsPath}`,
+				}),
+				FlagsQuickPickItem.create<CreateFlags>(state.flags, ['--force'], {
+					label: `Force ${context.title}`,
+					description: '--force',
+					detail: `Will forcibly create a new worktree for ${GitReference.toString(state.reference)} in ${
+						state.uri.fsPath
+					}`,
+				}),
+			],
+			context,
+		);
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
+	}
+
+	private async *deleteCommandSteps(state: DeleteStepState, context: Context): StepGenerator {
+		if (state.flags == null) {
+			state.flags = [];
+		}
+
+		while (this.canStepsContinue(state)) {
+			if (state.worktrees != null && !Array.isArray(state.worktrees)) {
+				state.worktrees = [state.worktrees];
+			}
+
+			if (state.counter < 3 || state.worktrees == null || state.worktrees.length === 0) {
+				context.title = getTitle('Worktrees', state.subcommand);
+
+				const repoPath = Strings.normalizePath(state.repo.path);
+				const result = yield* pickWorktreesStep(state, context, {
+					filter: w => !w.main && Strings.normalizePath(w.path) !== repoPath,
+					picked: state.worktrees?.map(w => w.path),
+					placeholder: 'Choose worktrees to delete',
+				});
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.worktrees = result;
+			}
+
+			context.title = getTitle(
+				Strings.pluralize('Worktree', state.worktrees.length, { number: '' }).trim(),
+				state.subcommand,
+			);
+
+			const result = yield* this.deleteCommandConfirmStep(
+				state as ExcludeSome<typeof state, 'worktrees', GitWorktree>,
+				context,
+			);
+			if (result === StepResult.Break) continue;
+
+			state.flags = result;
+
+			QuickCommand.endSteps(state);
+			for (const worktree of state.worktrees) {
+				try {
+					void (await state.repo.deleteWorktree(worktree.path, {
+						force: state.flags.includes('--force'),
+					}));
+				} catch (ex) {
+					Logger.error(ex, context.title);
+
+					const msg: string = ex?.message ?? ex?.toString() ?? '';
+					if (msg.includes('newer version of Git')) {
+						void window.showErrorMessage(`Unable to delete worktree. ${msg}`);
+
+						return;
+					}
+
+					if (/contains modified or untracked files/i.test(msg)) {
+						void window.showWarningMessage(
+							`Unable to delete worktree '${worktree.name}'. It contains modified or untracked files; use force delete to remove it anyway`,
+						);
+
+						continue;
+					}
+
+					if (/is locked/i.test(msg)) {
+						void window.showWarningMessage(
+							`Unable to delete worktree '${worktree.name}'. It is locked; please unlock it before trying again`,
+						);
+
+						continue;
+					}
+
+					void Messages.showGenericErrorMessage(`Unable to delete worktree '${worktree.name}'`);
+				}
+			}
+		}
+	}
+
+	private *deleteCommandConfirmStep(
+		state: DeleteStepState<ExcludeSome<DeleteState, 'worktrees', GitWorktree>>,
+		context: Context,
+	): StepResultGenerator<DeleteFlags[]> {
+		const description =
+			state.worktrees.length === 1
+				? `worktree ${state.worktrees[0].name}`
+				: `${state.worktrees.length} worktrees`;
+
+		const step: QuickPickStep<FlagsQuickPickItem<DeleteFlags>> = QuickCommand.createConfirmStep(
+			appendReposToTitle(`Confirm ${context.title}`, state, context),
+			[
+				FlagsQuickPickItem.create<DeleteFlags>(state.flags, [], {
+					label: context.title,
+					detail: `Will delete ${description}`,
+				}),
+				FlagsQuickPickItem.create<DeleteFlags>(state.flags, ['--force'], {
+					label: `Force ${context.title}`,
+					description: '--force',
+					detail: `Will forcibly delete ${description}, including any uncommitted changes`,
+				}),
+			],
+			context,
+		);
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
+	}
+
+	private async *openCommandSteps(state: OpenStepState, context: Context): StepGenerator {
+		if (state.flags == null) {
+			state.flags = [];
+		}
+
+		while (this.canStepsContinue(state)) {
+			if (state.counter < 3 || state.worktree == null) {
+				context.title = getTitle('Worktree', state.subcommand);
+
+				const result = yield* pickWorktreeStep(state, context, {
+					picked: state.worktree?.path,
+					placeholder: 'Choose worktree to open',
+				});
+				// Always break on the first step (so we will go back)
+				if (result === StepResult.Break) break;
+
+				state.worktree = result;
+			}
+
+			const result = yield* this.openCommandConfirmStep(state, context);
+			if (result === StepResult.Break) continue;
+
+			state.flags = result;
+
+			QuickCommand.endSteps(state);
+			void GitActions.Worktree.open(state.worktree, { openInNewWindow: state.flags.includes('--new-window') });
+		}
+	}
+
+	private *openCommandConfirmStep(state: OpenStepState, context: Context): StepResultGenerator<OpenFlags[]> {
+		const step: QuickPickStep<FlagsQuickPickItem<OpenFlags>> = QuickCommand.createConfirmStep(
+			appendReposToTitle(`Confirm ${context.title}`, state, context),
+			[
+				FlagsQuickPickItem.create<OpenFlags>(state.flags, [], {
+					label: 'Add Worktree to Workspace',
+					detail: `Will add worktree ${state.worktree.name} to the current workspace`,
+				}),
+				FlagsQuickPickItem.create<OpenFlags>(state.flags, ['--new-window'], {
+					label: `${context.title} in New Window`,
+					description: 'new window',
+					detail: `Will open worktree ${state.worktree.name} in a new window`,
+				}),
+			],
+			context,
+		);
+		const selection: StepSelection<typeof step> = yield step;
+		return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
+	}
+}
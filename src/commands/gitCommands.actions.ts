@@ -10,6 +10,7 @@ import {
 	findOrOpenEditors,
 	GitCommandsCommandArgs,
 	OpenWorkingFileCommandArgs,
+	openWorkspace,
 } from '../commands';
 import { configuration, FileAnnotationType } from '../configuration';
 import { Container } from '../container';
@@ -22,8 +23,11 @@ import {
 	GitRemote,
 	GitRevision,
 	GitRevisionReference,
+	GitStashCommit,
 	GitStashReference,
+	GitSubmodule,
 	GitTagReference,
+	GitWorktree,
 	Repository,
 } from '../git/git';
 import { GitUri } from '../git/gitUri';
@@ -106,6 +110,29 @@ export namespace GitActions {
 		});
 	}
 
+	export namespace Bisect {
+		export function start(repo?: string | Repository, bad?: GitReference, good?: GitReference) {
+			return executeGitCommand({
+				command: 'bisect',
+				state: { subcommand: 'start', repo: repo, bad: bad, good: good },
+			});
+		}
+
+		export function mark(repo: string | Repository, term: 'bad' | 'good' | 'skip', ref?: GitRevisionReference) {
+			return executeGitCommand({
+				command: 'bisect',
+				state: { subcommand: term, repo: repo, reference: ref },
+			});
+		}
+
+		export function reset(repo: string | Repository) {
+			return executeGitCommand({
+				command: 'bisect',
+				state: { subcommand: 'reset', repo: repo },
+			});
+		}
+	}
+
 	export namespace Branch {
 		export function create(repo?: string | Repository, ref?: GitReference, name?: string) {
 			return executeGitCommand({
@@ -837,6 +864,13 @@ export namespace GitActions {
 			});
 		}
 
+		export function branch(repo?: string | Repository, ref?: GitStashReference, name?: string) {
+			return executeGitCommand({
+				command: 'stash',
+				state: { subcommand: 'branch', repo: repo, reference: ref, name: name },
+			});
+		}
+
 		export function drop(repo?: string | Repository, ref?: GitStashReference) {
 			return executeGitCommand({
 				command: 'stash',
@@ -844,6 +878,21 @@ export namespace GitActions {
 			});
 		}
 
+		export async function openAllChangesWithWorking(stash: GitStashCommit, options?: TextDocumentShowOptions) {
+			// Only open the files whose stashed contents differ from the working tree
+			const diff = await Container.git.getDiffStatus(stash.repoPath, stash.sha);
+			const files = diff == null ? [] : stash.files.filter(f => diff.some(d => d.fileName === f.fileName));
+			if (files.length === 0) {
+				void window.showInformationMessage(
+					`${GitReference.toString(stash, { capitalize: true, icon: false })} matches the working tree`,
+				);
+
+				return;
+			}
+
+			void (await Commit.openAllChangesWithWorking(files, { repoPath: stash.repoPath, ref: stash.sha }, options));
+		}
+
 		export function pop(repo?: string | Repository, ref?: GitStashReference) {
 			return executeGitCommand({
 				command: 'stash',
@@ -851,7 +900,13 @@ export namespace GitActions {
 			});
 		}
 
-		export function push(repo?: string | Repository, uris?: Uri[], message?: string, keepStaged: boolean = false) {
+		export function push(
+			repo?: string | Repository,
+			uris?: Uri[],
+			message?: string,
+			keepStaged: boolean = false,
+			options?: { onlyStaged?: boolean; patch?: boolean },
+		) {
 			return executeGitCommand({
 				command: 'stash',
 				state: {
@@ -859,11 +914,22 @@ export namespace GitActions {
 					repo: repo,
 					uris: uris,
 					message: message,
-					flags: keepStaged ? ['--keep-index'] : undefined,
+					flags: options?.onlyStaged
+						? ['--staged']
+						: options?.patch
+						? ['--patch']
+						: keepStaged
+						? ['--keep-index']
+						: undefined,
 				},
 			});
 		}
 
+		export async function restore(repo: string | Repository, stash: GitStashCommit) {
+			repo = await ensureRepo(repo);
+			void (await repo.stashStore(stash.sha, stash.message));
+		}
+
 		export async function reveal(
 			stash: GitStashReference,
 			options?: {
@@ -883,4 +949,47 @@ export namespace GitActions {
 			return node;
 		}
 	}
+
+	export namespace Submodule {
+		export async function sync(repo: string | Repository, submodules?: GitSubmodule | GitSubmodule[]) {
+			repo = await ensureRepo(repo);
+			void (await repo.syncSubmodules(toSubmodulePaths(submodules), { recursive: true }));
+		}
+
+		export async function update(repo: string | Repository, submodules?: GitSubmodule | GitSubmodule[]) {
+			repo = await ensureRepo(repo);
+			void (await repo.updateSubmodules(toSubmodulePaths(submodules), { init: true, recursive: true }));
+		}
+
+		function toSubmodulePaths(submodules: GitSubmodule | GitSubmodule[] | undefined): string[] | undefined {
+			if (submodules == null) return undefined;
+
+			return Array.isArray(submodules) ? submodules.map(s => s.path) : [submodules.path];
+		}
+	}
+
+	export namespace Worktree {
+		export function create(repo?: string | Repository, ref?: GitReference) {
+			return executeGitCommand({
+				command: 'worktree',
+				state: { subcommand: 'create', repo: repo, reference: ref },
+			});
+		}
+
+		export function open(worktree: GitWorktree, options?: { openInNewWindow?: boolean }) {
+			return openWorkspace(worktree.uri, worktree.name, options);
+		}
+
+		export async function prune(repo: string | Repository) {
+			repo = await ensureRepo(repo);
+			void (await repo.pruneWorktrees());
+		}
+
+		export function remove(repo?: string | Repository, worktrees?: GitWorktree | GitWorktree[]) {
+			return executeGitCommand({
+				command: 'worktree',
+				state: { subcommand: 'delete', repo: repo, worktrees: worktrees },
+			});
+		}
+	}
 }
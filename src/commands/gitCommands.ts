@@ -4,12 +4,14 @@ import { command, Command, Commands } from './common';
 import { configuration, GitCommandSorting } from '../configuration';
 import { Usage, WorkspaceState } from '../constants';
 import { Container } from '../container';
+import { BisectGitCommand, BisectGitCommandArgs } from './git/bisect';
 import { BranchGitCommand, BranchGitCommandArgs } from './git/branch';
 import { CherryPickGitCommand, CherryPickGitCommandArgs } from './git/cherry-pick';
 import { CoAuthorsGitCommand, CoAuthorsGitCommandArgs } from './git/coauthors';
 import { FetchGitCommand, FetchGitCommandArgs } from './git/fetch';
 import { LogGitCommand, LogGitCommandArgs } from './git/log';
 import { MergeGitCommand, MergeGitCommandArgs } from './git/merge';
+import { NotesGitCommand, NotesGitCommandArgs } from './git/notes';
 import { PullGitCommand, PullGitCommandArgs } from './git/pull';
 import { PushGitCommand, PushGitCommandArgs } from './git/push';
 import { RebaseGitCommand, RebaseGitCommandArgs } from './git/rebase';
@@ -21,6 +23,7 @@ import { StashGitCommand, StashGitCommandArgs } from './git/stash';
 import { StatusGitCommand, StatusGitCommandArgs } from './git/status';
 import { SwitchGitCommand, SwitchGitCommandArgs } from './git/switch';
 import { TagGitCommand, TagGitCommandArgs } from './git/tag';
+import { WorktreeGitCommand, WorktreeGitCommandArgs } from './git/worktree';
 import { KeyMapping } from '../keyboard';
 import {
 	isQuickInputStep,
@@ -41,12 +44,14 @@ const sanitizeLabel = /\$\(.+?\)|\s/g;
 const showLoadingSymbol = Symbol('ShowLoading');
 
 export type GitCommandsCommandArgs =
+	| BisectGitCommandArgs
 	| BranchGitCommandArgs
 	| CherryPickGitCommandArgs
 	| CoAuthorsGitCommandArgs
 	| FetchGitCommandArgs
 	| LogGitCommandArgs
 	| MergeGitCommandArgs
+	| NotesGitCommandArgs
 	| PullGitCommandArgs
 	| PushGitCommandArgs
 	| RebaseGitCommandArgs
@@ -57,7 +62,8 @@ export type GitCommandsCommandArgs =
 	| StashGitCommandArgs
 	| StatusGitCommandArgs
 	| SwitchGitCommandArgs
-	| TagGitCommandArgs;
+	| TagGitCommandArgs
+	| WorktreeGitCommandArgs;
 
 function* nullSteps(): StepGenerator {
 	/* noop */
@@ -705,12 +711,14 @@ class PickCommandStep implements QuickPickStep {
 
 	constructor(args?: GitCommandsCommandArgs) {
 		this.items = [
+			new BisectGitCommand(args?.command === 'bisect' ? args : undefined),
 			new BranchGitCommand(args?.command === 'branch' ? args : undefined),
 			new CherryPickGitCommand(args?.command === 'cherry-pick' ? args : undefined),
 			new CoAuthorsGitCommand(args?.command === 'co-authors' ? args : undefined),
 			new FetchGitCommand(args?.command === 'fetch' ? args : undefined),
 			new LogGitCommand(args?.command === 'log' ? args : undefined),
 			new MergeGitCommand(args?.command === 'merge' ? args : undefined),
+			new NotesGitCommand(args?.command === 'notes' ? args : undefined),
 			new PullGitCommand(args?.command === 'pull' ? args : undefined),
 			new PushGitCommand(args?.command === 'push' ? args : undefined),
 			new RebaseGitCommand(args?.command === 'rebase' ? args : undefined),
@@ -722,6 +730,7 @@ class PickCommandStep implements QuickPickStep {
 			new StatusGitCommand(args?.command === 'status' ? args : undefined),
 			new SwitchGitCommand(args?.command === 'switch' || args?.command === 'checkout' ? args : undefined),
 			new TagGitCommand(args?.command === 'tag' ? args : undefined),
+			new WorktreeGitCommand(args?.command === 'worktree' ? args : undefined),
 		];
 
 		if (Container.config.gitCommands.sortBy === GitCommandSorting.Usage) {
@@ -1,10 +1,12 @@
 'use strict';
 import { TextEditor, Uri, window } from 'vscode';
+import { OpenBranchActionContext } from '../api/gitlens';
 import {
 	ActiveEditorCommand,
 	command,
 	CommandContext,
 	Commands,
+	executeActionCommand,
 	executeCommand,
 	getCommandUri,
 	getRepoPathOrActiveOrPrompt,
@@ -77,6 +79,18 @@ export class OpenBranchOnRemoteCommand extends ActiveEditorCommand {
 				args.branch = pick.ref;
 			}
 
+			if (!args.clipboard) {
+				void (await executeActionCommand<OpenBranchActionContext>('openBranch', {
+					branch: {
+						name: args.branch || 'HEAD',
+						remote: args.remote != null ? { name: args.remote } : undefined,
+						repoPath: repoPath,
+					},
+				}));
+
+				return;
+			}
+
 			void (await executeCommand<OpenOnRemoteCommandArgs>(Commands.OpenOnRemote, {
 				resource: {
 					type: RemoteResourceType.Branch,
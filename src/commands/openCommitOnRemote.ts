@@ -1,10 +1,12 @@
 'use strict';
 import { TextEditor, Uri, window } from 'vscode';
+import { OpenCommitActionContext } from '../api/gitlens';
 import {
 	ActiveEditorCommand,
 	command,
 	CommandContext,
 	Commands,
+	executeActionCommand,
 	executeCommand,
 	getCommandUri,
 	isCommandContextGitTimelineItem,
@@ -19,6 +21,7 @@ import { OpenOnRemoteCommandArgs } from './openOnRemote';
 
 export interface OpenCommitOnRemoteCommandArgs {
 	clipboard?: boolean;
+	remote?: string;
 	sha?: string;
 }
 
@@ -96,12 +99,25 @@ export class OpenCommitOnRemoteCommand extends ActiveEditorCommand {
 				args.sha = commit.sha;
 			}
 
+			if (!args.clipboard) {
+				void (await executeActionCommand<OpenCommitActionContext>('openCommit', {
+					commit: {
+						sha: args.sha,
+						remote: args.remote != null ? { name: args.remote } : undefined,
+						repoPath: gitUri.repoPath,
+					},
+				}));
+
+				return;
+			}
+
 			void (await executeCommand<OpenOnRemoteCommandArgs>(Commands.OpenOnRemote, {
 				resource: {
 					type: RemoteResourceType.Commit,
 					sha: args.sha,
 				},
 				repoPath: gitUri.repoPath,
+				remote: args.remote,
 				clipboard: args.clipboard,
 			}));
 		} catch (ex) {
@@ -1,6 +1,7 @@
 'use strict';
 import { window } from 'vscode';
-import { Command, command, CommandContext, Commands, executeCommand } from './common';
+import { OpenComparisonActionContext } from '../api/gitlens';
+import { Command, command, CommandContext, Commands, executeActionCommand, executeCommand } from './common';
 import { RemoteResourceType } from '../git/git';
 import { Logger } from '../logger';
 import { OpenOnRemoteCommandArgs } from './openOnRemote';
@@ -32,7 +33,7 @@ export class OpenComparisonOnRemoteCommand extends Command {
 			}
 		}
 
-		if (context.command === Commands.CopyRemoteBranchesUrl) {
+		if (context.command === Commands.CopyRemoteComparisonUrl) {
 			args = { ...args, clipboard: true };
 		}
 
@@ -43,6 +44,14 @@ export class OpenComparisonOnRemoteCommand extends Command {
 		if (args?.repoPath == null || args.ref1 == null || args.ref2 == null) return;
 
 		try {
+			if (!args.clipboard) {
+				void (await executeActionCommand<OpenComparisonActionContext>('openComparison', {
+					comparison: { ref1: args.ref1, ref2: args.ref2, notation: args.notation, repoPath: args.repoPath },
+				}));
+
+				return;
+			}
+
 			void (await executeCommand<OpenOnRemoteCommandArgs>(Commands.OpenOnRemote, {
 				resource: {
 					type: RemoteResourceType.Comparison,
@@ -51,7 +60,7 @@ export class OpenComparisonOnRemoteCommand extends Command {
 					notation: args.notation,
 				},
 				repoPath: args.repoPath,
-				clipboard: args?.clipboard,
+				clipboard: args.clipboard,
 			}));
 		} catch (ex) {
 			Logger.error(ex, 'OpenComparisonOnRemoteCommand');
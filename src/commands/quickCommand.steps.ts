@@ -19,6 +19,7 @@ import {
 	GitStatus,
 	GitTag,
 	GitTagReference,
+	GitWorktree,
 	RemoteProvider,
 	RemoteResourceType,
 	Repository,
@@ -61,6 +62,7 @@ import {
 	CommitOpenRevisionsCommandQuickPickItem,
 	CommitQuickPickItem,
 	CommitRestoreFileChangesCommandQuickPickItem,
+	CommitSignatureQuickPickItem,
 	ContributorQuickPickItem,
 	CopyRemoteResourceCommandQuickPickItem,
 	Directive,
@@ -74,6 +76,7 @@ import {
 	RevealInSideBarQuickPickItem,
 	SearchForCommitQuickPickItem,
 	TagQuickPickItem,
+	WorktreeQuickPickItem,
 } from '../quickpicks';
 import { Arrays, Iterables, Strings } from '../system';
 import { GitUri } from '../git/gitUri';
@@ -119,6 +122,22 @@ export async function getTags(
 	return getBranchesAndOrTags(repos, ['tags'], { sort: true, ...options }) as Promise<TagQuickPickItem[]>;
 }
 
+export async function getWorktrees(
+	repo: Repository,
+	{ filter, picked }: { filter?: (w: GitWorktree) => boolean; picked?: string | string[] },
+): Promise<WorktreeQuickPickItem[]> {
+	const worktrees = await repo.getWorktrees({ filter: filter });
+	const repoPath = Strings.normalizePath(repo.path);
+
+	return worktrees.map(w =>
+		WorktreeQuickPickItem.create(
+			w,
+			picked != null && (typeof picked === 'string' ? w.path === picked : picked.includes(w.path)),
+			{ current: Strings.normalizePath(w.path) === repoPath, path: true },
+		),
+	);
+}
+
 export async function getBranchesAndOrTags(
 	repos: Repository | Repository[],
 	include: ('tags' | 'branches')[],
@@ -1312,6 +1331,73 @@ export async function* pickTagsStep<
 	return QuickCommand.canPickStepContinue(step, state, selection) ? selection.map(i => i.item) : StepResult.Break;
 }
 
+export async function* pickWorktreeStep<
+	State extends PartialStepState & { repo: Repository },
+	Context extends { repos: Repository[]; title: string }
+>(
+	state: State,
+	context: Context,
+	{
+		filter,
+		picked,
+		placeholder,
+		titleContext,
+	}: {
+		filter?: (w: GitWorktree) => boolean;
+		picked?: string | string[];
+		placeholder: string;
+		titleContext?: string;
+	},
+): AsyncStepResultGenerator<GitWorktree> {
+	const worktrees = await getWorktrees(state.repo, { filter: filter, picked: picked });
+
+	const step = QuickCommand.createPickStep<WorktreeQuickPickItem>({
+		title: appendReposToTitle(`${context.title}${titleContext ?? ''}`, state, context),
+		placeholder: worktrees.length === 0 ? `No worktrees found in ${state.repo.formattedName}` : placeholder,
+		matchOnDetail: true,
+		items:
+			worktrees.length === 0
+				? [DirectiveQuickPickItem.create(Directive.Back, true), DirectiveQuickPickItem.create(Directive.Cancel)]
+				: worktrees,
+	});
+	const selection: StepSelection<typeof step> = yield step;
+	return QuickCommand.canPickStepContinue(step, state, selection) ? selection[0].item : StepResult.Break;
+}
+
+export async function* pickWorktreesStep<
+	State extends PartialStepState & { repo: Repository },
+	Context extends { repos: Repository[]; title: string }
+>(
+	state: State,
+	context: Context,
+	{
+		filter,
+		picked,
+		placeholder,
+		titleContext,
+	}: {
+		filter?: (w: GitWorktree) => boolean;
+		picked?: string | string[];
+		placeholder: string;
+		titleContext?: string;
+	},
+): AsyncStepResultGenerator<GitWorktree[]> {
+	const worktrees = await getWorktrees(state.repo, { filter: filter, picked: picked });
+
+	const step = QuickCommand.createPickStep<WorktreeQuickPickItem>({
+		multiselect: worktrees.length !== 0,
+		title: appendReposToTitle(`${context.title}${titleContext ?? ''}`, state, context),
+		placeholder: worktrees.length === 0 ? `No worktrees found in ${state.repo.formattedName}` : placeholder,
+		matchOnDetail: true,
+		items:
+			worktrees.length === 0
+				? [DirectiveQuickPickItem.create(Directive.Back, true), DirectiveQuickPickItem.create(Directive.Cancel)]
+				: worktrees,
+	});
+	const selection: StepSelection<typeof step> = yield step;
+	return QuickCommand.canPickStepContinue(step, state, selection) ? selection.map(i => i.item) : StepResult.Break;
+}
+
 export async function* showCommitOrStashStep<
 	State extends PartialStepState & { repo: Repository; reference: GitLogCommit | GitStashCommit },
 	Context extends { repos: Repository[]; title: string }
@@ -1417,6 +1503,11 @@ async function getShowCommitOrStashStepItems<
 	} else {
 		remotes = await Container.git.getRemotes(state.repo.path, { sort: true });
 
+		const signature = await state.reference.getSignature();
+		if (signature != null && signature.status !== 'none') {
+			items.push(new CommitSignatureQuickPickItem(state.reference, signature));
+		}
+
 		items.push(
 			new RevealInSideBarQuickPickItem(state.reference),
 			new SearchForCommitQuickPickItem(state.reference),
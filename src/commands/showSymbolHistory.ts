@@ -0,0 +1,118 @@
+'use strict';
+import { commands, DocumentSymbol, Range, SymbolInformation, SymbolKind, TextEditor, Uri, window } from 'vscode';
+import { ActiveEditorCommand, command, Commands, getCommandUri } from './common';
+import { BuiltInCommands } from '../constants';
+import { Container } from '../container';
+import { GitUri } from '../git/gitUri';
+import { Logger } from '../logger';
+import { Messages } from '../messages';
+import { Functions } from '../system';
+
+const historySymbolKinds = [
+	SymbolKind.Class,
+	SymbolKind.Constructor,
+	SymbolKind.Enum,
+	SymbolKind.Function,
+	SymbolKind.Interface,
+	SymbolKind.Method,
+	SymbolKind.Module,
+	SymbolKind.Namespace,
+	SymbolKind.Property,
+	SymbolKind.Struct,
+];
+
+export interface ShowSymbolHistoryCommandArgs {
+	symbol?: {
+		name: string;
+		kind: SymbolKind;
+		range: Range;
+	};
+
+	line?: number;
+}
+
+@command()
+export class ShowSymbolHistoryCommand extends ActiveEditorCommand {
+	constructor() {
+		super(Commands.ShowSymbolHistory);
+	}
+
+	async execute(editor?: TextEditor, uri?: Uri, args?: ShowSymbolHistoryCommandArgs) {
+		uri = getCommandUri(uri, editor);
+		if (uri == null) return;
+
+		args = { ...args };
+		if (args.line == null) {
+			args.line = editor?.selection.active.line ?? 0;
+		}
+
+		const gitUri = await GitUri.fromUri(uri);
+		if (gitUri.repoPath == null) {
+			void Messages.showFileNotUnderSourceControlWarningMessage('Unable to show symbol history');
+
+			return;
+		}
+
+		try {
+			const symbols = await getSymbols(uri);
+
+			let symbol = args.symbol;
+			if (symbol == null) {
+				const line = args.line;
+
+				// Find the innermost symbol at the line
+				for (const s of symbols) {
+					if (!historySymbolKinds.includes(s.kind) || s.range.start.line > line || s.range.end.line < line) {
+						continue;
+					}
+
+					if (symbol == null || symbol.range.contains(s.range)) {
+						symbol = s;
+					}
+				}
+
+				if (symbol == null) {
+					void window.showWarningMessage(
+						'Unable to show symbol history. No symbol could be found at the line',
+					);
+
+					return;
+				}
+			}
+
+			// Follow the symbol by its lines, since `-L :<funcname>:<file>` would match any (funcname) line containing the name
+			void (await Container.lineHistoryView.showSymbolHistory(gitUri, {
+				name: symbol.name,
+				kind: symbol.kind,
+				range: symbol.range,
+			}));
+		} catch (ex) {
+			Logger.error(ex, 'ShowSymbolHistoryCommand');
+			void Messages.showGenericErrorMessage('Unable to show symbol history');
+		}
+	}
+}
+
+async function getSymbols(uri: Uri): Promise<{ name: string; kind: SymbolKind; range: Range }[]> {
+	const symbols = await commands.executeCommand<(DocumentSymbol | SymbolInformation)[]>(
+		BuiltInCommands.ExecuteDocumentSymbolProvider,
+		uri,
+	);
+	if (symbols == null) return [];
+
+	const flattened: { name: string; kind: SymbolKind; range: Range }[] = [];
+
+	const flatten = (symbols: (DocumentSymbol | SymbolInformation)[]) => {
+		for (const symbol of symbols) {
+			if (Functions.is<DocumentSymbol>(symbol, 'children')) {
+				flattened.push({ name: symbol.name, kind: symbol.kind, range: symbol.range });
+				flatten(symbol.children);
+			} else {
+				flattened.push({ name: symbol.name, kind: symbol.kind, range: symbol.location.range });
+			}
+		}
+	};
+	flatten(symbols);
+
+	return flattened;
+}
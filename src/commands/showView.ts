@@ -14,12 +14,14 @@ export class ShowViewCommand extends Command {
 			Commands.ShowContributorsView,
 			Commands.ShowFileHistoryView,
 			Commands.ShowLineHistoryView,
+			Commands.ShowReflogView,
 			Commands.ShowRemotesView,
 			Commands.ShowRepositoriesView,
 			Commands.ShowSearchAndCompareView,
 			Commands.ShowStashesView,
 			Commands.ShowTagsView,
 			Commands.ShowWelcomeView,
+			Commands.ShowWorktreesView,
 		]);
 	}
 
@@ -42,6 +44,8 @@ export class ShowViewCommand extends Command {
 					await configuration.updateEffective('views', 'lineHistory', 'enabled', true);
 				}
 				return Container.lineHistoryView.show();
+			case Commands.ShowReflogView:
+				return Container.reflogView.show();
 			case Commands.ShowRemotesView:
 				return Container.remotesView.show();
 			case Commands.ShowRepositoriesView:
@@ -55,6 +59,8 @@ export class ShowViewCommand extends Command {
 				return Container.stashesView.show();
 			case Commands.ShowTagsView:
 				return Container.tagsView.show();
+			case Commands.ShowWorktreesView:
+				return Container.worktreesView.show();
 			case Commands.ShowWelcomeView:
 				await setContext(ContextKeys.ViewsWelcomeVisible, true);
 				void Container.context.globalState.update(SyncedState.WelcomeViewVisible, true);
@@ -24,12 +24,14 @@ export interface StashSaveCommandArgs {
 	repoPath?: string;
 	uris?: Uri[];
 	keepStaged?: boolean;
+	onlyStaged?: boolean;
+	patch?: boolean;
 }
 
 @command()
 export class StashSaveCommand extends Command {
 	constructor() {
-		super([Commands.StashSave, Commands.StashSaveFiles]);
+		super([Commands.StashSave, Commands.StashSaveFiles, Commands.StashSaveHunks, Commands.StashSaveStaged]);
 	}
 
 	protected async preExecute(context: CommandContext, args?: StashSaveCommandArgs) {
@@ -70,10 +72,19 @@ export class StashSaveCommand extends Command {
 			}
 		}
 
+		if (context.command === Commands.StashSaveStaged) {
+			args = { ...args, onlyStaged: true };
+		} else if (context.command === Commands.StashSaveHunks) {
+			args = { ...args, patch: true };
+		}
+
 		return this.execute(args);
 	}
 
 	execute(args?: StashSaveCommandArgs) {
-		return GitActions.Stash.push(args?.repoPath, args?.uris, args?.message, args?.keepStaged);
+		return GitActions.Stash.push(args?.repoPath, args?.uris, args?.message, args?.keepStaged, {
+			onlyStaged: args?.onlyStaged,
+			patch: args?.patch,
+		});
 	}
 }
@@ -86,6 +86,20 @@ export class ToggleFileHeatmapCommand extends ActiveEditorCommand {
 	}
 }
 
+@command()
+export class ToggleFileOwnershipCommand extends ActiveEditorCommand {
+	constructor() {
+		super(Commands.ToggleFileOwnership);
+	}
+
+	execute(editor: TextEditor, uri?: Uri, args?: ToggleFileAnnotationCommandArgs): Promise<void> {
+		return toggleFileAnnotations(editor, uri, {
+			...args,
+			type: FileAnnotationType.Ownership,
+		});
+	}
+}
+
 async function toggleFileAnnotations(
 	editor: TextEditor,
 	uri: Uri | undefined,
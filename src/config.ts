@@ -110,6 +110,13 @@ export interface Config {
 		};
 	};
 	modes: Record<string, ModeConfig>;
+	notes: {
+		refs: string[];
+	};
+	ownership: {
+		locations: HeatmapLocations[];
+		toggleMode: AnnotationsToggleMode;
+	};
 	outputLevel: TraceLevel;
 	remotes: RemotesConfig[] | null;
 	showWelcomeOnInstall: boolean;
@@ -182,6 +189,7 @@ export enum CodeLensCommand {
 	ShowQuickCommitFileDetails = 'gitlens.showQuickCommitFileDetails',
 	ShowQuickCurrentBranchHistory = 'gitlens.showQuickRepoHistory',
 	ShowQuickFileHistory = 'gitlens.showQuickFileHistory',
+	ShowSymbolHistory = 'gitlens.showSymbolHistory',
 	ToggleFileBlame = 'gitlens.toggleFileBlame',
 }
 
@@ -191,6 +199,17 @@ export enum CodeLensScopes {
 	Blocks = 'blocks',
 }
 
+export enum ContributorSorting {
+	CountDesc = 'count:desc',
+	CountAsc = 'count:asc',
+	ChangesDesc = 'changes:desc',
+	ChangesAsc = 'changes:asc',
+	DateDesc = 'date:desc',
+	DateAsc = 'date:asc',
+	NameAsc = 'name:asc',
+	NameDesc = 'name:desc',
+}
+
 export enum CustomRemoteType {
 	Bitbucket = 'Bitbucket',
 	BitbucketServer = 'BitbucketServer',
@@ -213,6 +232,7 @@ export enum FileAnnotationType {
 	Blame = 'blame',
 	Changes = 'changes',
 	Heatmap = 'heatmap',
+	Ownership = 'ownership',
 }
 
 export enum GitCommandSorting {
@@ -282,10 +302,13 @@ export interface AdvancedConfig {
 	blame: {
 		customArguments: string[] | null;
 		delayAfterEdit: number;
+		ignoreRevsFile: string | null;
 		sizeThresholdAfterEdit: number;
+		streaming: boolean;
 	};
 	caching: {
 		enabled: boolean;
+		persistent: boolean;
 	};
 	fileHistoryFollowsRenames: boolean;
 	fileHistoryShowAllBranches: boolean;
@@ -394,7 +417,7 @@ export interface ModeConfig {
 	name: string;
 	statusBarItemName?: string;
 	description?: string;
-	annotations?: 'blame' | 'changes' | 'heatmap';
+	annotations?: 'blame' | 'changes' | 'heatmap' | 'ownership';
 	codeLens?: boolean;
 	currentLine?: boolean;
 	hovers?: boolean;
@@ -455,11 +478,13 @@ interface ViewsConfigs {
 	contributors: ContributorsViewConfig;
 	fileHistory: FileHistoryViewConfig;
 	lineHistory: LineHistoryViewConfig;
+	reflog: ReflogViewConfig;
 	remotes: RemotesViewConfig;
 	repositories: RepositoriesViewConfig;
 	searchAndCompare: SearchAndCompareViewConfig;
 	stashes: StashesViewConfig;
 	tags: TagsViewConfig;
+	worktrees: WorktreesViewConfig;
 }
 
 export type ViewsConfigKeys = keyof ViewsConfigs;
@@ -472,6 +497,8 @@ export const viewsConfigKeys: ViewsConfigKeys[] = [
 	'remotes',
 	'stashes',
 	'tags',
+	'worktrees',
+	'reflog',
 	'contributors',
 	'searchAndCompare',
 ];
@@ -511,6 +538,9 @@ export interface ContributorsViewConfig {
 		enabled: boolean;
 		showForCommits: boolean;
 	};
+	showStatistics: boolean;
+	sortBy: ContributorSorting;
+	statisticsCommitLimit: number;
 }
 
 export interface FileHistoryViewConfig {
@@ -522,6 +552,11 @@ export interface LineHistoryViewConfig {
 	enabled: boolean;
 }
 
+export interface ReflogViewConfig {
+	avatars: boolean;
+	files: ViewsFilesConfig;
+}
+
 export interface RemotesViewConfig {
 	avatars: boolean;
 	branches: {
@@ -559,6 +594,7 @@ export interface RepositoriesViewConfig {
 	showIncomingActivity: boolean;
 	showRemotes: boolean;
 	showStashes: boolean;
+	showSubmodules: boolean;
 	showTags: boolean;
 	showUpstreamStatus: boolean;
 }
@@ -584,6 +620,11 @@ export interface TagsViewConfig {
 	files: ViewsFilesConfig;
 }
 
+export interface WorktreesViewConfig {
+	avatars: boolean;
+	files: ViewsFilesConfig;
+}
+
 export interface ViewsFilesConfig {
 	compact: boolean;
 	layout: ViewFilesLayout;
@@ -44,6 +44,7 @@ export enum ContextKeys {
 	ViewsFileHistoryCursorFollowing = 'gitlens:views:fileHistory:cursorFollowing',
 	ViewsFileHistoryEditorFollowing = 'gitlens:views:fileHistory:editorFollowing',
 	ViewsLineHistoryEditorFollowing = 'gitlens:views:lineHistory:editorFollowing',
+	ViewsReflogFiltered = 'gitlens:views:reflog:filtered',
 	ViewsRepositoriesAutoRefresh = 'gitlens:views:repositories:autoRefresh',
 	ViewsSearchAndCompareKeepResults = 'gitlens:views:searchAndCompare:keepResults',
 	ViewsUpdatesVisible = 'gitlens:views:updates:visible',
@@ -110,6 +111,7 @@ export enum GlyphChars {
 	ArrowsRightLeft = '\u21c4',
 	Asterisk = '\u2217',
 	Check = '\u2713',
+	Cross = '\u2717',
 	Dash = '\u2014',
 	Dot = '\u2022',
 	Ellipsis = '\u2026',
@@ -204,6 +206,27 @@ export interface PinnedItems {
 	[id: string]: PinnedItem;
 }
 
+export interface SavedComparison {
+	type: 'comparison';
+	name: string;
+	ref1: NamedRef;
+	ref2: NamedRef;
+	autoRefresh?: boolean;
+}
+
+export interface SavedSearch {
+	type: 'search';
+	name: string;
+	search: SearchPattern;
+	autoRefresh?: boolean;
+}
+
+export type SavedItem = SavedComparison | SavedSearch;
+
+export interface SavedItems {
+	items: SavedItem[];
+}
+
 export interface Starred {
 	[id: string]: boolean;
 }
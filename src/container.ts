@@ -23,6 +23,7 @@ import { CommitsView } from './views/commitsView';
 import { ContributorsView } from './views/contributorsView';
 import { FileHistoryView } from './views/fileHistoryView';
 import { LineHistoryView } from './views/lineHistoryView';
+import { ReflogView } from './views/reflogView';
 import { RemotesView } from './views/remotesView';
 import { RepositoriesView } from './views/repositoriesView';
 import { SearchAndCompareView } from './views/searchAndCompareView';
@@ -30,9 +31,11 @@ import { StashesView } from './views/stashesView';
 import { TagsView } from './views/tagsView';
 import { ViewCommands } from './views/viewCommands';
 import { VslsController } from './vsls/vsls';
+import { GraphWebview } from './webviews/graphWebview';
 import { RebaseEditorProvider } from './webviews/rebaseEditor';
 import { SettingsWebview } from './webviews/settingsWebview';
 import { WelcomeWebview } from './webviews/welcomeWebview';
+import { WorktreesView } from './views/worktreesView';
 
 export class Container {
 	private static _configsAffectedByMode: string[] | undefined;
@@ -65,6 +68,7 @@ export class Container {
 		context.subscriptions.push((this._keyboard = new Keyboard()));
 		context.subscriptions.push((this._settingsWebview = new SettingsWebview()));
 		context.subscriptions.push((this._welcomeWebview = new WelcomeWebview()));
+		context.subscriptions.push((this._graphWebview = new GraphWebview()));
 
 		context.subscriptions.push((this._commitsView = new CommitsView()));
 		context.subscriptions.push((this._fileHistoryView = new FileHistoryView()));
@@ -72,6 +76,8 @@ export class Container {
 		context.subscriptions.push((this._remotesView = new RemotesView()));
 		context.subscriptions.push((this._stashesView = new StashesView()));
 		context.subscriptions.push((this._tagsView = new TagsView()));
+		context.subscriptions.push((this._worktreesView = new WorktreesView()));
+		context.subscriptions.push((this._reflogView = new ReflogView()));
 		context.subscriptions.push((this._contributorsView = new ContributorsView()));
 		context.subscriptions.push((this._searchAndCompareView = new SearchAndCompareView()));
 
@@ -156,6 +162,48 @@ export class Container {
 		return this._autolinks;
 	}
 
+	private static _azureDevOps: Promise<import('./azure-devops/azure-devops').AzureDevOpsApi | undefined> | undefined;
+	static get azureDevOps() {
+		if (this._azureDevOps == null) {
+			this._azureDevOps = this._loadAzureDevOpsApi();
+		}
+
+		return this._azureDevOps;
+	}
+
+	private static async _loadAzureDevOpsApi() {
+		try {
+			return new (
+				await import(/* webpackChunkName: "azure-devops" */ './azure-devops/azure-devops')
+			).AzureDevOpsApi();
+		} catch (ex) {
+			Logger.error(ex);
+			return undefined;
+		}
+	}
+
+	private static _bitbucketServer:
+		| Promise<import('./bitbucket-server/bitbucket-server').BitbucketServerApi | undefined>
+		| undefined;
+	static get bitbucketServer() {
+		if (this._bitbucketServer == null) {
+			this._bitbucketServer = this._loadBitbucketServerApi();
+		}
+
+		return this._bitbucketServer;
+	}
+
+	private static async _loadBitbucketServerApi() {
+		try {
+			return new (
+				await import(/* webpackChunkName: "bitbucket-server" */ './bitbucket-server/bitbucket-server')
+			).BitbucketServerApi();
+		} catch (ex) {
+			Logger.error(ex);
+			return undefined;
+		}
+	}
+
 	private static _codeLensController: GitCodeLensController;
 	static get codeLens() {
 		return this._codeLensController;
@@ -243,6 +291,29 @@ export class Container {
 		}
 	}
 
+	private static _gitlab: Promise<import('./gitlab/gitlab').GitLabApi | undefined> | undefined;
+	static get gitlab() {
+		if (this._gitlab == null) {
+			this._gitlab = this._loadGitLabApi();
+		}
+
+		return this._gitlab;
+	}
+
+	private static async _loadGitLabApi() {
+		try {
+			return new (await import(/* webpackChunkName: "gitlab" */ './gitlab/gitlab')).GitLabApi();
+		} catch (ex) {
+			Logger.error(ex);
+			return undefined;
+		}
+	}
+
+	private static _graphWebview: GraphWebview;
+	static get graphWebview() {
+		return this._graphWebview;
+	}
+
 	@memoize()
 	static get insiders() {
 		return this._extensionId.endsWith('-insiders');
@@ -286,6 +357,15 @@ export class Container {
 		return this._rebaseEditor;
 	}
 
+	private static _reflogView: ReflogView | undefined;
+	static get reflogView() {
+		if (this._reflogView == null) {
+			this._context.subscriptions.push((this._reflogView = new ReflogView()));
+		}
+
+		return this._reflogView;
+	}
+
 	private static _remotesView: RemotesView | undefined;
 	static get remotesView() {
 		if (this._remotesView == null) {
@@ -364,6 +444,15 @@ export class Container {
 		return this._welcomeWebview;
 	}
 
+	private static _worktreesView: WorktreesView | undefined;
+	static get worktreesView() {
+		if (this._worktreesView == null) {
+			this._context.subscriptions.push((this._worktreesView = new WorktreesView()));
+		}
+
+		return this._worktreesView;
+	}
+
 	private static applyMode(config: Config) {
 		if (!config.mode.active) return config;
 
@@ -385,6 +474,10 @@ export class Container {
 					config.heatmap.toggleMode = AnnotationsToggleMode.Window;
 					command = Commands.ToggleFileHeatmap;
 					break;
+				case 'ownership':
+					config.ownership.toggleMode = AnnotationsToggleMode.Window;
+					command = Commands.ToggleFileOwnership;
+					break;
 			}
 
 			if (command != null) {
@@ -426,6 +519,7 @@ export class Container {
 				`gitlens.${configuration.name('currentLine')}`,
 				`gitlens.${configuration.name('heatmap', 'toggleMode')}`,
 				`gitlens.${configuration.name('hovers')}`,
+				`gitlens.${configuration.name('ownership', 'toggleMode')}`,
 				`gitlens.${configuration.name('statusBar')}`,
 			];
 		}
@@ -1,13 +1,20 @@
 'use strict';
 import * as paths from 'path';
-import { commands, ExtensionContext, extensions, window, workspace } from 'vscode';
+import { commands, env, ExtensionContext, extensions, Uri, window, workspace } from 'vscode';
 import { GitLensApi } from '../src/api/gitlens';
 import { Api } from './api/api';
-import { Commands, executeCommand, OpenPullRequestOnRemoteCommandArgs, registerCommands } from './commands';
+import {
+	Commands,
+	executeCommand,
+	GitActions,
+	OpenOnRemoteCommandArgs,
+	OpenPullRequestOnRemoteCommandArgs,
+	registerCommands,
+} from './commands';
 import { configuration, Configuration } from './configuration';
 import { ContextKeys, GlobalState, GlyphChars, setContext, SyncedState } from './constants';
 import { Container } from './container';
-import { Git, GitCommit } from './git/git';
+import { Git, GitCommit, RemoteResourceType } from './git/git';
 import { GitService } from './git/gitService';
 import { GitUri } from './git/gitUri';
 import { Logger } from './logger';
@@ -198,6 +205,66 @@ export function notifyOnUnsupportedGitVersion(version: string) {
 
 function registerDefaultActionRunners(context: ExtensionContext): void {
 	context.subscriptions.push(
+		Container.actionRunners.registerDefault('createBranchFromIssue', {
+			label: 'Create Branch',
+			run: async ctx => {
+				if (ctx.type !== 'createBranchFromIssue') return;
+
+				const name = `${ctx.issue.id}-${ctx.issue.title
+					.toLowerCase()
+					.replace(/[^a-z0-9]+/g, '-')
+					.replace(/^-+|-+$/g, '')}`.substring(0, 60);
+				void (await GitActions.Branch.create(ctx.issue.repoPath, undefined, name));
+			},
+		}),
+		Container.actionRunners.registerDefault('openBranch', {
+			label: 'Open on Remote',
+			run: async ctx => {
+				if (ctx.type !== 'openBranch') return;
+
+				void (await executeCommand<OpenOnRemoteCommandArgs>(Commands.OpenOnRemote, {
+					resource: { type: RemoteResourceType.Branch, branch: ctx.branch.name },
+					repoPath: ctx.branch.repoPath,
+					remote: ctx.branch.remote?.name,
+				}));
+			},
+		}),
+		Container.actionRunners.registerDefault('openCommit', {
+			label: 'Open on Remote',
+			run: async ctx => {
+				if (ctx.type !== 'openCommit') return;
+
+				void (await executeCommand<OpenOnRemoteCommandArgs>(Commands.OpenOnRemote, {
+					resource: { type: RemoteResourceType.Commit, sha: ctx.commit.sha },
+					repoPath: ctx.commit.repoPath,
+					remote: ctx.commit.remote?.name,
+				}));
+			},
+		}),
+		Container.actionRunners.registerDefault('openComparison', {
+			label: 'Open on Remote',
+			run: async ctx => {
+				if (ctx.type !== 'openComparison') return;
+
+				void (await executeCommand<OpenOnRemoteCommandArgs>(Commands.OpenOnRemote, {
+					resource: {
+						type: RemoteResourceType.Comparison,
+						ref1: ctx.comparison.ref1,
+						ref2: ctx.comparison.ref2,
+						notation: ctx.comparison.notation,
+					},
+					repoPath: ctx.comparison.repoPath,
+				}));
+			},
+		}),
+		Container.actionRunners.registerDefault('openIssue', {
+			label: 'Open on Remote',
+			run: async ctx => {
+				if (ctx.type !== 'openIssue') return;
+
+				void (await env.openExternal(Uri.parse(ctx.issue.url)));
+			},
+		}),
 		Container.actionRunners.registerDefault('openPullRequest', {
 			label: 'Open on Remote',
 			run: async ctx => {
@@ -1,6 +1,7 @@
 'use strict';
 import { getPresenceDataUri } from '../../avatars';
 import {
+	BlamePriorToChangeCommand,
 	Commands,
 	ConnectRemoteProviderCommand,
 	DiffWithCommand,
@@ -18,7 +19,9 @@ import { emojify } from '../../emojis';
 import { FormatOptions, Formatter } from './formatter';
 import {
 	GitCommit,
+	GitCommitSignature,
 	GitLogCommit,
+	GitNote,
 	GitRemote,
 	GitRevision,
 	IssueOrPullRequest,
@@ -42,10 +45,13 @@ export interface CommitFormatOptions extends FormatOptions {
 	messageAutolinks?: boolean;
 	messageIndent?: number;
 	messageTruncateAtNewLine?: boolean;
+	notes?: GitNote[];
+	owners?: string[];
 	pullRequestOrRemote?: PullRequest | Promises.CancellationError | GitRemote;
 	presence?: ContactPresence;
 	previousLineDiffUris?: { current: GitUri; previous: GitUri | undefined };
 	remotes?: GitRemote<RemoteProvider>[];
+	signature?: GitCommitSignature;
 
 	tokenOptions?: {
 		ago?: Strings.TokenOptions;
@@ -70,12 +76,15 @@ export interface CommitFormatOptions extends FormatOptions {
 		footnotes?: Strings.TokenOptions;
 		id?: Strings.TokenOptions;
 		message?: Strings.TokenOptions;
+		notes?: Strings.TokenOptions;
+		owners?: Strings.TokenOptions;
 		pullRequest?: Strings.TokenOptions;
 		pullRequestAgo?: Strings.TokenOptions;
 		pullRequestAgoOrDate?: Strings.TokenOptions;
 		pullRequestDate?: Strings.TokenOptions;
 		pullRequestState?: Strings.TokenOptions;
 		sha?: Strings.TokenOptions;
+		signature?: Strings.TokenOptions;
 		tips?: Strings.TokenOptions;
 	};
 }
@@ -338,6 +347,10 @@ export class CommitFormatter extends Formatter<GitCommit, CommitFormatOptions> {
 				FileAnnotationType.Blame,
 				this._options.line,
 			)} "Blame Previous Revision")${separator}`;
+
+			commands += `[$(versions)](${BlamePriorToChangeCommand.getMarkdownCommandArgs({
+				line: this._options.line,
+			})} "Blame Prior to This Change")${separator}`;
 		}
 
 		if (this._options.remotes != null && this._options.remotes.length !== 0) {
@@ -357,6 +370,20 @@ export class CommitFormatter extends Formatter<GitCommit, CommitFormatOptions> {
 			}
 		}
 
+		if (Container.actionRunners.has('hover.commandsLine')) {
+			commands += `[$(organization)](${getMarkdownActionCommand('hover.commandsLine', {
+				commit: {
+					sha: this._item.sha,
+					author: { name: this._item.author, email: this._item.email },
+					repoPath: this._item.repoPath,
+				},
+				file:
+					this._item.fileName.length !== 0
+						? { uri: this._item.uri.toString(), line: this._options.line }
+						: undefined,
+			})} "Open Commit Actions")${separator}`;
+		}
+
 		commands += `[$(ellipsis)](${ShowQuickCommitFileCommand.getMarkdownCommandArgs({
 			revisionUri: GitUri.toRevisionUri(this._item.toGitUri()).toString(true),
 		})} "Show More Actions")`;
@@ -458,6 +485,37 @@ export class CommitFormatter extends Formatter<GitCommit, CommitFormatOptions> {
 		return this._options.markdown ? `\n> ${message}` : message;
 	}
 
+	get notes(): string {
+		const { notes } = this._options;
+		if (notes == null || notes.length === 0) {
+			return this._padOrTruncate(emptyStr, this._options.tokenOptions.notes);
+		}
+
+		const text = notes
+			.map(n => {
+				const label = GitNote.isDefaultRef(n.notesRef) ? 'Notes' : `Notes (${GitNote.getName(n.notesRef)})`;
+				return this._options.markdown
+					? `__${label}__\n> ${Strings.escapeMarkdown(n.message, { quoted: true })}`
+					: `${label}:\n${n.message}`;
+			})
+			.join('\n\n');
+
+		return this._padOrTruncate(text, this._options.tokenOptions.notes);
+	}
+
+	get owners(): string {
+		const { owners } = this._options;
+		if (owners == null || owners.length === 0) {
+			return this._padOrTruncate(emptyStr, this._options.tokenOptions.owners);
+		}
+
+		const text = this._options.markdown
+			? `$(organization) __Owners__ &nbsp;${owners.map(o => Strings.escapeMarkdown(o)).join(', ')}`
+			: `Owners: ${owners.join(', ')}`;
+
+		return this._padOrTruncate(text, this._options.tokenOptions.owners);
+	}
+
 	get pullRequest(): string {
 		const { pullRequestOrRemote: pr } = this._options;
 		if (pr == null) return this._padOrTruncate(emptyStr, this._options.tokenOptions.pullRequest);
@@ -518,6 +576,22 @@ export class CommitFormatter extends Formatter<GitCommit, CommitFormatOptions> {
 		return this._padOrTruncate(this._item.shortSha ?? emptyStr, this._options.tokenOptions.sha);
 	}
 
+	get signature(): string {
+		const { signature } = this._options;
+		if (signature == null || signature.status === 'none') {
+			return this._padOrTruncate(emptyStr, this._options.tokenOptions.signature);
+		}
+
+		let text = GitCommitSignature.toString(signature);
+		if (this._options.markdown) {
+			text = `${GitCommitSignature.getStatusCodicon(signature.status)} ${Strings.escapeMarkdown(text)}${
+				signature.key ? ` \`${signature.key}\`` : emptyStr
+			}`;
+		}
+
+		return this._padOrTruncate(text, this._options.tokenOptions.signature);
+	}
+
 	get tips(): string {
 		const branchAndTagTips = this._options.getBranchAndTagTips?.(this._item.sha);
 		return this._padOrTruncate(branchAndTagTips ?? emptyStr, this._options.tokenOptions.tips);
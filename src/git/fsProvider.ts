@@ -182,7 +182,7 @@ export class GitFileSystemProvider implements FileSystemProvider, Disposable {
 	}
 }
 
-function typeToFileType(type: 'blob' | 'tree' | undefined | null) {
+function typeToFileType(type: 'blob' | 'commit' | 'tree' | undefined | null) {
 	switch (type) {
 		case 'blob':
 			return FileType.File;
@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/naming-convention */
 'use strict';
 import * as paths from 'path';
-import { TextDecoder } from 'util';
+import { TextDecoder, TextEncoder } from 'util';
 import * as iconv from 'iconv-lite';
 import { Uri, window, workspace } from 'vscode';
 import { GlyphChars } from '../constants';
@@ -10,7 +10,14 @@ import { Logger } from '../logger';
 import { Objects, Strings } from '../system';
 import { findGitPath, GitLocation } from './locator';
 import { fsExists, run, RunError, RunOptions } from './shell';
-import { GitBranchParser, GitLogParser, GitReflogParser, GitStashParser, GitTagParser } from './parsers/parsers';
+import {
+	GitBranchParser,
+	GitContributorStatsParser,
+	GitLogParser,
+	GitReflogParser,
+	GitStashParser,
+	GitTagParser,
+} from './parsers/parsers';
 import { GitRevision } from './models/models';
 
 export * from './models/models';
@@ -29,6 +36,9 @@ export const maxGitCliLength = 30000;
 const slash = '/';
 
 const textDecoder = new TextDecoder('utf8');
+const textEncoder = new TextEncoder();
+
+const bisectVarsRegex = /^bisect_(nr|steps)=(\d+)$/gm;
 
 // This is a root sha of all git repo's if using sha1
 const rootSha = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
@@ -267,21 +277,74 @@ export namespace Git {
 		return git<string>({ cwd: repoPath }, 'add', '-A', '--', pathspec);
 	}
 
-	export function apply(repoPath: string | undefined, patch: string, options: { allowConflicts?: boolean } = {}) {
+	export function apply(
+		repoPath: string | undefined,
+		patch: string,
+		options: {
+			allowConflicts?: boolean;
+			cached?: boolean;
+			check?: boolean;
+			env?: Record<string, any>;
+			index?: boolean;
+			reverse?: boolean;
+		} = {},
+	) {
 		const params = ['apply', '--whitespace=warn'];
 		if (options.allowConflicts) {
 			params.push('-3');
 		}
-		return git<string>({ cwd: repoPath, stdin: patch }, ...params);
+		if (options.cached) {
+			params.push('--cached');
+		} else if (options.index) {
+			params.push('--index');
+		}
+		if (options.reverse) {
+			params.push('-R');
+		}
+		if (options.check) {
+			params.push('--check');
+		}
+		return git<string>({ cwd: repoPath, env: options.env, stdin: patch }, ...params);
+	}
+
+	export function bisect__mark(repoPath: string, term: 'bad' | 'good' | 'skip', ref?: string) {
+		const params = ['bisect', term];
+		if (ref) {
+			params.push(ref);
+		}
+
+		return git<string>({ cwd: repoPath }, ...params);
+	}
+
+	export function bisect__reset(repoPath: string) {
+		return git<string>({ cwd: repoPath }, 'bisect', 'reset');
+	}
+
+	export function bisect__start(repoPath: string, bad: string, good: string[]) {
+		return git<string>({ cwd: repoPath }, 'bisect', 'start', bad, ...good, '--');
 	}
 
 	const ignoreRevsFileMap = new Map<string, boolean>();
 
+	function pushIgnoreRevsFile(params: string[], ignoreRevsFile: string | undefined) {
+		// Don't override an --ignore-revs-file from the custom arguments
+		if (ignoreRevsFile == null || params.includes('--ignore-revs-file') || !Git.validateVersion(2, 23)) return;
+
+		params.push('--ignore-revs-file', ignoreRevsFile);
+	}
+
 	export async function blame(
 		repoPath: string | undefined,
 		fileName: string,
 		ref?: string,
-		options: { args?: string[] | null; ignoreWhitespace?: boolean; startLine?: number; endLine?: number } = {},
+		options: {
+			args?: string[] | null;
+			ignoreRevsFile?: string;
+			ignoreWhitespace?: boolean;
+			onData?: (data: string) => void;
+			startLine?: number;
+			endLine?: number;
+		} = {},
 	) {
 		const [file, root] = Git.splitPath(fileName, repoPath);
 
@@ -326,6 +389,7 @@ export namespace Git {
 				}
 			}
 		}
+		pushIgnoreRevsFile(params, options.ignoreRevsFile);
 
 		let stdin;
 		if (ref) {
@@ -340,7 +404,7 @@ export namespace Git {
 			}
 		}
 
-		return git<string>({ cwd: root, stdin: stdin }, ...params, '--', file);
+		return git<string>({ cwd: root, onStdout: options.onData, stdin: stdin }, ...params, '--', file);
 	}
 
 	export function blame__contents(
@@ -350,6 +414,7 @@ export namespace Git {
 		options: {
 			args?: string[] | null;
 			correlationKey?: string;
+			ignoreRevsFile?: string;
 			ignoreWhitespace?: boolean;
 			startLine?: number;
 			endLine?: number;
@@ -368,6 +433,7 @@ export namespace Git {
 		if (options.args != null) {
 			params.push(...options.args);
 		}
+		pushIgnoreRevsFile(params, options.ignoreRevsFile);
 
 		// Pipe the blame contents to stdin
 		params.push('--contents', '-');
@@ -462,6 +528,15 @@ export namespace Git {
 		return git<string>({ cwd: repoPath }, ...params);
 	}
 
+	export function commit_tree(repoPath: string, tree: string, parents: string[], message: string) {
+		const params = ['commit-tree', tree];
+		for (const parent of parents) {
+			params.push('-p', parent);
+		}
+
+		return git<string>({ cwd: repoPath }, ...params, '-m', message);
+	}
+
 	export async function config__get(key: string, repoPath?: string, options: { local?: boolean } = {}) {
 		const data = await git<string>(
 			{ cwd: repoPath ?? emptyStr, errors: GitErrorHandling.Ignore, local: options.local },
@@ -631,6 +706,23 @@ export namespace Git {
 		return git<string>({ cwd: repoPath, configs: ['-c', 'color.diff=false'] }, ...params, '--');
 	}
 
+	export function diff__patch(
+		repoPath: string,
+		{ pathspecs, staged }: { pathspecs?: string[]; staged?: boolean } = {},
+	) {
+		const params = ['diff', '--no-ext-diff', '--binary'];
+		if (staged) {
+			params.push('--staged');
+		}
+
+		params.push('--');
+		if (pathspecs != null && pathspecs.length !== 0) {
+			params.push(...pathspecs);
+		}
+
+		return git<string>({ cwd: repoPath, configs: ['-c', 'color.diff=false'] }, ...params);
+	}
+
 	export async function diff__shortstat(repoPath: string, ref?: string) {
 		const params = ['diff', '--shortstat', '--no-ext-diff'];
 		if (ref) {
@@ -728,6 +820,18 @@ export namespace Git {
 		void (await git<string>({ cwd: repoPath }, ...params));
 	}
 
+	export function fsck__unreachable(repoPath: string) {
+		// Only check connectivity (rather than every object), and ignore the reflogs so dropped stashes are unreachable
+		return git<string>(
+			{ cwd: repoPath },
+			'fsck',
+			'--unreachable',
+			'--connectivity-only',
+			'--no-reflogs',
+			'--no-progress',
+		);
+	}
+
 	export function for_each_ref__branch(repoPath: string, options: { all: boolean } = { all: false }) {
 		const params = ['for-each-ref', `--format=${GitBranchParser.defaultFormat}`, 'refs/heads'];
 		if (options.all) {
@@ -741,6 +845,7 @@ export namespace Git {
 		repoPath: string,
 		ref: string | undefined,
 		{
+			all,
 			authors,
 			format = 'default',
 			limit,
@@ -748,7 +853,9 @@ export namespace Git {
 			reverse,
 			similarityThreshold,
 			since,
+			skip,
 		}: {
+			all?: boolean;
 			authors?: string[];
 			format?: 'refs' | 'default';
 			limit?: number;
@@ -756,6 +863,7 @@ export namespace Git {
 			reverse?: boolean;
 			similarityThreshold?: number | null;
 			since?: string;
+			skip?: number;
 		},
 	) {
 		const params = [
@@ -774,10 +882,19 @@ export namespace Git {
 			params.push(`-n${limit + 1}`);
 		}
 
+		if (skip) {
+			params.push(`--skip=${skip}`);
+		}
+
 		if (since) {
 			params.push(`--since="${since}"`);
 		}
 
+		if (all) {
+			// Ensure no parent is shown before all of its children, since the commits of all the refs will be interleaved
+			params.push('--all', '--date-order');
+		}
+
 		if (!merges) {
 			params.push('--first-parent');
 		}
@@ -802,6 +919,45 @@ export namespace Git {
 		);
 	}
 
+	export function log__contributors(repoPath: string, { limit }: { limit?: number } = {}) {
+		const params = [
+			'log',
+			`--format=${GitContributorStatsParser.defaultFormat}`,
+			'--numstat',
+			'--no-renames',
+			'--use-mailmap',
+			'--all',
+			'--no-merges',
+		];
+		if (limit) {
+			params.push(`-n${limit}`);
+		}
+
+		return git<string>({ cwd: repoPath, configs: ['-c', 'log.showSignature=false'] }, ...params, 'HEAD', '--');
+	}
+
+	export function log__dangling_stashes(
+		repoPath: string,
+		shas: string[],
+		{ similarityThreshold }: { similarityThreshold?: number | null } = {},
+	) {
+		return git<string>(
+			{ cwd: repoPath, stdin: shas.join('\n') },
+			'log',
+			'--no-walk',
+			'--stdin',
+			'--merges',
+			'--first-parent',
+			'-m',
+			'--name-status',
+			`-M${similarityThreshold == null ? '' : `${similarityThreshold}%`}`,
+			// Use the abbreviated sha as the stash name, since dropped stashes no longer have a reflog selector
+			`--format=${GitStashParser.defaultFormat.replace('%gd', '%h')}`,
+			'--extended-regexp',
+			'--grep=^(WIP on|On) [^:]+: ',
+		);
+	}
+
 	export function log__file(
 		repoPath: string,
 		fileName: string,
@@ -878,7 +1034,7 @@ export namespace Git {
 				}
 			} else {
 				// Don't include `--name-status`, `--numstat`, or `--summary` because they aren't supported with `-L`
-				params.push(`-L ${startLine},${endLine == null ? startLine : endLine}:${file}`);
+				params.push(getLineRangeParam(file, startLine, endLine));
 			}
 		}
 
@@ -899,6 +1055,30 @@ export namespace Git {
 		return git<string>({ cwd: root, configs: ['-c', 'log.showSignature=false'] }, ...params);
 	}
 
+	export function log__file_patches(
+		repoPath: string,
+		fileName: string,
+		ref: string | undefined,
+		{ limit, startLine, endLine }: { limit?: number; startLine: number; endLine?: number },
+	) {
+		const [file, root] = Git.splitPath(fileName, repoPath);
+
+		// Mark the start of each commit, since the patches of `-L` can't be told apart from the commit otherwise
+		const params = ['log', '--format=%x00%H', '-m', getLineRangeParam(file, startLine, endLine)];
+		if (limit) {
+			params.push(`-n${limit}`);
+		}
+		if (ref && !GitRevision.isUncommittedStaged(ref)) {
+			params.push(ref);
+		}
+
+		return git<string>({ cwd: root, configs: ['-c', 'log.showSignature=false'] }, ...params);
+	}
+
+	function getLineRangeParam(file: string, startLine: number, endLine: number | undefined) {
+		return `-L ${startLine},${endLine == null ? startLine : endLine}:${file}`;
+	}
+
 	export async function log__file_recent(
 		repoPath: string,
 		fileName: string,
@@ -951,6 +1131,18 @@ export namespace Git {
 		return data.length === 0 ? undefined : data.trim();
 	}
 
+	export async function log__signature(repoPath: string, ref: string) {
+		const data = await git<string>(
+			{ cwd: repoPath, errors: GitErrorHandling.Ignore },
+			'log',
+			'-n1',
+			'--format=%G?%x00%GS%x00%GK',
+			ref,
+			'--',
+		);
+		return data.length === 0 ? undefined : data.trim();
+	}
+
 	export function log__search(
 		repoPath: string,
 		search: string[] = emptyArray,
@@ -1023,6 +1215,48 @@ export namespace Git {
 		return git<string>({ cwd: repoPath }, ...params, ref1, ref2);
 	}
 
+	export function notes__add(
+		repoPath: string,
+		ref: string,
+		message: string,
+		{ force, notesRef }: { force?: boolean; notesRef?: string } = {},
+	) {
+		const params = ['notes'];
+		if (notesRef) {
+			params.push(`--ref=${notesRef}`);
+		}
+
+		params.push('add');
+		if (force) {
+			params.push('--force');
+		}
+
+		return git<string>({ cwd: repoPath, stdin: message }, ...params, '--file=-', ref);
+	}
+
+	export function notes__remove(repoPath: string, ref: string, { notesRef }: { notesRef?: string } = {}) {
+		const params = ['notes'];
+		if (notesRef) {
+			params.push(`--ref=${notesRef}`);
+		}
+
+		return git<string>({ cwd: repoPath }, ...params, 'remove', '--ignore-missing', ref);
+	}
+
+	export async function notes__show(repoPath: string, ref: string, { notesRef }: { notesRef?: string } = {}) {
+		const params = ['notes'];
+		if (notesRef) {
+			params.push(`--ref=${notesRef}`);
+		}
+
+		const data = await git<string>({ cwd: repoPath, errors: GitErrorHandling.Ignore }, ...params, 'show', ref);
+		return data.length === 0 ? undefined : data.trim();
+	}
+
+	export function read_tree(repoPath: string, ref: string, { env }: { env?: Record<string, any> } = {}) {
+		return git<string>({ cwd: repoPath, env: env }, 'read-tree', ref);
+	}
+
 	export function reflog(
 		repoPath: string,
 		{ all, branch, limit, skip }: { all?: boolean; branch?: string; limit?: number; skip?: number } = {},
@@ -1079,6 +1313,42 @@ export namespace Git {
 		return isNaN(result) ? undefined : result;
 	}
 
+	export async function rev_list__bisect_vars(
+		repoPath: string,
+		bad: string,
+		good: string[],
+	): Promise<{ remaining: number; steps: number } | undefined> {
+		const data = await git<string>(
+			{ cwd: repoPath, errors: GitErrorHandling.Ignore },
+			'rev-list',
+			'--bisect-vars',
+			bad,
+			'--not',
+			...good,
+			'--',
+		);
+		if (data.length === 0) return undefined;
+
+		let remaining;
+		let steps;
+
+		let match;
+		do {
+			match = bisectVarsRegex.exec(data);
+			if (match == null) break;
+
+			if (match[1] === 'nr') {
+				remaining = parseInt(match[2], 10);
+			} else {
+				steps = parseInt(match[2], 10);
+			}
+		} while (true);
+
+		if (remaining == null || steps == null || isNaN(remaining) || isNaN(steps)) return undefined;
+
+		return { remaining: remaining, steps: steps };
+	}
+
 	export async function rev_list__left_right(
 		repoPath: string,
 		refs: string[],
@@ -1291,6 +1561,11 @@ export namespace Git {
 		return git<string>({ cwd: repoPath }, 'stash', deleteAfter ? 'pop' : 'apply', stashName);
 	}
 
+	export function stash__branch(repoPath: string, branch: string, stashName: string) {
+		if (!stashName) return undefined;
+		return git<string>({ cwd: repoPath }, 'stash', 'branch', branch, stashName);
+	}
+
 	export async function stash__delete(repoPath: string, stashName: string, ref?: string) {
 		if (!stashName) return undefined;
 
@@ -1334,17 +1609,29 @@ export namespace Git {
 			includeUntracked,
 			keepIndex,
 			pathspecs,
+			staged,
 			stdin,
-		}: { includeUntracked?: boolean; keepIndex?: boolean; pathspecs?: string[]; stdin?: boolean } = {},
+		}: {
+			includeUntracked?: boolean;
+			keepIndex?: boolean;
+			pathspecs?: string[];
+			staged?: boolean;
+			stdin?: boolean;
+		} = {},
 	): Promise<void> {
 		const params = ['stash', 'push'];
 
-		if (includeUntracked || (pathspecs != null && pathspecs.length !== 0)) {
-			params.push('-u');
-		}
+		if (staged) {
+			// `--staged` can't be combined with `--include-untracked` or `--keep-index`
+			params.push('--staged');
+		} else {
+			if (includeUntracked || (pathspecs != null && pathspecs.length !== 0)) {
+				params.push('-u');
+			}
 
-		if (keepIndex) {
-			params.push('-k');
+			if (keepIndex) {
+				params.push('-k');
+			}
 		}
 
 		if (message) {
@@ -1370,6 +1657,10 @@ export namespace Git {
 		void (await git<string>({ cwd: repoPath }, ...params));
 	}
 
+	export function stash__store(repoPath: string, sha: string, message: string) {
+		return git<string>({ cwd: repoPath }, 'stash', 'store', '-m', message, sha);
+	}
+
 	export function status(
 		repoPath: string,
 		porcelainVersion: number = 1,
@@ -1413,10 +1704,107 @@ export namespace Git {
 		);
 	}
 
+	export async function submodule__config(repoPath: string) {
+		const data = await git<string>(
+			{ cwd: repoPath, errors: GitErrorHandling.Ignore },
+			'config',
+			'--file',
+			'.gitmodules',
+			'--get-regex',
+			'^submodule\\.',
+		);
+		return data.length === 0 ? undefined : data;
+	}
+
+	export async function submodule__status(repoPath: string, { cached }: { cached?: boolean } = {}) {
+		const params = ['submodule', 'status'];
+		if (cached) {
+			params.push('--cached');
+		}
+
+		const data = await git<string>({ cwd: repoPath, errors: GitErrorHandling.Ignore }, ...params);
+		return data.length === 0 ? undefined : data;
+	}
+
+	export function submodule__sync(repoPath: string, paths?: string[], { recursive }: { recursive?: boolean } = {}) {
+		const params = ['submodule', 'sync'];
+		if (recursive) {
+			params.push('--recursive');
+		}
+
+		return git<string>({ cwd: repoPath }, ...params, '--', ...(paths ?? []));
+	}
+
+	export function submodule__update(
+		repoPath: string,
+		paths?: string[],
+		{ init, recursive }: { init?: boolean; recursive?: boolean } = {},
+	) {
+		const params = ['submodule', 'update'];
+		if (init) {
+			params.push('--init');
+		}
+		if (recursive) {
+			params.push('--recursive');
+		}
+
+		return git<string>({ cwd: repoPath }, ...params, '--', ...(paths ?? []));
+	}
+
 	export function tag(repoPath: string) {
 		return git<string>({ cwd: repoPath }, 'tag', '-l', `--format=${GitTagParser.defaultFormat}`);
 	}
 
+	export function worktree__add(
+		repoPath: string,
+		path: string,
+		{
+			commitish,
+			createBranch,
+			detach,
+			force,
+		}: { commitish?: string; createBranch?: string; detach?: boolean; force?: boolean } = {},
+	) {
+		const params = ['worktree', 'add'];
+		if (force) {
+			params.push('--force');
+		}
+		if (createBranch) {
+			params.push('-b', createBranch);
+		}
+		if (detach) {
+			params.push('--detach');
+		}
+
+		params.push(path);
+		if (commitish) {
+			params.push(commitish);
+		}
+
+		return git<string>({ cwd: repoPath }, ...params);
+	}
+
+	export function worktree__list(repoPath: string) {
+		return git<string>({ cwd: repoPath }, 'worktree', 'list', '--porcelain');
+	}
+
+	export function worktree__prune(repoPath: string) {
+		return git<string>({ cwd: repoPath }, 'worktree', 'prune');
+	}
+
+	export function worktree__remove(repoPath: string, worktree: string, { force }: { force?: boolean } = {}) {
+		const params = ['worktree', 'remove'];
+		if (force) {
+			params.push('--force');
+		}
+
+		return git<string>({ cwd: repoPath }, ...params, worktree);
+	}
+
+	export function write_tree(repoPath: string, { env }: { env?: Record<string, any> } = {}) {
+		return git<string>({ cwd: repoPath, env: env }, 'write-tree');
+	}
+
 	export async function readDotGitFile(
 		repoPath: string,
 		paths: string[],
@@ -1449,4 +1837,17 @@ export namespace Git {
 			return undefined;
 		}
 	}
+
+	export async function readWorkingFile(repoPath: string, fileName: string): Promise<string | undefined> {
+		try {
+			const bytes = await workspace.fs.readFile(Uri.file(paths.join(repoPath, fileName)));
+			return textDecoder.decode(bytes);
+		} catch (ex) {
+			return undefined;
+		}
+	}
+
+	export async function writeWorkingFile(repoPath: string, fileName: string, contents: string): Promise<void> {
+		await workspace.fs.writeFile(Uri.file(paths.join(repoPath, fileName)), textEncoder.encode(contents));
+	}
 }
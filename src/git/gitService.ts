@@ -1,5 +1,6 @@
 'use strict';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as paths from 'path';
 import {
 	ConfigurationChangeEvent,
@@ -30,16 +31,25 @@ import {
 	CommitDateFormatting,
 	Git,
 	GitAuthor,
+	GitBisectParser,
+	GitBisectStatus,
 	GitBlame,
 	GitBlameCommit,
+	GitBlameIgnoreRevs,
 	GitBlameLine,
 	GitBlameLines,
 	GitBlameParser,
+	GitBlameStreamParser,
 	GitBranch,
 	GitBranchParser,
 	GitBranchReference,
+	GitCodeOwners,
+	GitCodeOwnersParser,
+	GitCommitSignature,
 	GitCommitType,
 	GitContributor,
+	GitContributorStats,
+	GitDeletedBranch,
 	GitDiff,
 	GitDiffFilter,
 	GitDiffHunkLine,
@@ -51,6 +61,8 @@ import {
 	GitLogCommit,
 	GitLogParser,
 	GitMergeStatus,
+	GitNote,
+	GitPatchHunk,
 	GitRebaseStatus,
 	GitReference,
 	GitReflog,
@@ -62,13 +74,18 @@ import {
 	GitStatus,
 	GitStatusFile,
 	GitStatusParser,
+	GitSubmodule,
+	GitSubmoduleParser,
 	GitTag,
 	GitTagParser,
 	GitTree,
 	GitTreeParser,
+	GitWorktree,
+	GitWorktreeParser,
 	maxGitCliLength,
 	PullRequest,
 	PullRequestDateFormatting,
+	PullRequestDetails,
 	PullRequestState,
 	Repository,
 	RepositoryChange,
@@ -78,7 +95,8 @@ import {
 import { GitUri } from './gitUri';
 import { LogCorrelationContext, Logger } from '../logger';
 import { Messages } from '../messages';
-import { GitReflogParser, GitShortLogParser } from './parsers/parsers';
+import { GitContributorStatsParser, GitReflogParser, GitShortLogParser } from './parsers/parsers';
+import { PersistentBlameCache } from './persistentBlameCache';
 import { RemoteProvider, RemoteProviderFactory, RemoteProviders, RichRemoteProvider } from './remotes/factory';
 import { fsExists, isWindows } from './shell';
 import {
@@ -111,6 +129,9 @@ const mappedAuthorRegex = /(.+)\s<(.+)>/;
 
 const emptyPromise: Promise<GitBlame | GitDiff | GitLog | undefined> = Promise.resolve(undefined);
 const reflogCommands = ['merge', 'pull'];
+const checkoutReflogDetailsRegex = /^moving from (.+?) to .+$/;
+const unreachableCommitRegex = /^unreachable commit (\w+)$/gm;
+const validBranchNameRegex = /^(?!.*(?:\.\.|@{|\/\/))[^\s~^:?*[\\]+$/;
 
 const maxDefaultBranchWeight = 100;
 const weightedDefaultBranches = new Map<string, number>([
@@ -131,15 +152,25 @@ export class GitService implements Disposable {
 	private readonly _repositoryTree: TernarySearchTree<string, Repository>;
 	private _repositoriesLoadingPromise: Promise<void> | undefined;
 
+	private readonly _blameIgnoreRevsCache = new Map<string, GitBlameIgnoreRevs | null>();
 	private readonly _branchesCache = new Map<string, GitBranch[]>();
+	private readonly _codeOwnersCache = new Map<string, GitCodeOwners | null>();
 	private readonly _contributorsCache = new Map<string, GitContributor[]>();
+	private readonly _contributorStatsCache = new Map<
+		string,
+		{ limit: number; stats: Map<string, GitContributorStats> }
+	>();
+	private readonly _bisectStatusCache = new Map<string, GitBisectStatus | null>();
 	private readonly _mergeStatusCache = new Map<string, GitMergeStatus | null>();
 	private readonly _rebaseStatusCache = new Map<string, GitRebaseStatus | null>();
 	private readonly _remotesWithApiProviderCache = new Map<string, GitRemote<RichRemoteProvider> | null>();
 	private readonly _stashesCache = new Map<string, GitStash | null>();
+	private readonly _submodulesCache = new Map<string, GitSubmodule[]>();
 	private readonly _tagsCache = new Map<string, GitTag[]>();
 	private readonly _trackedCache = new Map<string, boolean | Promise<boolean>>();
 	private readonly _userMapCache = new Map<string, { name?: string; email?: string } | null>();
+	private readonly _worktreesCache = new Map<string, GitWorktree[]>();
+	private _persistentBlameCache: PersistentBlameCache | undefined;
 
 	constructor() {
 		this._repositoryTree = TernarySearchTree.forPaths();
@@ -163,15 +194,21 @@ export class GitService implements Disposable {
 
 	dispose() {
 		this._repositoryTree.forEach(r => r.dispose());
+		this._blameIgnoreRevsCache.clear();
 		this._branchesCache.clear();
+		this._codeOwnersCache.clear();
 		this._contributorsCache.clear();
+		this._contributorStatsCache.clear();
+		this._bisectStatusCache.clear();
 		this._mergeStatusCache.clear();
 		this._rebaseStatusCache.clear();
 		this._remotesWithApiProviderCache.clear();
 		this._stashesCache.clear();
+		this._submodulesCache.clear();
 		this._tagsCache.clear();
 		this._trackedCache.clear();
 		this._userMapCache.clear();
+		this._worktreesCache.clear();
 
 		this._disposable.dispose();
 	}
@@ -196,6 +233,15 @@ export class GitService implements Disposable {
 		return Container.config.advanced.caching.enabled;
 	}
 
+	private get persistentBlameCache() {
+		if (!this.useCaching || !Container.config.advanced.caching.persistent) return undefined;
+
+		if (this._persistentBlameCache == null) {
+			this._persistentBlameCache = new PersistentBlameCache(Container.context.globalStorageUri);
+		}
+		return this._persistentBlameCache;
+	}
+
 	private onAnyRepositoryChanged(repo: Repository, e: RepositoryChangeEvent) {
 		if (e.changed(RepositoryChange.Stash, true)) {
 			this._stashesCache.delete(repo.path);
@@ -203,12 +249,24 @@ export class GitService implements Disposable {
 			return;
 		}
 
+		if (e.changed(RepositoryChange.CodeOwners, true)) {
+			this._codeOwnersCache.delete(repo.path);
+
+			return;
+		}
+
+		this._blameIgnoreRevsCache.delete(repo.path);
 		this._branchesCache.delete(repo.path);
+		this._codeOwnersCache.delete(repo.path);
 		this._contributorsCache.delete(repo.path);
+		this._contributorStatsCache.delete(repo.path);
+		this._bisectStatusCache.delete(repo.path);
 		this._mergeStatusCache.delete(repo.path);
 		this._rebaseStatusCache.delete(repo.path);
+		this._submodulesCache.delete(repo.path);
 		this._tagsCache.delete(repo.path);
 		this._trackedCache.clear();
+		this._worktreesCache.delete(repo.path);
 
 		if (e.changed(RepositoryChange.Remotes)) {
 			this._remotesWithApiProviderCache.clear();
@@ -242,6 +300,15 @@ export class GitService implements Disposable {
 			CommitDateFormatting.reset();
 			PullRequestDateFormatting.reset();
 		}
+
+		if (
+			configuration.changed(e, 'advanced', 'caching') &&
+			this._persistentBlameCache != null &&
+			(!this.useCaching || !Container.config.advanced.caching.persistent)
+		) {
+			void this._persistentBlameCache.clear();
+			this._persistentBlameCache = undefined;
+		}
 	}
 
 	@debug()
@@ -545,6 +612,16 @@ export class GitService implements Disposable {
 		return Git.remote__prune(repoPath, remoteName);
 	}
 
+	@log()
+	addNote(repoPath: string, ref: string, message: string, options: { force?: boolean; notesRef?: string } = {}) {
+		return Git.notes__add(repoPath, ref, message, options);
+	}
+
+	@log()
+	removeNote(repoPath: string, ref: string, options: { notesRef?: string } = {}) {
+		return Git.notes__remove(repoPath, ref, options);
+	}
+
 	@log()
 	async applyChangesToWorkingFile(uri: GitUri, ref1?: string, ref2?: string) {
 		const cc = Logger.getCorrelationContext();
@@ -589,6 +666,21 @@ export class GitService implements Disposable {
 		}
 	}
 
+	@log()
+	bisectMark(repoPath: string, term: 'bad' | 'good' | 'skip', ref?: string) {
+		return Git.bisect__mark(repoPath, term, ref);
+	}
+
+	@log()
+	bisectReset(repoPath: string) {
+		return Git.bisect__reset(repoPath);
+	}
+
+	@log()
+	bisectStart(repoPath: string, bad: string, good: string[]) {
+		return Git.bisect__start(repoPath, bad, good);
+	}
+
 	@log()
 	async branchContainsCommit(repoPath: string, name: string, ref: string): Promise<boolean> {
 		let data = await Git.branch__containsOrPointsAt(repoPath, ref, { mode: 'contains', name: name });
@@ -617,6 +709,53 @@ export class GitService implements Disposable {
 		}
 	}
 
+	@log()
+	createWorktree(
+		repoPath: string,
+		path: string,
+		options: { commitish?: string; createBranch?: string; detach?: boolean; force?: boolean } = {},
+	) {
+		GitService.ensureGitVersion(
+			'2.7.0',
+			'Creating worktrees',
+			' Please install a more recent version of Git and try again.',
+		);
+
+		return Git.worktree__add(repoPath, path, options);
+	}
+
+	@log()
+	deleteWorktree(repoPath: string, path: string, options: { force?: boolean } = {}) {
+		GitService.ensureGitVersion(
+			'2.17.0',
+			'Deleting worktrees',
+			' Please install a more recent version of Git and try again.',
+		);
+
+		return Git.worktree__remove(repoPath, path, options);
+	}
+
+	@log()
+	pruneWorktrees(repoPath: string) {
+		GitService.ensureGitVersion(
+			'2.7.0',
+			'Pruning worktrees',
+			' Please install a more recent version of Git and try again.',
+		);
+
+		return Git.worktree__prune(repoPath);
+	}
+
+	@log()
+	syncSubmodules(repoPath: string, paths?: string[], options: { recursive?: boolean } = {}) {
+		return Git.submodule__sync(repoPath, paths, options);
+	}
+
+	@log()
+	updateSubmodules(repoPath: string, paths?: string[], options: { init?: boolean; recursive?: boolean } = {}) {
+		return Git.submodule__update(repoPath, paths, options);
+	}
+
 	@log()
 	async excludeIgnoredUris(repoPath: string, uris: Uri[]): Promise<Uri[]> {
 		const paths = new Map<string, Uri>(uris.map(u => [Strings.normalizePath(u.fsPath), u]));
@@ -796,13 +935,135 @@ export class GitService implements Disposable {
 	}
 
 	@log()
-	async getBlameForFile(uri: GitUri): Promise<GitBlame | undefined> {
+	async getBlameIgnoreRevs(repoPath: string | undefined): Promise<GitBlameIgnoreRevs | undefined> {
+		if (repoPath == null) return undefined;
+
+		let ignoreRevs = this.useCaching ? this._blameIgnoreRevsCache.get(repoPath) : undefined;
+		if (ignoreRevs === null) return undefined;
+
+		if (ignoreRevs == null) {
+			const repo = await this.getRepository(repoPath);
+			ignoreRevs = await this.getBlameIgnoreRevsCore(repoPath, repo);
+
+			if (repo?.supportsChangeEvents) {
+				this._blameIgnoreRevsCache.set(repoPath, ignoreRevs ?? null);
+			}
+		}
+
+		return ignoreRevs ?? undefined;
+	}
+
+	private async getBlameIgnoreRevsCore(
+		repoPath: string,
+		repo: Repository | undefined,
+	): Promise<GitBlameIgnoreRevs | undefined> {
+		let path;
+		let detected = false;
+
+		// Use the ignore revisions file given to `git blame` (via the custom arguments or config), otherwise look for one
+		const args = Container.config.advanced.blame.customArguments;
+		const index = args?.indexOf('--ignore-revs-file') ?? -1;
+		if (index !== -1) {
+			path = args![index + 1];
+		} else {
+			path = await Git.config__get('blame.ignoreRevsFile', repoPath);
+			if (!path) {
+				path = Container.config.advanced.blame.ignoreRevsFile ?? undefined;
+				detected = true;
+			}
+		}
+		if (!path) {
+			repo?.watchBlameIgnoreRevsFile(undefined);
+			return undefined;
+		}
+
+		if (paths.isAbsolute(path)) {
+			path = Strings.normalizePath(paths.relative(repoPath, path));
+		}
+
+		// Watch the file even if it doesn't exist yet, so that creating it is picked up too
+		repo?.watchBlameIgnoreRevsFile(path);
+
+		const data = await Git.readWorkingFile(repoPath, path);
+		// Only use a detected file if it exists, since otherwise the blame will fail
+		if (data == null && detected) return undefined;
+
+		return {
+			repoPath: repoPath,
+			path: path,
+			detected: detected,
+			shas: GitBlameIgnoreRevs.parse(data ?? emptyStr),
+		};
+	}
+
+	@log()
+	async addBlameIgnoreRevision(repoPath: string, sha: string, summary?: string): Promise<void> {
+		const ignoreRevs = await this.getBlameIgnoreRevs(repoPath);
+		if (ignoreRevs?.shas.has(sha)) return;
+
+		const path =
+			ignoreRevs?.path ?? Container.config.advanced.blame.ignoreRevsFile ?? GitBlameIgnoreRevs.defaultFileName;
+
+		let data = (await Git.readWorkingFile(repoPath, path)) ?? emptyStr;
+		const eol = data.includes('\r\n') ? '\r\n' : '\n';
+		if (data.length !== 0) {
+			data = `${data.trimRight()}${eol}${eol}`;
+		}
+		data += `${summary ? `# ${summary}${eol}` : emptyStr}${sha}${eol}`;
+
+		await Git.writeWorkingFile(repoPath, path, data);
+		await this.onBlameIgnoreRevsChanged(repoPath);
+	}
+
+	@log()
+	async removeBlameIgnoreRevision(repoPath: string, sha: string): Promise<void> {
+		const ignoreRevs = await this.getBlameIgnoreRevs(repoPath);
+		if (ignoreRevs == null || !ignoreRevs.shas.has(sha)) return;
+
+		const data = await Git.readWorkingFile(repoPath, ignoreRevs.path);
+		if (data == null) return;
+
+		const eol = data.includes('\r\n') ? '\r\n' : '\n';
+		const lines = data.split(/\r?\n/);
+
+		const isRevision = (line: string | undefined) => line != null && line.split('#')[0].trim().length !== 0;
+
+		let index;
+		while ((index = lines.findIndex(l => l.split('#')[0].trim().toLowerCase() === sha)) !== -1) {
+			// Also remove the comment which describes the revision, unless it also describes the revisions which follow
+			if (index > 0 && lines[index - 1].trimLeft().startsWith('#') && !isRevision(lines[index + 1])) {
+				lines.splice(index - 1, 2);
+			} else {
+				lines.splice(index, 1);
+			}
+		}
+
+		await Git.writeWorkingFile(repoPath, ignoreRevs.path, lines.join(eol));
+		await this.onBlameIgnoreRevsChanged(repoPath);
+	}
+
+	private async onBlameIgnoreRevsChanged(repoPath: string) {
+		this._blameIgnoreRevsCache.delete(repoPath);
+
+		// Notify the repository, so that any blame (and annotations) using the old revisions are reset
+		const repo = await this.getRepository(repoPath);
+		repo?.blameIgnoreRevsChanged();
+	}
+
+	@log<GitService['getBlameForFile']>({ args: { 1: () => false } })
+	async getBlameForFile(
+		uri: GitUri,
+		options?: { detectMoves?: boolean; onProgress?: (snapshot: () => GitBlame | undefined) => void },
+	): Promise<GitBlame | undefined> {
 		const cc = Logger.getCorrelationContext();
 
 		let key = 'blame';
 		if (uri.sha != null) {
 			key += `:${uri.sha}`;
 		}
+		if (options?.detectMoves) {
+			key += ':moves';
+		}
 
 		const doc = await Container.tracker.getOrAdd(uri);
 		if (this.useCaching) {
@@ -821,7 +1082,7 @@ export class GitService implements Disposable {
 			}
 		}
 
-		const promise = this.getBlameForFileCore(uri, doc, key, cc);
+		const promise = this.getBlameForFileCore(uri, doc, key, cc, options);
 
 		if (doc.state != null) {
 			Logger.debug(cc, `Cache add: '${key}'`);
@@ -840,6 +1101,10 @@ export class GitService implements Disposable {
 		document: TrackedDocument<GitDocumentState>,
 		key: string,
 		cc: LogCorrelationContext | undefined,
+		{
+			detectMoves,
+			onProgress,
+		}: { detectMoves?: boolean; onProgress?: (snapshot: () => GitBlame | undefined) => void } = {},
 	): Promise<GitBlame | undefined> {
 		if (!(await this.isTracked(uri))) {
 			Logger.log(cc, `Skipping blame; '${uri.fsPath}' is not tracked`);
@@ -849,11 +1114,48 @@ export class GitService implements Disposable {
 		const [file, root] = Git.splitPath(uri.fsPath, uri.repoPath, false);
 
 		try {
-			const data = await Git.blame(root, file, uri.sha, {
-				args: Container.config.advanced.blame.customArguments,
-				ignoreWhitespace: Container.config.blame.ignoreWhitespace,
+			const args = getBlameArgs(detectMoves);
+			const ignoreWhitespace = Container.config.blame.ignoreWhitespace;
+
+			const ignoreRevs = await this.getBlameIgnoreRevs(root);
+
+			const persisted = await this.getPersistentBlameKey(root, file, uri.sha, args, ignoreWhitespace, ignoreRevs);
+
+			let data = persisted != null ? await persisted.cache.get(persisted.key, persisted.contentHash) : undefined;
+			if (data != null) {
+				Logger.debug(cc, `Persistent cache hit: '${key}'`);
+
+				return GitBlameParser.parse(data, root, file, await this.getCurrentUser(root));
+			}
+
+			// When streaming, parse the blame as it is received and report each partial blame along the way
+			let stream: GitBlameStreamParser | undefined;
+			if (onProgress != null) {
+				stream = new GitBlameStreamParser(root, file, await this.getCurrentUser(root));
+			}
+
+			data = await Git.blame(root, file, uri.sha, {
+				args: args,
+				ignoreRevsFile: getIgnoreRevsFile(ignoreRevs),
+				ignoreWhitespace: ignoreWhitespace,
+				onData:
+					stream != null
+						? d => {
+								stream!.write(d);
+								// Defer taking the snapshot (which copies the parsed commits) until it is actually needed
+								onProgress!(() => stream!.snapshot());
+						  }
+						: undefined,
 			});
-			const blame = GitBlameParser.parse(data, root, file, await this.getCurrentUser(root));
+			if (persisted != null) {
+				void persisted.cache.set(persisted.key, persisted.contentHash, data);
+			}
+
+			// The output won't have been streamed if an identical blame was already running, so fallback to parsing it
+			let blame = stream?.end();
+			if (blame == null || blame.lines.length === 0) {
+				blame = GitBlameParser.parse(data, root, file, await this.getCurrentUser(root));
+			}
 			return blame;
 		} catch (ex) {
 			// Trap and cache expected blame errors
@@ -876,6 +1178,47 @@ export class GitService implements Disposable {
 		}
 	}
 
+	private async getPersistentBlameKey(
+		root: string,
+		file: string,
+		ref: string | undefined,
+		args: string[] | null,
+		ignoreWhitespace: boolean,
+		ignoreRevs: GitBlameIgnoreRevs | undefined,
+	): Promise<{ cache: PersistentBlameCache; key: string; contentHash: string } | undefined> {
+		const cache = this.persistentBlameCache;
+		if (cache == null) return undefined;
+
+		let sha;
+		let contentHash;
+		if (ref == null || GitRevision.isUncommitted(ref)) {
+			// Working tree blame depends on the history up to HEAD as well as the current contents of the file
+			sha = await Git.rev_parse__verify(root, 'HEAD');
+			const contents = await Git.readWorkingFile(root, file);
+			if (contents == null) return undefined;
+
+			contentHash = Strings.sha1(contents);
+		} else {
+			sha = await Git.rev_parse__verify(root, ref);
+			// Blobs are immutable, so the blob sha is all that's needed to validate the entry
+			contentHash = await Git.rev_parse__verify(root, ref, file);
+		}
+		if (sha == null || contentHash == null) return undefined;
+
+		return {
+			cache: cache,
+			key: PersistentBlameCache.getKey(
+				root,
+				file,
+				sha,
+				args?.join(' '),
+				ignoreWhitespace,
+				ignoreRevs != null ? [...ignoreRevs.shas].join(',') : undefined,
+			),
+			contentHash: contentHash,
+		};
+	}
+
 	@log({
 		args: {
 			1: _contents => '<contents>',
@@ -935,6 +1278,7 @@ export class GitService implements Disposable {
 			const data = await Git.blame__contents(root, file, contents, {
 				args: Container.config.advanced.blame.customArguments,
 				correlationKey: `:${key}`,
+				ignoreRevsFile: getIgnoreRevsFile(await this.getBlameIgnoreRevs(root)),
 				ignoreWhitespace: Container.config.blame.ignoreWhitespace,
 			});
 			const blame = GitBlameParser.parse(data, root, file, await this.getCurrentUser(root));
@@ -963,9 +1307,9 @@ export class GitService implements Disposable {
 	async getBlameForLine(
 		uri: GitUri,
 		editorLine: number, // editor lines are 0-based
-		options: { skipCache?: boolean } = {},
+		options: { detectMoves?: boolean; skipCache?: boolean } = {},
 	): Promise<GitBlameLine | undefined> {
-		if (!options.skipCache && this.useCaching) {
+		if (!options.skipCache && !options.detectMoves && this.useCaching) {
 			const blame = await this.getBlameForFile(uri);
 			if (blame == null) return undefined;
 
@@ -991,7 +1335,8 @@ export class GitService implements Disposable {
 
 		try {
 			const data = await Git.blame(uri.repoPath, fileName, uri.sha, {
-				args: Container.config.advanced.blame.customArguments,
+				args: getBlameArgs(options.detectMoves),
+				ignoreRevsFile: getIgnoreRevsFile(await this.getBlameIgnoreRevs(uri.repoPath)),
 				ignoreWhitespace: Container.config.blame.ignoreWhitespace,
 				startLine: lineToBlame,
 				endLine: lineToBlame,
@@ -1047,6 +1392,7 @@ export class GitService implements Disposable {
 		try {
 			const data = await Git.blame__contents(uri.repoPath, fileName, contents, {
 				args: Container.config.advanced.blame.customArguments,
+				ignoreRevsFile: getIgnoreRevsFile(await this.getBlameIgnoreRevs(uri.repoPath)),
 				ignoreWhitespace: Container.config.blame.ignoreWhitespace,
 				startLine: lineToBlame,
 				endLine: lineToBlame,
@@ -1066,11 +1412,36 @@ export class GitService implements Disposable {
 	}
 
 	@log()
-	async getBlameForRange(uri: GitUri, range: Range): Promise<GitBlameLines | undefined> {
-		const blame = await this.getBlameForFile(uri);
-		if (blame == null) return undefined;
+	async getBlameForRange(
+		uri: GitUri,
+		range: Range,
+		options: { skipCache?: boolean } = {},
+	): Promise<GitBlameLines | undefined> {
+		if (!options.skipCache) {
+			const blame = await this.getBlameForFile(uri);
+			if (blame == null) return undefined;
 
-		return this.getBlameForRangeSync(blame, uri, range);
+			return this.getBlameForRangeSync(blame, uri, range);
+		}
+
+		const fileName = uri.fsPath;
+
+		try {
+			const data = await Git.blame(uri.repoPath, fileName, uri.sha, {
+				args: Container.config.advanced.blame.customArguments,
+				ignoreRevsFile: getIgnoreRevsFile(await this.getBlameIgnoreRevs(uri.repoPath)),
+				ignoreWhitespace: Container.config.blame.ignoreWhitespace,
+				// ranges are 0-based
+				startLine: range.start.line + 1,
+				endLine: range.end.line + 1,
+			});
+			const blame = GitBlameParser.parse(data, uri.repoPath, fileName, await this.getCurrentUser(uri.repoPath!));
+			if (blame == null) return undefined;
+
+			return { ...blame, lines: blame.lines.filter(l => l != null), allLines: blame.lines };
+		} catch {
+			return undefined;
+		}
 	}
 
 	@log({
@@ -1423,6 +1794,40 @@ export class GitService implements Disposable {
 		return commit ?? Iterables.first(log.commits.values());
 	}
 
+	@log()
+	async getCommitSignature(repoPath: string, ref: string): Promise<GitCommitSignature | undefined> {
+		const data = await Git.log__signature(repoPath, ref);
+		if (data == null) return undefined;
+
+		const [code, signer, key] = data.split('\0');
+		return {
+			status: GitCommitSignature.getStatus(code),
+			signer: signer || undefined,
+			key: key || undefined,
+		};
+	}
+
+	@log()
+	async getNotes(repoPath: string, ref: string, options: { notesRefs?: string[] } = {}): Promise<GitNote[]> {
+		let notesRefs = options.notesRefs ?? Container.config.notes.refs;
+		if (notesRefs == null || notesRefs.length === 0) {
+			notesRefs = [GitNote.defaultRef];
+		}
+
+		const messages = await Promise.all(
+			notesRefs.map(notesRef => Git.notes__show(repoPath, ref, { notesRef: notesRef })),
+		);
+
+		const notes: GitNote[] = [];
+		for (let i = 0; i < notesRefs.length; i++) {
+			const message = messages[i];
+			if (message == null) continue;
+
+			notes.push({ notesRef: notesRefs[i], sha: ref, message: message });
+		}
+		return notes;
+	}
+
 	@log()
 	async getOldestUnpushedRefForFile(repoPath: string, fileName: string): Promise<string | undefined> {
 		const data = await Git.log__file(repoPath, fileName, '@{push}..', {
@@ -1440,9 +1845,57 @@ export class GitService implements Disposable {
 	}
 
 	@log()
-	async getContributors(repoPath: string): Promise<GitContributor[]> {
+	async getCodeOwners(repoPath: string | undefined): Promise<GitCodeOwners | undefined> {
+		if (repoPath == null) return undefined;
+
+		let codeOwners = this.useCaching ? this._codeOwnersCache.get(repoPath) : undefined;
+		if (codeOwners === null) return undefined;
+
+		if (codeOwners == null) {
+			for (const path of GitCodeOwners.locations) {
+				const data = await Git.readWorkingFile(repoPath, path);
+				if (data == null) continue;
+
+				codeOwners = GitCodeOwnersParser.parse(data, repoPath, path);
+				break;
+			}
+
+			const repo = await this.getRepository(repoPath);
+			if (repo?.supportsChangeEvents) {
+				this._codeOwnersCache.set(repoPath, codeOwners ?? null);
+			}
+		}
+
+		return codeOwners ?? undefined;
+	}
+
+	@log()
+	async getContributors(
+		repoPath: string,
+		options: { stats?: boolean; statsLimit?: number } = {},
+	): Promise<GitContributor[]> {
 		if (repoPath == null) return [];
 
+		const contributors = await this.getContributorsCore(repoPath);
+		if (!options.stats || contributors.length === 0) return contributors;
+
+		const stats = await this.getContributorStats(repoPath, options.statsLimit ?? 0);
+		if (stats == null) return contributors;
+
+		return contributors.map(
+			c =>
+				new GitContributor(
+					c.repoPath,
+					c.name,
+					c.email,
+					c.count,
+					c.current,
+					stats.get(GitContributorStatsParser.getKey(c.name, c.email)),
+				),
+		);
+	}
+
+	private async getContributorsCore(repoPath: string): Promise<GitContributor[]> {
 		let contributors = this.useCaching ? this._contributorsCache.get(repoPath) : undefined;
 		if (contributors == null) {
 			try {
@@ -1482,6 +1935,31 @@ export class GitService implements Disposable {
 		return contributors;
 	}
 
+	private async getContributorStats(
+		repoPath: string,
+		limit: number,
+	): Promise<Map<string, GitContributorStats> | undefined> {
+		const cached = this.useCaching ? this._contributorStatsCache.get(repoPath) : undefined;
+
+		let stats = cached?.limit === limit ? cached.stats : undefined;
+		if (stats == null) {
+			try {
+				const data = await Git.log__contributors(repoPath, { limit: limit });
+				stats = GitContributorStatsParser.parse(data);
+				if (stats == null) return undefined;
+
+				const repo = await this.getRepository(repoPath);
+				if (repo?.supportsChangeEvents) {
+					this._contributorStatsCache.set(repoPath, { limit: limit, stats: stats });
+				}
+			} catch (ex) {
+				return undefined;
+			}
+		}
+
+		return stats;
+	}
+
 	@log()
 	@gate()
 	async getCurrentUser(repoPath: string) {
@@ -1731,6 +2209,25 @@ export class GitService implements Disposable {
 		}
 	}
 
+	@log()
+	async getDiffForCommitFile(
+		repoPath: string,
+		fileName: string,
+		ref: string,
+		originalFileName?: string,
+	): Promise<GitDiff | undefined> {
+		try {
+			const data = await Git.show__diff(repoPath, fileName, ref, originalFileName, {
+				similarityThreshold: Container.config.advanced.similarityThreshold,
+			});
+
+			const diff = GitDiffParser.parse(data);
+			return diff;
+		} catch (ex) {
+			return undefined;
+		}
+	}
+
 	@log()
 	async getDiffForLine(
 		uri: GitUri,
@@ -1753,6 +2250,41 @@ export class GitService implements Disposable {
 		}
 	}
 
+	@log()
+	async getLineForPreviousRevision(
+		uri: GitUri,
+		editorLine: number, // editor lines are 0-based
+		ref1: string,
+		ref2: string,
+		originalFileName?: string,
+	): Promise<number> {
+		const diff = await this.getDiffForFile(uri, ref1, ref2, originalFileName);
+		if (diff == null) return editorLine;
+
+		const line = editorLine + 1;
+
+		let offset = 0;
+		for (const hunk of diff.hunks) {
+			if (hunk.current.position.start > line) break;
+
+			if (hunk.current.position.end >= line && hunk.current.count !== 0) {
+				// Map the line onto the lines it replaced, or onto the line before where it was added
+				return Math.max(
+					hunk.previous.position.start -
+						1 +
+						(hunk.previous.count === 0
+							? 0
+							: Math.min(line - hunk.current.position.start, hunk.previous.count - 1)),
+					0,
+				);
+			}
+
+			offset += hunk.current.count - hunk.previous.count;
+		}
+
+		return Math.max(editorLine - offset, 0);
+	}
+
 	@log()
 	async getDiffStatus(
 		repoPath: string,
@@ -1792,24 +2324,28 @@ export class GitService implements Disposable {
 			ref,
 			...options
 		}: {
+			all?: boolean;
 			authors?: string[];
 			limit?: number;
 			merges?: boolean;
 			ref?: string;
 			reverse?: boolean;
 			since?: string;
+			skip?: number;
 		} = {},
 	): Promise<GitLog | undefined> {
 		const limit = options.limit ?? Container.config.advanced.maxListItems ?? 0;
 
 		try {
 			const data = await Git.log(repoPath, ref, {
+				all: options.all,
 				authors: options.authors,
 				limit: limit,
 				merges: options.merges == null ? true : options.merges,
 				reverse: options.reverse,
 				similarityThreshold: Container.config.advanced.similarityThreshold,
 				since: options.since,
+				skip: options.skip,
 			});
 			const log = GitLogParser.parse(
 				data,
@@ -1873,7 +2409,14 @@ export class GitService implements Disposable {
 
 	private getLogMoreFn(
 		log: GitLog,
-		options: { authors?: string[]; limit?: number; merges?: boolean; ref?: string; reverse?: boolean },
+		options: {
+			all?: boolean;
+			authors?: string[];
+			limit?: number;
+			merges?: boolean;
+			ref?: string;
+			reverse?: boolean;
+		},
 	): (limit: number | { until: string } | undefined) => Promise<GitLog> {
 		return async (limit: number | { until: string } | undefined) => {
 			const moreUntil = limit != null && typeof limit === 'object' ? limit.until : undefined;
@@ -1898,11 +2441,17 @@ export class GitService implements Disposable {
 			}
 
 			const ref = Iterables.last(log.commits.values())?.ref;
-			const moreLog = await this.getLog(log.repoPath, {
-				...options,
-				limit: moreUntil == null ? moreLimit : 0,
-				ref: moreUntil == null ? `${ref}^` : `${moreUntil}^..${ref}^`,
-			});
+			const moreLog = await this.getLog(
+				log.repoPath,
+				// If the log is for all refs, then the last commit's ancestry won't include everything else, so just skip what we already have
+				options.all
+					? { ...options, limit: moreUntil == null ? moreLimit : 0, skip: log.count }
+					: {
+							...options,
+							limit: moreUntil == null ? moreLimit : 0,
+							ref: moreUntil == null ? `${ref}^` : `${moreUntil}^..${ref}^`,
+					  },
+			);
 			// If we can't find any more, assume we have everything
 			if (moreLog == null) return { ...log, hasMore: false };
 
@@ -1952,6 +2501,7 @@ export class GitService implements Disposable {
 
 			const searchArgs = new Set<string>();
 			const files: string[] = [];
+			const refs: string[] = [];
 
 			let useShow = false;
 
@@ -1967,7 +2517,6 @@ export class GitService implements Disposable {
 				}
 			} else {
 				searchArgs.add(`-M${similarityThreshold == null ? '' : `${similarityThreshold}%`}`);
-				searchArgs.add('--all');
 				searchArgs.add('--full-history');
 				searchArgs.add(search.matchRegex ? '--extended-regexp' : '--fixed-strings');
 				if (search.matchRegex && !search.matchCase) {
@@ -1982,37 +2531,97 @@ export class GitService implements Disposable {
 								searchArgs.add('--all-match');
 							}
 							for (const value of values) {
-								searchArgs.add(`--grep=${value.replace(doubleQuoteRegex, '\\b')}`);
+								searchArgs.add(`--grep=${value.replace(doubleQuoteRegex, '\\b')}`);
+							}
+
+							break;
+
+						case 'author:':
+							searchArgs.add('-m');
+							for (const value of values) {
+								searchArgs.add(`--author=${value.replace(doubleQuoteRegex, '\\b')}`);
+							}
+
+							break;
+
+						case 'change:':
+							for (const value of values) {
+								searchArgs.add(`-G${value}`);
+							}
+
+							break;
+
+						case 'exact:':
+							for (const value of values) {
+								searchArgs.add(`-S${value.replace(doubleQuoteRegex, '')}`);
+							}
+
+							break;
+
+						case 'file:':
+							for (const value of values) {
+								files.push(value.replace(doubleQuoteRegex, ''));
+							}
+
+							break;
+
+						case 'committer:':
+							searchArgs.add('-m');
+							for (const value of values) {
+								searchArgs.add(`--committer=${value.replace(doubleQuoteRegex, '\\b')}`);
 							}
 
 							break;
 
-						case 'author:':
-							searchArgs.add('-m');
+						case 'after:':
 							for (const value of values) {
-								searchArgs.add(`--author=${value.replace(doubleQuoteRegex, '\\b')}`);
+								searchArgs.add(`--since=${value.replace(doubleQuoteRegex, '')}`);
 							}
 
 							break;
 
-						case 'change:':
+						case 'before:':
 							for (const value of values) {
-								searchArgs.add(`-G${value}`);
+								searchArgs.add(`--until=${value.replace(doubleQuoteRegex, '')}`);
 							}
 
 							break;
 
-						case 'file:':
+						case 'ref:':
+							for (let value of values) {
+								value = value.replace(doubleQuoteRegex, '');
+								// Refs are passed before the `--`, so never let one be parsed as an option
+								if (value.length === 0 || value.startsWith('-')) continue;
+
+								refs.push(value);
+							}
+
+							break;
+
+						case 'type:':
 							for (const value of values) {
-								files.push(value.replace(doubleQuoteRegex, ''));
+								switch (value.replace(doubleQuoteRegex, '').toLowerCase()) {
+									case 'merge':
+										searchArgs.add('--merges');
+										break;
+
+									case 'nomerge':
+										searchArgs.add('--no-merges');
+										break;
+								}
 							}
 
 							break;
 					}
 				}
+
+				// Only search across all refs if the search wasn't limited to specific refs
+				if (refs.length === 0) {
+					searchArgs.add('--all');
+				}
 			}
 
-			const args = [...searchArgs.values(), '--'];
+			const args = [...searchArgs.values(), ...refs, '--'];
 			if (files.length !== 0) {
 				args.push(...files);
 			}
@@ -2319,10 +2928,50 @@ export class GitService implements Disposable {
 		}
 	}
 
+	/**
+	 * Returns the patch of each commit which changed the range of the file, limited to just that range
+	 */
+	@log()
+	async getLogForFileRangePatches(
+		repoPath: string,
+		fileName: string,
+		options: { limit?: number; range: Range; ref?: string },
+	): Promise<Map<string, string>> {
+		const patches = new Map<string, string>();
+
+		let data;
+		try {
+			data = await Git.log__file_patches(repoPath, fileName, options.ref, {
+				limit: options.limit,
+				// ranges are 0-based
+				startLine: options.range.start.line + 1,
+				endLine: options.range.end.line + 1,
+			});
+		} catch {
+			return patches;
+		}
+
+		for (const entry of data.split('\0')) {
+			const index = entry.indexOf('\n');
+			if (index === -1) continue;
+
+			patches.set(entry.substr(0, index), entry.substr(index + 1).trim());
+		}
+
+		return patches;
+	}
+
 	private getLogForFileMoreFn(
 		log: GitLog,
 		fileName: string,
-		options: { all?: boolean; limit?: number; range?: Range; ref?: string; renames?: boolean; reverse?: boolean },
+		options: {
+			all?: boolean;
+			limit?: number;
+			range?: Range;
+			ref?: string;
+			renames?: boolean;
+			reverse?: boolean;
+		},
 	): (limit: number | { until: string } | undefined) => Promise<GitLog> {
 		return async (limit: number | { until: string } | undefined) => {
 			const moreUntil = limit != null && typeof limit === 'object' ? limit.until : undefined;
@@ -2403,6 +3052,53 @@ export class GitService implements Disposable {
 		}
 	}
 
+	@gate()
+	@log()
+	async getBisectStatus(repoPath: string): Promise<GitBisectStatus | undefined> {
+		let status = this.useCaching ? this._bisectStatusCache.get(repoPath) : undefined;
+		if (status === undefined) {
+			const start = await Git.readDotGitFile(repoPath, ['BISECT_START']);
+			if (start != null) {
+				const [data, head] = await Promise.all([
+					Git.readDotGitFile(repoPath, ['BISECT_LOG']),
+					Git.rev_parse__verify(repoPath, 'HEAD'),
+				]);
+
+				const log = GitBisectParser.parse(data);
+
+				let vars;
+				if (log.bad != null && log.good.length !== 0 && log.firstBad == null) {
+					vars = await Git.rev_list__bisect_vars(repoPath, log.bad, log.good);
+				}
+
+				status = {
+					type: 'bisect',
+					repoPath: repoPath,
+					HEAD: GitReference.create(head ?? 'HEAD', repoPath, { refType: 'revision' }),
+					current: GitRevision.isSha(start)
+						? GitReference.create(start, repoPath, { refType: 'revision' })
+						: GitReference.create(start, repoPath, { refType: 'branch', name: start, remote: false }),
+					bad: log.bad != null ? GitReference.create(log.bad, repoPath, { refType: 'revision' }) : undefined,
+					good: log.good.map(sha => GitReference.create(sha, repoPath, { refType: 'revision' })),
+					skipped: log.skipped.map(sha => GitReference.create(sha, repoPath, { refType: 'revision' })),
+					firstBad:
+						log.firstBad != null
+							? GitReference.create(log.firstBad, repoPath, { refType: 'revision' })
+							: undefined,
+					remaining: vars?.remaining,
+					steps: vars?.steps,
+				};
+			}
+
+			const repo = await this.getRepository(repoPath);
+			if (repo?.supportsChangeEvents) {
+				this._bisectStatusCache.set(repoPath, status ?? null);
+			}
+		}
+
+		return status ?? undefined;
+	}
+
 	@gate()
 	@log()
 	async getMergeStatus(repoPath: string): Promise<GitMergeStatus | undefined> {
@@ -2966,6 +3662,19 @@ export class GitService implements Disposable {
 		}
 	}
 
+	@gate()
+	@debug<GitService['getPullRequestDetails']>({
+		args: {
+			0: (pr: PullRequest) => pr.id,
+			1: (remote: GitRemote) => remote.name,
+		},
+	})
+	async getPullRequestDetails(pr: PullRequest, remote: GitRemote): Promise<PullRequestDetails | undefined> {
+		if (!remote.provider?.hasApi()) return undefined;
+
+		return remote.provider.getPullRequestDetails(pr.id);
+	}
+
 	@log()
 	async getIncomingActivity(
 		repoPath: string,
@@ -3022,6 +3731,168 @@ export class GitService implements Disposable {
 		};
 	}
 
+	@log()
+	async getReflog(
+		repoPath: string,
+		{ commands, limit, ...options }: { commands?: string[]; limit?: number; skip?: number } = {},
+	): Promise<GitReflog | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		limit = limit ?? Container.config.advanced.maxListItems ?? 0;
+		try {
+			// Ask for one more entry than we need (to know the sha prior to the last entry)
+			const totalLimit = limit === 0 ? 0 : limit + 1;
+			const data = await Git.reflog(repoPath, { ...options, limit: totalLimit });
+			if (data == null) return undefined;
+
+			let reflog = GitReflogParser.parseRecords(data, repoPath, commands, limit, totalLimit);
+
+			// If we are filtering, keep paging through the reflog until we have enough matching records
+			while (reflog?.hasMore && reflog.count < limit) {
+				const skip = (options.skip ?? 0) + reflog.total;
+				const pageLimit = Math.max(limit - reflog.count, 100) + 1;
+
+				const pageData = await Git.reflog(repoPath, { ...options, limit: pageLimit, skip: skip });
+				const page = GitReflogParser.parseRecords(
+					pageData,
+					repoPath,
+					commands,
+					limit - reflog.count,
+					pageLimit,
+				);
+				if (page == null) {
+					reflog = { ...reflog, hasMore: false };
+					break;
+				}
+
+				reflog = {
+					...page,
+					records: [...reflog.records, ...page.records],
+					count: reflog.count + page.count,
+					total: reflog.total + page.total,
+					limit: limit,
+				};
+			}
+
+			if (reflog?.hasMore) {
+				reflog.more = this.getReflogRecordsMoreFn(reflog, { ...options, commands: commands });
+			}
+
+			return reflog;
+		} catch (ex) {
+			Logger.error(ex, cc);
+			return undefined;
+		}
+	}
+
+	private getReflogRecordsMoreFn(
+		reflog: GitReflog,
+		options: { commands?: string[]; limit?: number; skip?: number },
+	): (limit: number) => Promise<GitReflog> {
+		return async (limit: number | undefined) => {
+			limit = limit ?? Container.config.advanced.maxSearchItems ?? 0;
+
+			const moreLog = await this.getReflog(reflog.repoPath, {
+				...options,
+				limit: limit,
+				skip: reflog.total,
+			});
+			if (moreLog == null) {
+				// If we can't find any more, assume we have everything
+				return { ...reflog, hasMore: false };
+			}
+
+			const mergedLog: GitReflog = {
+				repoPath: reflog.repoPath,
+				records: [...reflog.records, ...moreLog.records],
+				count: reflog.count + moreLog.count,
+				total: reflog.total + moreLog.total,
+				limit: (reflog.limit ?? 0) + limit,
+				hasMore: moreLog.hasMore,
+			};
+			mergedLog.more = this.getReflogRecordsMoreFn(mergedLog, options);
+
+			return mergedLog;
+		};
+	}
+
+	@log()
+	async getDeletedBranches(repoPath: string): Promise<GitDeletedBranch[]> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			const [reflog, branches] = await Promise.all([
+				this.getReflog(repoPath, { commands: ['checkout'], limit: 0 }),
+				this.getBranches(repoPath),
+			]);
+			if (reflog == null) return [];
+
+			const existing = new Set(branches.map(b => b.name));
+			const deleted = new Map<string, GitDeletedBranch>();
+
+			let match;
+			for (const record of reflog.records) {
+				if (record.previousSha == null || record.details == null) continue;
+
+				match = checkoutReflogDetailsRegex.exec(record.details);
+				if (match == null) continue;
+
+				const [, name] = match;
+				// The records are newest first, so the first time we see a branch we have its last known tip
+				if (
+					deleted.has(name) ||
+					existing.has(name) ||
+					GitRevision.isSha(name) ||
+					!validBranchNameRegex.test(name)
+				) {
+					continue;
+				}
+
+				deleted.set(name, { repoPath: repoPath, name: name, sha: record.previousSha, date: record.date });
+			}
+
+			return [...deleted.values()];
+		} catch (ex) {
+			Logger.error(ex, cc);
+			return [];
+		}
+	}
+
+	@log()
+	async getDroppedStashes(repoPath: string): Promise<GitStash | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			const [data, stash] = await Promise.all([Git.fsck__unreachable(repoPath), this.getStash(repoPath)]);
+
+			const shas = [];
+			let match;
+			do {
+				match = unreachableCommitRegex.exec(data);
+				if (match == null) break;
+
+				// Since the reflogs are ignored, the stashes (other than the latest) are "unreachable" too, so skip them
+				if (stash?.commits.has(match[1])) continue;
+
+				// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+				shas.push(` ${match[1]}`.substr(1));
+			} while (true);
+
+			// Ensure the regex state is reset
+			unreachableCommitRegex.lastIndex = 0;
+
+			if (shas.length === 0) return undefined;
+
+			const stashData = await Git.log__dangling_stashes(repoPath, shas, {
+				similarityThreshold: Container.config.advanced.similarityThreshold,
+			});
+			return GitStashParser.parse(stashData, repoPath);
+		} catch (ex) {
+			Logger.error(ex, cc);
+			return undefined;
+		}
+	}
+
 	async getRichRemoteProvider(
 		repoPath: string | undefined,
 		options?: { includeDisconnected?: boolean },
@@ -3425,6 +4296,24 @@ export class GitService implements Disposable {
 		return stash ?? undefined;
 	}
 
+	/**
+	 * Returns the files changed by the stash which also have uncommitted changes (which Git won't apply the stash over)
+	 */
+	@log()
+	async getStashOverlappingFiles(repoPath: string, ref: string): Promise<string[]> {
+		const [stash, status] = await Promise.all([this.getStash(repoPath), this.getStatusForRepo(repoPath)]);
+		if (status == null || status.files.length === 0) return [];
+
+		const commit = stash?.commits.get(ref);
+		if (commit == null) return [];
+
+		// Ensure we have checked for untracked files, since those can overlap too
+		await commit.checkForUntrackedFiles();
+
+		const changed = new Set(status.files.map(f => f.fileName));
+		return commit.files.filter(f => changed.has(f.fileName)).map(f => f.fileName);
+	}
+
 	@log()
 	async getStatusForFile(repoPath: string, fileName: string): Promise<GitStatusFile | undefined> {
 		const porcelainVersion = Git.validateVersion(2, 11) ? 2 : 1;
@@ -3466,6 +4355,50 @@ export class GitService implements Disposable {
 		return status;
 	}
 
+	@log()
+	async getSubmoduleChange(
+		repoPath: string,
+		path: string,
+		ref: string,
+	): Promise<{ previousSha: string | undefined; sha: string | undefined } | undefined> {
+		const [tree, previousTree] = await Promise.all([
+			this.getTreeFileForRevision(repoPath, path, ref),
+			this.getTreeFileForRevision(repoPath, path, `${ref}^`),
+		]);
+		if (tree?.type !== 'commit' && previousTree?.type !== 'commit') return undefined;
+
+		return {
+			previousSha: previousTree?.type === 'commit' ? previousTree.commitSha : undefined,
+			sha: tree?.type === 'commit' ? tree.commitSha : undefined,
+		};
+	}
+
+	@log()
+	async getSubmodules(repoPath: string | undefined): Promise<GitSubmodule[]> {
+		if (repoPath == null) return [];
+
+		let submodules = this.useCaching ? this._submodulesCache.get(repoPath) : undefined;
+		if (submodules == null) {
+			const config = await Git.submodule__config(repoPath);
+			if (config == null) {
+				submodules = [];
+			} else {
+				const [status, cachedStatus] = await Promise.all([
+					Git.submodule__status(repoPath),
+					Git.submodule__status(repoPath, { cached: true }),
+				]);
+				submodules = GitSubmoduleParser.parse(config, status, cachedStatus, repoPath);
+			}
+
+			const repo = await this.getRepository(repoPath);
+			if (repo?.supportsChangeEvents) {
+				this._submodulesCache.set(repoPath, submodules);
+			}
+		}
+
+		return submodules;
+	}
+
 	@log({
 		args: {
 			1: () => false,
@@ -3592,6 +4525,35 @@ export class GitService implements Disposable {
 		return (await fsExists(uri.fsPath)) ? uri : undefined;
 	}
 
+	@log({
+		args: {
+			1: () => false,
+		},
+	})
+	async getWorktrees(
+		repoPath: string | undefined,
+		options: { filter?: (w: GitWorktree) => boolean } = {},
+	): Promise<GitWorktree[]> {
+		if (repoPath == null || !Git.validateVersion(2, 7)) return [];
+
+		let worktrees = this.useCaching ? this._worktreesCache.get(repoPath) : undefined;
+		if (worktrees == null) {
+			const data = await Git.worktree__list(repoPath);
+			worktrees = GitWorktreeParser.parse(data, repoPath);
+
+			const repo = await this.getRepository(repoPath);
+			if (repo?.supportsChangeEvents) {
+				this._worktreesCache.set(repoPath, worktrees);
+			}
+		}
+
+		if (options.filter != null) {
+			worktrees = worktrees.filter(options.filter);
+		}
+
+		return worktrees;
+	}
+
 	@log()
 	async hasBranchesAndOrTags(
 		repoPath: string | undefined,
@@ -3884,6 +4846,11 @@ export class GitService implements Disposable {
 		return Git.stash__apply(repoPath, stashName, Boolean(deleteAfter));
 	}
 
+	@log()
+	stashBranch(repoPath: string, branch: string, stashName: string) {
+		return Git.stash__branch(repoPath, branch, stashName);
+	}
+
 	@log()
 	stashDelete(repoPath: string, stashName: string, ref?: string) {
 		return Git.stash__delete(repoPath, stashName, ref);
@@ -3924,6 +4891,103 @@ export class GitService implements Disposable {
 		});
 	}
 
+	@log()
+	async stashSaveStaged(repoPath: string, message?: string, uris?: Uri[]) {
+		const pathspecs = uris?.map(u => `./${Git.splitPath(u.fsPath, repoPath)[0]}`);
+
+		if (Git.validateVersion(2, 35)) {
+			return Git.stash__push(repoPath, message, { pathspecs: pathspecs, staged: true });
+		}
+
+		// Older versions of Git don't support `stash push --staged`, so build the stash from a patch of the staged changes
+		const patch = await Git.diff__patch(repoPath, { pathspecs: pathspecs, staged: true });
+		if (!patch) throw new Error('There are no staged changes to stash');
+
+		return this.stashPatch(repoPath, patch, message, true);
+	}
+
+	@log<GitService['stashSaveHunks']>({ args: { 1: hunks => `${hunks.length} hunks` } })
+	stashSaveHunks(repoPath: string, hunks: GitPatchHunk[], message?: string) {
+		return this.stashPatch(repoPath, GitPatchHunk.toPatch(hunks), message, false);
+	}
+
+	@log()
+	async getUnstagedHunks(repoPath: string, uris?: Uri[]): Promise<GitPatchHunk[]> {
+		const pathspecs = uris?.map(u => `./${Git.splitPath(u.fsPath, repoPath)[0]}`);
+
+		try {
+			const data = await Git.diff__patch(repoPath, { pathspecs: pathspecs });
+			return GitDiffParser.parsePatchHunks(data);
+		} catch (ex) {
+			return [];
+		}
+	}
+
+	private async stashPatch(repoPath: string, patch: string, message: string | undefined, staged: boolean) {
+		// Ensure the changes can be removed before stashing them, so nothing is stashed if they can't be
+		// Staged changes are only removed from the index (leaving the working tree as is), since `--index` would reject
+		// any file which also has unstaged changes
+		await Git.apply(repoPath, patch, { cached: staged, check: true, reverse: true });
+
+		const head = await Git.rev_parse__verify(repoPath, 'HEAD');
+		if (head == null) throw new Error('Unable to stash changes without an initial commit');
+
+		const branch = await this.getBranch(repoPath);
+		const branchName = branch == null || branch.detached ? '(no branch)' : branch.name;
+		message = message ? `On ${branchName}: ${message}` : `WIP on ${branchName}: ${GitRevision.shorten(head)}`;
+
+		// Staged changes are diffed against HEAD, but unstaged changes against the index, so start from the matching tree
+		const indexTree = staged ? `${head}^{tree}` : (await Git.write_tree(repoPath)).trim();
+
+		// Build the stashed tree by applying the patch in a temporary index, leaving the real index untouched
+		const indexFile = paths.join(os.tmpdir(), `gitlens-stash-${Strings.sha1(`${repoPath}|${Date.now()}`)}.index`);
+		let tree;
+		try {
+			const env = { GIT_INDEX_FILE: indexFile };
+			await Git.read_tree(repoPath, indexTree, { env: env });
+			await Git.apply(repoPath, patch, { cached: true, env: env });
+			tree = (await Git.write_tree(repoPath, { env: env })).trim();
+		} finally {
+			try {
+				await workspace.fs.delete(Uri.file(indexFile));
+			} catch {}
+		}
+
+		// Mirror the shape of a stash created by `git stash`, with HEAD and the index as parents
+		const indexCommit = (
+			await Git.commit_tree(
+				repoPath,
+				staged ? tree : indexTree,
+				[head],
+				`index on ${branchName}: ${GitRevision.shorten(head)}`,
+			)
+		).trim();
+		const stashCommit = (await Git.commit_tree(repoPath, tree, [head, indexCommit], message)).trim();
+		await Git.stash__store(repoPath, stashCommit, message);
+
+		try {
+			await Git.apply(repoPath, patch, { cached: staged, reverse: true });
+		} catch (ex) {
+			// The changes are still in place, so drop the new stash rather than leave them in both places
+			try {
+				await Git.stash__delete(repoPath, 'stash@{0}', stashCommit);
+			} catch {
+				throw new Error(
+					`Unable to remove the stashed changes (${
+						ex?.message ?? ex
+					}); they were stashed as ${GitRevision.shorten(stashCommit)} but were also left in place`,
+				);
+			}
+
+			throw ex;
+		}
+	}
+
+	@log()
+	stashStore(repoPath: string, sha: string, message: string) {
+		return Git.stash__store(repoPath, sha, message);
+	}
+
 	static compareGitVersion(version: string) {
 		return Versions.compare(Versions.fromString(Git.getGitVersion()), Versions.fromString(version));
 	}
@@ -3970,3 +5034,16 @@ export class GitService implements Disposable {
 		return Git.getEncoding(configuration.getAny<string>('files.encoding', uri));
 	}
 }
+
+function getBlameArgs(detectMoves: boolean | undefined) {
+	const args = Container.config.advanced.blame.customArguments;
+	if (!detectMoves) return args;
+
+	// Follow lines which were moved or copied within the file, or from other files in the same commit
+	return [...(args ?? []), ...['-M', '-C'].filter(a => !args?.includes(a))];
+}
+
+function getIgnoreRevsFile(ignoreRevs: GitBlameIgnoreRevs | undefined) {
+	// Only pass a detected file, since git will already use one which is configured
+	return ignoreRevs?.detected ? paths.join(ignoreRevs.repoPath, ignoreRevs.path) : undefined;
+}
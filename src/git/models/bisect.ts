@@ -0,0 +1,17 @@
+'use strict';
+import { GitBranchReference, GitRevisionReference } from './models';
+
+export interface GitBisectStatus {
+	type: 'bisect';
+	repoPath: string;
+	HEAD: GitRevisionReference;
+	current: GitBranchReference | GitRevisionReference;
+
+	bad: GitRevisionReference | undefined;
+	good: GitRevisionReference[];
+	skipped: GitRevisionReference[];
+	firstBad: GitRevisionReference | undefined;
+
+	remaining: number | undefined;
+	steps: number | undefined;
+}
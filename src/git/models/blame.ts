@@ -9,6 +9,33 @@ export interface GitBlame {
 	readonly lines: GitCommitLine[];
 }
 
+export interface GitBlameIgnoreRevs {
+	readonly repoPath: string;
+	/** Path (relative to the repository) of the file listing the revisions to ignore when blaming */
+	readonly path: string;
+	/** Specifies whether the file was auto-detected, i.e. it isn't already passed to `git blame` via config or arguments */
+	readonly detected: boolean;
+	readonly shas: Set<string>;
+}
+
+export namespace GitBlameIgnoreRevs {
+	export const defaultFileName = '.git-blame-ignore-revs';
+
+	const shaRegex = /^[0-9a-f]{40}(?:[0-9a-f]{24})?$/i;
+
+	export function parse(data: string): Set<string> {
+		const shas = new Set<string>();
+		for (let line of data.split(/\r?\n/)) {
+			line = line.split('#')[0].trim();
+			if (shaRegex.test(line)) {
+				shas.add(line.toLowerCase());
+			}
+		}
+
+		return shas;
+	}
+}
+
 export interface GitBlameLine {
 	readonly author?: GitAuthor;
 	readonly commit: GitBlameCommit;
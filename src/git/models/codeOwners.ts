@@ -0,0 +1,51 @@
+'use strict';
+
+export interface GitCodeOwnersRule {
+	readonly pattern: string;
+	readonly regex: RegExp;
+	readonly owners: string[];
+	readonly section: string | undefined;
+}
+
+export class GitCodeOwners {
+	// Ordered by precedence, matching the lookup order of GitHub & GitLab
+	static readonly locations = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'];
+
+	constructor(
+		public readonly repoPath: string,
+		public readonly path: string,
+		public readonly rules: GitCodeOwnersRule[],
+	) {}
+
+	getOwners(relativePath: string): string[] {
+		relativePath = relativePath.replace(/\\/g, '/');
+
+		// The last matching rule wins, but GitLab sections are evaluated independently and their owners combined
+		const matches = new Map<string | undefined, GitCodeOwnersRule>();
+		for (const rule of this.rules) {
+			if (rule.regex.test(relativePath)) {
+				matches.set(rule.section, rule);
+			}
+		}
+
+		const owners = new Set<string>();
+		for (const rule of matches.values()) {
+			for (const owner of rule.owners) {
+				owners.add(owner);
+			}
+		}
+
+		return [...owners];
+	}
+
+	getOwnersForFiles(relativePaths: string[]): string[] {
+		const owners = new Set<string>();
+		for (const path of relativePaths) {
+			for (const owner of this.getOwners(path)) {
+				owners.add(owner);
+			}
+		}
+
+		return [...owners];
+	}
+}
@@ -6,7 +6,7 @@ import { Dates, memoize } from '../../system';
 import { CommitFormatter } from '../formatters/formatters';
 import { GitUri } from '../gitUri';
 import { getAvatarUri } from '../../avatars';
-import { GitReference, GitRevision, GitRevisionReference, PullRequest } from './models';
+import { GitCommitSignature, GitNote, GitReference, GitRevision, GitRevisionReference, PullRequest } from './models';
 
 export interface GitAuthor {
 	name: string;
@@ -154,6 +154,12 @@ export abstract class GitCommit implements GitRevisionReference {
 		return Container.git.getPullRequestForCommit(this.ref, remote);
 	}
 
+	getNotes(): Promise<GitNote[]> {
+		if (this.isUncommitted || this.isStash) return Promise.resolve([]);
+
+		return Container.git.getNotes(this.repoPath, this.sha);
+	}
+
 	@memoize<GitCommit['getPreviousLineDiffUris']>(
 		(uri, editorLine, ref) => `${uri.toString(true)}|${editorLine ?? ''}|${ref ?? ''}`,
 	)
@@ -163,6 +169,13 @@ export abstract class GitCommit implements GitRevisionReference {
 		return Container.git.getPreviousLineDiffUris(this.repoPath, uri, editorLine, ref);
 	}
 
+	@memoize()
+	getSignature(): Promise<GitCommitSignature | undefined> {
+		if (this.isUncommitted || this.isStash) return Promise.resolve(undefined);
+
+		return Container.git.getCommitSignature(this.repoPath, this.sha);
+	}
+
 	@memoize()
 	getWorkingUri(): Promise<Uri | undefined> {
 		if (!this.isFile) return Promise.resolve(undefined);
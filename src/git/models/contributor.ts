@@ -1,15 +1,70 @@
 'use strict';
 import { Uri } from 'vscode';
-import { GravatarDefaultStyle } from '../../configuration';
+import { ContributorSorting, GravatarDefaultStyle } from '../../configuration';
 import { getAvatarUri } from '../../avatars';
 
+export interface GitContributorFileStats {
+	readonly path: string;
+	commits: number;
+	additions: number;
+	deletions: number;
+}
+
+export interface GitContributorStats {
+	readonly additions: number;
+	readonly deletions: number;
+	readonly firstCommitDate: Date;
+	readonly lastCommitDate: Date;
+	/** The files most touched by the contributor, ordered by the number of commits */
+	readonly files: GitContributorFileStats[];
+}
+
 export class GitContributor {
 	static is(contributor: any): contributor is GitContributor {
 		return contributor instanceof GitContributor;
 	}
 
-	static sort(contributors: GitContributor[]) {
-		return contributors.sort((a, b) => (a.current ? -1 : 1) - (b.current ? -1 : 1) || b.count - a.count);
+	static sort(contributors: GitContributor[], options?: { orderBy?: ContributorSorting }) {
+		switch (options?.orderBy) {
+			case ContributorSorting.CountAsc:
+				return contributors.sort((a, b) => (a.current ? -1 : 1) - (b.current ? -1 : 1) || a.count - b.count);
+			case ContributorSorting.ChangesDesc:
+				return contributors.sort(
+					(a, b) => (a.current ? -1 : 1) - (b.current ? -1 : 1) || b.changes - a.changes || b.count - a.count,
+				);
+			case ContributorSorting.ChangesAsc:
+				return contributors.sort(
+					(a, b) => (a.current ? -1 : 1) - (b.current ? -1 : 1) || a.changes - b.changes || a.count - b.count,
+				);
+			case ContributorSorting.DateDesc:
+				return contributors.sort(
+					(a, b) =>
+						(a.current ? -1 : 1) - (b.current ? -1 : 1) ||
+						(b.stats?.lastCommitDate.getTime() ?? -1) - (a.stats?.lastCommitDate.getTime() ?? -1) ||
+						b.count - a.count,
+				);
+			case ContributorSorting.DateAsc:
+				return contributors.sort(
+					(a, b) =>
+						(a.current ? -1 : 1) - (b.current ? -1 : 1) ||
+						(a.stats?.lastCommitDate.getTime() ?? -1) - (b.stats?.lastCommitDate.getTime() ?? -1) ||
+						a.count - b.count,
+				);
+			case ContributorSorting.NameAsc:
+				return contributors.sort(
+					(a, b) =>
+						(a.current ? -1 : 1) - (b.current ? -1 : 1) ||
+						a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }),
+				);
+			case ContributorSorting.NameDesc:
+				return contributors.sort(
+					(a, b) =>
+						(a.current ? -1 : 1) - (b.current ? -1 : 1) ||
+						b.name.localeCompare(a.name, undefined, { numeric: true, sensitivity: 'base' }),
+				);
+			default:
+				return contributors.sort((a, b) => (a.current ? -1 : 1) - (b.current ? -1 : 1) || b.count - a.count);
+		}
 	}
 
 	constructor(
@@ -18,8 +73,13 @@ export class GitContributor {
 		public readonly email: string,
 		public readonly count: number,
 		public readonly current: boolean = false,
+		public readonly stats?: GitContributorStats,
 	) {}
 
+	get changes(): number {
+		return this.stats != null ? this.stats.additions + this.stats.deletions : 0;
+	}
+
 	getAvatarUri(options?: { defaultStyle?: GravatarDefaultStyle; size?: number }): Uri | Promise<Uri> {
 		return getAvatarUri(this.email, undefined /*this.repoPath*/, options);
 	}
@@ -48,6 +48,35 @@ export interface GitDiff {
 	readonly diff?: string;
 }
 
+export interface GitPatchHunk {
+	readonly fileName: string;
+	readonly header: string;
+	readonly hunk: string;
+	readonly additions: number;
+	readonly deletions: number;
+}
+
+export namespace GitPatchHunk {
+	export function toPatch(hunks: GitPatchHunk[]): string {
+		// Group the hunks by file, so each file header is only included once
+		const files = new Map<string, string[]>();
+		for (const h of hunks) {
+			let fileHunks = files.get(h.header);
+			if (fileHunks == null) {
+				fileHunks = [];
+				files.set(h.header, fileHunks);
+			}
+			fileHunks.push(h.hunk);
+		}
+
+		let patch = '';
+		for (const [header, fileHunks] of files) {
+			patch += `${header}${fileHunks.join('')}`;
+		}
+		return patch;
+	}
+}
+
 export interface GitDiffShortStat {
 	readonly files: number;
 	readonly insertions: number;
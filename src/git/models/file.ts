@@ -40,6 +40,13 @@ export interface GitFile {
 	readonly workingTreeStatus?: GitFileWorkingTreeStatus;
 	readonly fileName: string;
 	readonly originalFileName?: string;
+	readonly submodule?: GitFileSubmoduleState;
+}
+
+export interface GitFileSubmoduleState {
+	readonly commitChanged: boolean;
+	readonly modified: boolean;
+	readonly untracked: boolean;
 }
 
 export interface GitFileWithCommit extends GitFile {
@@ -151,4 +158,19 @@ export namespace GitFile {
 	export function getStatusText(status: GitFileStatus): string {
 		return statusTextMap[status] ?? 'Unknown';
 	}
+
+	export function getSubmoduleStatusText(state: GitFileSubmoduleState): string {
+		const changes = [];
+		if (state.commitChanged) {
+			changes.push('new commits');
+		}
+		if (state.modified) {
+			changes.push('modified content');
+		}
+		if (state.untracked) {
+			changes.push('untracked content');
+		}
+
+		return changes.length === 0 ? 'Submodule' : `Submodule (${changes.join(', ')})`;
+	}
 }
@@ -339,9 +339,11 @@ export namespace GitReference {
 }
 
 export * from './author';
+export * from './bisect';
 export * from './blame';
 export * from './blameCommit';
 export * from './branch';
+export * from './codeOwners';
 export * from './commit';
 export * from './contributor';
 export * from './diff';
@@ -350,14 +352,18 @@ export * from './issue';
 export * from './log';
 export * from './logCommit';
 export * from './merge';
+export * from './note';
 export * from './pullRequest';
 export * from './rebase';
 export * from './reflog';
 export * from './remote';
 export * from './repository';
 export * from './shortlog';
+export * from './signature';
 export * from './stash';
 export * from './stashCommit';
 export * from './status';
+export * from './submodule';
 export * from './tag';
 export * from './tree';
+export * from './worktree';
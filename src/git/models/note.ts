@@ -0,0 +1,19 @@
+'use strict';
+
+export interface GitNote {
+	readonly notesRef: string;
+	readonly sha: string;
+	readonly message: string;
+}
+
+export namespace GitNote {
+	export const defaultRef = 'refs/notes/commits';
+
+	export function getName(notesRef: string) {
+		return notesRef.startsWith('refs/notes/') ? notesRef.substr(11) : notesRef;
+	}
+
+	export function isDefaultRef(notesRef: string) {
+		return notesRef === defaultRef || notesRef === getName(defaultRef);
+	}
+}
@@ -18,6 +18,41 @@ export enum PullRequestState {
 	Merged = 'Merged',
 }
 
+export enum PullRequestReviewState {
+	Approved = 'Approved',
+	ChangesRequested = 'ChangesRequested',
+	ReviewRequired = 'ReviewRequired',
+}
+
+export enum PullRequestChecksState {
+	Success = 'Success',
+	Failure = 'Failure',
+	Pending = 'Pending',
+}
+
+export interface PullRequestRef {
+	readonly branch: string;
+	readonly sha: string;
+}
+
+export interface PullRequestDetails {
+	readonly base: PullRequestRef;
+	readonly head: PullRequestRef;
+	readonly reviewState: PullRequestReviewState | undefined;
+	readonly checks:
+		| {
+				readonly state: PullRequestChecksState;
+				readonly passed: number;
+				readonly failed: number;
+				readonly pending: number;
+		  }
+		| undefined;
+	readonly reviewThreads: {
+		readonly total: number;
+		readonly unresolved: number;
+	};
+}
+
 export class PullRequest {
 	static is(pr: any): pr is PullRequest {
 		return pr instanceof PullRequest;
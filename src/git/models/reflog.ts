@@ -14,6 +14,13 @@ export interface GitReflog {
 	more?(limit: number | undefined): Promise<GitReflog | undefined>;
 }
 
+export interface GitDeletedBranch {
+	readonly repoPath: string;
+	readonly name: string;
+	readonly sha: string;
+	readonly date: Date;
+}
+
 export class GitReflogRecord {
 	private _previousSha: string | undefined;
 
@@ -16,7 +16,19 @@ import {
 import { BranchSorting, configuration, TagSorting } from '../../configuration';
 import { Starred, WorkspaceState } from '../../constants';
 import { Container } from '../../container';
-import { GitBranch, GitContributor, GitDiffShortStat, GitRemote, GitStash, GitStatus, GitTag } from '../git';
+import {
+	GitBlameIgnoreRevs,
+	GitBranch,
+	GitContributor,
+	GitDiffShortStat,
+	GitPatchHunk,
+	GitRemote,
+	GitStash,
+	GitStatus,
+	GitSubmodule,
+	GitTag,
+	GitWorktree,
+} from '../git';
 import { GitService } from '../gitService';
 import { GitUri } from '../gitUri';
 import { Logger } from '../../logger';
@@ -28,8 +40,12 @@ import { runGitCommandInTerminal } from '../../terminal';
 
 const ignoreGitRegex = /\.git(?:\/|\\|$)/;
 const refsRegex = /\.git\/refs\/(heads|remotes|tags)/;
+const submodulesRegex = /(?:\.git\/modules\/.+\/HEAD|\/\.gitmodules)$/;
+const worktreesRegex = /\.git\/worktrees\/[^/]+(?:\/HEAD|\/locked)?$/;
 
 export enum RepositoryChange {
+	BlameIgnoreRevs = 'blame-ignore-revs',
+	CodeOwners = 'code-owners',
 	Config = 'config',
 	Closed = 'closed',
 	// FileSystem = 'file-system',
@@ -39,7 +55,9 @@ export enum RepositoryChange {
 	Ignores = 'ignores',
 	Remotes = 'remotes',
 	Stash = 'stash',
+	Submodules = 'submodules',
 	Tags = 'tags',
+	Worktrees = 'worktrees',
 	Unknown = 'unknown',
 }
 
@@ -186,21 +204,39 @@ export class Repository implements Disposable {
 				folder,
 				'{\
 **/.git/config,\
+**/.git/BISECT_LOG,\
 **/.git/index,\
 **/.git/HEAD,\
+**/.git/modules/**/HEAD,\
 **/.git/refs/stash,\
 **/.git/refs/heads/**,\
 **/.git/refs/remotes/**,\
 **/.git/refs/tags/**,\
-**/.gitignore\
+**/.git/worktrees/*,\
+**/.git/worktrees/*/HEAD,\
+**/.git/worktrees/*/locked,\
+**/.gitignore,\
+**/.gitmodules\
 }',
 			),
 		);
+
+		// Watch the files which only matter at the root of the repository separately, so nested copies are ignored
+		const rootWatcher = workspace.createFileSystemWatcher(
+			new RelativePattern(
+				path,
+				'{.git-blame-ignore-revs,CODEOWNERS,.github/CODEOWNERS,.gitlab/CODEOWNERS,docs/CODEOWNERS}',
+			),
+		);
 		this._disposable = Disposable.from(
 			watcher,
 			watcher.onDidChange(this.onRepositoryChanged, this),
 			watcher.onDidCreate(this.onRepositoryChanged, this),
 			watcher.onDidDelete(this.onRepositoryChanged, this),
+			rootWatcher,
+			rootWatcher.onDidChange(this.onRepositoryChanged, this),
+			rootWatcher.onDidCreate(this.onRepositoryChanged, this),
+			rootWatcher.onDidDelete(this.onRepositoryChanged, this),
 			configuration.onDidChange(this.onConfigurationChanged, this),
 		);
 		this.onConfigurationChanged(configuration.initializingChangeEvent);
@@ -227,6 +263,7 @@ export class Repository implements Disposable {
 		// }
 
 		this._remotesDisposable?.dispose();
+		this._blameIgnoreRevsWatcher?.disposable.dispose();
 		this._disposable?.dispose();
 	}
 
@@ -290,12 +327,36 @@ export class Repository implements Disposable {
 			return;
 		}
 
+		if (uri.path.endsWith('/.git-blame-ignore-revs')) {
+			this.fireChange(RepositoryChange.BlameIgnoreRevs);
+
+			return;
+		}
+
+		if (uri.path.endsWith('/CODEOWNERS')) {
+			this.fireChange(RepositoryChange.CodeOwners);
+
+			return;
+		}
+
 		if (uri.path.endsWith('/.gitignore')) {
 			this.fireChange(RepositoryChange.Ignores);
 
 			return;
 		}
 
+		if (submodulesRegex.test(uri.path)) {
+			this.fireChange(RepositoryChange.Submodules);
+
+			return;
+		}
+
+		if (worktreesRegex.test(uri.path)) {
+			this.fireChange(RepositoryChange.Worktrees);
+
+			return;
+		}
+
 		const match = refsRegex.exec(uri.path);
 		if (match != null) {
 			switch (match[1]) {
@@ -338,6 +399,36 @@ export class Repository implements Disposable {
 		this.runTerminalCommand('branch', ...args);
 	}
 
+	@gate(() => '')
+	@log()
+	async bisectMark(term: 'bad' | 'good' | 'skip', ref?: string) {
+		const data = await Container.git.bisectMark(this.path, term, ref);
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Unknown);
+		}
+		return data;
+	}
+
+	@gate(() => '')
+	@log()
+	async bisectReset() {
+		const data = await Container.git.bisectReset(this.path);
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Unknown);
+		}
+		return data;
+	}
+
+	@gate(() => '')
+	@log()
+	async bisectStart(bad: string, good: string[]) {
+		const data = await Container.git.bisectStart(this.path, bad, good);
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Unknown);
+		}
+		return data;
+	}
+
 	@gate()
 	@log()
 	branchDelete(
@@ -479,8 +570,8 @@ export class Repository implements Disposable {
 		return Container.git.getChangedFilesCount(this.path, sha);
 	}
 
-	getContributors(): Promise<GitContributor[]> {
-		return Container.git.getContributors(this.path);
+	getContributors(options?: { stats?: boolean; statsLimit?: number }): Promise<GitContributor[]> {
+		return Container.git.getContributors(this.path, options);
 	}
 
 	private _lastFetched: number | undefined;
@@ -550,6 +641,10 @@ export class Repository implements Disposable {
 		return Container.git.getStatusForRepo(this.path);
 	}
 
+	getSubmodules(): Promise<GitSubmodule[]> {
+		return Container.git.getSubmodules(this.path);
+	}
+
 	getTags(options?: {
 		filter?: (t: GitTag) => boolean;
 		sort?: boolean | { orderBy?: TagSorting };
@@ -557,6 +652,10 @@ export class Repository implements Disposable {
 		return Container.git.getTags(this.path, options);
 	}
 
+	getWorktrees(options?: { filter?: (w: GitWorktree) => boolean }): Promise<GitWorktree[]> {
+		return Container.git.getWorktrees(this.path, options);
+	}
+
 	async hasRemotes(): Promise<boolean> {
 		const remotes = await this.getRemotes();
 		return remotes?.length > 0;
@@ -736,6 +835,15 @@ export class Repository implements Disposable {
 		}
 	}
 
+	@gate(() => '')
+	@log()
+	async stashBranch(branch: string, stashName: string) {
+		void (await Container.git.stashBranch(this.path, branch, stashName));
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Heads, RepositoryChange.Stash);
+		}
+	}
+
 	@gate(() => '')
 	@log()
 	async stashDelete(stashName: string, ref?: string) {
@@ -754,6 +862,106 @@ export class Repository implements Disposable {
 		}
 	}
 
+	@gate(() => '')
+	@log<Repository['stashSaveHunks']>({ args: { 0: hunks => `${hunks.length} hunks` } })
+	async stashSaveHunks(hunks: GitPatchHunk[], message?: string) {
+		void (await Container.git.stashSaveHunks(this.path, hunks, message));
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Stash);
+		}
+	}
+
+	@gate(() => '')
+	@log()
+	async stashSaveStaged(message?: string, uris?: Uri[]) {
+		void (await Container.git.stashSaveStaged(this.path, message, uris));
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Stash);
+		}
+	}
+
+	@gate(() => '')
+	@log()
+	async stashStore(sha: string, message: string) {
+		void (await Container.git.stashStore(this.path, sha, message));
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Stash);
+		}
+	}
+
+	@gate(() => '')
+	@log()
+	async createWorktree(
+		path: string,
+		options: { commitish?: string; createBranch?: string; detach?: boolean; force?: boolean } = {},
+	) {
+		void (await Container.git.createWorktree(this.path, path, options));
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Worktrees);
+		}
+	}
+
+	@gate(() => '')
+	@log()
+	async deleteWorktree(path: string, options: { force?: boolean } = {}) {
+		void (await Container.git.deleteWorktree(this.path, path, options));
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Worktrees);
+		}
+	}
+
+	@gate()
+	@log()
+	async pruneWorktrees() {
+		void (await Container.git.pruneWorktrees(this.path));
+		if (!this.supportsChangeEvents) {
+			this.fireChange(RepositoryChange.Worktrees);
+		}
+	}
+
+	@gate()
+	@log()
+	async syncSubmodules(paths?: string[], options: { recursive?: boolean } = {}) {
+		try {
+			void (await Container.git.syncSubmodules(this.path, paths, options));
+
+			this.fireChange(RepositoryChange.Submodules);
+		} catch (ex) {
+			Logger.error(ex);
+			void Messages.showGenericErrorMessage('Unable to sync submodules');
+		}
+	}
+
+	@gate()
+	@log()
+	async updateSubmodules(
+		paths?: string[],
+		options: { init?: boolean; progress?: boolean; recursive?: boolean } = {},
+	) {
+		const { progress, ...opts } = { progress: true, ...options };
+		if (!progress) return this.updateSubmodulesCore(paths, opts);
+
+		return void (await window.withProgress(
+			{
+				location: ProgressLocation.Notification,
+				title: `Updating submodules in ${this.formattedName}...`,
+				cancellable: false,
+			},
+			() => this.updateSubmodulesCore(paths, opts),
+		));
+	}
+
+	private async updateSubmodulesCore(paths?: string[], options: { init?: boolean; recursive?: boolean } = {}) {
+		try {
+			void (await Container.git.updateSubmodules(this.path, paths, options));
+
+			this.fireChange(RepositoryChange.Submodules);
+		} catch (ex) {
+			Logger.error(ex);
+			void Messages.showGenericErrorMessage('Unable to update submodules');
+		}
+	}
+
 	@gate()
 	@log()
 	async switch(ref: string, options: { createBranch?: string | undefined; progress?: boolean } = {}) {
@@ -834,6 +1042,39 @@ export class Repository implements Disposable {
 		return { dispose: () => this.stopWatchingFileSystem() };
 	}
 
+	@debug()
+	blameIgnoreRevsChanged() {
+		this.fireChange(RepositoryChange.BlameIgnoreRevs);
+	}
+
+	private _blameIgnoreRevsWatcher: { path: string; disposable: Disposable } | undefined;
+
+	watchBlameIgnoreRevsFile(path: string | undefined) {
+		// The default file is already covered by the repository watcher
+		if (path === GitBlameIgnoreRevs.defaultFileName) {
+			path = undefined;
+		}
+		if (this._blameIgnoreRevsWatcher?.path === path) return;
+
+		this._blameIgnoreRevsWatcher?.disposable.dispose();
+		this._blameIgnoreRevsWatcher = undefined;
+		if (path == null) return;
+
+		const fileName = paths.resolve(this.path, path);
+		const watcher = workspace.createFileSystemWatcher(
+			new RelativePattern(paths.dirname(fileName), paths.basename(fileName)),
+		);
+		this._blameIgnoreRevsWatcher = {
+			path: path,
+			disposable: Disposable.from(
+				watcher,
+				watcher.onDidChange(this.blameIgnoreRevsChanged, this),
+				watcher.onDidCreate(this.blameIgnoreRevsChanged, this),
+				watcher.onDidDelete(this.blameIgnoreRevsChanged, this),
+			),
+		};
+	}
+
 	stopWatchingFileSystem() {
 		if (this._fsWatcherDisposable == null) return;
 		if (--this._fsWatchCounter > 0) return;
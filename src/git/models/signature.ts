@@ -0,0 +1,69 @@
+'use strict';
+
+export type GitSignatureStatus =
+	| 'good'
+	| 'bad'
+	| 'unknown'
+	| 'expired'
+	| 'expiredKey'
+	| 'revokedKey'
+	| 'missingKey'
+	| 'none';
+
+export interface GitCommitSignature {
+	readonly status: GitSignatureStatus;
+	readonly signer: string | undefined;
+	readonly key: string | undefined;
+}
+
+export namespace GitCommitSignature {
+	// Maps the `%G?` placeholder values to a signature status -- see `git help log` (PRETTY FORMATS)
+	const statusCodeMap: Record<string, GitSignatureStatus> = {
+		G: 'good',
+		B: 'bad',
+		U: 'unknown',
+		X: 'expired',
+		Y: 'expiredKey',
+		R: 'revokedKey',
+		E: 'missingKey',
+		N: 'none',
+	};
+
+	export function getStatus(code: string): GitSignatureStatus {
+		return statusCodeMap[code] ?? 'none';
+	}
+
+	const statusCodiconsMap = {
+		good: '$(verified)',
+		bad: '$(error)',
+		unknown: '$(unverified)',
+		expired: '$(unverified)',
+		expiredKey: '$(unverified)',
+		revokedKey: '$(error)',
+		missingKey: '$(unverified)',
+		none: '',
+	};
+
+	export function getStatusCodicon(status: GitSignatureStatus): string {
+		return statusCodiconsMap[status];
+	}
+
+	const statusTextMap = {
+		good: 'Good signature',
+		bad: 'Bad signature',
+		unknown: 'Good signature with unknown validity',
+		expired: 'Good signature that has expired',
+		expiredKey: 'Good signature made by an expired key',
+		revokedKey: 'Good signature made by a revoked key',
+		missingKey: 'Signature that cannot be checked (missing key)',
+		none: 'Not signed',
+	};
+
+	export function getStatusText(status: GitSignatureStatus): string {
+		return statusTextMap[status];
+	}
+
+	export function toString(signature: GitCommitSignature): string {
+		return `${getStatusText(signature.status)}${signature.signer ? ` from ${signature.signer}` : ''}`;
+	}
+}
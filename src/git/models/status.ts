@@ -3,7 +3,14 @@ import { Uri } from 'vscode';
 import { GitBranch, GitTrackingState } from './branch';
 import { GlyphChars } from '../../constants';
 import { Container } from '../../container';
-import { GitFile, GitFileConflictStatus, GitFileIndexStatus, GitFileStatus, GitFileWorkingTreeStatus } from './file';
+import {
+	GitFile,
+	GitFileConflictStatus,
+	GitFileIndexStatus,
+	GitFileStatus,
+	GitFileSubmoduleState,
+	GitFileWorkingTreeStatus,
+} from './file';
 import { GitUri } from '../gitUri';
 import { GitCommitType, GitLogCommit, GitRemote, GitRevision } from './models';
 import { memoize, Strings } from '../../system';
@@ -300,6 +307,7 @@ export class GitStatusFile implements GitFile {
 		y: string | undefined,
 		public readonly fileName: string,
 		public readonly originalFileName?: string,
+		public readonly submodule?: GitFileSubmoduleState,
 	) {
 		if (x != null && y != null) {
 			switch (x + y) {
@@ -521,6 +529,7 @@ export class GitStatusFile implements GitFile {
 			status[1]?.trim() || undefined,
 			changes.fileName ?? this.fileName,
 			this.getChangedValue(changes.originalFileName, this.originalFileName),
+			this.submodule,
 		);
 	}
 
@@ -0,0 +1,49 @@
+'use strict';
+import * as paths from 'path';
+import { Uri } from 'vscode';
+import { GitRevision } from './models';
+import { Strings } from '../../system';
+
+export type GitSubmoduleStatus = 'current' | 'modified' | 'uninitialized' | 'conflicted';
+
+export class GitSubmodule {
+	static is(submodule: any): submodule is GitSubmodule {
+		return submodule instanceof GitSubmodule;
+	}
+
+	constructor(
+		public readonly repoPath: string,
+		public readonly name: string,
+		public readonly path: string,
+		public readonly url: string | undefined,
+		public readonly status: GitSubmoduleStatus,
+		public readonly recordedSha: string | undefined,
+		public readonly sha: string | undefined,
+		public readonly branch?: string,
+		public readonly describe?: string,
+	) {}
+
+	get changed(): boolean {
+		return this.recordedSha != null && this.sha != null && this.recordedSha !== this.sha;
+	}
+
+	get fullPath(): string {
+		return Strings.normalizePath(paths.join(this.repoPath, this.path));
+	}
+
+	get initialized(): boolean {
+		return this.status !== 'uninitialized';
+	}
+
+	get recordedShortSha(): string | undefined {
+		return this.recordedSha != null ? GitRevision.shorten(this.recordedSha) : undefined;
+	}
+
+	get shortSha(): string | undefined {
+		return this.sha != null ? GitRevision.shorten(this.sha) : undefined;
+	}
+
+	get uri(): Uri {
+		return Uri.file(this.fullPath);
+	}
+}
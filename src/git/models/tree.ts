@@ -4,5 +4,5 @@ export interface GitTree {
 	commitSha: string;
 	path: string;
 	size: number;
-	type: 'blob' | 'tree';
+	type: 'blob' | 'commit' | 'tree';
 }
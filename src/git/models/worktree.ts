@@ -0,0 +1,39 @@
+'use strict';
+import * as paths from 'path';
+import { Uri } from 'vscode';
+import { GitRevision } from './models';
+
+export type GitWorktreeType = 'bare' | 'branch' | 'detached';
+
+export class GitWorktree {
+	static is(worktree: any): worktree is GitWorktree {
+		return worktree instanceof GitWorktree;
+	}
+
+	constructor(
+		public readonly main: boolean,
+		public readonly type: GitWorktreeType,
+		public readonly repoPath: string,
+		public readonly uri: Uri,
+		public readonly locked: boolean | string,
+		public readonly prunable: boolean | string,
+		public readonly sha?: string,
+		public readonly branch?: string,
+	) {}
+
+	get name(): string {
+		return paths.basename(this.uri.fsPath);
+	}
+
+	get path(): string {
+		return this.uri.fsPath;
+	}
+
+	get ref(): string | undefined {
+		return this.type === 'branch' ? this.branch : this.sha;
+	}
+
+	get shortSha(): string | undefined {
+		return this.sha != null ? GitRevision.shorten(this.sha) : undefined;
+	}
+}
@@ -0,0 +1,54 @@
+'use strict';
+import { debug } from '../../system';
+
+const bisectLogRegex = /^# (bad|good|new|old|skip|first bad commit|first new commit): \[([0-9a-f]+)\]/gm;
+
+export interface GitBisectLog {
+	bad: string | undefined;
+	good: string[];
+	skipped: string[];
+	firstBad: string | undefined;
+}
+
+export class GitBisectParser {
+	@debug({ args: false, singleLine: true })
+	static parse(data: string | undefined): GitBisectLog {
+		const log: GitBisectLog = { bad: undefined, good: [], skipped: [], firstBad: undefined };
+		if (!data) return log;
+
+		let term;
+		let sha;
+
+		let match;
+		do {
+			match = bisectLogRegex.exec(data);
+			if (match == null) break;
+
+			[, term, sha] = match;
+
+			// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+			sha = ` ${sha}`.substr(1);
+
+			switch (term) {
+				case 'bad':
+				case 'new':
+					// Only the most recent bad commit matters
+					log.bad = sha;
+					break;
+				case 'good':
+				case 'old':
+					log.good.push(sha);
+					break;
+				case 'skip':
+					log.skipped.push(sha);
+					break;
+				case 'first bad commit':
+				case 'first new commit':
+					log.firstBad = sha;
+					break;
+			}
+		} while (true);
+
+		return log;
+	}
+}
@@ -39,119 +39,185 @@ export class GitBlameParser {
 	): GitBlame | undefined {
 		if (!data) return undefined;
 
-		const authors = new Map<string, GitAuthor>();
-		const commits = new Map<string, GitBlameCommit>();
-		const lines: GitCommitLine[] = [];
-
-		let relativeFileName;
+		const parser = new GitBlameStreamParser(repoPath, fileName, currentUser);
+		parser.write(data);
+		return parser.end();
+	}
+}
 
-		let entry: BlameEntry | undefined = undefined;
-		let line: string;
-		let lineParts: string[];
+/**
+ * Parses the `--incremental` output of `git blame` as it is received, so that a partial blame can be used before the
+ * whole blame has completed
+ */
+export class GitBlameStreamParser {
+	private readonly authors = new Map<string, GitAuthor>();
+	private readonly commits = new Map<string, GitBlameCommit>();
+	private readonly lines: GitCommitLine[] = [];
+
+	private entry: BlameEntry | undefined;
+	private first = true;
+	private remainder = emptyStr;
+
+	constructor(
+		private repoPath: string | undefined,
+		private readonly fileName: string,
+		private readonly currentUser: { name?: string; email?: string } | undefined,
+	) {}
+
+	write(data: string): void {
+		data = this.remainder + data;
+
+		// Only parse complete lines, and hold on to the rest until more data is received
+		const index = data.lastIndexOf('\n');
+		if (index === -1) {
+			this.remainder = data;
+			return;
+		}
 
-		let first = true;
+		this.remainder = data.substr(index + 1);
+		for (const line of Strings.lines(data.substr(0, index))) {
+			this.parseLine(line);
+		}
+	}
 
-		for (line of Strings.lines(data)) {
-			lineParts = line.split(' ');
-			if (lineParts.length < 2) continue;
+	end(): GitBlame | undefined {
+		if (this.remainder.length !== 0) {
+			this.parseLine(this.remainder);
+			this.remainder = emptyStr;
+		}
 
-			if (entry === undefined) {
-				entry = {
-					author: undefined!,
-					sha: lineParts[0],
-					originalLine: parseInt(lineParts[1], 10),
-					line: parseInt(lineParts[2], 10),
-					lineCount: parseInt(lineParts[3], 10),
-				};
+		return this.toBlame(this.commits, this.lines);
+	}
 
-				continue;
-			}
+	/**
+	 * Returns the blame of the lines parsed so far -- unlike a completed blame, the lines are not indexed by line number
+	 */
+	snapshot(): GitBlame | undefined {
+		return this.toBlame(
+			new Map(this.commits),
+			this.lines.filter(l => l != null),
+		);
+	}
 
-			switch (lineParts[0]) {
-				case 'author':
-					if (GitRevision.isUncommitted(entry.sha)) {
-						entry.author = 'You';
-					} else {
-						entry.author = lineParts.slice(1).join(' ').trim();
-					}
-					break;
+	private parseLine(line: string) {
+		const lineParts = line.split(' ');
+		if (lineParts.length < 2) return;
+
+		const entry = this.entry;
+		if (entry === undefined) {
+			this.entry = {
+				author: undefined!,
+				sha: lineParts[0],
+				originalLine: parseInt(lineParts[1], 10),
+				line: parseInt(lineParts[2], 10),
+				lineCount: parseInt(lineParts[3], 10),
+			};
 
-				case 'author-mail': {
-					if (GitRevision.isUncommitted(entry.sha)) {
-						entry.authorEmail = currentUser !== undefined ? currentUser.email : undefined;
-						continue;
-					}
+			return;
+		}
 
-					entry.authorEmail = lineParts.slice(1).join(' ').trim();
-					const start = entry.authorEmail.indexOf('<');
-					if (start >= 0) {
-						const end = entry.authorEmail.indexOf('>', start);
-						if (end > start) {
-							entry.authorEmail = entry.authorEmail.substring(start + 1, end);
-						} else {
-							entry.authorEmail = entry.authorEmail.substring(start + 1);
-						}
-					}
+		switch (lineParts[0]) {
+			case 'author':
+				if (GitRevision.isUncommitted(entry.sha)) {
+					entry.author = 'You';
+				} else {
+					entry.author = lineParts.slice(1).join(' ').trim();
+				}
+				break;
 
-					break;
+			case 'author-mail': {
+				if (GitRevision.isUncommitted(entry.sha)) {
+					entry.authorEmail = this.currentUser !== undefined ? this.currentUser.email : undefined;
+					return;
 				}
-				case 'author-time':
-					entry.authorDate = lineParts[1];
-					break;
-
-				case 'author-tz':
-					entry.authorTimeZone = lineParts[1];
-					break;
-
-				case 'committer-time':
-					entry.committerDate = lineParts[1];
-					break;
-
-				case 'committer-tz':
-					entry.committerTimeZone = lineParts[1];
-					break;
-
-				case 'summary':
-					entry.summary = lineParts.slice(1).join(' ').trim();
-					break;
-
-				case 'previous':
-					entry.previousSha = lineParts[1];
-					entry.previousFileName = lineParts.slice(2).join(' ');
-					break;
-
-				case 'filename':
-					entry.fileName = lineParts.slice(1).join(' ');
-
-					if (first && repoPath === undefined) {
-						// Try to get the repoPath from the most recent commit
-						repoPath = Strings.normalizePath(
-							fileName.replace(
-								fileName.startsWith(slash) ? `/${entry.fileName}` : entry.fileName,
-								emptyStr,
-							),
-						);
-						relativeFileName = Strings.normalizePath(paths.relative(repoPath, fileName));
+
+				entry.authorEmail = lineParts.slice(1).join(' ').trim();
+				const start = entry.authorEmail.indexOf('<');
+				if (start >= 0) {
+					const end = entry.authorEmail.indexOf('>', start);
+					if (end > start) {
+						entry.authorEmail = entry.authorEmail.substring(start + 1, end);
 					} else {
-						relativeFileName = entry.fileName;
+						entry.authorEmail = entry.authorEmail.substring(start + 1);
 					}
-					first = false;
-
-					GitBlameParser.parseEntry(entry, repoPath, relativeFileName, commits, authors, lines, currentUser);
-
-					entry = undefined;
-					break;
+				}
 
-				default:
-					break;
+				break;
+			}
+			case 'author-time':
+				entry.authorDate = lineParts[1];
+				break;
+
+			case 'author-tz':
+				entry.authorTimeZone = lineParts[1];
+				break;
+
+			case 'committer-time':
+				entry.committerDate = lineParts[1];
+				break;
+
+			case 'committer-tz':
+				entry.committerTimeZone = lineParts[1];
+				break;
+
+			case 'summary':
+				entry.summary = lineParts.slice(1).join(' ').trim();
+				break;
+
+			case 'previous':
+				entry.previousSha = lineParts[1];
+				entry.previousFileName = lineParts.slice(2).join(' ');
+				break;
+
+			case 'filename': {
+				entry.fileName = lineParts.slice(1).join(' ');
+
+				let relativeFileName;
+				if (this.first && this.repoPath === undefined) {
+					// Try to get the repoPath from the most recent commit
+					this.repoPath = Strings.normalizePath(
+						this.fileName.replace(
+							this.fileName.startsWith(slash) ? `/${entry.fileName}` : entry.fileName,
+							emptyStr,
+						),
+					);
+					relativeFileName = Strings.normalizePath(paths.relative(this.repoPath, this.fileName));
+				} else {
+					relativeFileName = entry.fileName;
+				}
+				this.first = false;
+
+				parseEntry(
+					entry,
+					this.repoPath,
+					relativeFileName,
+					this.commits,
+					this.authors,
+					this.lines,
+					this.currentUser,
+				);
+
+				this.entry = undefined;
+				break;
 			}
+			default:
+				break;
 		}
+	}
 
+	private toBlame(commits: Map<string, GitBlameCommit>, lines: GitCommitLine[]): GitBlame | undefined {
+		const authors = new Map<string, GitAuthor>();
 		for (const [, c] of commits) {
 			if (c.author === undefined) return undefined;
 
-			const author = authors.get(c.author);
-			if (author === undefined) return undefined;
+			let author = authors.get(c.author);
+			if (author === undefined) {
+				author = this.authors.get(c.author);
+				if (author === undefined) return undefined;
+
+				author = { ...author, lineCount: 0 };
+				authors.set(c.author, author);
+			}
 
 			author.lineCount += c.lines.length;
 		}
@@ -159,81 +225,81 @@ export class GitBlameParser {
 		const sortedAuthors = new Map([...authors.entries()].sort((a, b) => b[1].lineCount - a[1].lineCount));
 
 		const blame: GitBlame = {
-			repoPath: repoPath!,
+			repoPath: this.repoPath!,
 			authors: sortedAuthors,
 			commits: commits,
 			lines: lines,
 		};
 		return blame;
 	}
+}
 
-	private static parseEntry(
-		entry: BlameEntry,
-		repoPath: string | undefined,
-		relativeFileName: string,
-		commits: Map<string, GitBlameCommit>,
-		authors: Map<string, GitAuthor>,
-		lines: GitCommitLine[],
-		currentUser: { name?: string; email?: string } | undefined,
-	) {
-		let commit = commits.get(entry.sha);
-		if (commit === undefined) {
-			if (entry.author !== undefined) {
-				if (
-					currentUser !== undefined &&
-					// Name or e-mail is configured
-					(currentUser.name !== undefined || currentUser.email !== undefined) &&
-					// Match on name if configured
-					(currentUser.name === undefined || currentUser.name === entry.author) &&
-					// Match on email if configured
-					(currentUser.email === undefined || currentUser.email === entry.authorEmail)
-				) {
-					entry.author = 'You';
-				}
-
-				let author = authors.get(entry.author);
-				if (author === undefined) {
-					author = {
-						name: entry.author,
-						lineCount: 0,
-					};
-					authors.set(entry.author, author);
-				}
+function parseEntry(
+	entry: BlameEntry,
+	repoPath: string | undefined,
+	relativeFileName: string,
+	commits: Map<string, GitBlameCommit>,
+	authors: Map<string, GitAuthor>,
+	lines: GitCommitLine[],
+	currentUser: { name?: string; email?: string } | undefined,
+) {
+	let commit = commits.get(entry.sha);
+	if (commit === undefined) {
+		if (entry.author !== undefined) {
+			if (
+				currentUser !== undefined &&
+				// Name or e-mail is configured
+				(currentUser.name !== undefined || currentUser.email !== undefined) &&
+				// Match on name if configured
+				(currentUser.name === undefined || currentUser.name === entry.author) &&
+				// Match on email if configured
+				(currentUser.email === undefined || currentUser.email === entry.authorEmail)
+			) {
+				entry.author = 'You';
 			}
 
-			commit = new GitBlameCommit(
-				repoPath!,
-				entry.sha,
-				entry.author,
-				entry.authorEmail,
-				new Date((entry.authorDate as any) * 1000),
-				new Date((entry.committerDate as any) * 1000),
-				entry.summary!,
-				relativeFileName,
-				entry.previousFileName !== undefined && entry.previousFileName !== entry.fileName
-					? entry.previousFileName
-					: undefined,
-				entry.previousSha,
-				entry.previousSha && entry.previousFileName,
-				[],
-			);
-
-			commits.set(entry.sha, commit);
+			let author = authors.get(entry.author);
+			if (author === undefined) {
+				author = {
+					name: entry.author,
+					lineCount: 0,
+				};
+				authors.set(entry.author, author);
+			}
 		}
 
-		for (let i = 0, len = entry.lineCount; i < len; i++) {
-			const line: GitCommitLine = {
-				sha: entry.sha,
-				line: entry.line + i,
-				originalLine: entry.originalLine + i,
-			};
+		commit = new GitBlameCommit(
+			repoPath!,
+			entry.sha,
+			entry.author,
+			entry.authorEmail,
+			new Date((entry.authorDate as any) * 1000),
+			new Date((entry.committerDate as any) * 1000),
+			entry.summary!,
+			relativeFileName,
+			entry.previousFileName !== undefined && entry.previousFileName !== entry.fileName
+				? entry.previousFileName
+				: undefined,
+			entry.previousSha,
+			entry.previousSha && entry.previousFileName,
+			[],
+		);
+
+		commits.set(entry.sha, commit);
+	}
 
-			if (commit.previousSha) {
-				line.previousSha = commit.previousSha;
-			}
+	for (let i = 0, len = entry.lineCount; i < len; i++) {
+		const line: GitCommitLine = {
+			sha: entry.sha,
+			line: entry.line + i,
+			originalLine: entry.originalLine + i,
+		};
 
-			commit.lines.push(line);
-			lines[line.line - 1] = line;
+		if (commit.previousSha) {
+			line.previousSha = commit.previousSha;
 		}
+
+		commit.lines.push(line);
+		lines[line.line - 1] = line;
 	}
 }
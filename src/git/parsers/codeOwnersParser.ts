@@ -0,0 +1,120 @@
+'use strict';
+import { GitCodeOwners, GitCodeOwnersRule } from '../git';
+import { debug } from '../../system';
+
+// Matches GitLab section headers, e.g. `[Section]`, `^[Optional Section]`, `[Section][2] @default-owner`
+const sectionRegex = /^\^?\[([^\]]+)\](?:\[\d+\])?(.*)$/;
+const escapedRegexCharsRegex = /[.+^${}()|[\]\\]/g;
+
+export class GitCodeOwnersParser {
+	@debug({ args: false, singleLine: true })
+	static parse(data: string, repoPath: string, path: string): GitCodeOwners | undefined {
+		if (!data) return undefined;
+
+		const rules: GitCodeOwnersRule[] = [];
+
+		let section: string | undefined;
+		let sectionOwners: string[] = [];
+
+		let line;
+		let match;
+		let owners;
+		let pattern;
+		for (line of data.split(/\r?\n/)) {
+			line = stripComment(line).trim();
+			if (line.length === 0) continue;
+
+			match = sectionRegex.exec(line);
+			if (match != null) {
+				// GitLab section names are case-insensitive
+				section = match[1].trim().toLowerCase();
+				sectionOwners = match[2].trim().split(/\s+/).filter(Boolean);
+
+				continue;
+			}
+
+			[pattern, ...owners] = splitPattern(line);
+			if (!pattern) continue;
+
+			rules.push({
+				pattern: pattern,
+				regex: toRegex(pattern),
+				// Within a GitLab section, rules without owners inherit the section's default owners
+				owners: owners.length === 0 && section != null ? sectionOwners : owners,
+				section: section,
+			});
+		}
+
+		return new GitCodeOwners(repoPath, path, rules);
+	}
+}
+
+function stripComment(line: string) {
+	let index = line.indexOf('#');
+	while (index !== -1) {
+		if (index === 0 || line[index - 1] !== '\\') return line.substr(0, index);
+
+		index = line.indexOf('#', index + 1);
+	}
+
+	return line;
+}
+
+function splitPattern(line: string) {
+	// Patterns can contain escaped spaces (e.g. `docs/my\ file.md`)
+	return line
+		.split(/(?<!\\)\s+/)
+		.filter(Boolean)
+		.map(s => s.replace(/\\([\s#])/g, '$1'));
+}
+
+function toRegex(pattern: string) {
+	const directory = pattern.endsWith('/');
+	if (directory) {
+		pattern = pattern.substr(0, pattern.length - 1);
+	}
+
+	// Patterns are anchored to the root if they start with, or contain a `/`; otherwise they can match at any depth
+	const anchored = pattern.startsWith('/') || pattern.includes('/');
+	if (pattern.startsWith('/')) {
+		pattern = pattern.substr(1);
+	}
+
+	let regex = '';
+	let i = 0;
+	while (i < pattern.length) {
+		const c = pattern[i];
+		if (c === '*') {
+			if (pattern[i + 1] === '*') {
+				if (pattern[i + 2] === '/') {
+					regex += '(?:.*/)?';
+					i += 3;
+				} else {
+					regex += '.*';
+					i += 2;
+				}
+			} else {
+				regex += '[^/]*';
+				i++;
+			}
+		} else if (c === '?') {
+			regex += '[^/]';
+			i++;
+		} else {
+			regex += c.replace(escapedRegexCharsRegex, '\\$&');
+			i++;
+		}
+	}
+
+	// A trailing `/*` only matches the files directly within that directory, not any nested ones
+	let suffix;
+	if (directory) {
+		suffix = '/.*';
+	} else if (pattern.endsWith('/*')) {
+		suffix = '';
+	} else {
+		suffix = '(?:/.*)?';
+	}
+
+	return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${regex}${suffix}$`);
+}
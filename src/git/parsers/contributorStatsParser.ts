@@ -0,0 +1,120 @@
+'use strict';
+import { debug } from '../../system';
+import { GitContributorFileStats, GitContributorStats } from '../models/contributor';
+
+const contributorStatsRegex = /^<a>(.*)<e>(.*)<d>(\d+)$|^(-|\d+)\t(-|\d+)\t(.+)$/gm;
+
+// Using %x00 codes because some shells seem to try to expand things if not
+const lb = '%x3c'; // `%x${'<'.charCodeAt(0).toString(16)}`;
+const rb = '%x3e'; // `%x${'>'.charCodeAt(0).toString(16)}`;
+
+interface ContributorStatsEntry {
+	additions: number;
+	deletions: number;
+	firstCommitDate: number;
+	lastCommitDate: number;
+	files: Map<string, GitContributorFileStats>;
+}
+
+export class GitContributorStatsParser {
+	static defaultFormat = [
+		`${lb}a${rb}%aN`, // author
+		`${lb}e${rb}%aE`, // author email
+		`${lb}d${rb}%at`, // author date
+	].join('');
+
+	static getKey(name: string, email: string): string {
+		return `${name}|${email}`;
+	}
+
+	@debug({ args: false, singleLine: true })
+	static parse(data: string, options: { maxFiles?: number } = {}): Map<string, GitContributorStats> | undefined {
+		if (!data) return undefined;
+
+		const entries = new Map<string, ContributorStatsEntry>();
+
+		let entry: ContributorStatsEntry | undefined;
+		let name;
+		let email;
+		let date;
+		let additions;
+		let deletions;
+		let path;
+
+		let match;
+		do {
+			match = contributorStatsRegex.exec(data);
+			if (match == null) break;
+
+			[, name, email, date, additions, deletions, path] = match;
+
+			if (date != null) {
+				const key = GitContributorStatsParser.getKey(name, email);
+				const time = Number(date) * 1000;
+
+				entry = entries.get(key);
+				if (entry == null) {
+					entry = {
+						additions: 0,
+						deletions: 0,
+						firstCommitDate: time,
+						lastCommitDate: time,
+						files: new Map(),
+					};
+					entries.set(key, entry);
+				} else if (time < entry.firstCommitDate) {
+					entry.firstCommitDate = time;
+				} else if (time > entry.lastCommitDate) {
+					entry.lastCommitDate = time;
+				}
+
+				continue;
+			}
+
+			if (entry == null) continue;
+
+			// Binary files are reported with `-` for both additions and deletions
+			const added = Number(additions) || 0;
+			const deleted = Number(deletions) || 0;
+
+			entry.additions += added;
+			entry.deletions += deleted;
+
+			let file = entry.files.get(path);
+			if (file == null) {
+				file = {
+					// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+					path: ` ${path}`.substr(1),
+					commits: 0,
+					additions: 0,
+					deletions: 0,
+				};
+				entry.files.set(file.path, file);
+			}
+			file.commits++;
+			file.additions += added;
+			file.deletions += deleted;
+		} while (true);
+
+		const maxFiles = options.maxFiles ?? 25;
+
+		const stats = new Map<string, GitContributorStats>();
+		for (const [key, e] of entries) {
+			stats.set(key, {
+				additions: e.additions,
+				deletions: e.deletions,
+				firstCommitDate: new Date(e.firstCommitDate),
+				lastCommitDate: new Date(e.lastCommitDate),
+				files: [...e.files.values()]
+					.sort(
+						(a, b) =>
+							b.commits - a.commits ||
+							b.additions + b.deletions - (a.additions + a.deletions) ||
+							a.path.localeCompare(b.path),
+					)
+					.slice(0, maxFiles),
+			});
+		}
+		return stats;
+	}
+}
@@ -1,11 +1,15 @@
 'use strict';
-import { GitDiff, GitDiffHunk, GitDiffHunkLine, GitDiffLine, GitDiffShortStat } from '../models/diff';
+import { GitDiff, GitDiffHunk, GitDiffHunkLine, GitDiffLine, GitDiffShortStat, GitPatchHunk } from '../models/diff';
 import { GitFile, GitFileStatus } from '../models/file';
 import { debug, Strings } from '../../system';
 
 const nameStatusDiffRegex = /^(.*?)\t(.*?)(?:\t(.*?))?$/gm;
 const shortStatDiffRegex = /^\s*(\d+)\sfiles? changed(?:,\s+(\d+)\s+insertions?\(\+\))?(?:,\s+(\d+)\s+deletions?\(-\))?/;
 const unifiedDiffRegex = /^@@ -([\d]+)(?:,([\d]+))? \+([\d]+)(?:,([\d]+))? @@(?:.*?)\n([\s\S]*?)(?=^@@)/gm;
+const patchFileRegex = /^(?=diff --git )/m;
+const patchFileNameRegex = /^diff --git "?a\/.*?"? "?b\/(.*?)"?$/m;
+const patchHunkRegex = /^(?=@@ )/m;
+const patchHunkStartRegex = /^@@ /m;
 
 export class GitDiffParser {
 	@debug({ args: false, singleLine: true })
@@ -134,6 +138,44 @@ export class GitDiffParser {
 		};
 	}
 
+	@debug({ args: false, singleLine: true })
+	static parsePatchHunks(data: string): GitPatchHunk[] {
+		const hunks: GitPatchHunk[] = [];
+		if (!data) return hunks;
+
+		for (const file of data.split(patchFileRegex)) {
+			// Skip anything without hunks, e.g. binary files or mode changes
+			const index = file.search(patchHunkStartRegex);
+			if (index === -1) continue;
+
+			const header = file.substring(0, index);
+			const fileName = patchFileNameRegex.exec(header)?.[1];
+			if (fileName == null) continue;
+
+			for (const hunk of file.substring(index).split(patchHunkRegex)) {
+				let additions = 0;
+				let deletions = 0;
+				for (const l of Strings.lines(hunk)) {
+					if (l[0] === '+') {
+						additions++;
+					} else if (l[0] === '-') {
+						deletions++;
+					}
+				}
+
+				hunks.push({
+					fileName: fileName,
+					header: header,
+					hunk: hunk,
+					additions: additions,
+					deletions: deletions,
+				});
+			}
+		}
+
+		return hunks;
+	}
+
 	@debug({ args: false, singleLine: true })
 	static parseNameStatus(data: string, repoPath: string): GitFile[] | undefined {
 		if (!data) return undefined;
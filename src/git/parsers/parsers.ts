@@ -1,7 +1,10 @@
 'use strict';
 
+export * from './bisectParser';
 export * from './blameParser';
 export * from './branchParser';
+export * from './codeOwnersParser';
+export * from './contributorStatsParser';
 export * from './diffParser';
 export * from './logParser';
 export * from './reflogParser';
@@ -9,5 +12,7 @@ export * from './remoteParser';
 export * from './shortlogParser';
 export * from './stashParser';
 export * from './statusParser';
+export * from './submoduleParser';
 export * from './tagParser';
 export * from './treeParser';
+export * from './worktreeParser';
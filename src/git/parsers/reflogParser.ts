@@ -124,4 +124,88 @@ export class GitReflogParser {
 			hasMore: (limit !== 0 && count >= limit) || (totalLimit !== 0 && total >= totalLimit),
 		};
 	}
+
+	@debug({ args: false })
+	static parseRecords(
+		data: string,
+		repoPath: string,
+		commands: string[] | undefined,
+		limit: number,
+		totalLimit: number,
+	): GitReflog | undefined {
+		if (!data) return undefined;
+
+		const records: GitReflogRecord[] = [];
+
+		let sha;
+		let selector;
+		let date;
+		let command;
+		let commandArgs;
+		let details;
+
+		let count = 0;
+		let total = 0;
+		let record: GitReflogRecord | undefined;
+
+		let match;
+		do {
+			match = reflogRegex.exec(data);
+			if (match == null) break;
+
+			[, sha, selector, date, command, commandArgs, details] = match;
+
+			// The previous record's "before" sha is the sha of the next (older) entry
+			if (record !== undefined) {
+				record.update(sha);
+				records.push(record);
+				record = undefined;
+
+				count++;
+				if (limit !== 0 && count >= limit) break;
+			}
+
+			total++;
+
+			if (commands == null || commands.includes(command)) {
+				record = new GitReflogRecord(
+					repoPath,
+					// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+					` ${sha}`.substr(1),
+					// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+					` ${selector}`.substr(1),
+					new Date(date),
+					// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+					` ${command}`.substr(1),
+					// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+					commandArgs == null || commandArgs.length === 0 ? undefined : commandArgs.substr(1),
+					// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+					details == null || details.length === 0 ? undefined : details.substr(1),
+				);
+			}
+		} while (true);
+
+		// Ensure the regex state is reset
+		reflogRegex.lastIndex = 0;
+
+		const truncated = totalLimit !== 0 && total >= totalLimit;
+		if (record !== undefined) {
+			// If the data was truncated, we don't know the "before" sha of the last record, so leave it for the next page
+			if (truncated) {
+				total--;
+			} else {
+				records.push(record);
+				count++;
+			}
+		}
+
+		return {
+			repoPath: repoPath,
+			records: records,
+			count: count,
+			total: total,
+			limit: limit,
+			hasMore: (limit !== 0 && count >= limit) || truncated,
+		};
+	}
 }
@@ -1,6 +1,6 @@
 'use strict';
 import { debug, Strings } from '../../system';
-import { GitStatus, GitStatusFile } from '../git';
+import { GitFileSubmoduleState, GitStatus, GitStatusFile } from '../git';
 
 const emptyStr = '';
 
@@ -97,16 +97,32 @@ export class GitStatusParser {
 				const lineParts = line.split(' ');
 				switch (lineParts[0][0]) {
 					case '1': // normal
-						files.push(this.parseStatusFile(repoPath, lineParts[1], lineParts.slice(8).join(' ')));
+						files.push(
+							this.parseStatusFile(
+								repoPath,
+								lineParts[1],
+								lineParts.slice(8).join(' '),
+								undefined,
+								lineParts[2],
+							),
+						);
 						break;
 					case '2': {
 						// rename
 						const file = lineParts.slice(9).join(' ').split('\t');
-						files.push(this.parseStatusFile(repoPath, lineParts[1], file[0], file[1]));
+						files.push(this.parseStatusFile(repoPath, lineParts[1], file[0], file[1], lineParts[2]));
 						break;
 					}
 					case 'u': // unmerged
-						files.push(this.parseStatusFile(repoPath, lineParts[1], lineParts.slice(10).join(' ')));
+						files.push(
+							this.parseStatusFile(
+								repoPath,
+								lineParts[1],
+								lineParts.slice(10).join(' '),
+								undefined,
+								lineParts[2],
+							),
+						);
 						break;
 					case '?': // untracked
 						files.push(this.parseStatusFile(repoPath, ' ?', lineParts.slice(1).join(' ')));
@@ -130,6 +146,7 @@ export class GitStatusParser {
 		rawStatus: string,
 		fileName: string,
 		originalFileName?: string,
+		submoduleState?: string,
 	): GitStatusFile {
 		let x = !rawStatus.startsWith('.') ? rawStatus[0].trim() : undefined;
 		if (x == null || x.length === 0) {
@@ -144,6 +161,17 @@ export class GitStatusParser {
 			}
 		}
 
-		return new GitStatusFile(repoPath, x, y, fileName, originalFileName);
+		return new GitStatusFile(repoPath, x, y, fileName, originalFileName, this.parseSubmoduleState(submoduleState));
+	}
+
+	// The submodule state is `N...` for regular files, otherwise `S<c><m><u>` (porcelain v2 only)
+	private static parseSubmoduleState(state: string | undefined): GitFileSubmoduleState | undefined {
+		if (state == null || state[0] !== 'S') return undefined;
+
+		return {
+			commitChanged: state[1] === 'C',
+			modified: state[2] === 'M',
+			untracked: state[3] === 'U',
+		};
 	}
 }
@@ -0,0 +1,124 @@
+'use strict';
+import { GitSubmodule, GitSubmoduleStatus } from '../git';
+import { debug, Strings } from '../../system';
+
+const configRegex = /^submodule\.(.+)\.(path|url|branch) (.*)$/;
+const statusRegex = /^([ +\-U])([0-9a-f]{40}) (.+?)(?: \((.+)\))?$/;
+
+interface SubmoduleConfigEntry {
+	path?: string;
+	url?: string;
+	branch?: string;
+}
+
+interface SubmoduleStatusEntry {
+	status: GitSubmoduleStatus;
+	sha: string;
+	describe?: string;
+}
+
+export class GitSubmoduleParser {
+	@debug({ args: false, singleLine: true })
+	static parse(
+		config: string | undefined,
+		status: string | undefined,
+		cachedStatus: string | undefined,
+		repoPath: string,
+	): GitSubmodule[] {
+		if (!config) return [];
+
+		repoPath = Strings.normalizePath(repoPath);
+
+		const entries = new Map<string, SubmoduleConfigEntry>();
+
+		let line: string;
+		let match;
+		let entry: SubmoduleConfigEntry | undefined;
+		for (line of Strings.lines(config)) {
+			match = configRegex.exec(line);
+			if (match == null) continue;
+
+			const [, name, key, value] = match;
+
+			entry = entries.get(name);
+			if (entry == null) {
+				entry = {};
+				entries.set(name, entry);
+			}
+
+			// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+			entry[key as keyof SubmoduleConfigEntry] = ` ${value}`.substr(1);
+		}
+
+		const checkedOut = this.parseStatus(status);
+		const recorded = this.parseStatus(cachedStatus);
+
+		const submodules: GitSubmodule[] = [];
+
+		let checkedOutEntry;
+		let recordedEntry;
+		for (const [name, { path, url, branch }] of entries) {
+			if (path == null) continue;
+
+			checkedOutEntry = checkedOut.get(path);
+			recordedEntry = recorded.get(path);
+
+			submodules.push(
+				new GitSubmodule(
+					repoPath,
+					name,
+					path,
+					url,
+					checkedOutEntry?.status ?? 'uninitialized',
+					recordedEntry?.sha ?? checkedOutEntry?.sha,
+					checkedOutEntry == null || checkedOutEntry.status === 'uninitialized'
+						? undefined
+						: checkedOutEntry.sha,
+					branch,
+					checkedOutEntry?.describe,
+				),
+			);
+		}
+
+		return submodules;
+	}
+
+	private static parseStatus(data: string | undefined): Map<string, SubmoduleStatusEntry> {
+		const entries = new Map<string, SubmoduleStatusEntry>();
+		if (!data) return entries;
+
+		let line: string;
+		let match;
+		for (line of Strings.lines(data)) {
+			match = statusRegex.exec(line);
+			if (match == null) continue;
+
+			const [, code, sha, path, describe] = match;
+
+			let status: GitSubmoduleStatus;
+			switch (code) {
+				case '-':
+					status = 'uninitialized';
+					break;
+				case '+':
+					status = 'modified';
+					break;
+				case 'U':
+					status = 'conflicted';
+					break;
+				default:
+					status = 'current';
+					break;
+			}
+
+			entries.set(Strings.normalizePath(path), {
+				status: status,
+				// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+				sha: ` ${sha}`.substr(1),
+				describe: describe == null || describe.length === 0 ? undefined : ` ${describe}`.substr(1),
+			});
+		}
+
+		return entries;
+	}
+}
@@ -31,7 +31,10 @@ export class GitTreeParser {
 				path: filePath == null || filePath.length === 0 ? emptyStr : ` ${filePath}`.substr(1),
 				size: Number(size) || 0,
 				// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
-				type: (type == null || type.length === 0 ? emptyStr : ` ${type}`.substr(1)) as 'blob' | 'tree',
+				type: (type == null || type.length === 0 ? emptyStr : ` ${type}`.substr(1)) as
+					| 'blob'
+					| 'commit'
+					| 'tree',
 			});
 		} while (true);
 
@@ -0,0 +1,103 @@
+'use strict';
+import { Uri } from 'vscode';
+import { GitWorktree } from '../git';
+import { debug, Strings } from '../../system';
+
+interface WorktreeEntry {
+	path: string;
+	sha?: string;
+	branch?: string;
+	bare: boolean;
+	detached: boolean;
+	locked?: boolean | string;
+	prunable?: boolean | string;
+}
+
+function createWorktree(entry: WorktreeEntry, main: boolean, repoPath: string) {
+	return new GitWorktree(
+		main,
+		entry.bare ? 'bare' : entry.detached ? 'detached' : 'branch',
+		repoPath,
+		Uri.file(entry.path),
+		entry.locked ?? false,
+		entry.prunable ?? false,
+		entry.sha,
+		entry.branch,
+	);
+}
+
+export class GitWorktreeParser {
+	@debug({ args: false, singleLine: true })
+	static parse(data: string, repoPath: string): GitWorktree[] {
+		if (!data) return [];
+
+		if (repoPath != null) {
+			repoPath = Strings.normalizePath(repoPath);
+		}
+
+		const worktrees: GitWorktree[] = [];
+
+		let entry: WorktreeEntry | undefined = undefined;
+		let line: string;
+		let index: number;
+		let key: string;
+		let value: string;
+		let locked: string;
+		let prunable: string;
+		let main = true; // the first worktree is the main worktree
+
+		for (line of Strings.lines(data)) {
+			index = line.indexOf(' ');
+			if (index === -1) {
+				key = line;
+				value = '';
+			} else {
+				key = line.substr(0, index);
+				value = line.substr(index + 1);
+			}
+
+			if (key.length === 0 && entry != null) {
+				worktrees.push(createWorktree(entry, main, repoPath));
+
+				entry = undefined;
+				main = false;
+				continue;
+			}
+
+			switch (key) {
+				case 'worktree':
+					// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+					entry = { path: ` ${value}`.substr(1), bare: false, detached: false };
+					break;
+				case 'bare':
+					entry!.bare = true;
+					break;
+				case 'HEAD':
+					// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+					entry!.sha = ` ${value}`.substr(1);
+					break;
+				case 'branch':
+					// Stops excessive memory usage -- https://bugs.chromium.org/p/v8/issues/detail?id=2869
+					entry!.branch = ` ${value.startsWith('refs/heads/') ? value.substr(11) : value}`.substr(1);
+					break;
+				case 'detached':
+					entry!.detached = true;
+					break;
+				case 'locked':
+					locked = value.trim();
+					entry!.locked = locked.length === 0 ? true : locked;
+					break;
+				case 'prunable':
+					prunable = value.trim();
+					entry!.prunable = prunable.length === 0 ? true : prunable;
+					break;
+			}
+		}
+
+		if (entry != null) {
+			worktrees.push(createWorktree(entry, main, repoPath));
+		}
+
+		return worktrees;
+	}
+}
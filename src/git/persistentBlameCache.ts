@@ -0,0 +1,112 @@
+'use strict';
+import { TextDecoder, TextEncoder } from 'util';
+import { FileType, Uri, workspace } from 'vscode';
+import { Logger } from '../logger';
+import { debug, Strings } from '../system';
+
+const cacheVersion = 1;
+const maxEntries = 500;
+
+const textDecoder = new TextDecoder('utf8');
+const textEncoder = new TextEncoder();
+
+interface PersistentBlameCacheEntry {
+	version: number;
+	contentHash: string;
+	data: string;
+}
+
+export class PersistentBlameCache {
+	static getKey(...parts: (string | boolean | undefined)[]): string {
+		return Strings.sha1(parts.map(p => String(p ?? '')).join('\0'));
+	}
+
+	private readonly _folderUri: Uri;
+	private _pruned = false;
+
+	constructor(storageUri: Uri) {
+		this._folderUri = Uri.joinPath(storageUri, 'cache', 'blame');
+	}
+
+	@debug()
+	async get(key: string, contentHash: string): Promise<string | undefined> {
+		let entry: PersistentBlameCacheEntry;
+		try {
+			const bytes = await workspace.fs.readFile(this.getUri(key));
+			entry = JSON.parse(textDecoder.decode(bytes));
+		} catch {
+			return undefined;
+		}
+
+		if (entry.version === cacheVersion && entry.contentHash === contentHash) return entry.data;
+
+		// The content has changed since it was cached, so the entry is stale
+		void this.delete(key);
+		return undefined;
+	}
+
+	@debug({ args: { 2: () => false } })
+	async set(key: string, contentHash: string, data: string): Promise<void> {
+		const entry: PersistentBlameCacheEntry = {
+			version: cacheVersion,
+			contentHash: contentHash,
+			data: data,
+		};
+
+		try {
+			await workspace.fs.createDirectory(this._folderUri);
+			await workspace.fs.writeFile(this.getUri(key), textEncoder.encode(JSON.stringify(entry)));
+		} catch (ex) {
+			Logger.error(ex, 'PersistentBlameCache.set');
+			return;
+		}
+
+		if (!this._pruned) {
+			this._pruned = true;
+			void this.prune();
+		}
+	}
+
+	@debug()
+	async clear(): Promise<void> {
+		try {
+			await workspace.fs.delete(this._folderUri, { recursive: true, useTrash: false });
+		} catch {}
+	}
+
+	private async delete(keyOrUri: string | Uri) {
+		try {
+			await workspace.fs.delete(typeof keyOrUri === 'string' ? this.getUri(keyOrUri) : keyOrUri, {
+				useTrash: false,
+			});
+		} catch {}
+	}
+
+	private getUri(key: string) {
+		return Uri.joinPath(this._folderUri, `${key}.json`);
+	}
+
+	@debug()
+	private async prune() {
+		try {
+			const files = (await workspace.fs.readDirectory(this._folderUri)).filter(
+				([, type]) => type === FileType.File,
+			);
+			if (files.length <= maxEntries) return;
+
+			const entries = await Promise.all(
+				files.map(async ([name]) => {
+					const uri = Uri.joinPath(this._folderUri, name);
+					const stat = await workspace.fs.stat(uri);
+					return { uri: uri, mtime: stat.mtime };
+				}),
+			);
+
+			// Keep only the most recently written entries
+			entries.sort((a, b) => b.mtime - a.mtime);
+			await Promise.all(entries.slice(maxEntries).map(e => this.delete(e.uri)));
+		} catch (ex) {
+			Logger.error(ex, 'PersistentBlameCache.prune');
+		}
+	}
+}
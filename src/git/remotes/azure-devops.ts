@@ -1,9 +1,12 @@
 'use strict';
-import { Range, Uri } from 'vscode';
+import { AuthenticationSession, Range, Uri } from 'vscode';
 import { DynamicAutolinkReference } from '../../annotations/autolinks';
+import { AzureDevOpsPullRequest } from '../../azure-devops/azure-devops';
 import { AutolinkReference } from '../../config';
+import { Container } from '../../container';
+import { Account, IssueOrPullRequest, PullRequest, PullRequestState } from '../models/models';
 import { Repository } from '../models/repository';
-import { RemoteProvider } from './provider';
+import { TokenRichRemoteProvider } from './provider';
 
 const gitRegex = /\/_git\/?/i;
 const legacyDefaultCollectionRegex = /^DefaultCollection\//i;
@@ -14,7 +17,7 @@ const sshPathRegex = /^\/?v\d\//i;
 const fileRegex = /path=([^&]+)/i;
 const rangeRegex = /line=(\d+)(?:&lineEnd=(\d+))?/;
 
-export class AzureDevOpsRemote extends RemoteProvider {
+export class AzureDevOpsRemote extends TokenRichRemoteProvider {
 	constructor(domain: string, path: string, protocol?: string, name?: string, legacy: boolean = false) {
 		if (sshDomainRegex.test(domain)) {
 			path = path.replace(sshPathRegex, '');
@@ -42,6 +45,23 @@ export class AzureDevOpsRemote extends RemoteProvider {
 		super(domain, path, protocol, name);
 	}
 
+	/** The url of the organization and project, which is the base of all the project's REST APIs */
+	get apiBaseUrl() {
+		const index = this.path.search(gitRegex);
+		return `${this.protocol}://${this.domain}/${index !== -1 ? this.path.substring(0, index) : this.path}`;
+	}
+
+	protected get tokenUrl() {
+		// Legacy (visualstudio.com) urls have the organization in the domain rather than the path
+		return this.domain.toLowerCase() === 'dev.azure.com'
+			? `${this.protocol}://${this.domain}/${this.path.split('/')[0]}/_usersSettings/tokens`
+			: `${this.protocol}://${this.domain}/_usersSettings/tokens`;
+	}
+
+	private get repoName() {
+		return this.path.split(gitRegex)[1] ?? this.path.substring(this.path.lastIndexOf('/') + 1);
+	}
+
 	private _autolinks: (AutolinkReference | DynamicAutolinkReference)[] | undefined;
 	get autolinks(): (AutolinkReference | DynamicAutolinkReference)[] {
 		if (this._autolinks === undefined) {
@@ -140,4 +160,56 @@ export class AzureDevOpsRemote extends RemoteProvider {
 		if (branch) return `${this.baseUrl}/?path=/${fileName}&version=GB${branch}&_a=contents${line}`;
 		return `${this.baseUrl}?path=/${fileName}${line}`;
 	}
+
+	protected getProviderAccountForCommit(
+		_session: AuthenticationSession,
+		_ref: string,
+		_options?: {
+			avatarSize?: number;
+		},
+	): Promise<Account | undefined> {
+		return Promise.resolve(undefined);
+	}
+
+	protected getProviderAccountForEmail(
+		_session: AuthenticationSession,
+		_email: string,
+		_options?: {
+			avatarSize?: number;
+		},
+	): Promise<Account | undefined> {
+		return Promise.resolve(undefined);
+	}
+
+	protected async getProviderIssueOrPullRequest(
+		{ accessToken }: AuthenticationSession,
+		id: string,
+	): Promise<IssueOrPullRequest | undefined> {
+		return (await Container.azureDevOps)?.getWorkItem(this.name, accessToken, Number(id), {
+			baseUrl: this.apiBaseUrl,
+		});
+	}
+
+	protected async getProviderPullRequestForBranch(
+		{ accessToken }: AuthenticationSession,
+		branch: string,
+		options?: {
+			avatarSize?: number;
+			include?: PullRequestState[];
+		},
+	): Promise<PullRequest | undefined> {
+		return (await Container.azureDevOps)?.getPullRequestForBranch(this.name, accessToken, this.repoName, branch, {
+			include: options?.include?.map(s => AzureDevOpsPullRequest.toState(s)),
+			baseUrl: this.apiBaseUrl,
+		});
+	}
+
+	protected async getProviderPullRequestForCommit(
+		{ accessToken }: AuthenticationSession,
+		ref: string,
+	): Promise<PullRequest | undefined> {
+		return (await Container.azureDevOps)?.getPullRequestForCommit(this.name, accessToken, this.repoName, ref, {
+			baseUrl: this.apiBaseUrl,
+		});
+	}
 }
@@ -1,15 +1,17 @@
 'use strict';
-import { Range, Uri } from 'vscode';
+import { AuthenticationSession, Range, Uri } from 'vscode';
 import { DynamicAutolinkReference } from '../../annotations/autolinks';
+import { BitbucketServerPullRequest } from '../../bitbucket-server/bitbucket-server';
 import { AutolinkReference } from '../../config';
-import { GitRevision } from '../models/models';
+import { Container } from '../../container';
+import { Account, GitRevision, IssueOrPullRequest, PullRequest, PullRequestState } from '../models/models';
 import { Repository } from '../models/repository';
-import { RemoteProvider } from './provider';
+import { TokenRichRemoteProvider } from './provider';
 
 const fileRegex = /^\/([^/]+)\/([^/]+?)\/src(.+)$/i;
 const rangeRegex = /^lines-(\d+)(?::(\d+))?$/;
 
-export class BitbucketServerRemote extends RemoteProvider {
+export class BitbucketServerRemote extends TokenRichRemoteProvider {
 	constructor(domain: string, path: string, protocol?: string, name?: string, custom: boolean = false) {
 		super(domain, path, protocol, name, custom);
 	}
@@ -34,12 +36,18 @@ export class BitbucketServerRemote extends RemoteProvider {
 	}
 
 	protected get baseUrl(): string {
-		const [project, repo] = this.path.startsWith('scm/')
-			? this.path.replace('scm/', '').split('/')
-			: this.splitPath();
+		const [project, repo] = this.splitProjectAndRepo();
 		return `${this.protocol}://${this.domain}/projects/${project}/repos/${repo}`;
 	}
 
+	get apiBaseUrl() {
+		return `${this.protocol}://${this.domain}`;
+	}
+
+	protected get tokenUrl() {
+		return `${this.protocol}://${this.domain}/plugins/servlet/access-tokens/manage`;
+	}
+
 	get icon() {
 		return 'bitbucket';
 	}
@@ -141,4 +149,73 @@ export class BitbucketServerRemote extends RemoteProvider {
 		if (branch) return `${this.baseUrl}/browse/${fileName}?at=${branch}${line}`;
 		return `${this.baseUrl}/browse/${fileName}${line}`;
 	}
+
+	protected getProviderAccountForCommit(
+		_session: AuthenticationSession,
+		_ref: string,
+		_options?: {
+			avatarSize?: number;
+		},
+	): Promise<Account | undefined> {
+		return Promise.resolve(undefined);
+	}
+
+	protected getProviderAccountForEmail(
+		_session: AuthenticationSession,
+		_email: string,
+		_options?: {
+			avatarSize?: number;
+		},
+	): Promise<Account | undefined> {
+		return Promise.resolve(undefined);
+	}
+
+	protected getProviderIssueOrPullRequest(
+		_session: AuthenticationSession,
+		_id: string,
+	): Promise<IssueOrPullRequest | undefined> {
+		// Bitbucket Server has no issue tracker, and the autolinked ids don't say whether they are issues or pull requests
+		return Promise.resolve(undefined);
+	}
+
+	protected async getProviderPullRequestForBranch(
+		{ accessToken }: AuthenticationSession,
+		branch: string,
+		options?: {
+			avatarSize?: number;
+			include?: PullRequestState[];
+		},
+	): Promise<PullRequest | undefined> {
+		const [project, repo] = this.splitProjectAndRepo();
+		const { include, ...opts } = options ?? {};
+
+		return (await Container.bitbucketServer)?.getPullRequestForBranch(
+			this.name,
+			accessToken,
+			project,
+			repo,
+			branch,
+			{
+				...opts,
+				include: include?.map(s => BitbucketServerPullRequest.toState(s)),
+				baseUrl: this.apiBaseUrl,
+			},
+		);
+	}
+
+	protected async getProviderPullRequestForCommit(
+		{ accessToken }: AuthenticationSession,
+		ref: string,
+	): Promise<PullRequest | undefined> {
+		const [project, repo] = this.splitProjectAndRepo();
+		return (await Container.bitbucketServer)?.getPullRequestForCommit(this.name, accessToken, project, repo, ref, {
+			baseUrl: this.apiBaseUrl,
+		});
+	}
+
+	private splitProjectAndRepo(): [string, string] {
+		return this.path.startsWith('scm/')
+			? (this.path.replace('scm/', '').split('/') as [string, string])
+			: this.splitPath();
+	}
 }
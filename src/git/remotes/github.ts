@@ -4,7 +4,15 @@ import { DynamicAutolinkReference } from '../../annotations/autolinks';
 import { AutolinkReference } from '../../config';
 import { Container } from '../../container';
 import { GitHubPullRequest } from '../../github/github';
-import { Account, GitRevision, IssueOrPullRequest, PullRequest, PullRequestState, Repository } from '../models/models';
+import {
+	Account,
+	GitRevision,
+	IssueOrPullRequest,
+	PullRequest,
+	PullRequestDetails,
+	PullRequestState,
+	Repository,
+} from '../models/models';
 import { RichRemoteProvider } from './provider';
 
 const issueEnricher3rdParyRegex = /\b(\w+\\?-?\w+(?!\\?-)\/\w+\\?-?\w+(?!\\?-))\\?#([0-9]+)\b/g;
@@ -53,6 +61,10 @@ export class GitHubRemote extends RichRemoteProvider {
 		return this._autolinks;
 	}
 
+	get supportsPullRequestDetails() {
+		return true;
+	}
+
 	get icon() {
 		return 'github';
 	}
@@ -194,6 +206,16 @@ export class GitHubRemote extends RichRemoteProvider {
 		});
 	}
 
+	protected async getProviderPullRequestDetails(
+		{ accessToken }: AuthenticationSession,
+		id: string,
+	): Promise<PullRequestDetails | undefined> {
+		const [owner, repo] = this.splitPath();
+		return (await Container.github)?.getPullRequestDetails(accessToken, owner, repo, Number(id), {
+			baseUrl: this.apiBaseUrl,
+		});
+	}
+
 	protected async getProviderPullRequestForBranch(
 		{ accessToken }: AuthenticationSession,
 		branch: string,
@@ -1,19 +1,29 @@
 'use strict';
-import { Range, Uri } from 'vscode';
+import { AuthenticationSession, Range, Uri } from 'vscode';
 import { DynamicAutolinkReference } from '../../annotations/autolinks';
 import { AutolinkReference } from '../../config';
-import { GitRevision } from '../models/models';
+import { Container } from '../../container';
+import { GitLabMergeRequest } from '../../gitlab/gitlab';
+import { Account, GitRevision, IssueOrPullRequest, PullRequest, PullRequestState } from '../models/models';
 import { Repository } from '../models/repository';
-import { RemoteProvider } from './provider';
+import { TokenRichRemoteProvider } from './provider';
 
 const fileRegex = /^\/([^/]+)\/([^/]+?)\/-\/blob(.+)$/i;
 const rangeRegex = /^L(\d+)(?:-(\d+))?$/;
 
-export class GitLabRemote extends RemoteProvider {
+export class GitLabRemote extends TokenRichRemoteProvider {
 	constructor(domain: string, path: string, protocol?: string, name?: string, custom: boolean = false) {
 		super(domain, path, protocol, name, custom);
 	}
 
+	get apiBaseUrl() {
+		return `${this.protocol}://${this.domain}/api/v4`;
+	}
+
+	protected get tokenUrl() {
+		return `${this.protocol}://${this.domain}/-/profile/personal_access_tokens`;
+	}
+
 	private _autolinks: (AutolinkReference | DynamicAutolinkReference)[] | undefined;
 	get autolinks(): (AutolinkReference | DynamicAutolinkReference)[] {
 		if (this._autolinks === undefined) {
@@ -130,4 +140,65 @@ export class GitLabRemote extends RemoteProvider {
 		if (branch) return `${this.baseUrl}/blob/${branch}/${fileName}${line}`;
 		return `${this.baseUrl}?path=${fileName}${line}`;
 	}
+
+	protected async getProviderAccountForCommit(
+		{ accessToken }: AuthenticationSession,
+		ref: string,
+		options?: {
+			avatarSize?: number;
+		},
+	): Promise<Account | undefined> {
+		return (await Container.gitlab)?.getAccountForCommit(this.name, accessToken, this.path, ref, {
+			...options,
+			baseUrl: this.apiBaseUrl,
+		});
+	}
+
+	protected async getProviderAccountForEmail(
+		{ accessToken }: AuthenticationSession,
+		email: string,
+		options?: {
+			avatarSize?: number;
+		},
+	): Promise<Account | undefined> {
+		return (await Container.gitlab)?.getAccountForEmail(this.name, accessToken, this.path, email, {
+			...options,
+			baseUrl: this.apiBaseUrl,
+		});
+	}
+
+	protected async getProviderIssueOrPullRequest(
+		{ accessToken }: AuthenticationSession,
+		id: string,
+	): Promise<IssueOrPullRequest | undefined> {
+		return (await Container.gitlab)?.getIssueOrPullRequest(this.name, accessToken, this.path, Number(id), {
+			baseUrl: this.apiBaseUrl,
+		});
+	}
+
+	protected async getProviderPullRequestForBranch(
+		{ accessToken }: AuthenticationSession,
+		branch: string,
+		options?: {
+			avatarSize?: number;
+			include?: PullRequestState[];
+		},
+	): Promise<PullRequest | undefined> {
+		const { include, ...opts } = options ?? {};
+
+		return (await Container.gitlab)?.getPullRequestForBranch(this.name, accessToken, this.path, branch, {
+			...opts,
+			include: include?.map(s => GitLabMergeRequest.toState(s)),
+			baseUrl: this.apiBaseUrl,
+		});
+	}
+
+	protected async getProviderPullRequestForCommit(
+		{ accessToken }: AuthenticationSession,
+		ref: string,
+	): Promise<PullRequest | undefined> {
+		return (await Container.gitlab)?.getPullRequestForCommit(this.name, accessToken, this.path, ref, {
+			baseUrl: this.apiBaseUrl,
+		});
+	}
 }
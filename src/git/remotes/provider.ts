@@ -16,8 +16,17 @@ import { AutolinkReference } from '../../config';
 import { SyncedState, WorkspaceState } from '../../constants';
 import { Container } from '../../container';
 import { setKeysForSync } from '../../extension';
+import { Keychain } from '../../keychain';
 import { Logger } from '../../logger';
-import { Account, GitLogCommit, IssueOrPullRequest, PullRequest, PullRequestState, Repository } from '../models/models';
+import {
+	Account,
+	GitLogCommit,
+	IssueOrPullRequest,
+	PullRequest,
+	PullRequestDetails,
+	PullRequestState,
+	Repository,
+} from '../models/models';
 import { debug, gate, log, Promises } from '../../system';
 
 export enum RemoteResourceType {
@@ -269,7 +278,7 @@ export abstract class RichRemoteProvider extends RemoteProvider {
 	abstract get apiBaseUrl(): string;
 	protected abstract get authProvider(): { id: string; scopes: string[] };
 
-	private get key() {
+	protected get key() {
 		return this.custom ? `${this.name}:${this.domain}` : this.name;
 	}
 
@@ -324,6 +333,7 @@ export abstract class RichRemoteProvider extends RemoteProvider {
 		this._session = null;
 
 		if (disconnected) {
+			void this.deleteSession();
 			void Container.context.workspaceState.update(this.connectedKey, undefined);
 			void Container.context.workspaceState.update(this.disallowWorkspaceConnectionKey, true);
 
@@ -528,6 +538,39 @@ export abstract class RichRemoteProvider extends RemoteProvider {
 		ref: string,
 	): Promise<PullRequest | undefined>;
 
+	get supportsPullRequestDetails(): boolean {
+		return false;
+	}
+
+	@gate()
+	@debug()
+	async getPullRequestDetails(id: string): Promise<PullRequestDetails | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		const connected = this.maybeConnected ?? (await this.isConnected());
+		if (!connected) return undefined;
+
+		try {
+			const details = await this.getProviderPullRequestDetails(this._session!, id);
+			this.invalidClientExceptionCount = 0;
+			return details;
+		} catch (ex) {
+			Logger.error(ex, cc);
+
+			if (ex instanceof ClientError || ex instanceof AuthenticationError) {
+				this.handleClientException();
+			}
+			return undefined;
+		}
+	}
+
+	protected getProviderPullRequestDetails(
+		_session: AuthenticationSession,
+		_id: string,
+	): Promise<PullRequestDetails | undefined> {
+		return Promise.resolve(undefined);
+	}
+
 	@gate()
 	private async ensureSession(createIfNeeded: boolean): Promise<AuthenticationSession | undefined> {
 		if (this._session != null) return this._session;
@@ -549,9 +592,7 @@ export abstract class RichRemoteProvider extends RemoteProvider {
 
 		let session;
 		try {
-			session = await authentication.getSession(this.authProvider.id, this.authProvider.scopes, {
-				createIfNone: createIfNeeded,
-			});
+			session = await this.createSession(createIfNeeded);
 		} catch (ex) {
 			await Promise.all([
 				Container.context.workspaceState.update(this.connectedKey, undefined),
@@ -595,6 +636,16 @@ export abstract class RichRemoteProvider extends RemoteProvider {
 		return session ?? undefined;
 	}
 
+	protected async createSession(createIfNeeded: boolean): Promise<AuthenticationSession | undefined> {
+		return authentication.getSession(this.authProvider.id, this.authProvider.scopes, {
+			createIfNone: createIfNeeded,
+		});
+	}
+
+	protected async deleteSession(): Promise<void> {
+		// Sessions are owned by the VS Code authentication provider, so there is nothing to delete
+	}
+
 	@gate()
 	private async promptToAllow(retry: boolean = false) {
 		const allow: MessageItem = { title: 'Allow' };
@@ -627,3 +678,56 @@ export abstract class RichRemoteProvider extends RemoteProvider {
 		}
 	}
 }
+
+const sessionOnlyTokens = new Map<string, string>();
+
+export abstract class TokenRichRemoteProvider extends RichRemoteProvider {
+	protected get authProvider() {
+		return { id: `gitlens:token:${this.key}`, scopes: [] };
+	}
+
+	/** The url of the page where a personal access token can be created */
+	protected abstract get tokenUrl(): string | undefined;
+
+	private get tokenKey() {
+		return `provider:token:${this.key}`;
+	}
+
+	protected async createSession(createIfNeeded: boolean): Promise<AuthenticationSession | undefined> {
+		let token = sessionOnlyTokens.get(this.tokenKey) ?? (await Keychain.get(this.tokenKey));
+		if (!token) {
+			if (!createIfNeeded) return undefined;
+
+			token = await window.showInputBox({
+				ignoreFocusOut: true,
+				password: true,
+				placeHolder: `${this.name} personal access token`,
+				prompt: `Enter a personal access token to connect to ${this.name}${
+					this.tokenUrl != null ? ` (you can create one at ${this.tokenUrl})` : ''
+				}`,
+			});
+			if (!token) return undefined;
+
+			// Never store the token unencrypted, so if the keychain is unavailable only keep it for this session
+			if (!(await Keychain.set(this.tokenKey, token))) {
+				sessionOnlyTokens.set(this.tokenKey, token);
+
+				void window.showWarningMessage(
+					`Unable to securely store the ${this.name} personal access token, so it will only be used until VS Code is restarted`,
+				);
+			}
+		}
+
+		return {
+			id: this.tokenKey,
+			accessToken: token,
+			account: { id: this.domain, label: this.name },
+			scopes: [],
+		};
+	}
+
+	protected async deleteSession(): Promise<void> {
+		sessionOnlyTokens.delete(this.tokenKey);
+		await Keychain.remove(this.tokenKey);
+	}
+}
@@ -13,7 +13,14 @@ export type SearchOperators =
 	| '?:'
 	| 'file:'
 	| '~:'
-	| 'change:';
+	| 'change:'
+	| 'exact:'
+	| 'after:'
+	| 'before:'
+	| 'branch:'
+	| 'ref:'
+	| 'committer:'
+	| 'type:';
 
 export const searchOperators = new Set<string>([
 	'',
@@ -27,6 +34,13 @@ export const searchOperators = new Set<string>([
 	'file:',
 	'~:',
 	'change:',
+	'exact:',
+	'after:',
+	'before:',
+	'branch:',
+	'ref:',
+	'committer:',
+	'type:',
 ]);
 
 export interface SearchPattern {
@@ -39,9 +53,11 @@ export interface SearchPattern {
 export namespace SearchPattern {
 	const emptyStr = '';
 
-	const searchMessageOperationRegex = /(?=(.*?)\s?(?:(?:=:|message:|@:|author:|#:|commit:|\?:|file:|~:|change:)|$))/;
+	const doubleQuoteRegex = /"/g;
+
+	const searchMessageOperationRegex = /(?=(.*?)\s?(?:(?:=:|message:|@:|author:|#:|commit:|\?:|file:|~:|change:|exact:|after:|before:|branch:|ref:|committer:|type:)|$))/;
 	const searchMessageValuesRegex = /(".+"|[^\b\s]+)/g;
-	const searchOperationRegex = /((?:=|message|@|author|#|commit|\?|file|~|change):)\s?(?=(.*?)\s?(?:(?:=:|message:|@:|author:|#:|commit:|\?:|file:|~:|change:)|$))/g;
+	const searchOperationRegex = /((?:=|message|@|author|#|commit|\?|file|~|change|exact|after|before|branch|ref|committer|type):)\s?(?=(.*?)\s?(?:(?:=:|message:|@:|author:|#:|commit:|\?:|file:|~:|change:|exact:|after:|before:|branch:|ref:|committer:|type:)|$))/g;
 
 	export function fromCommit(ref: string): string;
 	export function fromCommit(commit: GitRevisionReference): string;
@@ -135,6 +151,46 @@ export namespace SearchPattern {
 		} while (true);
 	}
 
+	export function toChangedLineMatcher(search: SearchPattern): ((line: string) => boolean) | undefined {
+		const operations = parseSearchOperations(search.pattern);
+
+		const ignoreCase = (search.matchRegex ?? true) && !search.matchCase;
+		const matchers: ((line: string) => boolean)[] = [];
+
+		let values = operations.get('change:');
+		if (values != null) {
+			for (const value of values) {
+				let regex: RegExp;
+				try {
+					regex = new RegExp(value, ignoreCase ? 'i' : undefined);
+				} catch {
+					continue;
+				}
+
+				matchers.push(line => regex.test(line));
+			}
+		}
+
+		values = operations.get('exact:');
+		if (values != null) {
+			for (let value of values) {
+				value = value.replace(doubleQuoteRegex, emptyStr);
+				if (value.length === 0) continue;
+
+				if (ignoreCase) {
+					value = value.toLocaleLowerCase();
+					matchers.push(line => line.toLocaleLowerCase().includes(value));
+				} else {
+					matchers.push(line => line.includes(value));
+				}
+			}
+		}
+
+		if (matchers.length === 0) return undefined;
+
+		return (line: string) => matchers.some(m => m(line));
+	}
+
 	export function toKey(search: SearchPattern) {
 		return `${search.pattern}|${search.matchAll ? 'A' : ''}${search.matchCase ? 'C' : ''}${
 			search.matchRegex ? 'R' : ''
@@ -153,4 +209,11 @@ export const normalizeSearchOperatorsMap = new Map<SearchOperators, SearchOperat
 	['file:', 'file:'],
 	['~:', 'change:'],
 	['change:', 'change:'],
+	['exact:', 'exact:'],
+	['after:', 'after:'],
+	['before:', 'before:'],
+	['branch:', 'ref:'],
+	['ref:', 'ref:'],
+	['committer:', 'committer:'],
+	['type:', 'type:'],
 ]);
@@ -126,6 +126,11 @@ export interface RunOptions {
 	 * enough for most Git operations.
 	 */
 	readonly maxBuffer?: number;
+	/**
+	 * An optional callback which will be called with each chunk
+	 * of the child process stdout stream as it is received.
+	 */
+	readonly onStdout?: (data: string) => void;
 	/**
 	 * An optional string or buffer which will be written to
 	 * the child process stdin stream immediately immediately
@@ -172,7 +177,7 @@ export function run<TOut extends string | Buffer>(
 	encoding: BufferEncoding | 'buffer',
 	options: RunOptions = {},
 ): Promise<TOut> {
-	const { stdin, stdinEncoding, ...opts }: RunOptions = { maxBuffer: 100 * 1024 * 1024, ...options };
+	const { onStdout, stdin, stdinEncoding, ...opts }: RunOptions = { maxBuffer: 100 * 1024 * 1024, ...options };
 
 	return new Promise<TOut>((resolve, reject) => {
 		const proc = execFile(command, args, opts, (error: ExecException | null, stdout, stderr) => {
@@ -204,6 +209,10 @@ export function run<TOut extends string | Buffer>(
 			);
 		});
 
+		if (onStdout != null) {
+			proc.stdout?.on('data', (data: string | Buffer) => onStdout(data.toString()));
+		}
+
 		if (stdin != null) {
 			proc.stdin?.end(stdin, stdinEncoding ?? 'utf8');
 		}
@@ -2,7 +2,16 @@
 import { graphql } from '@octokit/graphql';
 import { Logger } from '../logger';
 import { debug } from '../system';
-import { AuthenticationError, ClientError, IssueOrPullRequest, PullRequest, PullRequestState } from '../git/git';
+import {
+	AuthenticationError,
+	ClientError,
+	IssueOrPullRequest,
+	PullRequest,
+	PullRequestChecksState,
+	PullRequestDetails,
+	PullRequestReviewState,
+	PullRequestState,
+} from '../git/git';
 import { Account } from '../git/models/author';
 
 export class GitHubApi {
@@ -225,6 +234,136 @@ export class GitHubApi {
 		}
 	}
 
+	@debug({
+		args: {
+			0: _ => '<token>',
+		},
+	})
+	async getPullRequestDetails(
+		token: string,
+		owner: string,
+		repo: string,
+		number: number,
+		options?: {
+			baseUrl?: string;
+		},
+	): Promise<PullRequestDetails | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			const query = `query pr($owner: String!, $repo: String!, $number: Int!) {
+	repository(name: $repo, owner: $owner) {
+		pullRequest(number: $number) {
+			baseRefName
+			baseRefOid
+			headRefName
+			headRefOid
+			reviewDecision
+			reviewThreads(first: 100) {
+				totalCount
+				nodes {
+					isResolved
+				}
+				pageInfo {
+					endCursor
+					hasNextPage
+				}
+			}
+			commits(last: 1) {
+				nodes {
+					commit {
+						statusCheckRollup {
+							state
+							contexts(first: 100) {
+								nodes {
+									__typename
+									... on CheckRun {
+										conclusion
+									}
+									... on StatusContext {
+										state
+									}
+								}
+							}
+						}
+					}
+				}
+			}
+		}
+	}
+}`;
+
+			const rsp = await graphql<{
+				repository: { pullRequest: GitHubPullRequestDetails | null | undefined } | null | undefined;
+			}>(query, {
+				owner: owner,
+				repo: repo,
+				number: number,
+				headers: { authorization: `Bearer ${token}` },
+				...options,
+			});
+
+			const pr = rsp?.repository?.pullRequest;
+			if (pr == null) return undefined;
+
+			// Page through the rest of the review threads, so the count of unresolved threads is complete
+			let { pageInfo } = pr.reviewThreads;
+			const threadsQuery = `query reviewThreads($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+	repository(name: $repo, owner: $owner) {
+		pullRequest(number: $number) {
+			reviewThreads(first: 100, after: $cursor) {
+				totalCount
+				nodes {
+					isResolved
+				}
+				pageInfo {
+					endCursor
+					hasNextPage
+				}
+			}
+		}
+	}
+}`;
+
+			while (pageInfo.hasNextPage) {
+				const threadsRsp = await graphql<{
+					repository:
+						| {
+								pullRequest:
+									| { reviewThreads: GitHubPullRequestDetails['reviewThreads'] }
+									| null
+									| undefined;
+						  }
+						| null
+						| undefined;
+				}>(threadsQuery, {
+					owner: owner,
+					repo: repo,
+					number: number,
+					cursor: pageInfo.endCursor,
+					headers: { authorization: `Bearer ${token}` },
+					...options,
+				});
+
+				const threads = threadsRsp?.repository?.pullRequest?.reviewThreads;
+				if (threads == null) break;
+
+				pr.reviewThreads.nodes.push(...threads.nodes);
+				pageInfo = threads.pageInfo;
+			}
+
+			return GitHubPullRequest.toDetails(pr);
+		} catch (ex) {
+			Logger.error(ex, cc);
+
+			if (ex.code >= 400 && ex.code <= 500) {
+				if (ex.code === 401) throw new AuthenticationError(ex);
+				throw new ClientError(ex);
+			}
+			throw ex;
+		}
+	}
+
 	@debug({
 		args: {
 			1: _ => '<token>',
@@ -450,6 +589,49 @@ interface GitHubPullRequest {
 	};
 }
 
+type GitHubCheckConclusion =
+	| 'ACTION_REQUIRED'
+	| 'CANCELLED'
+	| 'FAILURE'
+	| 'NEUTRAL'
+	| 'SKIPPED'
+	| 'STALE'
+	| 'STARTUP_FAILURE'
+	| 'SUCCESS'
+	| 'TIMED_OUT';
+type GitHubStatusState = 'ERROR' | 'EXPECTED' | 'FAILURE' | 'PENDING' | 'SUCCESS';
+
+interface GitHubPullRequestDetails {
+	baseRefName: string;
+	baseRefOid: string;
+	headRefName: string;
+	headRefOid: string;
+	reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+	reviewThreads: {
+		totalCount: number;
+		nodes: { isResolved: boolean }[];
+		pageInfo: {
+			endCursor: string | null;
+			hasNextPage: boolean;
+		};
+	};
+	commits: {
+		nodes: {
+			commit: {
+				statusCheckRollup: {
+					state: GitHubStatusState;
+					contexts: {
+						nodes: (
+							| { __typename: 'CheckRun'; conclusion: GitHubCheckConclusion | null }
+							| { __typename: 'StatusContext'; state: GitHubStatusState }
+						)[];
+					};
+				} | null;
+			};
+		}[];
+	};
+}
+
 export namespace GitHubPullRequest {
 	export function from(pr: GitHubPullRequest, provider: string): PullRequest {
 		return new PullRequest(
@@ -480,4 +662,70 @@ export namespace GitHubPullRequest {
 	export function toState(state: PullRequestState): GitHubPullRequestState {
 		return state === PullRequestState.Merged ? 'MERGED' : state === PullRequestState.Closed ? 'CLOSED' : 'OPEN';
 	}
+
+	export function toDetails(pr: GitHubPullRequestDetails): PullRequestDetails {
+		let checks;
+
+		const rollup = pr.commits.nodes[0]?.commit.statusCheckRollup;
+		if (rollup != null) {
+			let passed = 0;
+			let failed = 0;
+			let pending = 0;
+
+			for (const context of rollup.contexts.nodes) {
+				const result =
+					context.__typename === 'CheckRun'
+						? context.conclusion == null
+							? 'PENDING'
+							: context.conclusion === 'SUCCESS' ||
+							  context.conclusion === 'NEUTRAL' ||
+							  context.conclusion === 'SKIPPED'
+							? 'SUCCESS'
+							: 'FAILURE'
+						: context.state === 'SUCCESS'
+						? 'SUCCESS'
+						: context.state === 'FAILURE' || context.state === 'ERROR'
+						? 'FAILURE'
+						: 'PENDING';
+
+				if (result === 'SUCCESS') {
+					passed++;
+				} else if (result === 'FAILURE') {
+					failed++;
+				} else {
+					pending++;
+				}
+			}
+
+			checks = {
+				state:
+					rollup.state === 'SUCCESS'
+						? PullRequestChecksState.Success
+						: rollup.state === 'FAILURE' || rollup.state === 'ERROR'
+						? PullRequestChecksState.Failure
+						: PullRequestChecksState.Pending,
+				passed: passed,
+				failed: failed,
+				pending: pending,
+			};
+		}
+
+		return {
+			base: { branch: pr.baseRefName, sha: pr.baseRefOid },
+			head: { branch: pr.headRefName, sha: pr.headRefOid },
+			reviewState:
+				pr.reviewDecision === 'APPROVED'
+					? PullRequestReviewState.Approved
+					: pr.reviewDecision === 'CHANGES_REQUESTED'
+					? PullRequestReviewState.ChangesRequested
+					: pr.reviewDecision === 'REVIEW_REQUIRED'
+					? PullRequestReviewState.ReviewRequired
+					: undefined,
+			checks: checks,
+			reviewThreads: {
+				total: pr.reviewThreads.totalCount,
+				unresolved: pr.reviewThreads.nodes.filter(t => !t.isResolved).length,
+			},
+		};
+	}
 }
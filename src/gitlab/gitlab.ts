@@ -0,0 +1,305 @@
+'use strict';
+import { Logger } from '../logger';
+import { debug, Http } from '../system';
+import { AuthenticationError, ClientError, IssueOrPullRequest, PullRequest, PullRequestState } from '../git/git';
+import { Account } from '../git/models/author';
+
+export class GitLabApi {
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getAccountForCommit(
+		provider: string,
+		token: string,
+		projectPath: string,
+		ref: string,
+		options: {
+			baseUrl: string;
+			avatarSize?: number;
+		},
+	): Promise<Account | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			const commit = await request<GitLabCommit>(
+				options.baseUrl,
+				token,
+				`/projects/${encodeURIComponent(projectPath)}/repository/commits/${encodeURIComponent(ref)}`,
+			);
+			if (commit == null) return undefined;
+
+			const user = await this.findUserByEmail(token, commit.author_email, options);
+			return {
+				provider: provider,
+				name: user?.name ?? commit.author_name,
+				email: commit.author_email,
+				avatarUrl: user?.avatar_url ?? '',
+			};
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getAccountForEmail(
+		provider: string,
+		token: string,
+		projectPath: string,
+		email: string,
+		options: {
+			baseUrl: string;
+			avatarSize?: number;
+		},
+	): Promise<Account | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			const user = await this.findUserByEmail(token, email, options);
+			if (user == null) return undefined;
+
+			return {
+				provider: provider,
+				name: user.name ?? undefined,
+				email: email,
+				avatarUrl: user.avatar_url ?? '',
+			};
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getIssueOrPullRequest(
+		provider: string,
+		token: string,
+		projectPath: string,
+		number: number,
+		options: {
+			baseUrl: string;
+		},
+	): Promise<IssueOrPullRequest | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			// GitLab numbers issues (#) and merge requests (!) separately, and only issues are autolinked with #
+			const issue = await request<GitLabIssue>(
+				options.baseUrl,
+				token,
+				`/projects/${encodeURIComponent(projectPath)}/issues/${number}`,
+			);
+			if (issue == null) return undefined;
+
+			return {
+				provider: provider,
+				type: 'Issue',
+				id: number,
+				date: new Date(issue.created_at),
+				title: issue.title,
+				closed: issue.state === 'closed',
+				closedDate: issue.closed_at == null ? undefined : new Date(issue.closed_at),
+			};
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getPullRequestForBranch(
+		provider: string,
+		token: string,
+		projectPath: string,
+		branch: string,
+		options: {
+			baseUrl: string;
+			avatarSize?: number;
+			include?: GitLabMergeRequestState[];
+		},
+	): Promise<PullRequest | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			// GitLab only supports filtering by a single state, so filter any others ourselves
+			const state = options.include?.length === 1 ? `&state=${options.include[0]}` : '';
+
+			let mrs = await request<GitLabMergeRequest[]>(
+				options.baseUrl,
+				token,
+				`/projects/${encodeURIComponent(projectPath)}/merge_requests?source_branch=${encodeURIComponent(
+					branch,
+				)}${state}&order_by=updated_at&sort=desc&per_page=10`,
+			);
+			if (options.include != null && options.include.length > 1) {
+				mrs = mrs?.filter(mr => options.include!.includes(mr.state === 'locked' ? 'opened' : mr.state));
+			}
+			if (mrs == null || mrs.length === 0) return undefined;
+
+			return GitLabMergeRequest.from(sortMergeRequests(mrs)[0], provider);
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+
+	@debug({
+		args: {
+			1: _ => '<token>',
+		},
+	})
+	async getPullRequestForCommit(
+		provider: string,
+		token: string,
+		projectPath: string,
+		ref: string,
+		options: {
+			baseUrl: string;
+			avatarSize?: number;
+		},
+	): Promise<PullRequest | undefined> {
+		const cc = Logger.getCorrelationContext();
+
+		try {
+			const project = `/projects/${encodeURIComponent(projectPath)}`;
+
+			// Filter to ensure we only get merge requests into this project, as GitLab also returns ones from forks
+			const mrs = (
+				await request<GitLabMergeRequest[]>(
+					options.baseUrl,
+					token,
+					`${project}/repository/commits/${encodeURIComponent(ref)}/merge_requests`,
+				)
+			)?.filter(mr => mr.web_url.includes(`/${projectPath}/-/merge_requests/`));
+			if (mrs == null || mrs.length === 0) return undefined;
+
+			return GitLabMergeRequest.from(sortMergeRequests(mrs)[0], provider);
+		} catch (ex) {
+			Logger.error(ex, cc);
+			throw toError(ex);
+		}
+	}
+
+	private async findUserByEmail(
+		token: string,
+		email: string | undefined,
+		options: { baseUrl: string },
+	): Promise<GitLabUser | undefined> {
+		if (!email) return undefined;
+
+		const users = await request<GitLabUser[]>(options.baseUrl, token, `/users?search=${encodeURIComponent(email)}`);
+
+		// The search is fuzzy, so only use a user whose email matches exactly (only admins can see `email`)
+		email = email.toLowerCase();
+		return users?.find(u => u.public_email?.toLowerCase() === email || u.email?.toLowerCase() === email);
+	}
+}
+
+function request<T>(baseUrl: string, token: string, route: string): Promise<T | undefined> {
+	return Http.requestJson<T>(`${baseUrl}${route}`, { headers: { 'PRIVATE-TOKEN': token } });
+}
+
+function sortMergeRequests(mrs: GitLabMergeRequest[]): GitLabMergeRequest[] {
+	if (mrs.length > 1) {
+		mrs.sort(
+			(a, b) =>
+				(a.state === 'opened' ? -1 : 1) - (b.state === 'opened' ? -1 : 1) ||
+				new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime(),
+		);
+	}
+	return mrs;
+}
+
+function toError(ex: Error) {
+	if (ex instanceof Http.HttpError && ex.code >= 400 && ex.code <= 500) {
+		if (ex.code === 401) return new AuthenticationError(ex);
+		return new ClientError(ex);
+	}
+	return ex;
+}
+
+interface GitLabCommit {
+	author_name: string;
+	author_email: string;
+}
+
+interface GitLabIssue {
+	iid: number;
+	title: string;
+	state: 'opened' | 'closed';
+	created_at: string;
+	closed_at: string | null;
+}
+
+interface GitLabUser {
+	email?: string | null;
+	name: string | null;
+	public_email?: string | null;
+	username: string;
+	avatar_url: string | null;
+	web_url: string;
+}
+
+type GitLabMergeRequestState = 'opened' | 'closed' | 'merged';
+
+interface GitLabMergeRequest {
+	iid: number;
+	title: string;
+	state: GitLabMergeRequestState | 'locked';
+	web_url: string;
+	updated_at: string;
+	closed_at: string | null;
+	merged_at: string | null;
+	author: {
+		name: string;
+		username: string;
+		avatar_url: string | null;
+		web_url: string;
+	};
+}
+
+export namespace GitLabMergeRequest {
+	export function from(mr: GitLabMergeRequest, provider: string): PullRequest {
+		return new PullRequest(
+			provider,
+			{
+				name: mr.author.username,
+				avatarUrl: mr.author.avatar_url ?? '',
+				url: mr.author.web_url,
+			},
+			String(mr.iid),
+			mr.title,
+			mr.web_url,
+			fromState(mr.state),
+			new Date(mr.updated_at),
+			mr.closed_at == null ? undefined : new Date(mr.closed_at),
+			mr.merged_at == null ? undefined : new Date(mr.merged_at),
+		);
+	}
+
+	export function fromState(state: GitLabMergeRequestState | 'locked'): PullRequestState {
+		return state === 'merged'
+			? PullRequestState.Merged
+			: state === 'closed'
+			? PullRequestState.Closed
+			: PullRequestState.Open;
+	}
+
+	export function toState(state: PullRequestState): GitLabMergeRequestState {
+		return state === PullRequestState.Merged ? 'merged' : state === PullRequestState.Closed ? 'closed' : 'opened';
+	}
+}
@@ -1,6 +1,6 @@
 'use strict';
 import { MarkdownString } from 'vscode';
-import { DiffWithCommand, ShowQuickCommitCommand } from '../commands';
+import { Commands, DiffWithCommand, ShowQuickCommitCommand } from '../commands';
 import { GlyphChars } from '../constants';
 import { Container } from '../container';
 import {
@@ -189,11 +189,28 @@ export namespace Hovers {
 
 		const remotes = await Container.git.getRemotes(commit.repoPath, { sort: true });
 
-		const [previousLineDiffUris, autolinkedIssuesOrPullRequests, pr, presence] = await Promise.all([
+		const [
+			previousLineDiffUris,
+			autolinkedIssuesOrPullRequests,
+			pr,
+			presence,
+			notes,
+			signature,
+			codeOwners,
+			ignoreRevs,
+		] = await Promise.all([
 			commit.isUncommitted ? commit.getPreviousLineDiffUris(uri, editorLine, uri.sha) : undefined,
 			getAutoLinkedIssuesOrPullRequests(commit.message, remotes),
 			getPullRequestForCommit(commit.ref, remotes),
 			Container.vsls.maybeGetPresence(commit.email).catch(() => undefined),
+			CommitFormatter.has(Container.config.hovers.detailsMarkdownFormat, 'notes') ? commit.getNotes() : undefined,
+			CommitFormatter.has(Container.config.hovers.detailsMarkdownFormat, 'signature')
+				? commit.getSignature()
+				: undefined,
+			CommitFormatter.has(Container.config.hovers.detailsMarkdownFormat, 'owners')
+				? Container.git.getCodeOwners(commit.repoPath)
+				: undefined,
+			commit.isUncommitted ? undefined : Container.git.getBlameIgnoreRevs(commit.repoPath),
 		]);
 
 		const details = await CommitFormatter.fromTemplateAsync(Container.config.hovers.detailsMarkdownFormat, commit, {
@@ -202,17 +219,50 @@ export namespace Hovers {
 			line: editorLine,
 			markdown: true,
 			messageAutolinks: Container.config.hovers.autolinks.enabled,
+			notes: notes,
+			owners: codeOwners?.getOwners(uri.relativePath),
 			pullRequestOrRemote: pr,
 			presence: presence,
 			previousLineDiffUris: previousLineDiffUris,
 			remotes: remotes,
+			signature: signature,
 		});
 
-		const markdown = new MarkdownString(details, true);
+		let ignored = '';
+		if (ignoreRevs?.shas.has(commit.sha)) {
+			ignored = `$(eye-closed) __Ignored revision__ &mdash; listed in \`${ignoreRevs.path}\`, but blame couldn't pass this line to an earlier commit\n\n---\n\n`;
+		}
+
+		const markdown = new MarkdownString(`${ignored}${details}${getBlameBreadcrumbs(uri)}`, true);
 		markdown.isTrusted = true;
 		return markdown;
 	}
 
+	function getBlameBreadcrumbs(uri: GitUri): string {
+		const back = Container.fileAnnotations.blameBreadcrumbs.back(uri);
+		const forward = Container.fileAnnotations.blameBreadcrumbs.forward(uri);
+		if (back == null && forward == null) return '';
+
+		const links = [];
+		if (back != null) {
+			links.push(
+				`[$(arrow-left) Back](command:${Commands.BlameHistoryBack} "Back to ${GitRevision.shorten(
+					back.uri.sha,
+					{ strings: { working: 'Working Tree' } },
+				)}")`,
+			);
+		}
+		if (forward != null) {
+			links.push(
+				`[$(arrow-right) Forward](command:${
+					Commands.BlameHistoryForward
+				} "Forward to ${GitRevision.shorten(forward.uri.sha, { strings: { working: 'Working Tree' } })}")`,
+			);
+		}
+
+		return `\n\n---\n\n${links.join('&nbsp;&nbsp;|&nbsp;&nbsp;')}`;
+	}
+
 	function getDiffFromHunk(hunk: GitDiffHunk): string {
 		return `\`\`\`diff\n${hunk.diff.trim()}\n\`\`\``;
 	}
@@ -0,0 +1,72 @@
+'use strict';
+import { env } from 'vscode';
+import { Logger } from './logger';
+
+// Webpack leaves this as a plain (runtime) `require`, rather than trying to bundle the module
+// eslint-disable-next-line @typescript-eslint/naming-convention
+declare const __non_webpack_require__: (id: string) => any;
+
+interface Keytar {
+	deletePassword(service: string, account: string): Promise<boolean>;
+	getPassword(service: string, account: string): Promise<string | null>;
+	setPassword(service: string, account: string, password: string): Promise<void>;
+}
+
+const keychainService = 'vscode-gitlens';
+
+let keytar: Keytar | null | undefined;
+
+function getKeytar(): Keytar | undefined {
+	if (keytar === undefined) {
+		keytar = null;
+
+		// VS Code ships keytar, but doesn't expose it through its api, so load it from VS Code's own modules
+		for (const path of [`${env.appRoot}/node_modules.asar/keytar`, `${env.appRoot}/node_modules/keytar`]) {
+			try {
+				keytar = __non_webpack_require__(path) as Keytar;
+				break;
+			} catch {}
+		}
+
+		if (keytar == null) {
+			Logger.log('Keychain (keytar) is unavailable');
+		}
+	}
+
+	return keytar ?? undefined;
+}
+
+export namespace Keychain {
+	export async function get(account: string): Promise<string | undefined> {
+		try {
+			return (await getKeytar()?.getPassword(keychainService, account)) ?? undefined;
+		} catch (ex) {
+			Logger.error(ex, 'Keychain.get');
+			return undefined;
+		}
+	}
+
+	/**
+	 * Stores the value in the OS keychain, and returns `false` if the keychain is unavailable
+	 */
+	export async function set(account: string, value: string): Promise<boolean> {
+		const keytar = getKeytar();
+		if (keytar == null) return false;
+
+		try {
+			await keytar.setPassword(keychainService, account, value);
+			return true;
+		} catch (ex) {
+			Logger.error(ex, 'Keychain.set');
+			return false;
+		}
+	}
+
+	export async function remove(account: string): Promise<void> {
+		try {
+			await getKeytar()?.deletePassword(keychainService, account);
+		} catch (ex) {
+			Logger.error(ex, 'Keychain.remove');
+		}
+	}
+}
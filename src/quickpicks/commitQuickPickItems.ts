@@ -1,10 +1,10 @@
 'use strict';
 import * as paths from 'path';
-import { QuickPickItem, window } from 'vscode';
+import { env, QuickPickItem, window } from 'vscode';
 import { Commands, GitActions, OpenChangedFilesCommandArgs } from '../commands';
 import { GlyphChars } from '../constants';
 import { Container } from '../container';
-import { CommitFormatter, GitFile, GitLogCommit, GitStatusFile } from '../git/git';
+import { CommitFormatter, GitCommitSignature, GitFile, GitLogCommit, GitStatusFile } from '../git/git';
 import { Keys } from '../keyboard';
 import { CommandQuickPickItem } from './quickPicksItems';
 import { Strings } from '../system';
@@ -71,6 +71,28 @@ export class CommitFileQuickPickItem extends CommandQuickPickItem {
 	}
 }
 
+export class CommitSignatureQuickPickItem extends CommandQuickPickItem {
+	constructor(readonly commit: GitLogCommit, readonly signature: GitCommitSignature) {
+		super({
+			label: `${GitCommitSignature.getStatusCodicon(signature.status)} ${GitCommitSignature.toString(signature)}`,
+			description: signature.key,
+		});
+	}
+
+	async execute(): Promise<void> {
+		if (this.signature.key == null) return;
+
+		await env.clipboard.writeText(this.signature.key);
+	}
+
+	async onDidPressKey(key: Keys): Promise<void> {
+		await super.onDidPressKey(key);
+		if (this.signature.key == null) return;
+
+		void window.showInformationMessage('Signing key copied to the clipboard');
+	}
+}
+
 export class CommitBrowseRepositoryFromHereCommandQuickPickItem extends CommandQuickPickItem {
 	constructor(
 		private readonly commit: GitLogCommit,
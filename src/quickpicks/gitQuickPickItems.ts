@@ -12,6 +12,7 @@ import {
 	GitRevision,
 	GitStashCommit,
 	GitTag,
+	GitWorktree,
 	Repository,
 } from '../git/git';
 import { CommandQuickPickItem, QuickPickItemOfT } from './quickPicksItems';
@@ -417,3 +418,54 @@ export namespace TagQuickPickItem {
 		return item;
 	}
 }
+
+export interface WorktreeQuickPickItem extends QuickPickItemOfT<GitWorktree> {
+	readonly current: boolean;
+}
+
+export namespace WorktreeQuickPickItem {
+	export function create(
+		worktree: GitWorktree,
+		picked?: boolean,
+		options: {
+			alwaysShow?: boolean;
+			current?: boolean;
+			path?: boolean;
+		} = {},
+	) {
+		let description = '';
+		switch (worktree.type) {
+			case 'bare':
+				description = '(bare)';
+				break;
+			case 'branch':
+				description = `${Strings.pad('$(git-branch)', 0, 2)}${worktree.branch}`;
+				break;
+			case 'detached':
+				description = `${Strings.pad('$(git-commit)', 0, 2)}${worktree.shortSha}`;
+				break;
+		}
+
+		if (worktree.main) {
+			description = `${description}${Strings.pad(GlyphChars.Dot, 2, 2)}main`;
+		}
+
+		if (worktree.locked !== false) {
+			description = `${description}${Strings.pad(GlyphChars.Dot, 2, 2)}$(lock) locked`;
+		}
+
+		const item: WorktreeQuickPickItem = {
+			label: `${Strings.pad('$(folder)', 0, 2)}${worktree.name}${
+				options.current ? `${GlyphChars.Space.repeat(2)}$(check)${GlyphChars.Space}` : ''
+			}`,
+			description: description,
+			detail: options.path ? worktree.path : undefined,
+			alwaysShow: options.alwaysShow,
+			picked: picked,
+			item: worktree,
+			current: options.current ?? false,
+		};
+
+		return item;
+	}
+}
@@ -25,6 +25,7 @@ export * from './system/decorators/log';
 export * from './system/decorators/memoize';
 export * from './system/decorators/timeout';
 export * as Functions from './system/function';
+export * as Http from './system/http';
 export * as Iterables from './system/iterable';
 export * as Objects from './system/object';
 export * as Promises from './system/promise';
@@ -0,0 +1,73 @@
+'use strict';
+import * as http from 'http';
+import * as https from 'https';
+import { URL } from 'url';
+
+export class HttpError extends Error {
+	constructor(public readonly code: number, message: string) {
+		super(message);
+
+		Error.captureStackTrace(this, HttpError);
+	}
+}
+
+const defaultTimeout = 30000;
+
+/**
+ * Requests JSON from the specified url
+ * @param options.timeout Milliseconds of inactivity after which the request is aborted (defaults to 30 seconds)
+ * @returns The parsed response, or `undefined` if the resource wasn't found (404)
+ */
+export function requestJson<T>(
+	url: string,
+	options: { body?: unknown; headers?: Record<string, string>; method?: 'GET' | 'POST'; timeout?: number } = {},
+): Promise<T | undefined> {
+	const uri = new URL(url);
+	const body = options.body != null ? JSON.stringify(options.body) : undefined;
+
+	return new Promise<T | undefined>((resolve, reject) => {
+		const req = (uri.protocol === 'http:' ? http : https).request(
+			uri,
+			{
+				method: options.method ?? 'GET',
+				headers: {
+					Accept: 'application/json',
+					...(body != null ? { 'Content-Type': 'application/json' } : undefined),
+					...options.headers,
+				},
+			},
+			rsp => {
+				let data = '';
+				rsp.setEncoding('utf8');
+				rsp.on('data', (chunk: string) => (data += chunk));
+				rsp.on('end', () => {
+					const status = rsp.statusCode ?? 0;
+					if (status === 404) {
+						resolve(undefined);
+						return;
+					}
+
+					if (status < 200 || status >= 300) {
+						reject(new HttpError(status, `${status} ${rsp.statusMessage ?? ''}: ${data}`.trim()));
+						return;
+					}
+
+					try {
+						resolve(JSON.parse(data) as T);
+					} catch (ex) {
+						reject(ex);
+					}
+				});
+			},
+		);
+		req.on('error', reject);
+
+		const timeout = options.timeout ?? defaultTimeout;
+		req.setTimeout(timeout, () => req.destroy(new Error(`Request to ${uri.host} timed out after ${timeout} ms`)));
+
+		if (body != null) {
+			req.write(body);
+		}
+		req.end();
+	});
+}
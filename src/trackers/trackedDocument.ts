@@ -85,6 +85,7 @@ export class TrackedDocument<T> implements Disposable {
 
 	private onRepositoryChanged(e: RepositoryChangeEvent) {
 		if (
+			!e.changed(RepositoryChange.BlameIgnoreRevs) &&
 			!e.changed(RepositoryChange.Index) &&
 			!e.changed(RepositoryChange.Heads) &&
 			!e.changed(RepositoryChange.Unknown)
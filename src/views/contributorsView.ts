@@ -145,6 +145,16 @@ export class ContributorsView extends ViewBase<ContributorsViewNode, Contributor
 		);
 		commands.registerCommand(this.getQualifiedCommand('setShowAvatarsOn'), () => this.setShowAvatars(true), this);
 		commands.registerCommand(this.getQualifiedCommand('setShowAvatarsOff'), () => this.setShowAvatars(false), this);
+		commands.registerCommand(
+			this.getQualifiedCommand('setShowStatisticsOn'),
+			() => this.setShowStatistics(true),
+			this,
+		);
+		commands.registerCommand(
+			this.getQualifiedCommand('setShowStatisticsOff'),
+			() => this.setShowStatistics(false),
+			this,
+		);
 	}
 
 	protected filterConfigurationChanged(e: ConfigurationChangeEvent) {
@@ -171,4 +181,8 @@ export class ContributorsView extends ViewBase<ContributorsViewNode, Contributor
 	private setShowAvatars(enabled: boolean) {
 		return configuration.updateEffective('views', this.configKey, 'avatars', enabled);
 	}
+
+	private setShowStatistics(enabled: boolean) {
+		return configuration.updateEffective('views', this.configKey, 'showStatistics', enabled);
+	}
 }
@@ -3,7 +3,8 @@ import { commands, ConfigurationChangeEvent } from 'vscode';
 import { configuration, LineHistoryViewConfig } from '../configuration';
 import { ContextKeys, setContext } from '../constants';
 import { Container } from '../container';
-import { LineHistoryTrackerNode } from './nodes';
+import { GitUri } from '../git/gitUri';
+import { HistorySymbol, LineHistoryTrackerNode } from './nodes';
 import { ViewBase } from './viewBase';
 
 const pinnedSuffix = ' (pinned)';
@@ -72,6 +73,14 @@ export class LineHistoryView extends ViewBase<LineHistoryTrackerNode, LineHistor
 		super.onConfigurationChanged(e);
 	}
 
+	showSymbolHistory(uri: GitUri, symbol: HistorySymbol) {
+		this.ensureRoot().showSymbolHistory(uri, symbol);
+		this.setEditorFollowing(false);
+		this.triggerNodeChange();
+
+		return this.show();
+	}
+
 	private changeBase() {
 		void this.root?.changeBase();
 	}
@@ -3,6 +3,7 @@
 export * from './nodes/common';
 
 export * from './nodes/viewNode';
+export * from './nodes/bisectStatusNode';
 export * from './nodes/branchesNode';
 export * from './nodes/branchNode';
 export * from './nodes/branchOrTagFolderNode';
@@ -13,8 +14,12 @@ export * from './nodes/commitNode';
 export * from './nodes/compareBranchNode';
 export * from './nodes/comparePickerNode';
 export * from './nodes/compareResultsNode';
+export * from './nodes/contributorFilesNode';
 export * from './nodes/contributorNode';
 export * from './nodes/contributorsNode';
+export * from './nodes/deletedBranchesNode';
+export * from './nodes/deletedBranchNode';
+export * from './nodes/droppedStashesNode';
 export * from './nodes/fileHistoryNode';
 export * from './nodes/fileHistoryTrackerNode';
 export * from './nodes/fileRevisionAsCommitNode';
@@ -27,6 +32,8 @@ export * from './nodes/mergeConflictIncomingChangesNode';
 export * from './nodes/mergeStatusNode';
 export * from './nodes/pullRequestNode';
 export * from './nodes/rebaseStatusNode';
+export * from './nodes/reflogEntriesNode';
+export * from './nodes/reflogEntryNode';
 export * from './nodes/reflogNode';
 export * from './nodes/reflogRecordNode';
 export * from './nodes/remoteNode';
@@ -36,11 +43,17 @@ export * from './nodes/repositoryNode';
 export * from './nodes/resultsCommitsNode';
 export * from './nodes/resultsFileNode';
 export * from './nodes/resultsFilesNode';
+export * from './nodes/resultsHunkLineNode';
 export * from './nodes/searchResultsNode';
 export * from './nodes/stashesNode';
 export * from './nodes/stashFileNode';
 export * from './nodes/stashNode';
 export * from './nodes/statusFileNode';
 export * from './nodes/statusFilesNode';
+export * from './nodes/submodulesNode';
+export * from './nodes/submoduleNode';
+export * from './nodes/symbolHistoryNode';
 export * from './nodes/tagsNode';
 export * from './nodes/tagNode';
+export * from './nodes/worktreesNode';
+export * from './nodes/worktreeNode';
@@ -0,0 +1,100 @@
+'use strict';
+import { MarkdownString, ThemeColor, ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { BranchNode } from './branchNode';
+import { CommitNode } from './commitNode';
+import { Container } from '../../container';
+import { GitBisectStatus, GitBranch, GitReference } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { Strings } from '../../system';
+import { ViewsWithCommits } from '../viewBase';
+import { ContextValues, ViewNode } from './viewNode';
+
+export class BisectStatusNode extends ViewNode<ViewsWithCommits> {
+	static key = ':bisect';
+	static getId(repoPath: string, name: string, root: boolean): string {
+		return `${BranchNode.getId(repoPath, name, root)}${this.key}`;
+	}
+
+	constructor(
+		view: ViewsWithCommits,
+		parent: ViewNode,
+		public readonly branch: GitBranch,
+		public readonly bisectStatus: GitBisectStatus,
+		// Specifies that the node is shown as a root
+		public readonly root: boolean,
+	) {
+		super(GitUri.fromRepoPath(bisectStatus.repoPath), view, parent);
+	}
+
+	get id(): string {
+		return BisectStatusNode.getId(this.bisectStatus.repoPath, this.branch.name, this.root);
+	}
+
+	get repoPath(): string {
+		return this.uri.repoPath!;
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		const commit = await Container.git.getCommit(
+			this.bisectStatus.repoPath,
+			(this.bisectStatus.firstBad ?? this.bisectStatus.HEAD).ref,
+		);
+		if (commit == null) return [];
+
+		return [new CommitNode(this.view, this, commit, undefined, undefined, undefined, { expand: false })];
+	}
+
+	getTreeItem(): TreeItem {
+		const found = this.bisectStatus.firstBad != null;
+
+		const item = new TreeItem(
+			`${found ? 'Found the first bad commit while bisecting' : 'Bisecting'} ${GitReference.toString(
+				this.bisectStatus.current,
+				{ expand: false, icon: false },
+			)}`,
+			TreeItemCollapsibleState.Expanded,
+		);
+		item.id = this.id;
+		item.contextValue = `${ContextValues.Bisect}${found ? '+found' : ''}`;
+		item.description = found
+			? undefined
+			: this.bisectStatus.remaining != null
+			? `~${Strings.pluralize('revision', this.bisectStatus.remaining)} left${
+					this.bisectStatus.steps != null
+						? ` (roughly ${Strings.pluralize('step', this.bisectStatus.steps)})`
+						: ''
+			  }`
+			: this.bisectStatus.bad == null
+			? 'Waiting for a bad revision'
+			: 'Waiting for a good revision';
+		item.iconPath = found
+			? new ThemeIcon('pass', new ThemeColor('list.foreground'))
+			: new ThemeIcon('debug-pause', new ThemeColor('list.foreground'));
+		item.tooltip = new MarkdownString(
+			`Bisecting ${GitReference.toString(this.bisectStatus.current)}${
+				this.bisectStatus.bad != null ? `\n\nBad: ${GitReference.toString(this.bisectStatus.bad)}` : ''
+			}${
+				this.bisectStatus.good.length !== 0
+					? `\\\nGood: ${this.bisectStatus.good.map(r => GitReference.toString(r)).join(', ')}`
+					: ''
+			}${
+				this.bisectStatus.skipped.length !== 0
+					? `\\\nSkipped: ${this.bisectStatus.skipped.map(r => GitReference.toString(r)).join(', ')}`
+					: ''
+			}${
+				found
+					? `\n\nFirst bad commit is ${GitReference.toString(this.bisectStatus.firstBad)}`
+					: this.bisectStatus.remaining != null
+					? `\n\n${Strings.pluralize('revision', this.bisectStatus.remaining)} left to test${
+							this.bisectStatus.steps != null
+								? ` (roughly ${Strings.pluralize('step', this.bisectStatus.steps)})`
+								: ''
+					  }`
+					: ''
+			}`,
+			true,
+		);
+
+		return item;
+	}
+}
@@ -1,5 +1,6 @@
 'use strict';
 import { MarkdownString, ThemeColor, ThemeIcon, TreeItem, TreeItemCollapsibleState, window } from 'vscode';
+import { BisectStatusNode } from './bisectStatusNode';
 import { BranchesView } from '../branchesView';
 import { BranchTrackingStatusNode } from './branchTrackingStatusNode';
 import { CommitNode } from './commitNode';
@@ -134,6 +135,7 @@ export class BranchNode
 				status,
 				mergeStatus,
 				rebaseStatus,
+				bisectStatus,
 				pr,
 				unpublishedCommits,
 			] = await Promise.all([
@@ -146,6 +148,9 @@ export class BranchNode
 					? Container.git.getMergeStatus(this.uri.repoPath!)
 					: undefined,
 				this.options.showStatus ? Container.git.getRebaseStatus(this.uri.repoPath!) : undefined,
+				this.options.showStatus && this.branch.current
+					? Container.git.getBisectStatus(this.uri.repoPath!)
+					: undefined,
 				this.view.config.pullRequests.enabled &&
 				this.view.config.pullRequests.showForBranches &&
 				(this.branch.tracking || this.branch.remote)
@@ -203,6 +208,8 @@ export class BranchNode
 						this.root,
 					),
 				);
+			} else if (this.options.showStatus && bisectStatus != null) {
+				children.push(new BisectStatusNode(this.view, this, this.branch, bisectStatus, this.root));
 			} else if (this.options.showTracking) {
 				const status = {
 					ref: this.branch.ref,
@@ -65,6 +65,7 @@ export class BranchTrackingStatusFilesNode extends ViewNode<ViewsWithCommits> {
 		files.sort((a, b) => b.commit.date.getTime() - a.commit.date.getTime());
 
 		const groups = Arrays.groupBy(files, s => s.fileName);
+		const codeOwners = await Container.git.getCodeOwners(this.repoPath);
 
 		let children: FileNode[] = [
 			...Iterables.map(
@@ -76,6 +77,7 @@ export class BranchTrackingStatusFilesNode extends ViewNode<ViewsWithCommits> {
 						this.repoPath,
 						files[files.length - 1],
 						files.map(s => s.commit),
+						codeOwners?.getOwners(files[0].fileName),
 					),
 			),
 		];
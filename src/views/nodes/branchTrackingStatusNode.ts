@@ -4,6 +4,7 @@ import { BranchNode } from './branchNode';
 import { BranchTrackingStatusFilesNode } from './branchTrackingStatusFilesNode';
 import { CommitNode } from './commitNode';
 import { LoadMoreNode } from './common';
+import { GlyphChars } from '../../constants';
 import { Container } from '../../container';
 import { GitBranch, GitLog, GitRemote, GitRevision, GitTrackingState } from '../../git/git';
 import { GitUri } from '../../git/gitUri';
@@ -173,6 +174,15 @@ export class BranchTrackingStatusNode extends ViewNode<ViewsWithCommits> impleme
 					remote?.provider?.name ? ` on ${remote.provider.name}` : ''
 				}`;
 
+				const owners = await this.getAffectedOwners();
+				if (owners != null && owners.length !== 0) {
+					description = `${description}${Strings.pad(GlyphChars.Dot, 1, 1)}${Strings.pluralize(
+						'owner',
+						owners.length,
+					)}`;
+					tooltip += `\n\nAffected owners: ${owners.map(o => Strings.escapeMarkdown(o)).join(', ')}`;
+				}
+
 				collapsibleState = TreeItemCollapsibleState.Collapsed;
 				contextValue = this.root
 					? ContextValues.StatusAheadOfUpstream
@@ -265,6 +275,21 @@ export class BranchTrackingStatusNode extends ViewNode<ViewsWithCommits> impleme
 		}
 	}
 
+	private async getAffectedOwners(): Promise<string[] | undefined> {
+		const codeOwners = await Container.git.getCodeOwners(this.repoPath);
+		if (codeOwners == null) return undefined;
+
+		const files = await Container.git.getDiffStatus(
+			this.repoPath,
+			GitRevision.createRange(this.status.upstream, this.status.ref, '...'),
+		);
+		if (files == null) return undefined;
+
+		return codeOwners.getOwnersForFiles(
+			files.flatMap(f => (f.originalFileName != null ? [f.fileName, f.originalFileName] : [f.fileName])),
+		);
+	}
+
 	private _log: GitLog | undefined;
 	private async getLog() {
 		if (this.upstreamType === 'same' || this.upstreamType === 'none') return undefined;
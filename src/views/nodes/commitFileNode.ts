@@ -3,8 +3,21 @@ import * as paths from 'path';
 import { Command, Selection, TreeItem, TreeItemCollapsibleState } from 'vscode';
 import { Commands, DiffWithPreviousCommandArgs } from '../../commands';
 import { Container } from '../../container';
-import { GitBranch, GitFile, GitLogCommit, GitRevisionReference, StatusFileFormatter } from '../../git/git';
+import { CommitNode } from './commitNode';
+import { MessageNode } from './common';
+import {
+	GitBranch,
+	GitFile,
+	GitLogCommit,
+	GitRevision,
+	GitRevisionReference,
+	GitSubmodule,
+	StatusFileFormatter,
+} from '../../git/git';
 import { GitUri } from '../../git/gitUri';
+import { insertDateMarkers } from './helpers';
+import { ResultsHunkLineNode } from './resultsHunkLineNode';
+import { Iterables } from '../../system';
 import { View, ViewsWithCommits } from '../viewBase';
 import { ContextValues, ViewNode, ViewRefFileNode } from './viewNode';
 
@@ -16,6 +29,7 @@ export class CommitFileNode<TView extends View = ViewsWithCommits> extends ViewR
 		public commit: GitLogCommit,
 		private readonly _options: {
 			branch?: GitBranch;
+			changedLineMatcher?: (line: string) => boolean;
 			selection?: Selection;
 			unpublished?: boolean;
 		} = {},
@@ -39,8 +53,53 @@ export class CommitFileNode<TView extends View = ViewsWithCommits> extends ViewR
 		return this.commit;
 	}
 
-	getChildren(): ViewNode[] {
-		return [];
+	async getChildren(): Promise<ViewNode[]> {
+		const submodule = await this.getSubmodule();
+		if (submodule == null) {
+			if (this._options.changedLineMatcher == null) return [];
+
+			return this.getChangedLines(this._options.changedLineMatcher);
+		}
+
+		// When the commit changes a submodule pointer, show the submodule commits that were pulled in
+		const change = await Container.git.getSubmoduleChange(this.repoPath, this.file.fileName, this.commit.sha);
+		if (change?.sha == null) {
+			return [new MessageNode(this.view, this, 'The submodule was removed in this commit.')];
+		}
+
+		if (!submodule.initialized) {
+			return [
+				new MessageNode(
+					this.view,
+					this,
+					'Unable to show the submodule commits, since the submodule is not initialized.',
+				),
+			];
+		}
+
+		const log = await Container.git.getLog(submodule.fullPath, {
+			ref: change.previousSha == null ? change.sha : GitRevision.createRange(change.previousSha, change.sha),
+		});
+		if (log == null) return [new MessageNode(this.view, this, 'No commits could be found.')];
+
+		const getBranchAndTagTips = await Container.git.getBranchesAndTagsTipsFn(submodule.fullPath);
+		return [
+			...insertDateMarkers(
+				Iterables.map(
+					log.commits.values(),
+					c =>
+						new CommitNode(
+							this.view as ViewsWithCommits,
+							this,
+							c,
+							undefined,
+							undefined,
+							getBranchAndTagTips,
+						),
+				),
+				this,
+			),
+		];
 	}
 
 	async getTreeItem(): Promise<TreeItem> {
@@ -60,7 +119,14 @@ export class CommitFileNode<TView extends View = ViewsWithCommits> extends ViewR
 			}
 		}
 
-		const item = new TreeItem(this.label, TreeItemCollapsibleState.None);
+		const submodule = await this.getSubmodule();
+
+		const item = new TreeItem(
+			this.label,
+			submodule != null || this._options.changedLineMatcher != null
+				? TreeItemCollapsibleState.Collapsed
+				: TreeItemCollapsibleState.None,
+		);
 		item.contextValue = this.contextValue;
 		item.description = this.description;
 		item.tooltip = this.tooltip;
@@ -95,6 +161,62 @@ export class CommitFileNode<TView extends View = ViewsWithCommits> extends ViewR
 		});
 	}
 
+	private async getChangedLines(matcher: (line: string) => boolean): Promise<ViewNode[]> {
+		const diff = await Container.git.getDiffForCommitFile(
+			this.repoPath,
+			this.file.fileName,
+			this.commit.sha,
+			this.file.originalFileName,
+		);
+
+		const children: ViewNode[] = [];
+		if (diff != null) {
+			for (const hunk of diff.hunks) {
+				const lines = { current: hunk.current.position.start, previous: hunk.previous.position.start };
+
+				for (const { current, previous } of hunk.lines) {
+					if (previous?.state === 'removed' && matcher(previous.line)) {
+						children.push(
+							new ResultsHunkLineNode(this.view, this, this.file, this.commit, previous.line, 'removed', {
+								...lines,
+							}),
+						);
+					}
+					if (current?.state === 'added' && matcher(current.line)) {
+						children.push(
+							new ResultsHunkLineNode(this.view, this, this.file, this.commit, current.line, 'added', {
+								...lines,
+							}),
+						);
+					}
+
+					if (current != null) {
+						lines.current++;
+					}
+					if (previous != null) {
+						lines.previous++;
+					}
+				}
+			}
+		}
+
+		if (children.length === 0) {
+			return [new MessageNode(this.view, this, 'No matching changed lines could be found.')];
+		}
+
+		return children;
+	}
+
+	private _submodule: GitSubmodule | null | undefined;
+	private async getSubmodule(): Promise<GitSubmodule | undefined> {
+		if (this._submodule === undefined) {
+			const submodules = await Container.git.getSubmodules(this.repoPath);
+			this._submodule = submodules.find(s => s.path === this.file.fileName) ?? null;
+		}
+
+		return this._submodule ?? undefined;
+	}
+
 	private _folderName: string | undefined;
 	get folderName() {
 		if (this._folderName === undefined) {
@@ -7,12 +7,14 @@ import { ViewFilesLayout } from '../../configuration';
 import { GlyphChars } from '../../constants';
 import { Container } from '../../container';
 import { FileNode, FolderNode } from './folderNode';
-import { CommitFormatter, GitBranch, GitLogCommit, GitRevisionReference } from '../../git/git';
+import { CommitFormatter, GitBranch, GitCommitSignature, GitLogCommit, GitRevisionReference } from '../../git/git';
 import { PullRequestNode } from './pullRequestNode';
+import { ReflogView } from '../reflogView';
 import { Arrays, Strings } from '../../system';
 import { TagsView } from '../tagsView';
 import { ViewsWithCommits } from '../viewBase';
 import { ContextValues, ViewNode, ViewRefNode } from './viewNode';
+import { WorktreesView } from '../worktreesView';
 
 export class CommitNode extends ViewRefNode<ViewsWithCommits, GitRevisionReference> {
 	constructor(
@@ -22,7 +24,7 @@ export class CommitNode extends ViewRefNode<ViewsWithCommits, GitRevisionReferen
 		private readonly unpublished?: boolean,
 		public readonly branch?: GitBranch,
 		private readonly getBranchAndTagTips?: (sha: string, compact?: boolean) => string | undefined,
-		private readonly _options: { expand?: boolean } = {},
+		private readonly _options: { changedLineMatcher?: (line: string) => boolean; expand?: boolean } = {},
 	) {
 		super(commit.toGitUri(), view, parent);
 	}
@@ -41,7 +43,7 @@ export class CommitNode extends ViewRefNode<ViewsWithCommits, GitRevisionReferen
 		return this.commit;
 	}
 
-	private get tooltip() {
+	private getTooltip(signature: GitCommitSignature | undefined) {
 		return CommitFormatter.fromTemplate(
 			this.commit.isUncommitted
 				? `\${author} ${GlyphChars.Dash} \${id}\n\${ago} (\${date})`
@@ -51,13 +53,14 @@ export class CommitNode extends ViewRefNode<ViewsWithCommits, GitRevisionReferen
 						expand: true,
 						prefix: '\n\n',
 						separator: '\n',
-				  })}\${\n\n${GlyphChars.Dash.repeat(2)}\nfootnotes}`,
+				  })}\${\n\nsignature}\${\n\n${GlyphChars.Dash.repeat(2)}\nfootnotes}`,
 			this.commit,
 			{
 				dateFormat: Container.config.defaultDateFormat,
 				getBranchAndTagTips: this.getBranchAndTagTips,
 				// messageAutolinks: true,
 				messageIndent: 4,
+				signature: signature,
 			},
 		);
 	}
@@ -66,7 +69,10 @@ export class CommitNode extends ViewRefNode<ViewsWithCommits, GitRevisionReferen
 		const commit = this.commit;
 
 		let children: (PullRequestNode | FileNode)[] = commit.files.map(
-			s => new CommitFileNode(this.view, this, s, commit.toFileCommit(s)!),
+			s =>
+				new CommitFileNode(this.view, this, s, commit.toFileCommit(s)!, {
+					changedLineMatcher: this._options.changedLineMatcher,
+				}),
 		);
 
 		if (this.view.config.files.layout !== ViewFilesLayout.List) {
@@ -85,7 +91,11 @@ export class CommitNode extends ViewRefNode<ViewsWithCommits, GitRevisionReferen
 			);
 		}
 
-		if (!(this.view instanceof TagsView)) {
+		if (
+			!(this.view instanceof TagsView) &&
+			!(this.view instanceof WorktreesView) &&
+			!(this.view instanceof ReflogView)
+		) {
 			if (this.view.config.pullRequests.enabled && this.view.config.pullRequests.showForCommits) {
 				const pr = await commit.getAssociatedPullRequest();
 				if (pr != null) {
@@ -109,9 +119,11 @@ export class CommitNode extends ViewRefNode<ViewsWithCommits, GitRevisionReferen
 			this._options.expand ? TreeItemCollapsibleState.Expanded : TreeItemCollapsibleState.Collapsed,
 		);
 
+		const ignoreRevs = await Container.git.getBlameIgnoreRevs(this.commit.repoPath);
+
 		item.contextValue = `${ContextValues.Commit}${this.branch?.current ? '+current' : ''}${
 			this.branch?.current && this.branch.sha === this.commit.ref ? '+HEAD' : ''
-		}${this.unpublished ? '+unpublished' : ''}`;
+		}${this.unpublished ? '+unpublished' : ''}${ignoreRevs?.shas.has(this.commit.sha) ? '+ignored' : ''}`;
 
 		item.description = CommitFormatter.fromTemplate(this.view.config.formats.commits.description, this.commit, {
 			dateFormat: Container.config.defaultDateFormat,
@@ -122,7 +134,13 @@ export class CommitNode extends ViewRefNode<ViewsWithCommits, GitRevisionReferen
 			: this.view.config.avatars
 			? await this.commit.getAvatarUri({ defaultStyle: Container.config.defaultGravatarsStyle })
 			: new ThemeIcon('git-commit');
-		item.tooltip = this.tooltip;
+
+		return item;
+	}
+
+	async resolveTreeItem(item: TreeItem): Promise<TreeItem> {
+		// Only verify the signature when the tooltip is shown, since it can be expensive
+		item.tooltip = this.getTooltip(await this.commit.getSignature());
 
 		return item;
 	}
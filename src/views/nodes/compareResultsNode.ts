@@ -1,6 +1,6 @@
 'use strict';
 import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
-import { NamedRef } from '../../constants';
+import { NamedRef, SavedComparison } from '../../constants';
 import { Container } from '../../container';
 import { GitRevision } from '../../git/git';
 import { GitUri } from '../../git/gitUri';
@@ -33,6 +33,7 @@ export class CompareResultsNode extends ViewNode<SearchAndCompareView> {
 		private _ref: NamedRef,
 		private _compareWith: NamedRef,
 		private _pinned: number = 0,
+		public readonly saved?: SavedComparison,
 	) {
 		super(GitUri.fromRepoPath(repoPath), view, parent);
 		this._instanceId = instanceId++;
@@ -57,7 +58,7 @@ export class CompareResultsNode extends ViewNode<SearchAndCompareView> {
 	}
 
 	get canDismiss(): boolean {
-		return !this.pinned;
+		return !this.pinned && this.saved == null;
 	}
 
 	private readonly _order: number = Date.now();
@@ -148,17 +149,19 @@ export class CompareResultsNode extends ViewNode<SearchAndCompareView> {
 			description = repo?.formattedName ?? this.uri.repoPath;
 		}
 
-		const item = new TreeItem(
-			`Comparing ${
-				this._ref.label ?? GitRevision.shorten(this._ref.ref, { strings: { working: 'Working Tree' } })
-			} to ${
-				this._compareWith.label ??
-				GitRevision.shorten(this._compareWith.ref, { strings: { working: 'Working Tree' } })
-			}`,
-			TreeItemCollapsibleState.Collapsed,
-		);
-		item.contextValue = `${ContextValues.CompareResults}${this._pinned ? '+pinned' : ''}`;
-		item.description = description;
+		const label = `Comparing ${
+			this._ref.label ?? GitRevision.shorten(this._ref.ref, { strings: { working: 'Working Tree' } })
+		} to ${
+			this._compareWith.label ??
+			GitRevision.shorten(this._compareWith.ref, { strings: { working: 'Working Tree' } })
+		}`;
+
+		const item = new TreeItem(this.saved?.name ?? label, TreeItemCollapsibleState.Collapsed);
+		item.contextValue = `${ContextValues.CompareResults}${this._pinned ? '+pinned' : ''}${
+			this.saved != null ? '+saved' : ''
+		}`;
+		item.description =
+			this.saved != null ? (description != null ? `${label} (${description})` : label) : description;
 		if (this._pinned) {
 			item.iconPath = new ThemeIcon('pinned');
 		}
@@ -182,6 +185,24 @@ export class CompareResultsNode extends ViewNode<SearchAndCompareView> {
 		setImmediate(() => this.view.reveal(this, { focus: true, select: true }));
 	}
 
+	@log()
+	async save(name: string, autoRefresh: boolean) {
+		await this.view.updateSaved(this.repoPath, name, {
+			type: 'comparison',
+			name: name,
+			ref1: this._ref,
+			ref2: this._compareWith,
+			autoRefresh: autoRefresh,
+		});
+	}
+
+	@log()
+	async unsave() {
+		if (this.saved == null) return;
+
+		await this.view.updateSaved(this.repoPath, this.saved.name);
+	}
+
 	@gate()
 	@debug()
 	refresh(reset: boolean = false) {
@@ -0,0 +1,100 @@
+'use strict';
+import * as paths from 'path';
+import { Command, ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { BuiltInCommands, GlyphChars } from '../../constants';
+import { ContributorsView } from '../contributorsView';
+import { GitContributor, GitContributorFileStats } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { RepositoriesView } from '../repositoriesView';
+import { Strings } from '../../system';
+import { ContextValues, ViewNode } from './viewNode';
+
+export class ContributorFilesNode extends ViewNode<ContributorsView | RepositoriesView> {
+	static key = ':files';
+	static getId(parentId: string): string {
+		return `${parentId}${this.key}`;
+	}
+
+	constructor(
+		view: ContributorsView | RepositoriesView,
+		parent: ViewNode,
+		public readonly contributor: GitContributor,
+	) {
+		super(GitUri.fromRepoPath(contributor.repoPath), view, parent);
+	}
+
+	get id(): string {
+		return ContributorFilesNode.getId(this.parent!.id!);
+	}
+
+	getChildren(): ViewNode[] {
+		return (this.contributor.stats?.files ?? []).map(
+			f => new ContributorFileNode(this.view, this, this.contributor.repoPath, f),
+		);
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem('Files', TreeItemCollapsibleState.Collapsed);
+		item.id = this.id;
+		item.contextValue = ContextValues.ContributorFiles;
+		item.description = Strings.pluralize('file', this.contributor.stats?.files.length ?? 0);
+		item.tooltip = `Files most often changed by ${this.contributor.name}`;
+		item.iconPath = new ThemeIcon('files');
+		return item;
+	}
+}
+
+export class ContributorFileNode extends ViewNode<ContributorsView | RepositoriesView> {
+	constructor(
+		view: ContributorsView | RepositoriesView,
+		parent: ViewNode,
+		public readonly repoPath: string,
+		public readonly file: GitContributorFileStats,
+	) {
+		super(GitUri.fromFile(file.path, repoPath), view, parent);
+	}
+
+	toClipboard(): string {
+		return this.file.path;
+	}
+
+	getChildren(): ViewNode[] {
+		return [];
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem(paths.basename(this.file.path), TreeItemCollapsibleState.None);
+		item.contextValue = ContextValues.ContributorFile;
+
+		const folder = paths.dirname(this.file.path);
+		item.description = `${
+			folder === '.' ? '' : `${folder} ${GlyphChars.Space}${GlyphChars.Dot}${GlyphChars.Space} `
+		}${this.changes}`;
+		item.tooltip = `${this.file.path}\n\n${Strings.pluralize('commit', this.file.commits)}\n${this.changes}`;
+
+		// Use the file icon and decorations
+		item.resourceUri = GitUri.resolveToUri(this.file.path, this.repoPath);
+		item.iconPath = ThemeIcon.File;
+		item.command = this.getCommand();
+
+		return item;
+	}
+
+	getCommand(): Command | undefined {
+		return {
+			title: 'Open File',
+			command: BuiltInCommands.Open,
+			arguments: [
+				GitUri.resolveToUri(this.file.path, this.repoPath),
+				{
+					preserveFocus: true,
+					preview: true,
+				},
+			],
+		};
+	}
+
+	private get changes(): string {
+		return `+${this.file.additions} -${this.file.deletions}`;
+	}
+}
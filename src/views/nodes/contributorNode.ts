@@ -2,6 +2,7 @@
 import { TreeItem, TreeItemCollapsibleState, window } from 'vscode';
 import { CommitNode } from './commitNode';
 import { LoadMoreNode, MessageNode } from './common';
+import { ContributorFilesNode } from './contributorFilesNode';
 import { GlyphChars } from '../../constants';
 import { Container } from '../../container';
 import { ContributorsView } from '../contributorsView';
@@ -10,7 +11,7 @@ import { GitUri } from '../../git/gitUri';
 import { insertDateMarkers } from './helpers';
 import { RepositoriesView } from '../repositoriesView';
 import { RepositoryNode } from './repositoryNode';
-import { debug, gate, Iterables, Strings } from '../../system';
+import { Dates, debug, gate, Iterables, Strings } from '../../system';
 import { ContextValues, PageableViewNode, ViewNode } from './viewNode';
 import { ContactPresence } from '../../vsls/vsls';
 
@@ -43,7 +44,13 @@ export class ContributorNode extends ViewNode<ContributorsView | RepositoriesVie
 		if (log == null) return [new MessageNode(this.view, this, 'No commits could be found.')];
 
 		const getBranchAndTagTips = await Container.git.getBranchesAndTagsTipsFn(this.uri.repoPath);
-		const children = [
+		const children: ViewNode[] = [];
+
+		if (this.contributor.stats != null && this.contributor.stats.files.length !== 0) {
+			children.push(new ContributorFilesNode(this.view, this, this.contributor));
+		}
+
+		children.push(
 			...insertDateMarkers(
 				Iterables.map(
 					log.commits.values(),
@@ -51,7 +58,7 @@ export class ContributorNode extends ViewNode<ContributorsView | RepositoriesVie
 				),
 				this,
 			),
-		];
+		);
 
 		if (log.hasMore) {
 			children.push(new LoadMoreNode(this.view, this, children[children.length - 1]));
@@ -75,10 +82,21 @@ export class ContributorNode extends ViewNode<ContributorsView | RepositoriesVie
 				? `${presence.statusText} ${GlyphChars.Space}${GlyphChars.Dot}${GlyphChars.Space} `
 				: ''
 		}${this.contributor.email}`;
-		item.tooltip = `${this.contributor.name}${presence != null ? ` (${presence.statusText})` : ''}\n${
+		let tooltip = `${this.contributor.name}${presence != null ? ` (${presence.statusText})` : ''}\n${
 			this.contributor.email
 		}\n${Strings.pluralize('commit', this.contributor.count)}`;
 
+		const stats = this.contributor.stats;
+		if (stats != null) {
+			tooltip += `\n${Strings.pluralize('line', stats.additions)} added, ${Strings.pluralize(
+				'line',
+				stats.deletions,
+			)} removed\n\nFirst commit ${formatDate(stats.firstCommitDate)}\nLast commit ${formatDate(
+				stats.lastCommitDate,
+			)}`;
+		}
+		item.tooltip = tooltip;
+
 		if (this.view.config.avatars) {
 			item.iconPath = await this.contributor.getAvatarUri({
 				defaultStyle: Container.config.defaultGravatarsStyle,
@@ -132,3 +150,8 @@ export class ContributorNode extends ViewNode<ContributorsView | RepositoriesVie
 		void this.triggerChange(false);
 	}
 }
+
+function formatDate(date: Date) {
+	const formatter = Dates.getFormatter(date);
+	return `${formatter.fromNow()} (${formatter.format(Container.config.defaultDateFormat ?? 'MMMM Do, YYYY h:mma')})`;
+}
@@ -1,6 +1,7 @@
 'use strict';
 import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
 import { MessageNode } from './common';
+import { ContributorSorting } from '../../configuration';
 import { Container } from '../../container';
 import { ContributorNode } from './contributorNode';
 import { ContributorsView } from '../contributorsView';
@@ -36,10 +37,23 @@ export class ContributorsNode extends ViewNode<ContributorsView | RepositoriesVi
 
 	async getChildren(): Promise<ViewNode[]> {
 		if (this._children == null) {
-			const contributors = await this.repo.getContributors();
+			// Only the Contributors view has statistics and sorting options
+			const config = this.view instanceof ContributorsView ? this.view.config : undefined;
+			const sortBy = config?.sortBy;
+
+			const contributors = await this.repo.getContributors({
+				stats:
+					config != null &&
+					(config.showStatistics ||
+						sortBy === ContributorSorting.ChangesAsc ||
+						sortBy === ContributorSorting.ChangesDesc ||
+						sortBy === ContributorSorting.DateAsc ||
+						sortBy === ContributorSorting.DateDesc),
+				statsLimit: config?.statisticsCommitLimit,
+			});
 			if (contributors.length === 0) return [new MessageNode(this.view, this, 'No contributors could be found.')];
 
-			GitContributor.sort(contributors);
+			GitContributor.sort(contributors, { orderBy: sortBy });
 			const presenceMap = await this.maybeGetPresenceMap(contributors).catch(() => undefined);
 
 			this._children = contributors.map(c => new ContributorNode(this.uri, this.view, this, c, presenceMap));
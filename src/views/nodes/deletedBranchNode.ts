@@ -0,0 +1,56 @@
+'use strict';
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { CommitNode } from './commitNode';
+import { MessageNode } from './common';
+import { GlyphChars } from '../../constants';
+import { Container } from '../../container';
+import { GitDeletedBranch, GitReference, GitRevision, GitRevisionReference } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { ReflogView } from '../reflogView';
+import { RepositoryNode } from './repositoryNode';
+import { Dates } from '../../system';
+import { ContextValues, ViewNode, ViewRefNode } from './viewNode';
+
+export class DeletedBranchNode extends ViewRefNode<ReflogView, GitRevisionReference> {
+	static key = ':deleted-branch';
+	static getId(repoPath: string, name: string): string {
+		return `${RepositoryNode.getId(repoPath)}${this.key}(${name})`;
+	}
+
+	constructor(view: ReflogView, parent: ViewNode, public readonly branch: GitDeletedBranch) {
+		super(GitUri.fromRepoPath(branch.repoPath), view, parent);
+	}
+
+	toClipboard(): string {
+		return this.branch.name;
+	}
+
+	get id(): string {
+		return DeletedBranchNode.getId(this.branch.repoPath, this.branch.name);
+	}
+
+	get ref(): GitRevisionReference {
+		return GitReference.create(this.branch.sha, this.branch.repoPath, { refType: 'revision' });
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		const commit = await Container.git.getCommit(this.branch.repoPath, this.branch.sha);
+		if (commit == null) return [new MessageNode(this.view, this, 'No commit could be found.')];
+
+		return [new CommitNode(this.view, this, commit)];
+	}
+
+	getTreeItem(): TreeItem {
+		const shortSha = GitRevision.shorten(this.branch.sha);
+		const ago = Dates.getFormatter(this.branch.date).fromNow();
+
+		const item = new TreeItem(this.branch.name, TreeItemCollapsibleState.Collapsed);
+		item.id = this.id;
+		item.description = `${shortSha} ${GlyphChars.Space}${GlyphChars.Dot}${GlyphChars.Space} ${ago}`;
+		item.contextValue = ContextValues.DeletedBranch;
+		item.iconPath = new ThemeIcon('git-branch');
+		item.tooltip = `${this.branch.name} (deleted)\nLast checked out ${ago} at ${shortSha}`;
+
+		return item;
+	}
+}
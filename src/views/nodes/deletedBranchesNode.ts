@@ -0,0 +1,56 @@
+'use strict';
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { MessageNode } from './common';
+import { Container } from '../../container';
+import { Repository } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { DeletedBranchNode } from './deletedBranchNode';
+import { ReflogView } from '../reflogView';
+import { RepositoryNode } from './repositoryNode';
+import { debug, gate } from '../../system';
+import { ContextValues, ViewNode } from './viewNode';
+
+export class DeletedBranchesNode extends ViewNode<ReflogView> {
+	static key = ':branches-deleted';
+	static getId(repoPath: string): string {
+		return `${RepositoryNode.getId(repoPath)}${this.key}`;
+	}
+
+	private _children: ViewNode[] | undefined;
+
+	constructor(uri: GitUri, view: ReflogView, parent: ViewNode, public readonly repo: Repository) {
+		super(uri, view, parent);
+	}
+
+	get id(): string {
+		return DeletedBranchesNode.getId(this.repo.path);
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		if (this._children == null) {
+			const branches = await Container.git.getDeletedBranches(this.repo.path);
+			if (branches.length === 0) {
+				return [new MessageNode(this.view, this, 'No deleted branches could be found.')];
+			}
+
+			this._children = branches.map(b => new DeletedBranchNode(this.view, this, b));
+		}
+
+		return this._children;
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem('Deleted Branches', TreeItemCollapsibleState.Collapsed);
+		item.id = this.id;
+		item.contextValue = ContextValues.DeletedBranches;
+		item.iconPath = new ThemeIcon('git-branch');
+
+		return item;
+	}
+
+	@gate()
+	@debug()
+	refresh() {
+		this._children = undefined;
+	}
+}
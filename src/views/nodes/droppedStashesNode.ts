@@ -0,0 +1,70 @@
+'use strict';
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { MessageNode } from './common';
+import { Container } from '../../container';
+import { Repository } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { ReflogView } from '../reflogView';
+import { RepositoryNode } from './repositoryNode';
+import { StashNode } from './stashNode';
+import { debug, gate, Iterables } from '../../system';
+import { ContextValues, ViewNode } from './viewNode';
+
+export class DroppedStashNode extends StashNode {
+	static key = ':stash-dropped';
+
+	get id(): string {
+		return DroppedStashNode.getId(this.commit.repoPath, this.commit.sha);
+	}
+
+	getTreeItem(): TreeItem {
+		const item = super.getTreeItem();
+		item.contextValue = `${ContextValues.Stash}+dropped`;
+		return item;
+	}
+}
+
+export class DroppedStashesNode extends ViewNode<ReflogView> {
+	static key = ':stashes-dropped';
+	static getId(repoPath: string): string {
+		return `${RepositoryNode.getId(repoPath)}${this.key}`;
+	}
+
+	private _children: ViewNode[] | undefined;
+
+	constructor(uri: GitUri, view: ReflogView, parent: ViewNode, public readonly repo: Repository) {
+		super(uri, view, parent);
+	}
+
+	get id(): string {
+		return DroppedStashesNode.getId(this.repo.path);
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		if (this._children == null) {
+			const stash = await Container.git.getDroppedStashes(this.repo.path);
+			if (stash == null || stash.commits.size === 0) {
+				return [new MessageNode(this.view, this, 'No dropped stashes could be found.')];
+			}
+
+			this._children = [...Iterables.map(stash.commits.values(), c => new DroppedStashNode(this.view, this, c))];
+		}
+
+		return this._children;
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem('Dropped Stashes', TreeItemCollapsibleState.Collapsed);
+		item.id = this.id;
+		item.contextValue = ContextValues.DroppedStashes;
+		item.iconPath = new ThemeIcon('archive');
+
+		return item;
+	}
+
+	@gate()
+	@debug()
+	refresh() {
+		this._children = undefined;
+	}
+}
@@ -200,14 +200,12 @@ export class LineHistoryNode
 		if (log != null) {
 			children.push(
 				...insertDateMarkers(
-					Iterables.filterMap(
-						log.commits.values(),
-						c =>
-							new FileRevisionAsCommitNode(this.view, this, c.files[0], c, {
-								branch: this.branch,
-								selection: selection,
-								unpublished: unpublishedCommits?.has(c.ref),
-							}),
+					Iterables.filterMap(log.commits.values(), c =>
+						this.getRevisionNode(c, {
+							branch: this.branch,
+							selection: selection,
+							unpublished: unpublishedCommits?.has(c.ref),
+						}),
 					),
 					this,
 				),
@@ -218,10 +216,17 @@ export class LineHistoryNode
 			}
 		}
 
-		if (children.length === 0) return [new MessageNode(this.view, this, 'No line history could be found.')];
+		if (children.length === 0) return [new MessageNode(this.view, this, this.emptyMessage)];
 		return children;
 	}
 
+	protected getRevisionNode(
+		commit: GitLogCommit,
+		options: { branch?: GitBranch; selection?: Selection; unpublished?: boolean },
+	): FileRevisionAsCommitNode {
+		return new FileRevisionAsCommitNode(this.view, this, commit.files[0], commit, options);
+	}
+
 	getTreeItem(): TreeItem {
 		this.splatted = false;
 
@@ -240,7 +245,11 @@ export class LineHistoryNode
 		return item;
 	}
 
-	get label() {
+	protected get emptyMessage() {
+		return 'No line history could be found.';
+	}
+
+	get label(): string {
 		return `${this.uri.fileName}${this.lines}${
 			this.uri.sha
 				? ` ${this.uri.sha === GitRevision.deletedOrMissing ? this.uri.shortSha : `(${this.uri.shortSha})`}`
@@ -304,8 +313,8 @@ export class LineHistoryNode
 		}
 	}
 
-	private _log: GitLog | undefined;
-	private async getLog(selection?: Selection) {
+	protected _log: GitLog | undefined;
+	protected async getLog(selection?: Selection) {
 		if (this._log == null) {
 			this._log = await Container.git.getLogForFile(this.uri.repoPath, this.uri.fsPath, {
 				all: false,
@@ -9,6 +9,7 @@ import { LineHistoryView } from '../lineHistoryView';
 import { LineHistoryNode } from './lineHistoryNode';
 import { Logger } from '../../logger';
 import { ReferencePicker } from '../../quickpicks';
+import { HistorySymbol, SymbolHistoryNode } from './symbolHistoryNode';
 import { debug, Functions, gate, log } from '../../system';
 import { LinesChangeEvent } from '../../trackers/gitLineTracker';
 import { ContextValues, SubscribeableViewNode, unknownGitUri, ViewNode } from './viewNode';
@@ -19,6 +20,7 @@ export class LineHistoryTrackerNode extends SubscribeableViewNode<FileHistoryVie
 	private _child: LineHistoryNode | undefined;
 	private _editorContents: string | undefined;
 	private _selection: Selection | undefined;
+	private _symbol: HistorySymbol | undefined;
 	protected splatted = true;
 
 	constructor(view: FileHistoryView | LineHistoryView) {
@@ -65,7 +67,10 @@ export class LineHistoryTrackerNode extends SubscribeableViewNode<FileHistoryVie
 					filter: b => b.name === commitish.sha,
 				});
 			}
-			this._child = new LineHistoryNode(fileUri, this.view, this, branch, this._selection!, this._editorContents);
+			this._child =
+				this._symbol != null
+					? new SymbolHistoryNode(fileUri, this.view, this, branch, this._symbol, this._editorContents)
+					: new LineHistoryNode(fileUri, this.view, this, branch, this._selection!, this._editorContents);
 		}
 
 		return this._child.getChildren();
@@ -125,6 +130,14 @@ export class LineHistoryTrackerNode extends SubscribeableViewNode<FileHistoryVie
 	async refresh(reset: boolean = false) {
 		const cc = Logger.getCorrelationContext();
 
+		// Symbol history stays on its symbol, rather than following the editor
+		if (this._symbol != null) {
+			if (!reset) return true;
+
+			this.resetChild();
+			return false;
+		}
+
 		if (reset) {
 			this.setUri();
 			this._editorContents = undefined;
@@ -188,9 +201,23 @@ export class LineHistoryTrackerNode extends SubscribeableViewNode<FileHistoryVie
 
 	@log()
 	setEditorFollowing(enabled: boolean) {
+		if (enabled && this._symbol != null) {
+			this._symbol = undefined;
+			this.resetChild();
+		}
+
 		this.canSubscribe = enabled;
 	}
 
+	@log()
+	showSymbolHistory(uri: GitUri, symbol: HistorySymbol) {
+		this.setUri(uri);
+		this._editorContents = undefined;
+		this._selection = new Selection(symbol.range.start, symbol.range.end);
+		this._symbol = symbol;
+		this.resetChild();
+	}
+
 	@debug()
 	protected subscribe() {
 		if (Container.lineTracker.isSubscribed(this)) return undefined;
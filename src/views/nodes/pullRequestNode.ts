@@ -1,14 +1,27 @@
 'use strict';
-import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { ThemeColor, ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
 import { BranchesView } from '../branchesView';
 import { CommitsView } from '../commitsView';
+import { MessageNode } from './common';
 import { ContributorsView } from '../contributorsView';
-import { GitBranch, GitCommit, PullRequest, PullRequestState } from '../../git/git';
+import { GlyphChars } from '../../constants';
+import { Container } from '../../container';
+import {
+	GitBranch,
+	GitCommit,
+	PullRequest,
+	PullRequestChecksState,
+	PullRequestDetails,
+	PullRequestReviewState,
+	PullRequestState,
+} from '../../git/git';
 import { GitUri } from '../../git/gitUri';
 import { RemotesView } from '../remotesView';
 import { RepositoriesView } from '../repositoriesView';
 import { RepositoryNode } from './repositoryNode';
+import { FilesQueryResults, ResultsFilesNode } from './resultsFilesNode';
 import { SearchAndCompareView } from '../searchAndCompareView';
+import { debug, gate, Strings } from '../../system';
 import { ContextValues, ViewNode } from './viewNode';
 
 export class PullRequestNode extends ViewNode<
@@ -36,12 +49,81 @@ export class PullRequestNode extends ViewNode<
 		return PullRequestNode.getId(this.branchOrCommit.repoPath, this.pullRequest.id, this.branchOrCommit.ref);
 	}
 
-	getChildren(): ViewNode[] {
-		return [];
+	private _children: ViewNode[] | undefined;
+
+	async getChildren(): Promise<ViewNode[]> {
+		if (this._children == null) {
+			const repoPath = this.branchOrCommit.repoPath;
+
+			const remote = await Container.git.getRichRemoteProvider(repoPath);
+			const details =
+				remote != null ? await Container.git.getPullRequestDetails(this.pullRequest, remote) : undefined;
+			if (details == null) {
+				return [new MessageNode(this.view, this, 'Unable to load the details of this pull request.')];
+			}
+
+			const children: ViewNode[] = [this.getReviewNode(details), this.getChecksNode(details)];
+
+			if (details.reviewThreads.total !== 0) {
+				children.push(
+					new MessageNode(
+						this.view,
+						this,
+						`${Strings.pluralize('unresolved conversation', details.reviewThreads.unresolved, {
+							zero: 'No',
+						})}`,
+						`${details.reviewThreads.total} total`,
+						undefined,
+						new ThemeIcon('comment-discussion'),
+					),
+				);
+			}
+
+			const mergeBase = await Container.git.getMergeBase(repoPath, details.base.sha, details.head.sha);
+			if (mergeBase == null) {
+				children.push(
+					new MessageNode(
+						this.view,
+						this,
+						'Unable to show the changed files',
+						`fetch ${details.head.branch} to compare it locally`,
+						`The commits of #${this.pullRequest.id} (${details.head.branch} ${GlyphChars.ArrowRight} ${details.base.branch}) are not available locally`,
+						new ThemeIcon('warning'),
+					),
+				);
+			} else {
+				children.push(
+					new ResultsFilesNode(
+						this.view,
+						this,
+						repoPath,
+						mergeBase,
+						details.head.sha,
+						() => this.getFilesQuery(mergeBase, details.head.sha),
+						undefined,
+						{
+							expand: false,
+						},
+					),
+				);
+			}
+
+			this._children = children;
+		}
+
+		return this._children;
 	}
 
-	getTreeItem(): TreeItem {
-		const item = new TreeItem(`#${this.pullRequest.id}: ${this.pullRequest.title}`, TreeItemCollapsibleState.None);
+	async getTreeItem(): Promise<TreeItem> {
+		// Only allow expanding when the provider can load the details of the pull request
+		const remote = await Container.git.getRichRemoteProvider(this.branchOrCommit.repoPath);
+
+		const item = new TreeItem(
+			`#${this.pullRequest.id}: ${this.pullRequest.title}`,
+			remote?.provider.supportsPullRequestDetails
+				? TreeItemCollapsibleState.Collapsed
+				: TreeItemCollapsibleState.None,
+		);
 		item.contextValue = ContextValues.PullRequest;
 		item.description = `${this.pullRequest.state}, ${this.pullRequest.formatDateFromNow()}`;
 		item.iconPath = new ThemeIcon('git-pull-request');
@@ -63,4 +145,91 @@ export class PullRequestNode extends ViewNode<
 
 		return item;
 	}
+
+	@gate()
+	@debug()
+	refresh() {
+		this._children = undefined;
+	}
+
+	private getChecksNode(details: PullRequestDetails): ViewNode {
+		const { checks } = details;
+		if (checks == null) {
+			return new MessageNode(this.view, this, 'No checks', undefined, undefined, new ThemeIcon('circle-outline'));
+		}
+
+		const description = [
+			checks.passed !== 0 ? `${checks.passed} passed` : undefined,
+			checks.failed !== 0 ? `${checks.failed} failed` : undefined,
+			checks.pending !== 0 ? `${checks.pending} pending` : undefined,
+		]
+			.filter(Boolean)
+			.join(', ');
+
+		switch (checks.state) {
+			case PullRequestChecksState.Success:
+				return new MessageNode(
+					this.view,
+					this,
+					'All checks have passed',
+					description,
+					undefined,
+					new ThemeIcon('pass', new ThemeColor('list.foreground')),
+				);
+			case PullRequestChecksState.Failure:
+				return new MessageNode(
+					this.view,
+					this,
+					'Some checks were not successful',
+					description,
+					undefined,
+					new ThemeIcon('error', new ThemeColor('list.errorForeground')),
+				);
+			default:
+				return new MessageNode(
+					this.view,
+					this,
+					"Some checks haven't completed yet",
+					description,
+					undefined,
+					new ThemeIcon('clock'),
+				);
+		}
+	}
+
+	private getReviewNode(details: PullRequestDetails): ViewNode {
+		switch (details.reviewState) {
+			case PullRequestReviewState.Approved:
+				return new MessageNode(this.view, this, 'Approved', undefined, undefined, new ThemeIcon('check'));
+			case PullRequestReviewState.ChangesRequested:
+				return new MessageNode(
+					this.view,
+					this,
+					'Changes requested',
+					undefined,
+					undefined,
+					new ThemeIcon('request-changes'),
+				);
+			case PullRequestReviewState.ReviewRequired:
+				return new MessageNode(this.view, this, 'Review required', undefined, undefined, new ThemeIcon('eye'));
+			default:
+				return new MessageNode(
+					this.view,
+					this,
+					'No review required',
+					undefined,
+					undefined,
+					new ThemeIcon('eye'),
+				);
+		}
+	}
+
+	private async getFilesQuery(ref1: string, ref2: string): Promise<FilesQueryResults> {
+		const files = await Container.git.getDiffStatus(this.branchOrCommit.repoPath, `${ref1}..${ref2}`);
+
+		return {
+			label: `${Strings.pluralize('file', files?.length ?? 0, { zero: 'No' })} changed`,
+			files: files,
+		};
+	}
 }
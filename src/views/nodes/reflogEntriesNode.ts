@@ -0,0 +1,110 @@
+'use strict';
+import { TreeItem, TreeItemCollapsibleState, window } from 'vscode';
+import { LoadMoreNode, MessageNode } from './common';
+import { Container } from '../../container';
+import { GitReflog, Repository } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { DeletedBranchesNode } from './deletedBranchesNode';
+import { DroppedStashesNode } from './droppedStashesNode';
+import { ReflogEntryNode } from './reflogEntryNode';
+import { ReflogView } from '../reflogView';
+import { RepositoryNode } from './repositoryNode';
+import { debug, gate } from '../../system';
+import { ContextValues, PageableViewNode, ViewNode } from './viewNode';
+
+export class ReflogEntriesNode extends ViewNode<ReflogView> implements PageableViewNode {
+	static key = ':reflog-entries';
+	static getId(repoPath: string): string {
+		return `${RepositoryNode.getId(repoPath)}${this.key}`;
+	}
+
+	private _children: ViewNode[] | undefined;
+
+	constructor(uri: GitUri, view: ReflogView, parent: ViewNode, public readonly repo: Repository) {
+		super(uri, view, parent);
+	}
+
+	get id(): string {
+		return ReflogEntriesNode.getId(this.repo.path);
+	}
+
+	get repoPath(): string {
+		return this.repo.path;
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		if (this._children == null) {
+			const children: ViewNode[] = [
+				new DeletedBranchesNode(this.uri, this.view, this, this.repo),
+				new DroppedStashesNode(this.uri, this.view, this, this.repo),
+			];
+
+			const reflog = await this.getReflog();
+			if (reflog == null || reflog.records.length === 0) {
+				children.push(new MessageNode(this.view, this, 'No reflog entries could be found.'));
+			} else {
+				children.push(...reflog.records.map(r => new ReflogEntryNode(this.view, this, r)));
+
+				if (reflog.hasMore) {
+					children.push(new LoadMoreNode(this.view, this, children[children.length - 1]));
+				}
+			}
+
+			this._children = children;
+		}
+
+		return this._children;
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem('Reflog', TreeItemCollapsibleState.Expanded);
+		item.id = this.id;
+		item.contextValue = ContextValues.ReflogEntries;
+
+		return item;
+	}
+
+	@gate()
+	@debug()
+	refresh(reset?: boolean) {
+		this._children = undefined;
+		if (reset) {
+			this._reflog = undefined;
+		}
+	}
+
+	private _reflog: GitReflog | undefined;
+	private async getReflog() {
+		if (this._reflog == null) {
+			this._reflog = await Container.git.getReflog(this.repo.path, {
+				commands: this.view.state.filter?.commands,
+				limit: this.limit ?? this.view.config.defaultItemLimit,
+			});
+		}
+
+		return this._reflog;
+	}
+
+	get hasMore() {
+		return this._reflog?.hasMore ?? true;
+	}
+
+	limit: number | undefined = this.view.getNodeLastKnownLimit(this);
+	@gate()
+	async loadMore(limit?: number) {
+		let reflog = await window.withProgress(
+			{
+				location: { viewId: this.view.id },
+			},
+			() => this.getReflog(),
+		);
+		if (reflog == null || !reflog.hasMore) return;
+
+		reflog = await reflog.more?.(limit ?? this.view.config.pageItemLimit);
+		if (this._reflog === reflog) return;
+
+		this._reflog = reflog;
+		this.limit = reflog?.count;
+		void this.triggerChange(false);
+	}
+}
@@ -0,0 +1,80 @@
+'use strict';
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { CommitNode } from './commitNode';
+import { MessageNode } from './common';
+import { GlyphChars } from '../../constants';
+import { Container } from '../../container';
+import { GitReference, GitReflogRecord, GitRevisionReference } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { ReflogView } from '../reflogView';
+import { RepositoryNode } from './repositoryNode';
+import { ContextValues, ViewNode, ViewRefNode } from './viewNode';
+
+const commandIcons = new Map<string, string>([
+	['checkout', 'arrow-swap'],
+	['cherry', 'git-commit'],
+	['commit', 'git-commit'],
+	['merge', 'git-merge'],
+	['pull', 'repo-pull'],
+	['rebase', 'git-pull-request'],
+	['reset', 'discard'],
+]);
+
+export class ReflogEntryNode extends ViewRefNode<ReflogView, GitRevisionReference> {
+	static key = ':reflog-entry';
+	static getId(repoPath: string, sha: string, selector: string, date: Date): string {
+		return `${RepositoryNode.getId(repoPath)}${this.key}(${sha}|${selector}|${date.getTime()})`;
+	}
+
+	constructor(view: ReflogView, parent: ViewNode, public readonly record: GitReflogRecord) {
+		super(GitUri.fromRepoPath(record.repoPath), view, parent);
+	}
+
+	toClipboard(): string {
+		return this.record.sha;
+	}
+
+	get id(): string {
+		return ReflogEntryNode.getId(this.record.repoPath, this.record.sha, this.record.selector, this.record.date);
+	}
+
+	private _ref: GitRevisionReference | undefined;
+	get ref(): GitRevisionReference {
+		if (this._ref == null) {
+			this._ref = GitReference.create(this.record.sha, this.record.repoPath, {
+				refType: 'revision',
+				message: this.record.details,
+			});
+		}
+		return this._ref;
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		const commit = await Container.git.getCommit(this.record.repoPath, this.record.sha);
+		if (commit == null) return [new MessageNode(this.view, this, 'No commit could be found.')];
+
+		return [new CommitNode(this.view, this, commit)];
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem(
+			`${this.record.command}${this.record.commandArgs ? ` ${this.record.commandArgs}` : ''}`,
+			TreeItemCollapsibleState.Collapsed,
+		);
+		item.id = this.id;
+		item.description = `${
+			this.record.details ? `${this.record.details} ${GlyphChars.Space}${GlyphChars.Dot}${GlyphChars.Space} ` : ''
+		}${this.record.formattedDate}`;
+		item.contextValue = ContextValues.ReflogEntry;
+		item.iconPath = new ThemeIcon(commandIcons.get(this.record.command) ?? 'history');
+		item.tooltip = `${this.record.command}${this.record.commandArgs ? ` ${this.record.commandArgs}` : ''}${
+			this.record.details ? `: ${this.record.details}` : ''
+		}\n${this.record.formatDateFromNow()} (${this.record.formatDate()})\n${
+			this.record.previousSha != null
+				? `${this.record.previousShortSha} ${GlyphChars.Space}${GlyphChars.ArrowRight}${GlyphChars.Space} `
+				: ''
+		}${this.record.shortSha}`;
+
+		return item;
+	}
+}
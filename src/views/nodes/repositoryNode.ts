@@ -14,6 +14,7 @@ import {
 import { GitUri } from '../../git/gitUri';
 import { Arrays, debug, Functions, gate, log, Strings } from '../../system';
 import { RepositoriesView } from '../repositoriesView';
+import { BisectStatusNode } from './bisectStatusNode';
 import { CompareBranchNode } from './compareBranchNode';
 import { BranchesNode } from './branchesNode';
 import { BranchNode } from './branchNode';
@@ -26,6 +27,7 @@ import { ReflogNode } from './reflogNode';
 import { RemotesNode } from './remotesNode';
 import { StashesNode } from './stashesNode';
 import { StatusFilesNode } from './statusFilesNode';
+import { SubmodulesNode } from './submodulesNode';
 import { TagsNode } from './tagsNode';
 import { ContextValues, SubscribeableViewNode, ViewNode } from './viewNode';
 
@@ -85,15 +87,18 @@ export class RepositoryNode extends SubscribeableViewNode<RepositoriesView> {
 					);
 				}
 
-				const [mergeStatus, rebaseStatus] = await Promise.all([
+				const [mergeStatus, rebaseStatus, bisectStatus] = await Promise.all([
 					Container.git.getMergeStatus(status.repoPath),
 					Container.git.getRebaseStatus(status.repoPath),
+					Container.git.getBisectStatus(status.repoPath),
 				]);
 
 				if (mergeStatus != null) {
 					children.push(new MergeStatusNode(this.view, this, branch, mergeStatus, status, true));
 				} else if (rebaseStatus != null) {
 					children.push(new RebaseStatusNode(this.view, this, branch, rebaseStatus, status, true));
+				} else if (bisectStatus != null) {
+					children.push(new BisectStatusNode(this.view, this, branch, bisectStatus, true));
 				} else if (this.view.config.showUpstreamStatus) {
 					if (status.upstream) {
 						if (!status.state.behind && !status.state.ahead) {
@@ -156,6 +161,10 @@ export class RepositoryNode extends SubscribeableViewNode<RepositoriesView> {
 				children.push(new TagsNode(this.uri, this.view, this, this.repo));
 			}
 
+			if (this.view.config.showSubmodules) {
+				children.push(new SubmodulesNode(this.uri, this.view, this, this.repo));
+			}
+
 			if (this.view.config.showContributors) {
 				children.push(new ContributorsNode(this.uri, this.view, this, this.repo));
 			}
@@ -435,5 +444,12 @@ export class RepositoryNode extends SubscribeableViewNode<RepositoriesView> {
 				void this.view.triggerNodeChange(node);
 			}
 		}
+
+		if (e.changed(RepositoryChange.Submodules)) {
+			const node = this._children.find(c => c instanceof SubmodulesNode);
+			if (node !== undefined) {
+				void this.view.triggerNodeChange(node);
+			}
+		}
 	}
 }
@@ -28,6 +28,7 @@ export class ResultsCommitsNode<View extends ViewsWithCommits = ViewsWithCommits
 		private _label: string,
 		private readonly _results: {
 			query: (limit: number | undefined) => Promise<CommitsQueryResults>;
+			changedLineMatcher?: (line: string) => boolean;
 			comparison?: { ref1: string; ref2: string };
 			deferred?: boolean;
 			direction?: 'ahead' | 'behind';
@@ -89,7 +90,10 @@ export class ResultsCommitsNode<View extends ViewsWithCommits = ViewsWithCommits
 			);
 		}
 
-		const options = { expand: this._options.expand && log.count === 1 };
+		const options = {
+			changedLineMatcher: this._results.changedLineMatcher,
+			expand: this._options.expand && log.count === 1,
+		};
 
 		children.push(
 			...insertDateMarkers(
@@ -0,0 +1,74 @@
+'use strict';
+import * as paths from 'path';
+import { Command, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { Commands, DiffWithPreviousCommandArgs } from '../../commands';
+import { Container } from '../../container';
+import { GitFile, GitFileIndexStatus, GitLogCommit } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { View } from '../viewBase';
+import { ContextValues, ViewNode } from './viewNode';
+
+export class ResultsHunkLineNode extends ViewNode {
+	constructor(
+		view: View,
+		parent: ViewNode,
+		public readonly file: GitFile,
+		public readonly commit: GitLogCommit,
+		public readonly line: string,
+		public readonly state: 'added' | 'removed',
+		private readonly _lines: { current: number; previous: number },
+	) {
+		super(GitUri.fromFile(file, commit.repoPath, commit.sha), view, parent);
+	}
+
+	toClipboard(): string {
+		return this.line.trim();
+	}
+
+	get lineNumber(): number {
+		return this.state === 'added' ? this._lines.current : this._lines.previous;
+	}
+
+	getChildren(): ViewNode[] {
+		return [];
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem(this.line.trim(), TreeItemCollapsibleState.None);
+		item.contextValue = ContextValues.ResultsHunkLine;
+		item.description = `line ${this.lineNumber}`;
+		item.tooltip = `${this.state === 'added' ? 'Added' : 'Removed'} on line ${this.lineNumber} of ${
+			this.file.fileName
+		}\n\n${this.line.trim()}`;
+
+		const icon = GitFile.getStatusIcon(
+			this.state === 'added' ? GitFileIndexStatus.Added : GitFileIndexStatus.Deleted,
+		);
+		item.iconPath = {
+			dark: Container.context.asAbsolutePath(paths.join('images', 'dark', icon)),
+			light: Container.context.asAbsolutePath(paths.join('images', 'light', icon)),
+		};
+
+		item.command = this.getCommand();
+
+		return item;
+	}
+
+	getCommand(): Command | undefined {
+		const commandArgs: DiffWithPreviousCommandArgs = {
+			commit: this.commit,
+			uri: GitUri.fromFile(this.file, this.commit.repoPath),
+			// Removed lines don't exist in the current revision, so jump to where they were removed from
+			line: Math.max(this._lines.current - 1, 0),
+			showOptions: {
+				preserveFocus: true,
+				preview: true,
+			},
+		};
+		return {
+			title: 'Open Changes with Previous Revision',
+			command: Commands.DiffWithPrevious,
+			arguments: [undefined, commandArgs],
+		};
+	}
+}
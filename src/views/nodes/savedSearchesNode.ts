@@ -0,0 +1,131 @@
+'use strict';
+import { Disposable, RelativePattern, ThemeIcon, TreeItem, TreeItemCollapsibleState, workspace } from 'vscode';
+import { CompareResultsNode } from './compareResultsNode';
+import { Container } from '../../container';
+import { RepositoryChange, RepositoryChangeEvent } from '../../git/git';
+import { savedSearchesFileName, SearchAndCompareView } from '../searchAndCompareView';
+import { SearchResultsNode } from './searchResultsNode';
+import { debug, gate } from '../../system';
+import { ContextValues, SubscribeableViewNode, unknownGitUri, ViewNode } from './viewNode';
+
+export class SavedSearchesNode extends SubscribeableViewNode<SearchAndCompareView> {
+	static key = ':saved';
+	static getId(): string {
+		return `gitlens${this.key}`;
+	}
+
+	private _children: (CompareResultsNode | SearchResultsNode)[] | undefined;
+
+	constructor(view: SearchAndCompareView, parent: ViewNode) {
+		super(unknownGitUri, view, parent);
+	}
+
+	get id(): string {
+		return SavedSearchesNode.getId();
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		if (this._children == null) {
+			const children = [];
+
+			const repositories = await Container.git.getOrderedRepositories();
+			for (const repo of repositories) {
+				const saved = await this.view.getSaved(repo.path, { validateRefs: true });
+				for (const item of saved) {
+					children.push(
+						item.type === 'comparison'
+							? new CompareResultsNode(this.view, this, repo.path, item.ref1, item.ref2, 0, item)
+							: new SearchResultsNode(
+									this.view,
+									this,
+									repo.path,
+									item.search,
+									{ label: `Results for ${item.name}`, queryLabel: { label: `for ${item.name}` } },
+									undefined,
+									0,
+									item,
+							  ),
+					);
+				}
+			}
+
+			this._children = children;
+		}
+
+		return this._children;
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem('Saved', TreeItemCollapsibleState.Expanded);
+		item.id = this.id;
+		item.contextValue = ContextValues.SavedSearches;
+		item.iconPath = new ThemeIcon('save');
+
+		return item;
+	}
+
+	async hasChildren(): Promise<boolean> {
+		const children = await this.getChildren();
+		return children.length !== 0;
+	}
+
+	@gate()
+	@debug()
+	refresh(reset: boolean = false) {
+		if (!reset) return;
+
+		this._children = undefined;
+	}
+
+	@debug()
+	protected async subscribe() {
+		const repositories = await Container.git.getOrderedRepositories();
+
+		const subscriptions: Disposable[] = [Container.git.onDidChangeRepositories(this.onRepositoriesChanged, this)];
+		for (const repo of repositories) {
+			// Reload whenever the saved file is changed outside of the view, e.g. pulled in from a teammate
+			const watcher = workspace.createFileSystemWatcher(new RelativePattern(repo.path, savedSearchesFileName));
+			subscriptions.push(
+				watcher,
+				watcher.onDidChange(this.onSavedFileChanged, this),
+				watcher.onDidCreate(this.onSavedFileChanged, this),
+				watcher.onDidDelete(this.onSavedFileChanged, this),
+				repo.onDidChange(this.onRepositoryChanged, this),
+			);
+		}
+
+		return Disposable.from(...subscriptions);
+	}
+
+	private async onRepositoriesChanged() {
+		await this.unsubscribe();
+		void this.ensureSubscription();
+
+		this.onSavedFileChanged();
+	}
+
+	private onRepositoryChanged(e: RepositoryChangeEvent) {
+		if (
+			this._children == null ||
+			e.repository == null ||
+			(!e.changed(RepositoryChange.Heads) &&
+				!e.changed(RepositoryChange.Index) &&
+				!e.changed(RepositoryChange.Remotes) &&
+				!e.changed(RepositoryChange.Tags) &&
+				!e.changed(RepositoryChange.Unknown))
+		) {
+			return;
+		}
+
+		for (const child of this._children) {
+			if (child.saved?.autoRefresh && child.repoPath === e.repository.path) {
+				void this.view.refreshNode(child, true);
+			}
+		}
+	}
+
+	private onSavedFileChanged() {
+		this._children = undefined;
+		this.view.triggerNodeChange(this.parent);
+	}
+}
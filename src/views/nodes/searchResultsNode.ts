@@ -1,6 +1,7 @@
 'use strict';
 import { ThemeIcon, TreeItem } from 'vscode';
 import { executeGitCommand } from '../../commands';
+import { SavedSearch } from '../../constants';
 import { Container } from '../../container';
 import { GitLog, SearchPattern } from '../../git/git';
 import { GitUri } from '../../git/gitUri';
@@ -57,6 +58,7 @@ export class SearchResultsNode extends ViewNode<SearchAndCompareView> implements
 			| GitLog
 			| undefined,
 		private _pinned: number = 0,
+		public readonly saved?: SavedSearch,
 	) {
 		super(GitUri.fromRepoPath(repoPath), view, parent);
 
@@ -70,7 +72,7 @@ export class SearchResultsNode extends ViewNode<SearchAndCompareView> implements
 	}
 
 	get canDismiss(): boolean {
-		return !this.pinned;
+		return !this.pinned && this.saved == null;
 	}
 
 	private readonly _order: number = Date.now();
@@ -113,6 +115,7 @@ export class SearchResultsNode extends ViewNode<SearchAndCompareView> implements
 				{
 					query: this._searchQueryOrLog,
 					deferred: deferred,
+					changedLineMatcher: SearchPattern.toChangedLineMatcher(this._search),
 				},
 				{
 					expand: !this.pinned,
@@ -130,7 +133,9 @@ export class SearchResultsNode extends ViewNode<SearchAndCompareView> implements
 
 	async getTreeItem(): Promise<TreeItem> {
 		const item = await this.ensureResults().getTreeItem();
-		item.contextValue = `${ContextValues.SearchResults}${this._pinned ? '+pinned' : ''}`;
+		item.contextValue = `${ContextValues.SearchResults}${this._pinned ? '+pinned' : ''}${
+			this.saved != null ? '+saved' : ''
+		}`;
 		if ((await Container.git.getRepositoryCount()) > 1) {
 			const repo = await Container.git.getRepository(this.repoPath);
 			item.description = repo?.formattedName ?? this.repoPath;
@@ -222,6 +227,23 @@ export class SearchResultsNode extends ViewNode<SearchAndCompareView> implements
 		setImmediate(() => this.view.reveal(this, { focus: true, select: true }));
 	}
 
+	@log()
+	async save(name: string, autoRefresh: boolean) {
+		await this.view.updateSaved(this.repoPath, name, {
+			type: 'search',
+			name: name,
+			search: this.search,
+			autoRefresh: autoRefresh,
+		});
+	}
+
+	@log()
+	async unsave() {
+		if (this.saved == null) return;
+
+		await this.view.updateSaved(this.repoPath, this.saved.name);
+	}
+
 	private getPinnableId() {
 		return SearchResultsNode.getPinnableId(this.repoPath, this.search);
 	}
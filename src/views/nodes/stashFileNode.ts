@@ -1,12 +1,18 @@
 'use strict';
 import { CommitFileNode } from './commitFileNode';
 import { GitFile, GitLogCommit } from '../../git/git';
+import { ReflogView } from '../reflogView';
 import { RepositoriesView } from '../repositoriesView';
 import { StashesView } from '../stashesView';
 import { ContextValues, ViewNode } from './viewNode';
 
-export class StashFileNode extends CommitFileNode<StashesView | RepositoriesView> {
-	constructor(view: StashesView | RepositoriesView, parent: ViewNode, file: GitFile, commit: GitLogCommit) {
+export class StashFileNode extends CommitFileNode<StashesView | RepositoriesView | ReflogView> {
+	constructor(
+		view: StashesView | RepositoriesView | ReflogView,
+		parent: ViewNode,
+		file: GitFile,
+		commit: GitLogCommit,
+	) {
 		super(view, parent, file, commit);
 	}
 
@@ -14,12 +14,20 @@ import { ContextValues, ViewNode } from './viewNode';
 export class StatusFileNode extends ViewNode<ViewsWithCommits> implements FileNode {
 	public readonly commits: GitLogCommit[];
 	public readonly file: GitFile;
+	public readonly owners: string[] | undefined;
 	public readonly repoPath: string;
 
 	private readonly _hasStagedChanges: boolean;
 	private readonly _hasUnstagedChanges: boolean;
 
-	constructor(view: ViewsWithCommits, parent: ViewNode, repoPath: string, file: GitFile, commits: GitLogCommit[]) {
+	constructor(
+		view: ViewsWithCommits,
+		parent: ViewNode,
+		repoPath: string,
+		file: GitFile,
+		commits: GitLogCommit[],
+		owners?: string[],
+	) {
 		let hasStagedChanges = false;
 		let hasUnstagedChanges = false;
 		let ref = undefined;
@@ -49,6 +57,7 @@ export class StatusFileNode extends ViewNode<ViewsWithCommits> implements FileNo
 		this.repoPath = repoPath;
 		this.file = file;
 		this.commits = commits;
+		this.owners = owners;
 
 		this._hasStagedChanges = hasStagedChanges;
 		this._hasUnstagedChanges = hasUnstagedChanges;
@@ -126,6 +135,14 @@ export class StatusFileNode extends ViewNode<ViewsWithCommits> implements FileNo
 			item.command = this.getCommand();
 		}
 
+		if (this.file.submodule != null) {
+			item.tooltip = `${item.tooltip}\n${GitFile.getSubmoduleStatusText(this.file.submodule)}`;
+		}
+
+		if (this.owners != null && this.owners.length !== 0) {
+			item.tooltip = `${item.tooltip}\n\nOwners: ${this.owners.join(', ')}`;
+		}
+
 		// Only cache the label/description for a single refresh
 		this._label = undefined;
 		this._description = undefined;
@@ -96,6 +96,7 @@ export class StatusFilesNode extends ViewNode<RepositoriesView> {
 		files.sort((a, b) => b.commit.date.getTime() - a.commit.date.getTime());
 
 		const groups = Arrays.groupBy(files, s => s.fileName);
+		const codeOwners = await Container.git.getCodeOwners(repoPath);
 
 		let children: FileNode[] = [
 			...Iterables.map(
@@ -107,6 +108,7 @@ export class StatusFilesNode extends ViewNode<RepositoriesView> {
 						repoPath,
 						files[files.length - 1],
 						files.map(s => s.commit),
+						codeOwners?.getOwners(files[0].fileName),
 					),
 			),
 		];
@@ -182,6 +184,7 @@ export class StatusFilesNode extends ViewNode<RepositoriesView> {
 			workingTreeStatus: file.workingTreeStatus,
 			fileName: file.fileName,
 			originalFileName: file.originalFileName,
+			submodule: file.submodule,
 			commit: new GitLogCommit(
 				GitCommitType.LogFile,
 				file.repoPath,
@@ -0,0 +1,114 @@
+'use strict';
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { CommitNode } from './commitNode';
+import { MessageNode } from './common';
+import { GlyphChars } from '../../constants';
+import { Container } from '../../container';
+import { GitRevision, GitSubmodule } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { insertDateMarkers } from './helpers';
+import { RepositoriesView } from '../repositoriesView';
+import { RepositoryNode } from './repositoryNode';
+import { Iterables, Strings } from '../../system';
+import { ContextValues, ViewNode } from './viewNode';
+
+export class SubmoduleNode extends ViewNode<RepositoriesView> {
+	static key = ':submodule';
+	static getId(repoPath: string, path: string): string {
+		return `${RepositoryNode.getId(repoPath)}${this.key}(${path})`;
+	}
+
+	constructor(uri: GitUri, view: RepositoriesView, parent: ViewNode, public readonly submodule: GitSubmodule) {
+		super(uri, view, parent);
+	}
+
+	toClipboard(): string {
+		return this.submodule.path;
+	}
+
+	get id(): string {
+		return SubmoduleNode.getId(this.submodule.repoPath, this.submodule.path);
+	}
+
+	get repoPath(): string {
+		return this.submodule.repoPath;
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		const { submodule } = this;
+		if (!submodule.changed) return [];
+
+		const log = await Container.git.getLog(submodule.fullPath, {
+			limit: this.view.config.defaultItemLimit,
+			ref: GitRevision.createRange(submodule.recordedSha, submodule.sha),
+		});
+		if (log == null) {
+			return [
+				new MessageNode(
+					this.view,
+					this,
+					`No commits could be found. The checked out commit is not ahead of ${submodule.recordedShortSha}`,
+				),
+			];
+		}
+
+		const getBranchAndTagTips = await Container.git.getBranchesAndTagsTipsFn(submodule.fullPath);
+		return [
+			...insertDateMarkers(
+				Iterables.map(
+					log.commits.values(),
+					c => new CommitNode(this.view, this, c, undefined, undefined, getBranchAndTagTips),
+				),
+				this,
+			),
+		];
+	}
+
+	getTreeItem(): TreeItem {
+		const { submodule } = this;
+
+		let description;
+		switch (submodule.status) {
+			case 'current':
+				description = submodule.shortSha;
+				break;
+			case 'modified':
+				description = `${submodule.recordedShortSha} ${GlyphChars.ArrowRight} ${submodule.shortSha}`;
+				break;
+			case 'uninitialized':
+				description = `${submodule.recordedShortSha} ${GlyphChars.Dot} not initialized`;
+				break;
+			case 'conflicted':
+				description = `${submodule.recordedShortSha} ${GlyphChars.Dot} conflicted`;
+				break;
+		}
+
+		const item = new TreeItem(
+			submodule.name,
+			submodule.changed ? TreeItemCollapsibleState.Collapsed : TreeItemCollapsibleState.None,
+		);
+		item.id = this.id;
+		item.contextValue = `${ContextValues.Submodule}+${submodule.status}`;
+		item.description = description;
+		item.iconPath = new ThemeIcon(
+			submodule.status === 'conflicted'
+				? 'warning'
+				: submodule.status === 'uninitialized'
+				? 'circle-outline'
+				: 'file-submodule',
+		);
+		item.tooltip = `Submodule ${submodule.name}${Strings.pad(GlyphChars.Dash, 2, 2)}${submodule.path}${
+			submodule.url != null ? `\n${submodule.url}` : ''
+		}${submodule.branch != null ? `\nBranch ${submodule.branch}` : ''}\n\nRecorded at ${
+			submodule.recordedShortSha ?? 'unknown'
+		}${
+			submodule.initialized
+				? `\nChecked out at ${submodule.shortSha}${
+						submodule.describe != null ? ` (${submodule.describe})` : ''
+				  }`
+				: '\nNot initialized'
+		}`;
+
+		return item;
+	}
+}
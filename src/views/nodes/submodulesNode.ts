@@ -0,0 +1,56 @@
+'use strict';
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { MessageNode } from './common';
+import { Repository } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { RepositoriesView } from '../repositoriesView';
+import { RepositoryNode } from './repositoryNode';
+import { SubmoduleNode } from './submoduleNode';
+import { debug, gate } from '../../system';
+import { ContextValues, ViewNode } from './viewNode';
+
+export class SubmodulesNode extends ViewNode<RepositoriesView> {
+	static key = ':submodules';
+	static getId(repoPath: string): string {
+		return `${RepositoryNode.getId(repoPath)}${this.key}`;
+	}
+
+	private _children: ViewNode[] | undefined;
+
+	constructor(uri: GitUri, view: RepositoriesView, parent: ViewNode, public readonly repo: Repository) {
+		super(uri, view, parent);
+	}
+
+	get id(): string {
+		return SubmodulesNode.getId(this.repo.path);
+	}
+
+	get repoPath(): string {
+		return this.repo.path;
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		if (this._children == null) {
+			const submodules = await this.repo.getSubmodules();
+			if (submodules.length === 0) return [new MessageNode(this.view, this, 'No submodules could be found.')];
+
+			this._children = submodules.map(s => new SubmoduleNode(this.uri, this.view, this, s));
+		}
+
+		return this._children;
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem('Submodules', TreeItemCollapsibleState.Collapsed);
+		item.id = this.id;
+		item.contextValue = ContextValues.Submodules;
+		item.iconPath = new ThemeIcon('file-submodule');
+		return item;
+	}
+
+	@gate()
+	@debug()
+	refresh() {
+		this._children = undefined;
+	}
+}
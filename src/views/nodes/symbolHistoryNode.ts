@@ -0,0 +1,166 @@
+'use strict';
+import { Command, commands, Range, Selection, SymbolKind, TreeItem } from 'vscode';
+import { DiffWithPreviousCommandArgs } from '../../commands';
+import { Container } from '../../container';
+import { FileHistoryView } from '../fileHistoryView';
+import { FileRevisionAsCommitNode } from './fileRevisionAsCommitNode';
+import { GitBranch, GitLogCommit, GitRevision } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { LineHistoryNode } from './lineHistoryNode';
+import { LineHistoryView } from '../lineHistoryView';
+import { RepositoryNode } from './repositoryNode';
+import { ContextValues, ViewNode } from './viewNode';
+
+const hunkHeaderRegex = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm;
+
+export interface HistorySymbol {
+	readonly name: string;
+	readonly kind: SymbolKind;
+	readonly range: Range;
+}
+
+export class SymbolHistoryNode extends LineHistoryNode {
+	static key = ':history:symbol';
+
+	constructor(
+		uri: GitUri,
+		view: FileHistoryView | LineHistoryView,
+		parent: ViewNode,
+		branch: GitBranch | undefined,
+		public readonly symbol: HistorySymbol,
+		editorContents: string | undefined,
+	) {
+		super(uri, view, parent, branch, new Selection(symbol.range.start, symbol.range.end), editorContents);
+	}
+
+	get id(): string {
+		return `${RepositoryNode.getId(this.uri.repoPath!)}${SymbolHistoryNode.key}(${this.uri.toString(true)}[${
+			this.symbol.name
+		}:${this.symbol.range.start.line}])`;
+	}
+
+	getTreeItem(): TreeItem {
+		const item = super.getTreeItem();
+		item.contextValue = ContextValues.SymbolHistory;
+		item.tooltip = `History of ${SymbolKind[this.symbol.kind].toLowerCase()} ${this.symbol.name} in ${
+			this.uri.fileName
+		}${this.lines}\n${this.uri.directory}/${this.uri.sha == null ? '' : `\n\n${this.uri.sha}`}`;
+
+		return item;
+	}
+
+	protected get emptyMessage() {
+		return 'No symbol history could be found.';
+	}
+
+	get label(): string {
+		return `${this.symbol.name} in ${this.uri.fileName}${this.lines}${
+			this.uri.sha
+				? ` ${this.uri.sha === GitRevision.deletedOrMissing ? this.uri.shortSha : `(${this.uri.shortSha})`}`
+				: ''
+		}`;
+	}
+
+	refresh(reset?: boolean) {
+		if (reset) {
+			this._patches = undefined;
+		}
+
+		return super.refresh(reset);
+	}
+
+	private _logSelection: Selection | undefined;
+	protected async getLog(selection?: Selection) {
+		if (this._log == null) {
+			this._logSelection = selection ?? this.selection;
+			this._log = await Container.git.getLogForFile(this.uri.repoPath, this.uri.fsPath, {
+				all: false,
+				limit: this.limit ?? this.view.config.pageItemLimit,
+				range: this._logSelection,
+				ref: this.uri.sha,
+				renames: false,
+			});
+		}
+
+		return this._log;
+	}
+
+	protected getRevisionNode(
+		commit: GitLogCommit,
+		options: { branch?: GitBranch; selection?: Selection; unpublished?: boolean },
+	): FileRevisionAsCommitNode {
+		return new SymbolRevisionNode(this.view, this, commit, options);
+	}
+
+	private _patches: Map<string, string> | undefined;
+
+	async openChanges(commit: GitLogCommit, command: Command) {
+		if (this._patches?.has(commit.sha) !== true) {
+			this._patches = await Container.git.getLogForFileRangePatches(this.uri.repoPath!, this.uri.fsPath, {
+				limit: this._log?.count,
+				range: this._logSelection ?? this.selection,
+				ref: this.uri.sha,
+			});
+		}
+
+		let args = command.arguments?.[1] as DiffWithPreviousCommandArgs | undefined;
+
+		// Select the lines of the symbol in the revision, which are the (new) lines of the hunks of its patch
+		const patch = this._patches.get(commit.sha);
+		if (args != null && patch != null) {
+			let start: number | undefined;
+			let end: number | undefined;
+
+			let match;
+			hunkHeaderRegex.lastIndex = 0;
+			do {
+				match = hunkHeaderRegex.exec(patch);
+				if (match == null) break;
+
+				const [, line, count] = match;
+
+				const hunkStart = Number(line) - 1;
+				const hunkEnd = hunkStart + Math.max((count == null ? 1 : Number(count)) - 1, 0);
+				if (start == null || hunkStart < start) {
+					start = hunkStart;
+				}
+				if (end == null || hunkEnd > end) {
+					end = hunkEnd;
+				}
+			} while (true);
+
+			if (start != null && end != null) {
+				args = {
+					...args,
+					line: start,
+					showOptions: { ...args.showOptions, selection: new Range(start, 0, end + 1, 0) },
+				};
+			}
+		}
+
+		void (await commands.executeCommand(command.command, command.arguments?.[0], args));
+	}
+}
+
+class SymbolRevisionNode extends FileRevisionAsCommitNode {
+	constructor(
+		view: FileHistoryView | LineHistoryView,
+		private readonly symbolNode: SymbolHistoryNode,
+		commit: GitLogCommit,
+		options: { branch?: GitBranch; selection?: Selection; unpublished?: boolean },
+	) {
+		super(view, symbolNode, commit.files[0], commit, options);
+	}
+
+	getCommand(): Command | undefined {
+		const command = super.getCommand();
+		if (command == null || this.commit.isUncommitted || this.commit.hasConflicts) return command;
+
+		// Open the changes with the lines of the symbol selected
+		return {
+			title: 'Open Symbol Changes with Previous Revision',
+			command: 'gitlens.views.executeNodeCallback',
+			arguments: [() => this.symbolNode.openChanges(this.commit, command)],
+		};
+	}
+}
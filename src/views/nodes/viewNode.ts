@@ -17,6 +17,7 @@ import { TreeViewNodeCollapsibleStateChangeEvent, View } from '../viewBase';
 export enum ContextValues {
 	ActiveFileHistory = 'gitlens:history:active:file',
 	ActiveLineHistory = 'gitlens:history:active:line',
+	Bisect = 'gitlens:bisect',
 	Branch = 'gitlens:branch',
 	Branches = 'gitlens:branches',
 	BranchStatusAheadOfUpstream = 'gitlens:status-branch:upstream:ahead',
@@ -33,8 +34,13 @@ export enum ContextValues {
 	CompareResults = 'gitlens:compare:results',
 	CompareResultsCommits = 'gitlens:compare:results:commits',
 	Contributor = 'gitlens:contributor',
+	ContributorFile = 'gitlens:owned-file',
+	ContributorFiles = 'gitlens:owned-files',
 	Contributors = 'gitlens:contributors',
 	DateMarker = 'gitlens:date-marker',
+	DeletedBranch = 'gitlens:deleted-branch',
+	DeletedBranches = 'gitlens:deleted-branches',
+	DroppedStashes = 'gitlens:dropped-stashes',
 	File = 'gitlens:file',
 	FileHistory = 'gitlens:history:file',
 	Folder = 'gitlens:folder',
@@ -47,6 +53,8 @@ export enum ContextValues {
 	PullRequest = 'gitlens:pullrequest',
 	Rebase = 'gitlens:rebase',
 	Reflog = 'gitlens:reflog',
+	ReflogEntries = 'gitlens:reflog-entries',
+	ReflogEntry = 'gitlens:reflog-entry',
 	ReflogRecord = 'gitlens:reflog-record',
 	Remote = 'gitlens:remote',
 	Remotes = 'gitlens:remotes',
@@ -55,6 +63,8 @@ export enum ContextValues {
 	RepositoryFolder = 'gitlens:repo-folder',
 	ResultsFile = 'gitlens:file:results',
 	ResultsFiles = 'gitlens:results:files',
+	ResultsHunkLine = 'gitlens:results:hunk-line',
+	SavedSearches = 'gitlens:searchAndCompare:saved',
 	SearchAndCompare = 'gitlens:searchAndCompare',
 	SearchResults = 'gitlens:search:results',
 	SearchResultsCommits = 'gitlens:search:results:commits',
@@ -66,8 +76,13 @@ export enum ContextValues {
 	StatusBehindUpstream = 'gitlens:status:upstream:behind',
 	StatusNoUpstream = 'gitlens:status:upstream:none',
 	StatusSameAsUpstream = 'gitlens:status:upstream:same',
+	Submodule = 'gitlens:submodule',
+	Submodules = 'gitlens:submodules',
+	SymbolHistory = 'gitlens:history:symbol',
 	Tag = 'gitlens:tag',
 	Tags = 'gitlens:tags',
+	Worktree = 'gitlens:worktree',
+	Worktrees = 'gitlens:worktrees',
 }
 
 export const unknownGitUri = new GitUri();
@@ -108,6 +123,8 @@ export abstract class ViewNode<TView extends View = View> {
 
 	abstract getTreeItem(): TreeItem | Promise<TreeItem>;
 
+	resolveTreeItem?(item: TreeItem): TreeItem | Promise<TreeItem>;
+
 	getCommand(): Command | undefined {
 		return undefined;
 	}
@@ -0,0 +1,170 @@
+'use strict';
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState, window } from 'vscode';
+import { CommitNode } from './commitNode';
+import { LoadMoreNode, MessageNode } from './common';
+import { GlyphChars } from '../../constants';
+import { Container } from '../../container';
+import { GitLog, GitWorktree } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { insertDateMarkers } from './helpers';
+import { RepositoryNode } from './repositoryNode';
+import { debug, gate, Iterables, Strings } from '../../system';
+import { ContextValues, PageableViewNode, ViewNode } from './viewNode';
+import { WorktreesView } from '../worktreesView';
+
+export class WorktreeNode extends ViewNode<WorktreesView> implements PageableViewNode {
+	static key = ':worktree';
+	static getId(repoPath: string, uri: string): string {
+		return `${RepositoryNode.getId(repoPath)}${this.key}(${uri})`;
+	}
+
+	constructor(uri: GitUri, view: WorktreesView, parent: ViewNode, public readonly worktree: GitWorktree) {
+		super(uri, view, parent);
+	}
+
+	toClipboard(): string {
+		return this.worktree.path;
+	}
+
+	get id(): string {
+		return WorktreeNode.getId(this.worktree.repoPath, this.worktree.uri.toString(true));
+	}
+
+	get repoPath(): string {
+		return this.worktree.repoPath;
+	}
+
+	get current(): boolean {
+		return Strings.normalizePath(this.worktree.path) === Strings.normalizePath(this.worktree.repoPath);
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		const log = await this.getLog();
+		if (log == null) return [new MessageNode(this.view, this, 'No commits could be found.')];
+
+		const getBranchAndTagTips = await Container.git.getBranchesAndTagsTipsFn(this.uri.repoPath);
+		const children = [
+			...insertDateMarkers(
+				Iterables.map(
+					log.commits.values(),
+					c => new CommitNode(this.view, this, c, undefined, undefined, getBranchAndTagTips),
+				),
+				this,
+			),
+		];
+
+		if (log.hasMore) {
+			children.push(
+				new LoadMoreNode(this.view, this, children[children.length - 1], undefined, () =>
+					Container.git.getCommitCount(this.worktree.repoPath, this.worktree.sha!),
+				),
+			);
+		}
+		return children;
+	}
+
+	getTreeItem(): TreeItem {
+		const { worktree } = this;
+
+		let contextValue: string = ContextValues.Worktree;
+		if (this.current) {
+			contextValue += '+current';
+		}
+		if (worktree.main) {
+			contextValue += '+main';
+		}
+		if (worktree.locked !== false) {
+			contextValue += '+locked';
+		}
+
+		let description;
+		switch (worktree.type) {
+			case 'bare':
+				description = '(bare)';
+				break;
+			case 'branch':
+				description = worktree.branch;
+				break;
+			case 'detached':
+				description = `(detached) ${worktree.shortSha}`;
+				break;
+		}
+		if (worktree.locked !== false) {
+			description = `${description} ${GlyphChars.Dot} locked`;
+		}
+
+		const item = new TreeItem(
+			worktree.name,
+			worktree.type === 'bare' ? TreeItemCollapsibleState.None : TreeItemCollapsibleState.Collapsed,
+		);
+		item.id = this.id;
+		item.contextValue = contextValue;
+		item.description = description;
+		item.iconPath = new ThemeIcon(this.current ? 'check' : worktree.locked !== false ? 'lock' : 'folder');
+		item.tooltip = `${this.current ? 'Current worktree' : worktree.main ? 'Main worktree' : 'Worktree'} ${
+			worktree.name
+		}${Strings.pad(GlyphChars.Dash, 2, 2)}${worktree.path}${
+			worktree.type === 'branch'
+				? `\nBranch ${worktree.branch}`
+				: worktree.type === 'detached'
+				? `\nDetached at ${worktree.shortSha}`
+				: ''
+		}${
+			worktree.locked !== false
+				? `\n\nLocked${typeof worktree.locked === 'string' ? `: ${worktree.locked}` : ''}`
+				: ''
+		}${
+			worktree.prunable !== false
+				? `\n\nPrunable${typeof worktree.prunable === 'string' ? `: ${worktree.prunable}` : ''}`
+				: ''
+		}`;
+
+		return item;
+	}
+
+	@gate()
+	@debug()
+	refresh(reset?: boolean) {
+		if (reset) {
+			this._log = undefined;
+		}
+	}
+
+	private _log: GitLog | undefined;
+	private async getLog() {
+		if (this.worktree.sha == null) return undefined;
+
+		if (this._log == null) {
+			this._log = await Container.git.getLog(this.worktree.repoPath, {
+				limit: this.limit ?? this.view.config.defaultItemLimit,
+				ref: this.worktree.sha,
+			});
+		}
+
+		return this._log;
+	}
+
+	get hasMore() {
+		return this._log?.hasMore ?? true;
+	}
+
+	limit: number | undefined = this.view.getNodeLastKnownLimit(this);
+	@gate()
+	async loadMore(limit?: number | { until?: any }) {
+		let log = await window.withProgress(
+			{
+				location: { viewId: this.view.id },
+			},
+			() => this.getLog(),
+		);
+		if (log == null || !log.hasMore) return;
+
+		log = await log.more?.(limit ?? this.view.config.pageItemLimit);
+		if (this._log === log) return;
+
+		this._log = log;
+		this.limit = log?.count;
+
+		void this.triggerChange(false);
+	}
+}
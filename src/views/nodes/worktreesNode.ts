@@ -0,0 +1,56 @@
+'use strict';
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { MessageNode } from './common';
+import { Repository } from '../../git/git';
+import { GitUri } from '../../git/gitUri';
+import { RepositoryNode } from './repositoryNode';
+import { debug, gate } from '../../system';
+import { ContextValues, ViewNode } from './viewNode';
+import { WorktreeNode } from './worktreeNode';
+import { WorktreesView } from '../worktreesView';
+
+export class WorktreesNode extends ViewNode<WorktreesView> {
+	static key = ':worktrees';
+	static getId(repoPath: string): string {
+		return `${RepositoryNode.getId(repoPath)}${this.key}`;
+	}
+
+	private _children: ViewNode[] | undefined;
+
+	constructor(uri: GitUri, view: WorktreesView, parent: ViewNode, public readonly repo: Repository) {
+		super(uri, view, parent);
+	}
+
+	get id(): string {
+		return WorktreesNode.getId(this.repo.path);
+	}
+
+	get repoPath(): string {
+		return this.repo.path;
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		if (this._children == null) {
+			const worktrees = await this.repo.getWorktrees();
+			if (worktrees.length === 0) return [new MessageNode(this.view, this, 'No worktrees could be found.')];
+
+			this._children = worktrees.map(w => new WorktreeNode(this.uri, this.view, this, w));
+		}
+
+		return this._children;
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem('Worktrees', TreeItemCollapsibleState.Collapsed);
+		item.id = this.id;
+		item.contextValue = ContextValues.Worktrees;
+		item.iconPath = new ThemeIcon('list-tree');
+		return item;
+	}
+
+	@gate()
+	@debug()
+	refresh() {
+		this._children = undefined;
+	}
+}
@@ -0,0 +1,203 @@
+'use strict';
+import { commands, ConfigurationChangeEvent, TreeItem, TreeItemCollapsibleState, window } from 'vscode';
+import { configuration, ReflogViewConfig, ViewFilesLayout } from '../configuration';
+import { ContextKeys, setContext } from '../constants';
+import { Container } from '../container';
+import { RepositoryChange, RepositoryChangeEvent } from '../git/git';
+import { GitUri } from '../git/gitUri';
+import { ReflogEntriesNode, RepositoryFolderNode, unknownGitUri, ViewNode } from './nodes';
+import { debug, gate } from '../system';
+import { ViewBase } from './viewBase';
+
+export interface ReflogViewFilter {
+	label: string;
+	commands: string[];
+}
+
+const filters: ReflogViewFilter[] = [
+	{ label: 'Commits', commands: ['commit'] },
+	{ label: 'Resets', commands: ['reset'] },
+	{ label: 'Rebases', commands: ['rebase'] },
+	{ label: 'Checkouts', commands: ['checkout'] },
+	{ label: 'Merges & Pulls', commands: ['merge', 'pull'] },
+];
+
+export class ReflogRepositoryNode extends RepositoryFolderNode<ReflogView, ReflogEntriesNode> {
+	async getChildren(): Promise<ViewNode[]> {
+		if (this.child == null) {
+			this.child = new ReflogEntriesNode(this.uri, this.view, this, this.repo);
+		}
+
+		return this.child.getChildren();
+	}
+
+	protected changed(e: RepositoryChangeEvent) {
+		return (
+			e.changed(RepositoryChange.Heads) ||
+			e.changed(RepositoryChange.Index) ||
+			e.changed(RepositoryChange.Stash) ||
+			e.changed(RepositoryChange.Unknown)
+		);
+	}
+}
+
+export class ReflogViewNode extends ViewNode<ReflogView> {
+	protected splatted = true;
+	private children: ReflogRepositoryNode[] | undefined;
+
+	constructor(view: ReflogView) {
+		super(unknownGitUri, view);
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		if (this.children == null) {
+			const repositories = await Container.git.getOrderedRepositories();
+			if (repositories.length === 0) {
+				this.view.message = 'No reflog could be found.';
+
+				return [];
+			}
+
+			this.view.message = undefined;
+
+			const splat = repositories.length === 1;
+			this.children = repositories.map(
+				r => new ReflogRepositoryNode(GitUri.fromRepoPath(r.path), this.view, this, r, splat),
+			);
+		}
+
+		if (this.children.length === 1) {
+			const [child] = this.children;
+
+			return child.getChildren();
+		}
+
+		return this.children;
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem('Reflog', TreeItemCollapsibleState.Expanded);
+		return item;
+	}
+
+	async getSplattedChild() {
+		if (this.children == null) {
+			await this.getChildren();
+		}
+
+		return this.children?.length === 1 ? this.children[0] : undefined;
+	}
+
+	@gate()
+	@debug()
+	refresh(reset: boolean = false) {
+		if (reset && this.children != null) {
+			for (const child of this.children) {
+				child.dispose();
+			}
+			this.children = undefined;
+		}
+	}
+}
+
+interface ReflogViewState {
+	filter?: ReflogViewFilter;
+}
+
+export class ReflogView extends ViewBase<ReflogViewNode, ReflogViewConfig> {
+	protected readonly configKey = 'reflog';
+
+	constructor() {
+		super('gitlens.views.reflog', 'Reflog');
+	}
+
+	private readonly _state: ReflogViewState = {};
+	get state(): ReflogViewState {
+		return this._state;
+	}
+
+	getRoot() {
+		return new ReflogViewNode(this);
+	}
+
+	protected registerCommands() {
+		void Container.viewCommands;
+
+		commands.registerCommand(
+			this.getQualifiedCommand('copy'),
+			() => commands.executeCommand('gitlens.views.copy', this.selection),
+			this,
+		);
+		commands.registerCommand(this.getQualifiedCommand('refresh'), () => this.refresh(true), this);
+		commands.registerCommand(this.getQualifiedCommand('setFilter'), () => this.pickFilter(), this);
+		commands.registerCommand(this.getQualifiedCommand('clearFilter'), () => this.setFilter(undefined), this);
+		commands.registerCommand(
+			this.getQualifiedCommand('setFilesLayoutToAuto'),
+			() => this.setFilesLayout(ViewFilesLayout.Auto),
+			this,
+		);
+		commands.registerCommand(
+			this.getQualifiedCommand('setFilesLayoutToList'),
+			() => this.setFilesLayout(ViewFilesLayout.List),
+			this,
+		);
+		commands.registerCommand(
+			this.getQualifiedCommand('setFilesLayoutToTree'),
+			() => this.setFilesLayout(ViewFilesLayout.Tree),
+			this,
+		);
+		commands.registerCommand(this.getQualifiedCommand('setShowAvatarsOn'), () => this.setShowAvatars(true), this);
+		commands.registerCommand(this.getQualifiedCommand('setShowAvatarsOff'), () => this.setShowAvatars(false), this);
+	}
+
+	protected filterConfigurationChanged(e: ConfigurationChangeEvent) {
+		const changed = super.filterConfigurationChanged(e);
+		if (
+			!changed &&
+			!configuration.changed(e, 'defaultDateFormat') &&
+			!configuration.changed(e, 'defaultDateShortFormat') &&
+			!configuration.changed(e, 'defaultDateSource') &&
+			!configuration.changed(e, 'defaultDateStyle') &&
+			!configuration.changed(e, 'defaultGravatarsStyle') &&
+			!configuration.changed(e, 'defaultTimeFormat')
+		) {
+			return false;
+		}
+
+		return true;
+	}
+
+	private async pickFilter() {
+		const pick = await window.showQuickPick(
+			[
+				{ label: 'All', description: this.state.filter == null ? '(current)' : '', filter: undefined },
+				...filters.map(f => ({
+					label: f.label,
+					description: f === this.state.filter ? '(current)' : '',
+					filter: f,
+				})),
+			],
+			{
+				placeHolder: 'Choose which reflog entries to show',
+			},
+		);
+		if (pick == null) return;
+
+		this.setFilter(pick.filter);
+	}
+
+	private setFilter(filter: ReflogViewFilter | undefined) {
+		void setContext(ContextKeys.ViewsReflogFiltered, filter != null);
+		this.state.filter = filter;
+		this.description = filter?.label;
+		void this.refresh(true);
+	}
+
+	private setFilesLayout(layout: ViewFilesLayout) {
+		return configuration.updateEffective('views', this.configKey, 'files', 'layout', layout);
+	}
+
+	private setShowAvatars(enabled: boolean) {
+		return configuration.updateEffective('views', this.configKey, 'avatars', enabled);
+	}
+}
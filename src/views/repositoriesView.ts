@@ -40,6 +40,7 @@ import {
 	RepositoryNode,
 	StashesNode,
 	StashNode,
+	SubmodulesNode,
 	TagsNode,
 } from './nodes';
 import { gate } from '../system';
@@ -183,6 +184,17 @@ export class RepositoriesView extends ViewBase<RepositoriesNode, RepositoriesVie
 			this,
 		);
 
+		commands.registerCommand(
+			this.getQualifiedCommand('setShowSubmodulesOn'),
+			() => this.toggleSection('showSubmodules', true),
+			this,
+		);
+		commands.registerCommand(
+			this.getQualifiedCommand('setShowSubmodulesOff'),
+			() => this.toggleSection('showSubmodules', false),
+			this,
+		);
+
 		commands.registerCommand(
 			this.getQualifiedCommand('setShowTagsOn'),
 			() => this.toggleSection('showTags', true),
@@ -217,6 +229,7 @@ export class RepositoriesView extends ViewBase<RepositoriesNode, RepositoriesVie
 					| ReflogNode
 					| RemotesNode
 					| StashesNode
+					| SubmodulesNode
 					| TagsNode,
 			) => this.toggleSectionByNode(node, false),
 			this,
@@ -700,6 +713,7 @@ export class RepositoriesView extends ViewBase<RepositoriesNode, RepositoriesVie
 			// | 'showIncomingActivity'
 			| 'showRemotes'
 			| 'showStashes'
+			| 'showSubmodules'
 			| 'showTags'
 			| 'showUpstreamStatus',
 		enabled: boolean,
@@ -717,6 +731,7 @@ export class RepositoriesView extends ViewBase<RepositoriesNode, RepositoriesVie
 			| ReflogNode
 			| RemotesNode
 			| StashesNode
+			| SubmodulesNode
 			| TagsNode,
 		enabled: boolean,
 	) {
@@ -752,6 +767,10 @@ export class RepositoriesView extends ViewBase<RepositoriesNode, RepositoriesVie
 			return configuration.updateEffective('views', this.configKey, 'showStashes', enabled);
 		}
 
+		if (node instanceof SubmodulesNode) {
+			return configuration.updateEffective('views', this.configKey, 'showSubmodules', enabled);
+		}
+
 		if (node instanceof TagsNode) {
 			return configuration.updateEffective('views', this.configKey, 'showTags', enabled);
 		}
@@ -1,16 +1,73 @@
 'use strict';
-import { commands, ConfigurationChangeEvent, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import * as paths from 'path';
+import { TextDecoder, TextEncoder } from 'util';
+import { commands, ConfigurationChangeEvent, TreeItem, TreeItemCollapsibleState, Uri, window, workspace } from 'vscode';
 import { configuration, SearchAndCompareViewConfig, ViewFilesLayout } from '../configuration';
-import { ContextKeys, NamedRef, PinnedItem, PinnedItems, setContext, WorkspaceState } from '../constants';
+import {
+	ContextKeys,
+	NamedRef,
+	PinnedItem,
+	PinnedItems,
+	SavedItem,
+	SavedItems,
+	setContext,
+	WorkspaceState,
+} from '../constants';
 import { Container } from '../container';
-import { GitLog, GitRevision, SearchPattern } from '../git/git';
+import { Git, GitLog, GitRevision, SearchPattern } from '../git/git';
+import { Logger } from '../logger';
 import { CompareResultsNode, ContextValues, SearchResultsNode, unknownGitUri, ViewNode } from './nodes';
+import { SavedSearchesNode } from './nodes/savedSearchesNode';
 import { debug, gate, Iterables, log, Promises } from '../system';
 import { ViewBase } from './viewBase';
 import { ComparePickerNode } from './nodes/comparePickerNode';
 import { ReferencePicker, ReferencesQuickPickIncludes } from '../quickpicks';
 import { getRepoPathOrPrompt } from '../commands';
 
+const textDecoder = new TextDecoder('utf8');
+const textEncoder = new TextEncoder();
+
+export const savedSearchesFileName = '.vscode/gitlens.searches.json';
+
+const doubleQuoteRegex = /"/g;
+
+function parseSavedItems(contents: string): SavedItem[] | undefined {
+	let saved: SavedItems | undefined;
+	try {
+		saved = JSON.parse(contents);
+	} catch {
+		return undefined;
+	}
+
+	if (saved == null || !Array.isArray(saved.items)) return undefined;
+
+	return saved.items.filter(
+		i =>
+			i != null &&
+			typeof i.name === 'string' &&
+			((i.type === 'search' && typeof i.search?.pattern === 'string' && isSafeSearchPattern(i.search.pattern)) ||
+				(i.type === 'comparison' &&
+					typeof i.ref1?.ref === 'string' &&
+					typeof i.ref2?.ref === 'string' &&
+					isSafeRef(i.ref1.ref) &&
+					isSafeRef(i.ref2.ref))),
+	);
+}
+
+// The saved file is committed to the repository, so treat its contents as untrusted and never let a ref or an operator
+// value be parsed as a git option
+function isSafeRef(ref: string): boolean {
+	return !ref.trimLeft().startsWith('-');
+}
+
+function isSafeSearchPattern(pattern: string): boolean {
+	for (const values of SearchPattern.parseSearchOperations(pattern).values()) {
+		if (values.some(v => !isSafeRef(v.replace(doubleQuoteRegex, '')))) return false;
+	}
+
+	return true;
+}
+
 interface DeprecatedPinnedComparison {
 	path: string;
 	ref1: NamedRef;
@@ -30,6 +87,14 @@ export class SearchAndCompareViewNode extends ViewNode<SearchAndCompareView> {
 		super(unknownGitUri, view);
 	}
 
+	private _saved: SavedSearchesNode | undefined;
+	get saved(): SavedSearchesNode {
+		if (this._saved == null) {
+			this._saved = new SavedSearchesNode(this.view, this);
+		}
+		return this._saved;
+	}
+
 	private _children: (ComparePickerNode | CompareResultsNode | SearchResultsNode)[] | undefined;
 	private get children(): (ComparePickerNode | CompareResultsNode | SearchResultsNode)[] {
 		if (this._children == null) {
@@ -45,12 +110,16 @@ export class SearchAndCompareViewNode extends ViewNode<SearchAndCompareView> {
 		return this._children;
 	}
 
-	getChildren(): ViewNode[] {
-		if (this.children.length === 0) return [];
+	async getChildren(): Promise<ViewNode[]> {
+		const hasSaved = await this.saved.hasChildren();
+		if (this.children.length === 0 && !hasSaved) return [];
 
 		this.view.message = undefined;
 
-		return this.children.sort((a, b) => (a.pinned ? -1 : 1) - (b.pinned ? -1 : 1) || b.order - a.order);
+		const children: ViewNode[] = this.children.sort(
+			(a, b) => (a.pinned ? -1 : 1) - (b.pinned ? -1 : 1) || b.order - a.order,
+		);
+		return hasSaved ? [this.saved, ...children] : children;
 	}
 
 	getTreeItem(): TreeItem {
@@ -111,6 +180,7 @@ export class SearchAndCompareViewNode extends ViewNode<SearchAndCompareView> {
 	@gate()
 	@debug()
 	async refresh() {
+		this._saved?.refresh(true);
 		if (this.children.length === 0) return;
 
 		const promises: Promise<any>[] = [
@@ -293,6 +363,10 @@ export class SearchAndCompareView extends ViewBase<SearchAndCompareViewNode, Sea
 
 		commands.registerCommand(this.getQualifiedCommand('pin'), this.pin, this);
 		commands.registerCommand(this.getQualifiedCommand('unpin'), this.unpin, this);
+		commands.registerCommand(this.getQualifiedCommand('save'), this.save, this);
+		commands.registerCommand(this.getQualifiedCommand('unsave'), this.unsave, this);
+		commands.registerCommand(this.getQualifiedCommand('exportSaved'), () => this.exportSaved(), this);
+		commands.registerCommand(this.getQualifiedCommand('importSaved'), () => this.importSaved(), this);
 		commands.registerCommand(this.getQualifiedCommand('edit'), this.edit, this);
 		commands.registerCommand(this.getQualifiedCommand('swapComparison'), this.swapComparison, this);
 		commands.registerCommand(this.getQualifiedCommand('selectForCompare'), this.selectForCompare, this);
@@ -448,6 +522,54 @@ export class SearchAndCompareView extends ViewBase<SearchAndCompareViewNode, Sea
 		this.triggerNodeChange(this.ensureRoot());
 	}
 
+	async getSaved(repoPath: string, options: { validateRefs?: boolean } = {}): Promise<SavedItem[]> {
+		const contents = await Git.readWorkingFile(repoPath, savedSearchesFileName);
+		if (contents == null) return [];
+
+		const saved = parseSavedItems(contents);
+		if (saved == null) {
+			Logger.log(`Unable to parse saved searches & comparisons in '${repoPath}'`);
+			return [];
+		}
+
+		if (!options.validateRefs) return saved;
+
+		const valid = await Promise.all(
+			saved.map(async i => {
+				if (i.type !== 'comparison') return true;
+
+				const [valid1, valid2] = await Promise.all([
+					i.ref1.ref.length === 0 || Container.git.validateReference(repoPath, i.ref1.ref),
+					i.ref2.ref.length === 0 || Container.git.validateReference(repoPath, i.ref2.ref),
+				]);
+				if (valid1 && valid2) return true;
+
+				Logger.log(`Ignoring saved comparison '${i.name}' in '${repoPath}' because of an invalid reference`);
+				return false;
+			}),
+		);
+
+		return saved.filter((_, index) => valid[index]);
+	}
+
+	async updateSaved(repoPath: string, name: string, item?: SavedItem) {
+		const saved = (await this.getSaved(repoPath)).filter(i => i.name !== name);
+		if (item != null) {
+			saved.push(item);
+		}
+
+		await this.writeSaved(repoPath, saved);
+	}
+
+	private async writeSaved(repoPath: string, items: SavedItem[]) {
+		const saved: SavedItems = { items: items };
+		await Git.writeWorkingFile(repoPath, savedSearchesFileName, `${JSON.stringify(saved, undefined, '\t')}\n`);
+
+		const root = this.ensureRoot();
+		root.saved.refresh(true);
+		this.triggerNodeChange(root);
+	}
+
 	private async addResults(
 		results: CompareResultsNode | SearchResultsNode,
 		options: {
@@ -485,6 +607,97 @@ export class SearchAndCompareView extends ViewBase<SearchAndCompareViewNode, Sea
 		return configuration.updateEffective('views', this.configKey, 'avatars', enabled);
 	}
 
+	private async exportSaved() {
+		const repoPath = await getRepoPathOrPrompt('Export Saved Searches & Comparisons');
+		if (repoPath == null) return;
+
+		const saved = await this.getSaved(repoPath);
+		if (saved.length === 0) {
+			void window.showInformationMessage('There are no saved searches or comparisons to export');
+
+			return;
+		}
+
+		const uri = await window.showSaveDialog({
+			defaultUri: Uri.file(paths.join(repoPath, paths.basename(savedSearchesFileName))),
+			filters: { JSON: ['json'] },
+			saveLabel: 'Export',
+		});
+		if (uri == null) return;
+
+		const items: SavedItems = { items: saved };
+		await workspace.fs.writeFile(uri, textEncoder.encode(`${JSON.stringify(items, undefined, '\t')}\n`));
+	}
+
+	private async importSaved() {
+		const repoPath = await getRepoPathOrPrompt('Import Saved Searches & Comparisons');
+		if (repoPath == null) return;
+
+		const uris = await window.showOpenDialog({
+			canSelectFiles: true,
+			canSelectFolders: false,
+			canSelectMany: false,
+			filters: { JSON: ['json'] },
+			openLabel: 'Import',
+		});
+		if (uris == null || uris.length === 0) return;
+
+		let imported;
+		try {
+			imported = parseSavedItems(textDecoder.decode(await workspace.fs.readFile(uris[0])));
+		} catch (ex) {
+			Logger.error(ex, 'SearchAndCompareView.importSaved');
+		}
+
+		if (imported == null) {
+			void window.showErrorMessage(
+				'Unable to import saved searches & comparisons. The file does not contain any valid items',
+			);
+
+			return;
+		}
+
+		// Imported items replace any existing items of the same name
+		const names = new Set(imported.map(i => i.name));
+		const saved = (await this.getSaved(repoPath)).filter(i => !names.has(i.name));
+		await this.writeSaved(repoPath, [...saved, ...imported]);
+	}
+
+	private async save(node: CompareResultsNode | SearchResultsNode) {
+		if (!(node instanceof CompareResultsNode) && !(node instanceof SearchResultsNode)) return;
+
+		const isSearch = node instanceof SearchResultsNode;
+
+		const name = await window.showInputBox({
+			prompt: `Please provide a name for the saved ${isSearch ? 'search' : 'comparison'}`,
+			placeHolder: isSearch ? 'e.g. Unreleased fixes' : 'e.g. Changes since the last release',
+			validateInput: (value: string) => (value.trim().length === 0 ? 'Please provide a name' : undefined),
+		});
+		if (name == null) return;
+
+		const pick = await window.showQuickPick(
+			[
+				{
+					label: 'Refresh Automatically',
+					description: 'whenever the repository changes',
+					autoRefresh: true,
+				},
+				{
+					label: 'Refresh Manually',
+					autoRefresh: false,
+				},
+			],
+			{ placeHolder: `Choose when to refresh the saved ${isSearch ? 'search' : 'comparison'}` },
+		);
+		if (pick == null) return;
+
+		await node.save(name.trim(), pick.autoRefresh);
+
+		if (node.canDismiss) {
+			this.root?.dismiss(node);
+		}
+	}
+
 	private pin(node: CompareResultsNode | SearchResultsNode) {
 		if (!(node instanceof CompareResultsNode) && !(node instanceof SearchResultsNode)) return undefined;
 
@@ -502,4 +715,10 @@ export class SearchAndCompareView extends ViewBase<SearchAndCompareViewNode, Sea
 
 		return node.unpin();
 	}
+
+	private unsave(node: CompareResultsNode | SearchResultsNode) {
+		if (!(node instanceof CompareResultsNode) && !(node instanceof SearchResultsNode)) return undefined;
+
+		return node.unsave();
+	}
 }
@@ -26,6 +26,7 @@ import {
 	ContributorsViewConfig,
 	FileHistoryViewConfig,
 	LineHistoryViewConfig,
+	ReflogViewConfig,
 	RemotesViewConfig,
 	RepositoriesViewConfig,
 	SearchAndCompareViewConfig,
@@ -35,6 +36,7 @@ import {
 	viewsCommonConfigKeys,
 	viewsConfigKeys,
 	ViewsConfigKeys,
+	WorktreesViewConfig,
 } from '../configuration';
 import { Container } from '../container';
 import { ContributorsView } from './contributorsView';
@@ -42,12 +44,14 @@ import { FileHistoryView } from './fileHistoryView';
 import { LineHistoryView } from './lineHistoryView';
 import { Logger } from '../logger';
 import { PageableViewNode, ViewNode } from './nodes';
+import { ReflogView } from './reflogView';
 import { RemotesView } from './remotesView';
 import { RepositoriesView } from './repositoriesView';
 import { SearchAndCompareView } from './searchAndCompareView';
 import { StashesView } from './stashesView';
 import { debug, Functions, log, Promises, Strings } from '../system';
 import { TagsView } from './tagsView';
+import { WorktreesView } from './worktreesView';
 
 export type View =
 	| BranchesView
@@ -55,19 +59,23 @@ export type View =
 	| ContributorsView
 	| FileHistoryView
 	| LineHistoryView
+	| ReflogView
 	| RemotesView
 	| RepositoriesView
 	| SearchAndCompareView
 	| StashesView
-	| TagsView;
+	| TagsView
+	| WorktreesView;
 export type ViewsWithCommits =
 	| BranchesView
 	| CommitsView
 	| ContributorsView
+	| ReflogView
 	| RemotesView
 	| RepositoriesView
 	| SearchAndCompareView
-	| TagsView;
+	| TagsView
+	| WorktreesView;
 
 export interface TreeViewNodeCollapsibleStateChangeEvent<T> extends TreeViewExpansionEvent<T> {
 	state: TreeItemCollapsibleState;
@@ -81,11 +89,13 @@ export abstract class ViewBase<
 		| FileHistoryViewConfig
 		| CommitsViewConfig
 		| LineHistoryViewConfig
+		| ReflogViewConfig
 		| RemotesViewConfig
 		| RepositoriesViewConfig
 		| SearchAndCompareViewConfig
 		| StashesViewConfig
 		| TagsViewConfig
+		| WorktreesViewConfig
 > implements TreeDataProvider<ViewNode>, Disposable {
 	protected _onDidChangeTreeData = new EventEmitter<ViewNode | undefined>();
 	get onDidChangeTreeData(): Event<ViewNode | undefined> {
@@ -260,6 +270,10 @@ export abstract class ViewBase<
 		return node.getTreeItem();
 	}
 
+	resolveTreeItem(item: TreeItem, node: ViewNode): TreeItem | Promise<TreeItem> {
+		return node.resolveTreeItem?.(item) ?? item;
+	}
+
 	protected onElementCollapsed(e: TreeViewExpansionEvent<ViewNode>) {
 		this._onDidChangeNodeCollapsibleState.fire({ ...e, state: TreeItemCollapsibleState.Collapsed });
 	}
@@ -18,6 +18,7 @@ import { Container } from '../container';
 import { GitReference, GitRevision } from '../git/git';
 import { GitUri } from '../git/gitUri';
 import {
+	BisectStatusNode,
 	BranchesNode,
 	BranchNode,
 	BranchTrackingStatusNode,
@@ -26,6 +27,8 @@ import {
 	CompareBranchNode,
 	ContributorNode,
 	ContributorsNode,
+	DeletedBranchNode,
+	DroppedStashNode,
 	FileHistoryNode,
 	FileRevisionAsCommitNode,
 	FolderNode,
@@ -35,6 +38,7 @@ import {
 	PageableViewNode,
 	PagerNode,
 	PullRequestNode,
+	ReflogEntryNode,
 	RemoteNode,
 	RemotesNode,
 	RepositoryFolderNode,
@@ -44,12 +48,16 @@ import {
 	StashFileNode,
 	StashNode,
 	StatusFileNode,
+	SubmoduleNode,
+	SubmodulesNode,
 	TagNode,
 	TagsNode,
 	ViewNode,
 	ViewRefFileNode,
 	ViewRefNode,
 	viewSupportsNodeDismissal,
+	WorktreeNode,
+	WorktreesNode,
 } from './nodes';
 import { debug } from '../system';
 import { runGitCommandInTerminal } from '../terminal';
@@ -164,6 +172,9 @@ export class ViewCommands {
 		commands.registerCommand('gitlens.views.highlightChanges', this.highlightChanges, this);
 		commands.registerCommand('gitlens.views.highlightRevisionChanges', this.highlightRevisionChanges, this);
 		commands.registerCommand('gitlens.views.restore', this.restore, this);
+		commands.registerCommand('gitlens.views.restoreBranch', this.restoreBranch, this);
+		commands.registerCommand('gitlens.views.restoreStash', this.restoreStash, this);
+		commands.registerCommand('gitlens.views.restoreToReflogEntry', this.restoreToReflogEntry, this);
 		commands.registerCommand('gitlens.views.switchToBranch', this.switch, this);
 		commands.registerCommand('gitlens.views.switchToAnotherBranch', this.switch, this);
 		commands.registerCommand('gitlens.views.switchToCommit', this.switch, this);
@@ -184,6 +195,7 @@ export class ViewCommands {
 		commands.registerCommand('gitlens.views.compareFileWithSelected', this.compareFileWithSelected, this);
 		commands.registerCommand('gitlens.views.selectFileForCompare', this.selectFileForCompare, this);
 		commands.registerCommand('gitlens.views.compareWithWorking', this.compareWithWorking, this);
+		commands.registerCommand('gitlens.views.compareStashWithWorking', this.compareStashWithWorking, this);
 
 		commands.registerCommand(
 			'gitlens.views.setBranchComparisonToWorking',
@@ -196,13 +208,29 @@ export class ViewCommands {
 			this,
 		);
 
+		commands.registerCommand('gitlens.views.bisectBad', n => this.bisectMark(n, 'bad'), this);
+		commands.registerCommand('gitlens.views.bisectGood', n => this.bisectMark(n, 'good'), this);
+		commands.registerCommand('gitlens.views.bisectSkip', n => this.bisectMark(n, 'skip'), this);
+		commands.registerCommand('gitlens.views.bisectReset', this.bisectReset, this);
 		commands.registerCommand('gitlens.views.cherryPick', this.cherryPick, this);
 		commands.registerCommand('gitlens.views.createBranch', this.createBranch, this);
 		commands.registerCommand('gitlens.views.deleteBranch', this.deleteBranch, this);
 		commands.registerCommand('gitlens.views.renameBranch', this.renameBranch, this);
+		commands.registerCommand('gitlens.views.createBranchFromStash', this.createBranchFromStash, this);
 		commands.registerCommand('gitlens.views.deleteStash', this.deleteStash, this);
 		commands.registerCommand('gitlens.views.createTag', this.createTag, this);
 		commands.registerCommand('gitlens.views.deleteTag', this.deleteTag, this);
+		commands.registerCommand('gitlens.views.createWorktree', this.createWorktree, this);
+		commands.registerCommand('gitlens.views.deleteWorktree', this.deleteWorktree, this);
+		commands.registerCommand('gitlens.views.openWorktree', this.openWorktree, this);
+		commands.registerCommand(
+			'gitlens.views.openWorktreeInNewWindow',
+			n => this.openWorktree(n, { openInNewWindow: true }),
+			this,
+		);
+		commands.registerCommand('gitlens.views.pruneWorktrees', this.pruneWorktrees, this);
+		commands.registerCommand('gitlens.views.syncSubmodules', this.syncSubmodules, this);
+		commands.registerCommand('gitlens.views.updateSubmodules', this.updateSubmodules, this);
 
 		commands.registerCommand('gitlens.views.mergeBranchInto', this.merge, this);
 		commands.registerCommand('gitlens.views.pushToCommit', this.pushToCommit, this);
@@ -214,6 +242,8 @@ export class ViewCommands {
 		commands.registerCommand('gitlens.views.resetCommit', this.resetCommit, this);
 		commands.registerCommand('gitlens.views.resetToCommit', this.resetToCommit, this);
 		commands.registerCommand('gitlens.views.revert', this.revert, this);
+		commands.registerCommand('gitlens.views.addToBlameIgnoreRevs', this.addToBlameIgnoreRevs, this);
+		commands.registerCommand('gitlens.views.removeFromBlameIgnoreRevs', this.removeFromBlameIgnoreRevs, this);
 		commands.registerCommand('gitlens.views.undoCommit', this.undoCommit, this);
 
 		commands.registerCommand('gitlens.views.terminalRemoveRemote', this.terminalRemoveRemote, this);
@@ -239,6 +269,14 @@ export class ViewCommands {
 		return GitActions.Remote.add(node?.repoPath);
 	}
 
+	@debug()
+	private async addToBlameIgnoreRevs(node: CommitNode) {
+		if (!(node instanceof CommitNode)) return;
+
+		await Container.git.addBlameIgnoreRevision(node.repoPath, node.commit.sha, node.commit.getShortMessage());
+		void node.triggerChange();
+	}
+
 	@debug()
 	private applyChanges(node: ViewRefFileNode) {
 		if (!(node instanceof ViewRefFileNode)) return Promise.resolve();
@@ -256,6 +294,20 @@ export class ViewCommands {
 		return GitActions.Commit.applyChanges(node.file, node.ref);
 	}
 
+	@debug()
+	private bisectMark(node: BisectStatusNode, term: 'bad' | 'good' | 'skip') {
+		if (!(node instanceof BisectStatusNode)) return Promise.resolve();
+
+		return GitActions.Bisect.mark(node.repoPath, term);
+	}
+
+	@debug()
+	private bisectReset(node: BisectStatusNode) {
+		if (!(node instanceof BisectStatusNode)) return Promise.resolve();
+
+		return GitActions.Bisect.reset(node.repoPath);
+	}
+
 	@debug()
 	private cherryPick(node: CommitNode) {
 		if (!(node instanceof CommitNode)) return Promise.resolve();
@@ -299,11 +351,23 @@ export class ViewCommands {
 		});
 	}
 
+	@debug()
+	private createBranchFromStash(node: StashNode) {
+		if (!(node instanceof StashNode)) return Promise.resolve();
+
+		return GitActions.Stash.branch(node.repoPath, node.commit);
+	}
+
 	@debug()
 	private createTag(node?: ViewRefNode | TagsNode) {
 		return GitActions.Tag.create(node?.repoPath, node instanceof ViewRefNode ? node?.ref : undefined);
 	}
 
+	@debug()
+	private createWorktree(node?: ViewRefNode | WorktreesNode) {
+		return GitActions.Worktree.create(node?.repoPath, node instanceof ViewRefNode ? node?.ref : undefined);
+	}
+
 	@debug()
 	private deleteBranch(node: BranchNode) {
 		if (!(node instanceof BranchNode)) return Promise.resolve();
@@ -325,6 +389,13 @@ export class ViewCommands {
 		return GitActions.Tag.remove(node.repoPath, node.tag);
 	}
 
+	@debug()
+	private deleteWorktree(node: WorktreeNode) {
+		if (!(node instanceof WorktreeNode)) return Promise.resolve();
+
+		return GitActions.Worktree.remove(node.repoPath, node.worktree);
+	}
+
 	@debug()
 	private browseRepoAtRevision(node: ViewRefNode, options?: { before?: boolean; openInNewWindow?: boolean }) {
 		if (!(node instanceof ViewRefNode)) return Promise.resolve();
@@ -423,6 +494,13 @@ export class ViewCommands {
 		return commands.executeCommand(BuiltInCommands.OpenInTerminal, Uri.file(node.repo.path));
 	}
 
+	@debug()
+	private openWorktree(node: WorktreeNode, options?: { openInNewWindow?: boolean }) {
+		if (!(node instanceof WorktreeNode)) return undefined;
+
+		return GitActions.Worktree.open(node.worktree, options);
+	}
+
 	@debug()
 	private async pruneRemote(node: RemoteNode) {
 		if (!(node instanceof RemoteNode)) return Promise.resolve();
@@ -430,6 +508,13 @@ export class ViewCommands {
 		return GitActions.Remote.prune(node.repo, node.remote.name);
 	}
 
+	@debug()
+	private async pruneWorktrees(node: WorktreesNode) {
+		if (!(node instanceof WorktreesNode)) return Promise.resolve();
+
+		return GitActions.Worktree.prune(node.repo);
+	}
+
 	@debug()
 	private publishBranch(node: BranchNode | BranchTrackingStatusNode) {
 		if (node instanceof BranchNode || node instanceof BranchTrackingStatusNode) {
@@ -489,6 +574,14 @@ export class ViewCommands {
 		);
 	}
 
+	@debug()
+	private async removeFromBlameIgnoreRevs(node: CommitNode) {
+		if (!(node instanceof CommitNode)) return;
+
+		await Container.git.removeBlameIgnoreRevision(node.repoPath, node.commit.sha);
+		void node.triggerChange();
+	}
+
 	@debug()
 	private renameBranch(node: BranchNode) {
 		if (!(node instanceof BranchNode)) return Promise.resolve();
@@ -524,6 +617,50 @@ export class ViewCommands {
 		return GitActions.Commit.restoreFile(node.fileName, node.ref);
 	}
 
+	@debug()
+	private restoreBranch(node: DeletedBranchNode) {
+		if (!(node instanceof DeletedBranchNode)) return Promise.resolve();
+
+		return GitActions.Branch.create(node.repoPath, node.ref, node.branch.name);
+	}
+
+	@debug()
+	private restoreStash(node: DroppedStashNode) {
+		if (!(node instanceof DroppedStashNode)) return Promise.resolve();
+
+		return GitActions.Stash.restore(node.repoPath, node.commit);
+	}
+
+	@debug()
+	private async restoreToReflogEntry(node: ReflogEntryNode) {
+		if (!(node instanceof ReflogEntryNode)) return;
+
+		const pick = await window.showQuickPick(
+			[
+				{
+					label: 'Create Branch Here...',
+					detail: `Creates a new branch at ${node.record.shortSha}, leaving the current branch untouched`,
+					reset: false,
+				},
+				{
+					label: 'Reset Current Branch to Here...',
+					detail: `Resets the current branch to ${node.record.shortSha}, after confirmation`,
+					reset: true,
+				},
+			],
+			{
+				placeHolder: `Choose how to restore to ${node.record.shortSha}`,
+			},
+		);
+		if (pick == null) return;
+
+		if (pick.reset) {
+			void (await GitActions.reset(node.repoPath, node.ref));
+		} else {
+			void (await GitActions.Branch.create(node.repoPath, node.ref));
+		}
+	}
+
 	@debug()
 	private revert(node: CommitNode | FileRevisionAsCommitNode) {
 		if (!(node instanceof CommitNode) && !(node instanceof FileRevisionAsCommitNode)) return Promise.resolve();
@@ -593,6 +730,22 @@ export class ViewCommands {
 		);
 	}
 
+	@debug()
+	private syncSubmodules(node: SubmodulesNode | SubmoduleNode) {
+		if (node instanceof SubmodulesNode) return GitActions.Submodule.sync(node.repo);
+		if (node instanceof SubmoduleNode) return GitActions.Submodule.sync(node.repoPath, node.submodule);
+
+		return Promise.resolve();
+	}
+
+	@debug()
+	private updateSubmodules(node: SubmodulesNode | SubmoduleNode) {
+		if (node instanceof SubmodulesNode) return GitActions.Submodule.update(node.repo);
+		if (node instanceof SubmoduleNode) return GitActions.Submodule.update(node.repoPath, node.submodule);
+
+		return Promise.resolve();
+	}
+
 	@debug()
 	private undoCommit(node: CommitNode | FileRevisionAsCommitNode) {
 		if (!(node instanceof CommitNode) && !(node instanceof FileRevisionAsCommitNode)) return Promise.resolve();
@@ -659,6 +812,17 @@ export class ViewCommands {
 		return Container.searchAndCompareView.compare(node.repoPath, node.branch.tracking, node.ref);
 	}
 
+	@debug()
+	private compareStashWithWorking(node: StashNode | StashFileNode) {
+		if (!(node instanceof StashNode) && !(node instanceof StashFileNode)) return Promise.resolve();
+
+		if (node instanceof StashFileNode) {
+			return GitActions.Commit.openChangesWithWorking(node.file, { repoPath: node.repoPath, ref: node.ref.ref });
+		}
+
+		return GitActions.Stash.openAllChangesWithWorking(node.commit);
+	}
+
 	@debug()
 	private compareWithWorking(node: ViewRefNode) {
 		if (!(node instanceof ViewRefNode)) return Promise.resolve();
@@ -0,0 +1,165 @@
+'use strict';
+import { commands, ConfigurationChangeEvent, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { configuration, ViewFilesLayout, WorktreesViewConfig } from '../configuration';
+import { Container } from '../container';
+import { RepositoryChange, RepositoryChangeEvent } from '../git/git';
+import { GitUri } from '../git/gitUri';
+import { RepositoryFolderNode, unknownGitUri, ViewNode, WorktreesNode } from './nodes';
+import { debug, gate } from '../system';
+import { ViewBase } from './viewBase';
+
+export class WorktreesRepositoryNode extends RepositoryFolderNode<WorktreesView, WorktreesNode> {
+	async getChildren(): Promise<ViewNode[]> {
+		if (this.child == null) {
+			this.child = new WorktreesNode(this.uri, this.view, this, this.repo);
+		}
+
+		return this.child.getChildren();
+	}
+
+	protected changed(e: RepositoryChangeEvent) {
+		return (
+			e.changed(RepositoryChange.Config) ||
+			e.changed(RepositoryChange.Heads) ||
+			e.changed(RepositoryChange.Worktrees) ||
+			e.changed(RepositoryChange.Unknown)
+		);
+	}
+}
+
+export class WorktreesViewNode extends ViewNode<WorktreesView> {
+	protected splatted = true;
+	private children: WorktreesRepositoryNode[] | undefined;
+
+	constructor(view: WorktreesView) {
+		super(unknownGitUri, view);
+	}
+
+	async getChildren(): Promise<ViewNode[]> {
+		if (this.children == null) {
+			const repositories = await Container.git.getOrderedRepositories();
+			if (repositories.length === 0) {
+				this.view.message = 'No worktrees could be found.';
+
+				return [];
+			}
+
+			this.view.message = undefined;
+
+			const splat = repositories.length === 1;
+			this.children = repositories.map(
+				r => new WorktreesRepositoryNode(GitUri.fromRepoPath(r.path), this.view, this, r, splat),
+			);
+		}
+
+		if (this.children.length === 1) {
+			const [child] = this.children;
+
+			const worktrees = await child.repo.getWorktrees();
+			if (worktrees.length === 0) {
+				this.view.message = 'No worktrees could be found.';
+				this.view.title = 'Worktrees';
+
+				void child.ensureSubscription();
+
+				return [];
+			}
+
+			this.view.message = undefined;
+			this.view.title = `Worktrees (${worktrees.length})`;
+
+			return child.getChildren();
+		}
+
+		return this.children;
+	}
+
+	getTreeItem(): TreeItem {
+		const item = new TreeItem('Worktrees', TreeItemCollapsibleState.Expanded);
+		return item;
+	}
+
+	async getSplattedChild() {
+		if (this.children == null) {
+			await this.getChildren();
+		}
+
+		return this.children?.length === 1 ? this.children[0] : undefined;
+	}
+
+	@gate()
+	@debug()
+	refresh(reset: boolean = false) {
+		if (reset && this.children != null) {
+			for (const child of this.children) {
+				child.dispose();
+			}
+			this.children = undefined;
+		}
+	}
+}
+
+export class WorktreesView extends ViewBase<WorktreesViewNode, WorktreesViewConfig> {
+	protected readonly configKey = 'worktrees';
+
+	constructor() {
+		super('gitlens.views.worktrees', 'Worktrees');
+	}
+
+	getRoot() {
+		return new WorktreesViewNode(this);
+	}
+
+	protected registerCommands() {
+		void Container.viewCommands;
+
+		commands.registerCommand(
+			this.getQualifiedCommand('copy'),
+			() => commands.executeCommand('gitlens.views.copy', this.selection),
+			this,
+		);
+		commands.registerCommand(this.getQualifiedCommand('refresh'), () => this.refresh(true), this);
+		commands.registerCommand(
+			this.getQualifiedCommand('setFilesLayoutToAuto'),
+			() => this.setFilesLayout(ViewFilesLayout.Auto),
+			this,
+		);
+		commands.registerCommand(
+			this.getQualifiedCommand('setFilesLayoutToList'),
+			() => this.setFilesLayout(ViewFilesLayout.List),
+			this,
+		);
+		commands.registerCommand(
+			this.getQualifiedCommand('setFilesLayoutToTree'),
+			() => this.setFilesLayout(ViewFilesLayout.Tree),
+			this,
+		);
+		commands.registerCommand(this.getQualifiedCommand('setShowAvatarsOn'), () => this.setShowAvatars(true), this);
+		commands.registerCommand(this.getQualifiedCommand('setShowAvatarsOff'), () => this.setShowAvatars(false), this);
+	}
+
+	protected filterConfigurationChanged(e: ConfigurationChangeEvent) {
+		const changed = super.filterConfigurationChanged(e);
+		if (
+			!changed &&
+			!configuration.changed(e, 'defaultDateFormat') &&
+			!configuration.changed(e, 'defaultDateShortFormat') &&
+			!configuration.changed(e, 'defaultDateSource') &&
+			!configuration.changed(e, 'defaultDateStyle') &&
+			!configuration.changed(e, 'defaultGravatarsStyle') &&
+			!configuration.changed(e, 'defaultTimeFormat')
+		) {
+			return false;
+		}
+
+		return true;
+	}
+
+	private setFilesLayout(layout: ViewFilesLayout) {
+		return configuration.updateEffective('views', this.configKey, 'files', 'layout', layout);
+	}
+
+	private setShowAvatars(enabled: boolean) {
+		return configuration.updateEffective('views', this.configKey, 'avatars', enabled);
+	}
+}
@@ -0,0 +1,409 @@
+'use strict';
+/*global document window*/
+import '../scss/graph.scss';
+import {
+	GraphCommit,
+	GraphCommitAction,
+	GraphDidChangeNotificationType,
+	GraphDidRequestMoreCommandType,
+	GraphDidRunCommitActionCommandType,
+	GraphDidSearchCommandType,
+	GraphDidSearchNotificationType,
+	GraphState,
+	onIpcNotification,
+} from '../../protocol';
+import { App } from '../shared/appBase';
+import { DOM } from '../shared/dom';
+
+const laneColors = 8;
+const laneWidth = 16;
+const rowHeight = 28;
+const nodeRadius = 4;
+const svgNamespace = 'http://www.w3.org/2000/svg';
+
+interface GraphRow {
+	readonly commit: GraphCommit;
+	// The lane of the commit's node
+	readonly column: number;
+	// The lanes which end at the commit's node (i.e. its children)
+	readonly incoming: number[];
+	// The lanes which start at the commit's node (i.e. its parents)
+	readonly outgoing: number[];
+	// The lanes which pass by the commit's node
+	readonly passing: number[];
+	readonly lanes: number;
+}
+
+class GraphApp extends App<GraphState> {
+	// eslint-disable-next-line no-template-curly-in-string
+	private readonly commitTokenRegex = new RegExp(encodeURIComponent('${commit}'));
+
+	private loading = false;
+	private matches = new Set<string>();
+	private matchIndex = -1;
+	private menuSha: string | undefined;
+
+	constructor() {
+		super('GraphApp', (window as any).bootstrap);
+		(window as any).bootstrap = undefined;
+	}
+
+	protected onInitialize() {
+		this.refresh(this.state);
+	}
+
+	protected onBind() {
+		const disposables = super.onBind?.() ?? [];
+
+		// eslint-disable-next-line @typescript-eslint/no-this-alias
+		const me = this;
+
+		disposables.push(
+			DOM.on(window, 'scroll', () => {
+				this.hideMenu();
+				this.ensureFilled();
+			}),
+			DOM.on(window, 'resize', () => this.ensureFilled()),
+			DOM.on(document, 'mousedown', (e: MouseEvent) => {
+				if ((e.target as HTMLElement).closest('#menu') == null) {
+					this.hideMenu();
+				}
+			}),
+			DOM.on(window, 'keydown', (e: KeyboardEvent) => {
+				if (e.key === 'Escape') {
+					this.hideMenu();
+				} else if (e.key === 'F3' || ((e.ctrlKey || e.metaKey) && e.key === 'g')) {
+					e.preventDefault();
+
+					this.goToMatch(e.shiftKey ? -1 : 1);
+				}
+			}),
+			DOM.on('#search', 'keydown', (e: KeyboardEvent) => {
+				if (e.key !== 'Enter') return;
+
+				const pattern = (e.target as HTMLInputElement).value.trim();
+				if (pattern === (this.state.search?.pattern ?? '')) {
+					this.goToMatch(e.shiftKey ? -1 : 1);
+
+					return;
+				}
+
+				this.search(pattern);
+			}),
+			DOM.on('#search', 'input', (e: Event) => {
+				// Clearing the search box should also clear the search
+				if ((e.target as HTMLInputElement).value.length === 0) {
+					this.search('');
+				}
+			}),
+			DOM.on('#rows', 'contextmenu', (e: MouseEvent) => {
+				const $row = (e.target as HTMLElement).closest<HTMLLIElement>('li[data-sha]');
+				if ($row == null) return;
+
+				e.preventDefault();
+
+				this.showMenu($row.dataset.sha!, e.clientX, e.clientY);
+			}),
+			DOM.on('.menu-item', 'click', function (this: HTMLLIElement) {
+				const action = this.dataset.action as GraphCommitAction | undefined;
+				if (action != null && me.menuSha != null) {
+					me.sendCommand(GraphDidRunCommitActionCommandType, { action: action, sha: me.menuSha });
+				}
+
+				me.hideMenu();
+			}),
+		);
+
+		return disposables;
+	}
+
+	protected onMessageReceived(e: MessageEvent) {
+		const msg = e.data;
+
+		switch (msg.method) {
+			case GraphDidChangeNotificationType.method:
+				onIpcNotification(GraphDidChangeNotificationType, msg, params => {
+					this.loading = false;
+
+					this.setState({ ...this.state, ...params });
+					this.refresh(this.state);
+				});
+				break;
+
+			case GraphDidSearchNotificationType.method:
+				onIpcNotification(GraphDidSearchNotificationType, msg, params => {
+					this.setState({ ...this.state, search: params.search });
+					this.refreshSearch(this.state);
+
+					this.matchIndex = -1;
+					this.goToMatch(1);
+				});
+				break;
+
+			default:
+				super.onMessageReceived?.(e);
+		}
+	}
+
+	private ensureFilled() {
+		if (this.loading || !this.state.hasMore) return;
+
+		// Load more commits once we get close to the end of the graph
+		if (window.innerHeight + window.scrollY < document.body.offsetHeight - rowHeight * 10) return;
+
+		this.loading = true;
+		document.getElementById('loading')!.classList.remove('hidden');
+
+		this.sendCommand(GraphDidRequestMoreCommandType, {});
+	}
+
+	private goToMatch(direction: 1 | -1) {
+		const $rows = [...document.querySelectorAll<HTMLLIElement>('li.row--match')];
+		if ($rows.length === 0) return;
+
+		this.matchIndex = (this.matchIndex + direction + $rows.length) % $rows.length;
+
+		const $row = $rows[this.matchIndex];
+		$row.scrollIntoView({ block: 'center' });
+		$row.focus();
+	}
+
+	private search(pattern: string) {
+		this.sendCommand(GraphDidSearchCommandType, { pattern: pattern });
+	}
+
+	private hideMenu() {
+		this.menuSha = undefined;
+		document.getElementById('menu')!.classList.add('hidden');
+	}
+
+	private showMenu(sha: string, x: number, y: number) {
+		this.menuSha = sha;
+
+		const $menu = document.getElementById('menu')!;
+		$menu.classList.remove('hidden');
+
+		// Keep the menu within the window
+		$menu.style.left = `${Math.min(x, window.innerWidth - $menu.offsetWidth) + window.scrollX}px`;
+		$menu.style.top = `${Math.min(y, window.innerHeight - $menu.offsetHeight) + window.scrollY}px`;
+	}
+
+	private refresh(state: GraphState) {
+		const $subhead = document.getElementById('subhead')! as HTMLHeadingElement;
+		$subhead.innerText = `${state.repoName} • ${state.commits.length}${state.hasMore ? '+' : ''} commit${
+			state.commits.length !== 1 || state.hasMore ? 's' : ''
+		}`;
+
+		const $search = document.getElementById('search')! as HTMLInputElement;
+		if (document.activeElement !== $search) {
+			$search.value = state.search?.pattern ?? '';
+		}
+
+		document.getElementById('loading')!.classList.toggle('hidden', !this.loading);
+
+		const $container = document.getElementById('rows')!;
+		$container.innerHTML = '';
+
+		if (state.commits.length === 0) {
+			const $el = document.createElement('h3');
+			$el.innerText = 'No commits could be found';
+			$container.appendChild($el);
+
+			return;
+		}
+
+		const rows = layout(state.commits);
+		const lanes = rows.reduce((max, r) => Math.max(max, r.lanes), 0);
+
+		for (const row of rows) {
+			$container.appendChild(this.createRow(row, lanes, state));
+		}
+
+		this.refreshSearch(state);
+
+		// Make sure there are enough commits to scroll, otherwise we'll never load more
+		requestAnimationFrame(() => this.ensureFilled());
+	}
+
+	private refreshSearch(state: GraphState) {
+		this.matches = new Set(state.search?.shas);
+
+		const $container = document.getElementById('rows')!;
+		$container.classList.toggle('rows--searching', state.search != null);
+
+		let loaded = 0;
+		for (const $row of document.querySelectorAll<HTMLLIElement>('li[data-sha]')) {
+			const match = this.matches.has($row.dataset.sha!);
+			if (match) {
+				loaded++;
+			}
+			$row.classList.toggle('row--match', match);
+		}
+
+		const $count = document.getElementById('search-count')!;
+		if (state.search == null) {
+			$count.innerText = '';
+
+			return;
+		}
+
+		const count = `${state.search.shas.length}${state.search.hasMore ? '+' : ''}`;
+		$count.innerText = `${count} match${state.search.shas.length !== 1 ? 'es' : ''}${
+			loaded < state.search.shas.length ? ` (${loaded} shown)` : ''
+		}`;
+	}
+
+	private createRow(row: GraphRow, lanes: number, state: GraphState): HTMLLIElement {
+		const { commit } = row;
+
+		const $row = document.createElement('li');
+		$row.classList.add('row');
+		$row.dataset.sha = commit.sha;
+		$row.tabIndex = -1;
+
+		$row.appendChild(createGraph(row, lanes));
+
+		const $refs = document.createElement('span');
+		$refs.classList.add('row-refs');
+		for (const ref of commit.refs) {
+			const $ref = document.createElement('span');
+			$ref.classList.add('ref', `ref--${ref.type}`);
+			if (ref.current) {
+				$ref.classList.add('ref--current');
+			}
+			$ref.innerText = ref.name;
+			$refs.appendChild($ref);
+		}
+		$row.appendChild($refs);
+
+		const $message = document.createElement('span');
+		$message.classList.add('row-message');
+		$message.innerText = commit.message.split('\n')[0];
+		$message.title = commit.message;
+		$row.appendChild($message);
+
+		const $author = document.createElement('span');
+		$author.classList.add('row-author');
+		$author.innerText = commit.author;
+		$row.appendChild($author);
+
+		const $date = document.createElement('span');
+		$date.classList.add('row-date');
+		$date.innerText = commit.dateFromNow;
+		$date.title = commit.date;
+		$row.appendChild($date);
+
+		const $sha = document.createElement('a');
+		$sha.classList.add('row-sha');
+		$sha.href = state.commands.commit.replace(this.commitTokenRegex, commit.sha);
+		$sha.innerText = commit.sha.substr(0, 7);
+		$row.appendChild($sha);
+
+		return $row;
+	}
+}
+
+function layout(commits: GraphCommit[]): GraphRow[] {
+	// The sha of the commit each lane is heading towards
+	const lanes: (string | undefined)[] = [];
+
+	const getFreeLane = () => {
+		const index = lanes.indexOf(undefined);
+		return index === -1 ? lanes.length : index;
+	};
+
+	const rows: GraphRow[] = [];
+
+	for (const commit of commits) {
+		const incoming: number[] = [];
+		const passing: number[] = [];
+
+		for (let i = 0; i < lanes.length; i++) {
+			if (lanes[i] == null) continue;
+
+			if (lanes[i] === commit.sha) {
+				incoming.push(i);
+				lanes[i] = undefined;
+			} else {
+				passing.push(i);
+			}
+		}
+
+		// Start a new lane for commits without any (loaded) children, e.g. branch tips
+		const column = incoming.length !== 0 ? incoming[0] : getFreeLane();
+
+		const outgoing: number[] = [];
+		for (const [index, parent] of commit.parents.entries()) {
+			// Join the lane of the parent, if something else is already heading towards it
+			let lane = lanes.indexOf(parent);
+			if (lane === -1) {
+				lane = index === 0 && lanes[column] == null ? column : getFreeLane();
+				lanes[lane] = parent;
+			}
+
+			outgoing.push(lane);
+		}
+
+		while (lanes.length !== 0 && lanes[lanes.length - 1] == null) {
+			lanes.pop();
+		}
+
+		rows.push({
+			commit: commit,
+			column: column,
+			incoming: incoming,
+			outgoing: outgoing,
+			passing: passing,
+			lanes: Math.max(column, ...incoming, ...outgoing, ...passing) + 1,
+		});
+	}
+
+	return rows;
+}
+
+function createGraph(row: GraphRow, lanes: number): SVGSVGElement {
+	const $svg = document.createElementNS(svgNamespace, 'svg');
+	$svg.classList.add('row-graph');
+	$svg.setAttribute('width', String(lanes * laneWidth));
+	$svg.setAttribute('height', String(rowHeight));
+
+	const getX = (lane: number) => lane * laneWidth + laneWidth / 2;
+	const x = getX(row.column);
+	const y = rowHeight / 2;
+
+	for (const lane of row.passing) {
+		$svg.appendChild(createEdge(lane, getX(lane), 0, getX(lane), rowHeight));
+	}
+
+	for (const lane of row.incoming) {
+		$svg.appendChild(createEdge(lane, getX(lane), 0, x, y));
+	}
+
+	for (const lane of row.outgoing) {
+		$svg.appendChild(createEdge(lane, x, y, getX(lane), rowHeight));
+	}
+
+	const $node = document.createElementNS(svgNamespace, 'circle');
+	$node.classList.add('node', `lane-${row.column % laneColors}`);
+	if (row.commit.parents.length > 1) {
+		$node.classList.add('node--merge');
+	}
+	$node.setAttribute('cx', String(x));
+	$node.setAttribute('cy', String(y));
+	$node.setAttribute('r', String(nodeRadius));
+	$svg.appendChild($node);
+
+	return $svg;
+}
+
+function createEdge(lane: number, x1: number, y1: number, x2: number, y2: number): SVGPathElement {
+	const $edge = document.createElementNS(svgNamespace, 'path');
+	$edge.classList.add('edge', `lane-${lane % laneColors}`);
+
+	const midY = (y1 + y2) / 2;
+	$edge.setAttribute('d', `M ${x1} ${y1} C ${x1} ${midY}, ${x2} ${midY}, ${x2} ${y2}`);
+
+	return $edge;
+}
+
+new GraphApp();
@@ -0,0 +1,255 @@
+'use strict';
+import { Disposable, Uri } from 'vscode';
+import { Commands, getRepoPathOrActiveOrPrompt, GitActions, ShowQuickCommitCommand } from '../commands';
+import { Container } from '../container';
+import {
+	GitBranch,
+	GitLog,
+	GitReference,
+	GitTag,
+	Repository,
+	RepositoryChange,
+	RepositoryChangeEvent,
+} from '../git/git';
+import { Logger } from '../logger';
+import { Arrays, debug } from '../system';
+import {
+	GraphCommit,
+	GraphDidChangeNotificationParams,
+	GraphDidChangeNotificationType,
+	GraphDidRequestMoreCommandType,
+	GraphDidRunCommitActionCommandParams,
+	GraphDidRunCommitActionCommandType,
+	GraphDidSearchCommandType,
+	GraphDidSearchNotificationType,
+	GraphRef,
+	GraphSearchResults,
+	GraphState,
+	IpcMessage,
+	onIpcCommand,
+} from './protocol';
+import { WebviewBase } from './webviewBase';
+
+export class GraphWebview extends WebviewBase {
+	private _log: GitLog | undefined;
+	private _repository: Repository | undefined;
+	private _repositoryDisposable: Disposable | undefined;
+	private _search: GraphSearchResults | undefined;
+
+	constructor() {
+		super(Commands.ShowCommitGraph);
+	}
+
+	dispose() {
+		this._repositoryDisposable?.dispose();
+		super.dispose();
+	}
+
+	get filename(): string {
+		return 'graph.html';
+	}
+
+	get id(): string {
+		return 'gitlens.graph';
+	}
+
+	get title(): string {
+		return 'Commit Graph';
+	}
+
+	protected async onShowCommand(uri?: Uri) {
+		const repoPath = await getRepoPathOrActiveOrPrompt(
+			uri instanceof Uri ? uri : undefined,
+			undefined,
+			'Show Commit Graph',
+		);
+		if (repoPath == null) return;
+
+		const repo = await Container.git.getRepository(repoPath);
+		if (repo == null) return;
+
+		this.setRepository(repo);
+		super.onShowCommand();
+	}
+
+	protected onMessageReceived(e: IpcMessage) {
+		switch (e.method) {
+			case GraphDidRequestMoreCommandType.method:
+				onIpcCommand(GraphDidRequestMoreCommandType, e, _params => this.onMoreRequested());
+
+				break;
+
+			case GraphDidSearchCommandType.method:
+				onIpcCommand(GraphDidSearchCommandType, e, params => this.onSearchRequested(params.pattern));
+
+				break;
+
+			case GraphDidRunCommitActionCommandType.method:
+				onIpcCommand(GraphDidRunCommitActionCommandType, e, params => this.onCommitActionRequested(params));
+
+				break;
+
+			default:
+				super.onMessageReceived(e);
+
+				break;
+		}
+	}
+
+	async renderEndOfBody() {
+		const repoPath = this._repository!.path;
+
+		const bootstrap: GraphState = {
+			...(await this.getChangeParams()),
+			search: this._search,
+			commands: {
+				// eslint-disable-next-line no-template-curly-in-string
+				commit: ShowQuickCommitCommand.getMarkdownCommandArgs('${commit}', repoPath),
+			},
+		};
+		return `<script type="text/javascript" nonce="Z2l0bGVucy1ib290c3RyYXA=">window.bootstrap = ${JSON.stringify(
+			bootstrap,
+		)};</script>`;
+	}
+
+	private setRepository(repo: Repository) {
+		if (repo === this._repository) return;
+
+		this._repositoryDisposable?.dispose();
+
+		this._repository = repo;
+		this._repositoryDisposable = repo.onDidChange(this.onRepositoryChanged, this);
+		this._log = undefined;
+		this._search = undefined;
+	}
+
+	private async onRepositoryChanged(e: RepositoryChangeEvent) {
+		if (
+			!e.changed(RepositoryChange.Heads) &&
+			!e.changed(RepositoryChange.Remotes) &&
+			!e.changed(RepositoryChange.Tags) &&
+			!e.changed(RepositoryChange.Unknown)
+		) {
+			return;
+		}
+
+		Logger.debug(`GraphWebview.onRepositoryChanged(${e.changes.join()}); refreshing the graph`);
+
+		this._log = undefined;
+		void (await this.notify(GraphDidChangeNotificationType, await this.getChangeParams()));
+
+		if (this._search != null) {
+			void (await this.onSearchRequested(this._search.pattern));
+		}
+	}
+
+	@debug()
+	private async onMoreRequested() {
+		if (this._log?.more == null) return;
+
+		this._log = await this._log.more(undefined);
+		void (await this.notify(GraphDidChangeNotificationType, await this.getChangeParams()));
+	}
+
+	@debug()
+	private async onSearchRequested(pattern: string) {
+		if (this._repository == null) return;
+
+		if (!pattern) {
+			this._search = undefined;
+		} else {
+			const log = await Container.git.getLogForSearch(this._repository.path, { pattern: pattern });
+			this._search = {
+				pattern: pattern,
+				shas: log != null ? [...log.commits.keys()] : [],
+				hasMore: log?.hasMore ?? false,
+			};
+		}
+
+		void (await this.notify(GraphDidSearchNotificationType, { search: this._search }));
+	}
+
+	@debug()
+	private async onCommitActionRequested({ action, sha }: GraphDidRunCommitActionCommandParams) {
+		if (this._repository == null) return;
+
+		const repoPath = this._repository.path;
+		const commit = this._log?.commits.get(sha);
+		const ref = GitReference.create(sha, repoPath, { refType: 'revision', message: commit?.message });
+
+		switch (action) {
+			case 'cherryPick':
+				void (await GitActions.cherryPick(repoPath, ref));
+				break;
+
+			case 'compareWithHead':
+				void (await Container.searchAndCompareView.compare(repoPath, sha, 'HEAD'));
+				break;
+
+			case 'compareWithWorking':
+				void (await Container.searchAndCompareView.compare(repoPath, sha, ''));
+				break;
+
+			case 'copySha':
+				void (await GitActions.Commit.copyIdToClipboard({ repoPath: repoPath, ref: sha }));
+				break;
+
+			case 'createBranch':
+				void (await GitActions.Branch.create(repoPath, ref));
+				break;
+
+			case 'createTag':
+				void (await GitActions.Tag.create(repoPath, ref));
+				break;
+
+			case 'revert':
+				void (await GitActions.revert(repoPath, ref));
+				break;
+		}
+	}
+
+	private async getChangeParams(): Promise<GraphDidChangeNotificationParams> {
+		const repo = this._repository!;
+
+		const [log, branches, tags] = await Promise.all([
+			this._log ?? Container.git.getLog(repo.path, { all: true }),
+			Container.git.getBranches(repo.path),
+			Container.git.getTags(repo.path),
+		]);
+		this._log = log;
+
+		const refsBySha = Arrays.groupByFilterMap<string, GitBranch | GitTag, GraphRef>(
+			[...branches, ...tags],
+			r => r.sha!,
+			r => {
+				if (r.refType === 'tag') return { name: r.name, type: 'tag', current: false };
+				// Skip the symbolic refs of the remotes' default branches (e.g. origin/HEAD)
+				if (r.remote && r.name.endsWith('/HEAD')) return undefined;
+
+				return { name: r.name, type: r.remote ? 'remote' : 'head', current: r.current };
+			},
+		);
+
+		const commits: GraphCommit[] = [];
+		if (log != null) {
+			for (const commit of log.commits.values()) {
+				commits.push({
+					sha: commit.sha,
+					parents: commit.parentShas ?? [],
+					author: commit.author,
+					date: commit.formatDate(Container.config.defaultDateFormat),
+					dateFromNow: commit.formatDateFromNow(),
+					message: commit.message,
+					refs: refsBySha.get(commit.sha) ?? [],
+				});
+			}
+		}
+
+		return {
+			repoPath: repo.path,
+			repoName: repo.formattedName,
+			commits: commits,
+			hasMore: log?.hasMore ?? false,
+		};
+	}
+}
@@ -162,3 +162,73 @@ export interface RebaseState extends RebaseDidChangeNotificationParams {
 		commit: string;
 	};
 }
+
+export type GraphRefType = 'head' | 'remote' | 'tag';
+
+export interface GraphRef {
+	readonly name: string;
+	readonly type: GraphRefType;
+	readonly current: boolean;
+}
+
+export interface GraphCommit {
+	readonly sha: string;
+	readonly parents: string[];
+	readonly author: string;
+	readonly date: string;
+	readonly dateFromNow: string;
+	readonly message: string;
+	readonly refs: GraphRef[];
+}
+
+export interface GraphSearchResults {
+	readonly pattern: string;
+	readonly shas: string[];
+	readonly hasMore: boolean;
+}
+
+export interface GraphDidChangeNotificationParams {
+	repoPath: string;
+	repoName: string;
+	commits: GraphCommit[];
+	hasMore: boolean;
+}
+export const GraphDidChangeNotificationType = new IpcNotificationType<GraphDidChangeNotificationParams>('graph/change');
+
+export interface GraphDidSearchNotificationParams {
+	search: GraphSearchResults | undefined;
+}
+export const GraphDidSearchNotificationType = new IpcNotificationType<GraphDidSearchNotificationParams>(
+	'graph/didSearch',
+);
+
+export const GraphDidRequestMoreCommandType = new IpcCommandType('graph/more');
+
+export interface GraphDidSearchCommandParams {
+	pattern: string;
+}
+export const GraphDidSearchCommandType = new IpcCommandType<GraphDidSearchCommandParams>('graph/search');
+
+export type GraphCommitAction =
+	| 'cherryPick'
+	| 'compareWithHead'
+	| 'compareWithWorking'
+	| 'copySha'
+	| 'createBranch'
+	| 'createTag'
+	| 'revert';
+
+export interface GraphDidRunCommitActionCommandParams {
+	action: GraphCommitAction;
+	sha: string;
+}
+export const GraphDidRunCommitActionCommandType = new IpcCommandType<GraphDidRunCommitActionCommandParams>(
+	'graph/commit/action',
+);
+
+export interface GraphState extends GraphDidChangeNotificationParams {
+	search: GraphSearchResults | undefined;
+	commands: {
+		commit: string;
+	};
+}
@@ -241,6 +241,34 @@ function getWebviewsConfig(mode, _env) {
 		new MiniCssExtractPlugin({
 			filename: '[name].css',
 		}),
+		new HtmlPlugin({
+			template: 'graph/graph.html',
+			chunks: ['graph'],
+			filename: path.join(__dirname, 'dist', 'webviews', 'graph.html'),
+			inject: true,
+			inlineSource: mode === 'production' ? '.css$' : undefined,
+			cspPlugin: {
+				enabled: true,
+				policy: cspPolicy,
+				nonceEnabled: {
+					'script-src': true,
+					'style-src': true,
+				},
+			},
+			minify:
+				mode === 'production'
+					? {
+							removeComments: true,
+							collapseWhitespace: true,
+							removeRedundantAttributes: false,
+							useShortDoctype: true,
+							removeEmptyAttributes: true,
+							removeStyleLinkTypeAttributes: true,
+							keepClosingSlash: true,
+							minifyCSS: true,
+					  }
+					: false,
+		}),
 		new HtmlPlugin({
 			template: 'rebase/rebase.html',
 			chunks: ['rebase'],
@@ -371,6 +399,7 @@ function getWebviewsConfig(mode, _env) {
 		name: 'webviews',
 		context: basePath,
 		entry: {
+			graph: './graph/graph.ts',
 			rebase: './rebase/rebase.ts',
 			settings: './settings/settings.ts',
 			welcome: './welcome/welcome.ts',